@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { Ingredient } from '@/types/recipe';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { exportCart, getCartProvider, recordCartExport, validateCartExportRequest } from '@/lib/cartProvider';
+
+// GET retailers the configured cart provider can hand a list off to
+export async function GET() {
+  try {
+    const provider = getCartProvider();
+
+    return Response.json({
+      success: true,
+      provider: provider.id,
+      retailers: await provider.listRetailers()
+    });
+
+  } catch (error) {
+    console.error('Cart retailers GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { retailerId, ingredients } - build a retailer cart from a shopping list
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationError = validateCartExportRequest(body);
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const provider = getCartProvider();
+    const requested: Ingredient[] = body.ingredients.map((ingredient: any) => ({
+      name: ingredient.name.trim(),
+      amount: ingredient.amount,
+      unit: ingredient.unit || ''
+    }));
+
+    const cart = await exportCart(body.retailerId, requested, provider);
+    if (!cart) {
+      return Response.json(
+        { success: false, error: `Unknown retailer: ${body.retailerId}` },
+        { status: 400 }
+      );
+    }
+
+    console.log('🛒 Exported', requested.length - cart.unmatched.length, 'of', requested.length, 'items to', cart.retailer.name, 'via', provider.id);
+
+    // Signed-in exports are kept so unmatched items can be reviewed later
+    const authUser = await getAuthUser(request);
+    if (authUser) {
+      await recordCartExport(createSupabaseServerClient(), authUser.userId, cart, requested.length);
+    }
+
+    return Response.json({
+      success: true,
+      cart
+    });
+
+  } catch (error) {
+    console.error('Cart export error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
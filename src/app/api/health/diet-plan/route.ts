@@ -4,6 +4,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { generateDietPlanWithAI } from '@/lib/ai-diet-generator';
 import { getAuthUser } from '@/lib/auth';
 import { createSupabaseServerClient } from '@/lib/supabase';
+import { checkDietPlanBudget, loadWeeklyBudget } from '@/lib/budget';
+import { refreshNutrientTargets } from '@/lib/nutrientTargets';
 
 // Get user session using the correct auth function
 async function getUserSession(request: NextRequest) {
@@ -103,10 +105,15 @@ export async function GET(request: NextRequest) {
 
     // Transform the data into the expected format
     const transformedPlan = transformDietPlanData(dietPlan);
+    const budgetCheck = checkDietPlanBudget(
+      transformedPlan.shoppingList,
+      dietPlan.preferences?.budgetRange || { min: 5, max: 15 },
+      authUser ? await loadWeeklyBudget(supabase, authUser.userId) : null
+    );
 
     return NextResponse.json({ 
       success: true, 
-      data: transformedPlan 
+      data: { ...transformedPlan, budgetCheck }
     });
 
   } catch (error) {
@@ -179,6 +186,17 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
+    // Weigh the plan against its per-serving range and, when signed in, the rest of the week with this plan in it
+    const budgetCheck = checkDietPlanBudget(
+      result.data.shoppingList || [],
+      params.preferences.budgetRange,
+      authUser ? await loadWeeklyBudget(supabase, authUser.userId, { dietPlanShoppingList: result.data.shoppingList || [] }) : null,
+      result.data.metadata.costBreakdown?.weeklyTotal
+    );
+    if (!budgetCheck.withinBudget) {
+      console.log('💸 Diet plan is over budget:', budgetCheck.warnings.join(' '));
+    }
+
     console.log('✅ Diet plan generated successfully, saving to database...');
 
     // Check if database is available before saving
@@ -199,6 +217,7 @@ export async function POST(request: NextRequest) {
         ...result.data,
         id: `temp-${Date.now()}`,
         overview: `Personalized ${body.goalType || 'maintenance'} diet plan created for your health profile.`,
+        budgetCheck,
         metadata: {
           ...result.data.metadata,
           timestamp: new Date().toISOString(),
@@ -257,6 +276,11 @@ export async function POST(request: NextRequest) {
         savedPlan = planData;
         console.log('💾 Diet plan saved successfully, ID:', savedPlan.id);
 
+        // The new plan's goal and conditions replace the old plan's in the daily targets
+        if (authUser) {
+          await refreshNutrientTargets(supabase, authUser.userId);
+        }
+
         // Save meal plan days if database save was successful
         if (result.data.mealPlan?.dailyMeals && savedPlan) {
           try {
@@ -346,6 +370,7 @@ export async function POST(request: NextRequest) {
       ...result.data,
       id: savedPlan?.id || `temp-${Date.now()}`,
       overview: `Personalized ${params.goalType} diet plan created for your health profile with ${params.healthConditions.length} health condition(s) and ${params.allergens.length} allergen(s) considered.`,
+      budgetCheck,
       metadata: {
         ...result.data.metadata,
         timestamp: new Date().toISOString(),
@@ -2,6 +2,21 @@
 import { NextRequest } from 'next/server';
 import { getAuthUser } from '@/lib/auth';
 import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchFoodLog } from '@/lib/foodLog';
+import { HIGH_GLYCEMIC_LOAD, LOW_GLYCEMIC_LOAD, MIN_GLYCEMIC_COVERAGE, summarizeMealLoads } from '@/lib/glycemic';
+import { analyzeRecipeNutrition, toAnalyzableIngredients } from '@/lib/nutrition';
+
+// How far back to look at logged meals, and how many meals it takes to say anything about them
+const GLYCEMIC_LOOKBACK_DAYS = 14;
+const MIN_MEALS_FOR_GLYCEMIC_INSIGHT = 3;
+// A pattern rather than the odd treat: a third or more of meals at a high load
+const HIGH_LOAD_MEAL_SHARE = 1 / 3;
+
+interface MealLoad {
+  label: string;
+  glycemicLoad: number;
+  rated: boolean; // false when part of the meal couldn't be rated, so the load may be low
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -111,25 +126,30 @@ async function generateHealthInsights(userId: string) {
     // Generate insights based on user data
     const insights = [];
 
-    // Nutrition optimization insights
-    if (profile?.health_conditions?.includes('diabetes') && recentRecipes) {
-      const highCarbRecipes = recentRecipes.filter(r => 
-        r.recipe_data?.nutrition?.carbs > 45
-      ).length;
-      
-      if (highCarbRecipes > 3) {
-        insights.push({
-          type: 'warning',
-          title: 'Carbohydrate Management Alert',
-          message: 'Recent recipe choices show higher carbohydrate intake than recommended for diabetes management.',
-          actions: [
-            'Choose whole grain alternatives',
-            'Focus on non-starchy vegetables',
-            'Consider portion size adjustments',
-            'Review with healthcare provider'
-          ],
-          priority: 'high'
-        });
+    // Nutrition optimization insights: per-meal glycemic load for diabetes, from the food log when
+    // enough meals are logged and from recently viewed recipes otherwise
+    const hasDiabetes = Array.isArray(profile?.health_conditions) &&
+      profile.health_conditions.some((condition: unknown) => typeof condition === 'string' && /diabet/i.test(condition));
+    if (hasDiabetes) {
+      const today = new Date();
+      const loggedMeals = summarizeMealLoads(await fetchFoodLog(supabase, userId, {
+        start: new Date(today.getTime() - GLYCEMIC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+        end: today.toISOString().slice(0, 10)
+      }));
+
+      const glycemicInsight = loggedMeals.length >= MIN_MEALS_FOR_GLYCEMIC_INSIGHT
+        ? glycemicLoadInsight(
+            loggedMeals.map(meal => ({
+              label: `${meal.mealSlot} on ${meal.date} (${meal.descriptions.join(', ')})`,
+              glycemicLoad: meal.glycemicLoad,
+              rated: meal.unmatched.length === 0
+            })),
+            'logged meals'
+          )
+        : glycemicLoadInsight(recipeMealLoads(recentRecipes || []), 'recipes you viewed');
+
+      if (glycemicInsight) {
+        insights.push(glycemicInsight);
       }
     }
 
@@ -253,4 +273,74 @@ async function generateHealthInsights(userId: string) {
     console.error('Error generating insights:', errorMessage);
     return [];
   }
-}
\ No newline at end of file
+}
+
+// Per-serving glycemic load of recently viewed recipes, worked out from their ingredients when the card didn't carry it
+function recipeMealLoads(interactions: any[]): MealLoad[] {
+  const loads: MealLoad[] = [];
+  for (const interaction of interactions) {
+    const recipe = interaction.recipe_data;
+    if (!recipe) continue;
+
+    let glycemicLoad: number | undefined = recipe.nutrition?.glycemicLoad;
+    let coverage: number | undefined = recipe.nutrition?.glycemicCoverage;
+    if (typeof glycemicLoad !== 'number' && Array.isArray(recipe.ingredients) && recipe.ingredients.length > 0) {
+      ({ glycemicLoad, coverage } = analyzeRecipeNutrition(toAnalyzableIngredients(recipe.ingredients), Number(recipe.servings) || 1).glycemic);
+    }
+    if (typeof glycemicLoad === 'number') {
+      loads.push({ label: recipe.title || 'a recipe', glycemicLoad, rated: (coverage ?? 0) >= MIN_GLYCEMIC_COVERAGE });
+    }
+  }
+  return loads;
+}
+
+function glycemicLoadInsight(meals: MealLoad[], source: string) {
+  if (meals.length < MIN_MEALS_FOR_GLYCEMIC_INSIGHT) return null;
+
+  const highMeals = meals.filter(meal => meal.glycemicLoad >= HIGH_GLYCEMIC_LOAD);
+  const average = Math.round(meals.reduce((sum, meal) => sum + meal.glycemicLoad, 0) / meals.length);
+  const highest = meals.reduce((top, meal) => meal.glycemicLoad > top.glycemicLoad ? meal : top);
+
+  if (highMeals.length >= meals.length * HIGH_LOAD_MEAL_SHARE || average >= HIGH_GLYCEMIC_LOAD) {
+    return {
+      type: 'warning',
+      title: 'Glycemic Load Alert',
+      message: `${highMeals.length} of your last ${meals.length} ${source} had a high glycemic load (${HIGH_GLYCEMIC_LOAD} or more), averaging ${average} per meal. The highest was ${highest.label} at ${highest.glycemicLoad}.`,
+      actions: [
+        'Pair starchy foods with protein, healthy fat or fiber',
+        'Swap white rice, potatoes and white bread for legumes or whole grains',
+        'Split large carbohydrate portions across meals',
+        'Review with healthcare provider'
+      ],
+      priority: 'high'
+    };
+  }
+
+  if (highMeals.length > 0) {
+    return {
+      type: 'recommendation',
+      title: 'Glycemic Load Check',
+      message: `Most of your last ${meals.length} ${source} kept a moderate glycemic load (average ${average}), but ${highMeals.length === 1 ? 'one' : highMeals.length} reached ${HIGH_GLYCEMIC_LOAD} or more - the highest was ${highest.label} at ${highest.glycemicLoad}.`,
+      actions: [
+        'Check portion sizes of starchy sides',
+        'Add non-starchy vegetables to higher-carb meals',
+        'Monitor blood sugar after similar meals'
+      ],
+      priority: 'medium'
+    };
+  }
+
+  // Nothing high, but a meal with foods we couldn't rate may only look steady
+  if (meals.some(meal => !meal.rated)) return null;
+
+  return {
+    type: 'success',
+    title: 'Steady Glycemic Load',
+    message: `All of your last ${meals.length} ${source} stayed under a glycemic load of ${HIGH_GLYCEMIC_LOAD} (average ${average}${average <= LOW_GLYCEMIC_LOAD ? ', in the low range' : ''}).`,
+    actions: [
+      'Keep building meals around fiber and protein',
+      'Share your meal log with your healthcare provider'
+    ],
+    priority: 'low'
+  };
+}
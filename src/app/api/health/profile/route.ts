@@ -2,6 +2,7 @@
 import { NextRequest } from 'next/server';
 import { getAuthUser } from '@/lib/auth';
 import { createSupabaseServerClient } from '@/lib/supabase';
+import { refreshNutrientTargets } from '@/lib/nutrientTargets';
 
 export async function GET(request: NextRequest) {
   try {
@@ -50,6 +51,8 @@ export async function GET(request: NextRequest) {
       medications: profile?.current_medications || [],
       goal: profile?.health_goal || 'Health Maintenance',
       severity: profile?.severity_levels || {},
+      age: profile?.age ?? null,
+      sex: profile?.sex ?? null,
       lastUpdated: profile?.updated_at || profile?.created_at || new Date().toISOString()
     };
 
@@ -74,6 +77,15 @@ export async function POST(request: NextRequest) {
     const supabase = createSupabaseServerClient();
     const profileData = await request.json();
 
+    if (profileData.age !== undefined && profileData.age !== null &&
+        (!Number.isInteger(profileData.age) || profileData.age <= 0 || profileData.age >= 130)) {
+      return Response.json({ success: false, error: 'Age must be a whole number of years' }, { status: 400 });
+    }
+
+    if (profileData.sex !== undefined && profileData.sex !== null && !['female', 'male'].includes(profileData.sex)) {
+      return Response.json({ success: false, error: 'Sex must be female or male' }, { status: 400 });
+    }
+
     // Upsert user health profile
     const { data, error } = await supabase
       .from('user_health_profiles')
@@ -86,6 +98,9 @@ export async function POST(request: NextRequest) {
           current_medications: profileData.medications || [],
           health_goal: profileData.goal || 'Health Maintenance',
           severity_levels: profileData.severity || {},
+          // A save that leaves age or sex out keeps what's stored
+          ...(profileData.age !== undefined && { age: profileData.age }),
+          ...(profileData.sex !== undefined && { sex: profileData.sex }),
           updated_at: new Date().toISOString()
         }
       ], { onConflict: 'user_id' });
@@ -95,6 +110,9 @@ export async function POST(request: NextRequest) {
       return Response.json({ success: false, error: 'Failed to save profile' }, { status: 500 });
     }
 
+    // Conditions, goal, age and sex all feed the daily nutrient targets
+    await refreshNutrientTargets(supabase, authUser.userId);
+
     return Response.json({
       success: true,
       message: 'Health profile updated successfully'
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { Ingredient } from '@/types/recipe';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { rateLimit } from '@/lib/rate-limit';
+import { comparePrices, getPriceProvider, validatePriceRequestIngredients } from '@/lib/priceProvider';
+import { recordQuotedPrices } from '@/lib/priceHistory';
+
+// How often one user's comparisons can add to the shared price history
+const QUOTE_RECORDING_LIMIT = { window: '1h', max: 20 };
+
+// POST { ingredients, storeIds? } - price the ingredients at each store
+export async function POST(request: NextRequest) {
+  try {
+    const { ingredients, storeIds } = await request.json();
+
+    const validationError = validatePriceRequestIngredients(ingredients);
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (storeIds !== undefined && (!Array.isArray(storeIds) || !storeIds.every((id: unknown) => typeof id === 'string'))) {
+      return Response.json(
+        { success: false, error: 'storeIds must be an array of store ids' },
+        { status: 400 }
+      );
+    }
+
+    const provider = getPriceProvider();
+    const requested: Ingredient[] = ingredients.map((ingredient: any) => ({
+      name: ingredient.name.trim(),
+      amount: ingredient.amount,
+      unit: ingredient.unit || ''
+    }));
+
+    console.log('💲 Comparing prices for', requested.length, 'ingredients via', provider.id);
+
+    const comparisons = await comparePrices(requested, { storeIds, provider });
+
+    // Signed-in users' quotes from a real provider feed the price history behind
+    // trends and deal alerts; anonymous and simulated comparisons are answered but not recorded
+    const authUser = await getAuthUser(request);
+    if (authUser && !provider.simulated) {
+      const limit = await rateLimit(`price-quotes:${authUser.userId}`, QUOTE_RECORDING_LIMIT);
+      if (limit.success) {
+        await recordQuotedPrices(createSupabaseServerClient(), comparisons);
+      } else {
+        console.log('⏳ Skipped recording price quotes for user:', authUser.userId);
+      }
+    }
+
+    return Response.json({
+      success: true,
+      provider: provider.id,
+      comparisons
+    });
+
+  } catch (error) {
+    console.error('Price compare error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
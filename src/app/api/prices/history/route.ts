@@ -0,0 +1,125 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { rateLimit } from '@/lib/rate-limit';
+import { getPriceProvider, getStoreNameLookup } from '@/lib/priceProvider';
+import { normalizeIngredientName } from '@/lib/shoppingList';
+import {
+  OBSERVATION_CONFLICT_COLUMNS,
+  fetchPriceObservations,
+  priceObservationFromRow,
+  priceReportToRow,
+  summarizePriceTrend,
+  validatePriceReport
+} from '@/lib/priceHistory';
+
+// How many prices one user can report; a report only ever feeds their own trends
+const PRICE_REPORT_LIMIT = { window: '1h', max: 30 };
+
+// GET ?ingredient=<name>&storeId=<optional> - recorded prices with trend and deal signals,
+// including the signed-in user's own reports
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+    const searchParams = request.nextUrl.searchParams;
+    const ingredient = searchParams.get('ingredient')?.trim();
+    const storeId = searchParams.get('storeId');
+
+    if (!ingredient) {
+      return Response.json(
+        { success: false, error: 'ingredient parameter required' },
+        { status: 400 }
+      );
+    }
+
+    const ingredientKey = normalizeIngredientName(ingredient);
+    const observations = (await fetchPriceObservations(supabase, [ingredientKey], authUser?.userId ?? null))
+      .filter(observation => !storeId || observation.storeId === storeId);
+
+    const trend = summarizePriceTrend(observations, { storeName: await getStoreNameLookup() });
+
+    return Response.json({
+      success: true,
+      ingredient: ingredientKey,
+      trend,
+      observations
+    });
+
+  } catch (error) {
+    console.error('Price history GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { name, storeId, price, amount, unit, regularPrice?, promotion? } - record a price the user paid
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const limit = await rateLimit(`price-reports:${authUser.userId}`, PRICE_REPORT_LIMIT);
+    if (!limit.success) {
+      return Response.json(
+        { success: false, error: 'Too many price reports, try again later' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter ?? 60) } }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validatePriceReport(body);
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const stores = await getPriceProvider().listStores();
+    if (!stores.some(store => store.id === body.storeId.trim())) {
+      return Response.json(
+        { success: false, error: 'Unknown store' },
+        { status: 400 }
+      );
+    }
+
+    // A second report for the same item, store and day corrects the first
+    const { data: observation, error } = await supabase
+      .from('price_observations')
+      .upsert(priceReportToRow(body, authUser.userId), { onConflict: OBSERVATION_CONFLICT_COLUMNS })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Record price report error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to record price' },
+        { status: 500 }
+      );
+    }
+
+    console.log('🏷️ Price reported for', observation.ingredient_key, 'at', observation.store_id);
+
+    return Response.json({
+      success: true,
+      observation: priceObservationFromRow(observation)
+    });
+
+  } catch (error) {
+    console.error('Price history POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
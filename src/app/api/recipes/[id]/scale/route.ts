@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { RecipeScalingError, scaleRecipe } from '@/lib/recipeScaler';
+import { Recipe } from '@/types/recipe';
+
+const MEASUREMENT_SYSTEMS = ['metric', 'us', 'imperial'];
+
+// POST scale a recipe to a serving count or a key-ingredient amount
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { targetServings, targetIngredient, measurementSystem } = body;
+
+    if (targetServings === undefined && !targetIngredient) {
+      return Response.json(
+        { success: false, error: 'Provide targetServings or targetIngredient' },
+        { status: 400 }
+      );
+    }
+
+    if (targetServings !== undefined && (typeof targetServings !== 'number' || targetServings <= 0)) {
+      return Response.json(
+        { success: false, error: 'targetServings must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (targetIngredient && (typeof targetIngredient.name !== 'string' || typeof targetIngredient.amount !== 'number')) {
+      return Response.json(
+        { success: false, error: 'targetIngredient needs a name and a numeric amount' },
+        { status: 400 }
+      );
+    }
+
+    if (measurementSystem && !MEASUREMENT_SYSTEMS.includes(measurementSystem)) {
+      return Response.json(
+        { success: false, error: `measurementSystem must be one of: ${MEASUREMENT_SYSTEMS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // AI search results are not always saved, so the client may send the recipe itself
+    let recipe: Recipe | null = body.recipe && body.recipe.id === params.id ? body.recipe : null;
+
+    if (!recipe) {
+      const supabase = createSupabaseServerClient();
+      const { data, error } = await supabase
+        .from('recipes')
+        .select('*')
+        .eq('id', params.id)
+        .single();
+
+      if (error || !data) {
+        return Response.json(
+          { success: false, error: 'Recipe not found' },
+          { status: 404 }
+        );
+      }
+      recipe = rowToRecipe(data);
+    }
+
+    const scaledRecipe = scaleRecipe(recipe, { targetServings, targetIngredient, measurementSystem });
+
+    return Response.json({
+      success: true,
+      recipe: scaledRecipe
+    });
+
+  } catch (error) {
+    if (error instanceof RecipeScalingError) {
+      return Response.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Scale recipe error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+function rowToRecipe(row: any): Recipe {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    ingredients: Array.isArray(row.ingredients) ? row.ingredients : [],
+    instructions: Array.isArray(row.instructions)
+      ? row.instructions
+      : typeof row.instructions === 'string' ? row.instructions.split('\n').filter(Boolean) : [],
+    cookingTime: row.cooking_time ?? row.cookingTime ?? 0,
+    servings: row.servings || 4,
+    difficulty: row.difficulty || 'Medium',
+    cuisine: row.cuisine || 'Other',
+    dietary: row.dietary || [],
+    nutrition: row.nutrition || { calories: 0, protein: 0, carbs: 0, fat: 0 },
+    costPerServing: row.cost_per_serving ?? undefined,
+    estimatedCost: row.estimated_cost ?? undefined,
+    image: row.image_url || row.image,
+    rating: row.rating,
+    reviews: row.reviews
+  };
+}
@@ -1,14 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { parseRecipeResponse } from '@/lib/recipeParser';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchExpiringPantryItems, fetchOpenLeftovers, fetchPantryIngredientNames } from '@/lib/pantry';
+import { describeLeftover } from '@/lib/leftovers';
+import { AtRiskIngredient, getAtRiskIngredients, rankRecipesByWasteReduction, toExpiringIngredients } from '@/lib/wasteReduction';
+import { applyTypicalPrices, fetchTypicalPrices } from '@/lib/priceHistory';
+import { loadWeeklyBudget, recipeBudgetImpact } from '@/lib/budget';
+import { loadTargetBudget, recipeTargetFit } from '@/lib/nutrientTargets';
+import { isDateString } from '@/lib/foodLog';
+import { ExpiringIngredient, Leftover } from '@/types/recipe';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
+// Keeps the prompt focused when a pantry holds dozens of items
+const MAX_PANTRY_INGREDIENTS = 15;
+
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, maxResults = 5, ingredients, filters } = await request.json();
+    const { prompt, maxResults = 5, ingredients: requestIngredients, filters, usePantry, expiringIngredients, date } = await request.json();
     
-    console.log('🤖 AI Recipe Search API called with:', { prompt, ingredients, filters });
+    console.log('🤖 AI Recipe Search API called with:', { prompt, ingredients: requestIngredients, filters, usePantry });
+
+    // Seed the search from the saved pantry so ingredients don't need retyping
+    let ingredients: string[] = Array.isArray(requestIngredients)
+      ? requestIngredients.filter((ingredient: unknown): ingredient is string => typeof ingredient === 'string' && ingredient.trim() !== '')
+      : [];
+    let pantryIngredients: string[] = [];
+    let leftovers: Leftover[] = [];
+    const expiringItems: ExpiringIngredient[] = toExpiringIngredients(expiringIngredients);
+    const authUser = await getAuthUser(request);
+    if (usePantry && authUser) {
+      const supabase = createSupabaseServerClient();
+      const typed = new Set(ingredients.map(ingredient => ingredient.toLowerCase()));
+      pantryIngredients = (await fetchPantryIngredientNames(supabase, authUser.userId))
+        .filter(name => !typed.has(name.toLowerCase()))
+        .slice(0, MAX_PANTRY_INGREDIENTS);
+      ingredients = [...ingredients, ...pantryIngredients];
+      expiringItems.push(...(await fetchExpiringPantryItems(supabase, authUser.userId)));
+      console.log('🥫 Added', pantryIngredients.length, 'pantry ingredients to search');
+
+      // Opened packages join the use-it-up list; cooked portions get their own prompt section
+      leftovers = await fetchOpenLeftovers(supabase, authUser.userId);
+      expiringItems.push(...leftovers
+        .filter(leftover => leftover.kind === 'ingredient')
+        .map(leftover => ({ name: leftover.name, useBy: leftover.useBy })));
+      console.log('🍱 Added', leftovers.length, 'leftovers to search');
+    }
+
+    // Ask for recipes that use up whatever is closest to spoiling
+    const atRiskIngredients = getAtRiskIngredients(expiringItems);
+    const listed = new Set(ingredients.map(ingredient => ingredient.toLowerCase()));
+    for (const item of atRiskIngredients) {
+      if (!listed.has(item.name.toLowerCase())) {
+        ingredients.push(item.name);
+      }
+    }
     
     // Check if API key is available
     const apiKey = process.env.PERPLEXITY_API_KEY;
@@ -24,7 +72,7 @@ export async function POST(request: NextRequest) {
     console.log('✅ API key found, making request to Perplexity...');
 
     // Create a smart prompt based on the type of search
-    const enhancedPrompt = createSmartPrompt(prompt, ingredients, filters, maxResults);
+    const enhancedPrompt = createSmartPrompt(prompt, ingredients, filters, maxResults, atRiskIngredients, leftovers);
     console.log('📝 Generated prompt:', enhancedPrompt.substring(0, 200) + '...');
 
     const response = await fetch('https://api.perplexity.ai/chat/completions', {
@@ -89,8 +137,35 @@ export async function POST(request: NextRequest) {
     const rawResponse = data.choices[0].message.content;
     console.log('📝 Raw response received, parsing recipes...');
     
-    // Parse the response into structured recipes
-    const recipes = parseRecipeResponse(rawResponse);
+    // Parse the response into structured recipes, best "use it up" matches first
+    // Prices recorded from stores replace the fixed estimates where there are any
+    const tablePricedRecipes = parseRecipeResponse(rawResponse);
+    const typicalPrices = await fetchTypicalPrices(
+      createSupabaseServerClient(),
+      tablePricedRecipes.flatMap(recipe => recipe.ingredients.map(ingredient => ingredient.name)),
+      authUser?.userId ?? null
+    );
+    const parsedRecipes = applyTypicalPrices(tablePricedRecipes, typicalPrices);
+    const rankedRecipes = atRiskIngredients.length > 0
+      ? rankRecipesByWasteReduction(parsedRecipes, atRiskIngredients)
+      : parsedRecipes;
+
+    // Flag recipes that would push a signed-in user's week over budget, and show
+    // how a serving fits what's left of today's nutrient targets - the client's today when it sent one
+    const today = isDateString(date) ? date : new Date().toISOString().slice(0, 10);
+    const [weeklyBudget, targetBudget] = authUser
+      ? await Promise.all([
+          loadWeeklyBudget(createSupabaseServerClient(), authUser.userId, { today }),
+          loadTargetBudget(createSupabaseServerClient(), authUser.userId, today)
+        ])
+      : [null, null];
+    const recipes = rankedRecipes.map(recipe => ({
+      ...recipe,
+      ...(weeklyBudget && { budgetImpact: recipeBudgetImpact(recipe, weeklyBudget) || undefined }),
+      ...(targetBudget && recipe.nutrition && {
+        targetFit: recipeTargetFit(recipe.nutrition, targetBudget.targets, targetBudget.consumed, today)
+      })
+    }));
     console.log('🍳 Parsed', recipes.length, 'recipes successfully');
     
     // Save recipes to database if needed
@@ -107,6 +182,9 @@ export async function POST(request: NextRequest) {
       recipes,
       rawResponse,
       count: recipes.length,
+      pantryIngredients,
+      atRiskIngredients,
+      leftovers,
       searchType: determineSearchType(prompt, ingredients)
     });
     
@@ -154,7 +232,14 @@ function determineSearchType(prompt: string, ingredients?: string[]): string {
   return 'general';
 }
 
-function createSmartPrompt(prompt: string, ingredients?: string[], filters?: any, maxResults: number = 5): string {
+function createSmartPrompt(
+  prompt: string,
+  ingredients?: string[],
+  filters?: any,
+  maxResults: number = 5,
+  atRiskIngredients: AtRiskIngredient[] = [],
+  leftovers: Leftover[] = []
+): string {
   const searchType = determineSearchType(prompt, ingredients);
   console.log('🔍 Detected search type:', searchType);
   
@@ -215,6 +300,24 @@ function createSmartPrompt(prompt: string, ingredients?: string[], filters?: any
 - Consider different skill levels`;
   }
   
+  if (atRiskIngredients.length > 0) {
+    const expiring = atRiskIngredients
+      .map(item => `${item.name} (${item.daysLeft === 0 ? 'expires today' : item.daysLeft === 1 ? 'expires tomorrow' : `expires in ${item.daysLeft} days`})`)
+      .join(', ');
+    contextualRequirements += `
+- These ingredients are about to expire, most urgent first: ${expiring}
+- Each recipe should use as many of these expiring ingredients as possible, in generous amounts
+- Favour the ingredients that expire soonest`;
+  }
+
+  const portions = leftovers.filter(leftover => leftover.kind === 'portion');
+  if (portions.length > 0) {
+    contextualRequirements += `
+- There are cooked leftovers to reuse: ${portions.map(describeLeftover).join(', ')}
+- At least one recipe should turn these leftovers into a different dish (e.g. fried rice, wraps, soup, a bake) rather than reheating them as they are
+- Count the leftover servings towards the recipe's servings and keep extra ingredients to a minimum`;
+  }
+
   // Add filter-specific requirements
   if (filters) {
     if (filters.maxTime) {
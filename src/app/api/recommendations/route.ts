@@ -4,6 +4,9 @@
 import { NextRequest } from 'next/server';
 import { getAuthUser } from '@/lib/auth';
 import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchExpiringPantryItems } from '@/lib/pantry';
+import { AtRiskIngredient, getAtRiskIngredients, rankRecipesByWasteReduction } from '@/lib/wasteReduction';
+import { ExpiringIngredient } from '@/types/recipe';
 
 export async function GET(request: NextRequest) {
   try {
@@ -44,13 +47,23 @@ export async function GET(request: NextRequest) {
       healthProfile
     );
     
+    // Items about to spoil: saved pantry dates plus any use-by dates sent with the request
+    // (?expiring=spinach@2024-05-02,milk@2024-05-03)
+    const { searchParams } = new URL(request.url);
+    const expiringItems = [
+      ...(await fetchExpiringPantryItems(supabase, authUser.userId)),
+      ...parseExpiringParam(searchParams.get('expiring'))
+    ];
+    const atRiskIngredients = getAtRiskIngredients(expiringItems);
+
     // Get personalized recommendations
-    const recommendations = await generateRecommendations(preferences, authUser.userId);
+    const recommendations = await generateRecommendations(preferences, authUser.userId, atRiskIngredients);
 
     return Response.json({
       success: true,
       recommendations,
       preferences,
+      atRiskIngredients,
       count: recommendations.length
     });
 
@@ -101,6 +114,17 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function parseExpiringParam(value: string | null): ExpiringIngredient[] {
+  if (!value) return [];
+
+  return value.split(',')
+    .map(entry => {
+      const [name, useBy] = entry.split('@').map(part => part?.trim());
+      return { name, useBy };
+    })
+    .filter((item): item is ExpiringIngredient => !!item.name && !!item.useBy);
+}
+
 function analyzeUserPreferences(userData: any, recentInteractions: any[], healthProfile: any) {
   console.log('📊 Analyzing user preferences...');
   
@@ -219,7 +243,7 @@ function analyzeUserPreferences(userData: any, recentInteractions: any[], health
   return preferences;
 }
 
-async function generateRecommendations(preferences: any, userId: string) {
+async function generateRecommendations(preferences: any, userId: string, atRiskIngredients: AtRiskIngredient[] = []) {
   console.log('🎯 Generating recommendations...');
   
   const recommendations = [];
@@ -261,8 +285,17 @@ async function generateRecommendations(preferences: any, userId: string) {
       });
     }
 
-    // 4. Ingredient-based recommendations
-    if (preferences.ingredientPreferences.length > 0) {
+    // 4. Ingredient-based recommendations, led by anything about to expire
+    if (atRiskIngredients.length > 0) {
+      const useItUpRecs = await getIngredientBasedRecommendations(preferences.ingredientPreferences, atRiskIngredients);
+      recommendations.push({
+        type: 'use_it_up',
+        title: 'Use It Up Before It Expires',
+        description: `Recipes for your ${atRiskIngredients.slice(0, 3).map(item => item.name).join(', ')}`,
+        recipes: useItUpRecs,
+        priority: 'high'
+      });
+    } else if (preferences.ingredientPreferences.length > 0) {
       const ingredientRecs = await getIngredientBasedRecommendations(preferences.ingredientPreferences);
       recommendations.push({
         type: 'ingredients',
@@ -357,17 +390,31 @@ async function getQuickMealRecommendations() {
   }
 }
 
-async function getIngredientBasedRecommendations(ingredients: string[]) {
+async function getIngredientBasedRecommendations(ingredients: string[], atRiskIngredients: AtRiskIngredient[] = []) {
   try {
     const supabase = createSupabaseServerClient();
-    // This is a simplified version - in a real app, you'd do more sophisticated ingredient matching
+    // Pull a wider pool than we return so matching has something to choose from
     const { data: recipes } = await supabase
       .from('recipes')
       .select('*')
       .order('rating', { ascending: false })
-      .limit(6);
+      .limit(atRiskIngredients.length > 0 ? 30 : 6);
 
-    return recipes || [];
+    if (!recipes || atRiskIngredients.length === 0) {
+      return recipes || [];
+    }
+
+    // Most expiring items used first; favourite ingredients break ties
+    const favourites = ingredients.map(ingredient => ingredient.toLowerCase());
+    const countFavourites = (recipe: any) => (Array.isArray(recipe.ingredients) ? recipe.ingredients : [])
+      .filter((ing: any) => {
+        const name = (typeof ing === 'string' ? ing : ing?.name || '').toLowerCase();
+        return favourites.some(favourite => name.includes(favourite));
+      }).length;
+
+    return rankRecipesByWasteReduction(recipes, atRiskIngredients)
+      .sort((a, b) => b.wasteReduction.score - a.wasteReduction.score || countFavourites(b) - countFavourites(a))
+      .slice(0, 6);
   } catch (error) {
     console.error('Error fetching ingredient-based recommendations:', error);
     return [];
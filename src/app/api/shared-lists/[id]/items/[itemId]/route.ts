@@ -0,0 +1,209 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import {
+  buildSharedListItemUpdate,
+  canEditSharedList,
+  fetchSharedListMembers,
+  getSharedListRole,
+  sharedListItemFromRow,
+  touchSharedList,
+  validateSharedListItemInput
+} from '@/lib/sharedLists';
+
+// Another member's write can land between our read and our write; retry that many times
+const MAX_UPDATE_ATTEMPTS = 3;
+
+// PATCH one item: { checked } and/or { name, amount, unit, version }.
+// Each write only succeeds against the version it was based on, so concurrent
+// edits to the same item are retried or reported instead of overwritten.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const input = await request.json();
+    const validationError = validateSharedListItemInput(input, true);
+
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const role = await getSharedListRole(supabase, params.id, authUser.userId);
+
+    if (!canEditSharedList(role)) {
+      return Response.json(
+        { success: false, error: role ? 'You can view this list but not edit it' : 'Shared list not found' },
+        { status: role ? 403 : 404 }
+      );
+    }
+
+    const members = await fetchSharedListMembers(supabase, params.id);
+
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const { data: current, error: getError } = await supabase
+        .from('shared_list_items')
+        .select('*')
+        .eq('id', params.itemId)
+        .eq('list_id', params.id)
+        .single();
+
+      if (getError || !current) {
+        if (getError && getError.code !== 'PGRST116') {
+          console.error('Get shared list item error:', getError);
+        }
+        return Response.json(
+          { success: false, error: 'Item not found' },
+          { status: 404 }
+        );
+      }
+
+      const now = new Date().toISOString();
+      const update = buildSharedListItemUpdate(current, input, authUser.userId, now);
+
+      if (update === 'conflict') {
+        return Response.json(
+          { success: false, error: 'Someone else changed this item', item: sharedListItemFromRow(current, members) },
+          { status: 409 }
+        );
+      }
+
+      if (update === null) {
+        return Response.json({
+          success: true,
+          item: sharedListItemFromRow(current, members)
+        });
+      }
+
+      const { data: updated, error: updateError } = await supabase
+        .from('shared_list_items')
+        .update(update)
+        .eq('id', params.itemId)
+        .eq('version', current.version)
+        .select();
+
+      if (updateError) {
+        console.error('Update shared list item error:', updateError);
+        return Response.json(
+          { success: false, error: 'Failed to update item' },
+          { status: 500 }
+        );
+      }
+
+      if (updated && updated.length > 0) {
+        const updatedAt = await touchSharedList(supabase, params.id);
+
+        return Response.json({
+          success: true,
+          item: sharedListItemFromRow(updated[0], members),
+          updatedAt
+        });
+      }
+
+      console.log('🔁 Shared list item changed mid-update, retrying:', params.itemId);
+    }
+
+    return Response.json(
+      { success: false, error: 'This item is being edited by someone else; try again' },
+      { status: 409 }
+    );
+
+  } catch (error) {
+    console.error('Shared list item PATCH error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE an item. With ?version=N the delete is refused if the item has changed since.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const role = await getSharedListRole(supabase, params.id, authUser.userId);
+
+    if (!canEditSharedList(role)) {
+      return Response.json(
+        { success: false, error: role ? 'You can view this list but not edit it' : 'Shared list not found' },
+        { status: role ? 403 : 404 }
+      );
+    }
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    if (versionParam !== null && !/^\d+$/.test(versionParam)) {
+      return Response.json(
+        { success: false, error: 'version must be an integer' },
+        { status: 400 }
+      );
+    }
+
+    const version = versionParam !== null ? Number(versionParam) : null;
+    let query = supabase
+      .from('shared_list_items')
+      .delete()
+      .eq('id', params.itemId)
+      .eq('list_id', params.id);
+
+    if (version !== null) {
+      query = query.eq('version', version);
+    }
+
+    const { data: deleted, error } = await query.select('id');
+
+    if (error) {
+      console.error('Delete shared list item error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to delete item' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return Response.json(
+        { success: false, error: version !== null ? 'Item not found or changed by someone else' : 'Item not found' },
+        { status: version !== null ? 409 : 404 }
+      );
+    }
+
+    const updatedAt = await touchSharedList(supabase, params.id);
+
+    return Response.json({
+      success: true,
+      message: 'Item deleted',
+      updatedAt
+    });
+
+  } catch (error) {
+    console.error('Shared list item DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
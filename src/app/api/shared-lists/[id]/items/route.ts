@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import {
+  canEditSharedList,
+  getSharedListRole,
+  sharedListItemFromRow,
+  sharedListItemToRow,
+  touchSharedList,
+  validateSharedListItemInput
+} from '@/lib/sharedLists';
+
+// POST to add an item to a shared list (owners and editors)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const input = await request.json();
+    const validationError = validateSharedListItemInput(input);
+
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const role = await getSharedListRole(supabase, params.id, authUser.userId);
+
+    if (!canEditSharedList(role)) {
+      return Response.json(
+        { success: false, error: role ? 'You can view this list but not edit it' : 'Shared list not found' },
+        { status: role ? 403 : 404 }
+      );
+    }
+
+    const { data: item, error } = await supabase
+      .from('shared_list_items')
+      .insert([sharedListItemToRow(input, params.id, authUser.userId)])
+      .select()
+      .single();
+
+    if (error || !item) {
+      console.error('Add shared list item error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to add item' },
+        { status: 500 }
+      );
+    }
+
+    const updatedAt = await touchSharedList(supabase, params.id);
+
+    return Response.json({
+      success: true,
+      item: sharedListItemFromRow(item),
+      updatedAt
+    });
+
+  } catch (error) {
+    console.error('Shared list items POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
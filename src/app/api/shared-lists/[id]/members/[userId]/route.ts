@@ -0,0 +1,161 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchSharedListMembers, getSharedListRole, touchSharedList } from '@/lib/sharedLists';
+
+// PUT to change a member's role (owner only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { role } = await request.json();
+
+    if (role !== 'editor' && role !== 'viewer') {
+      return Response.json(
+        { success: false, error: 'Role must be editor or viewer' },
+        { status: 400 }
+      );
+    }
+
+    const currentRole = await getSharedListRole(supabase, params.id, authUser.userId);
+
+    if (currentRole !== 'owner') {
+      return Response.json(
+        { success: false, error: 'Only the list owner can change roles' },
+        { status: currentRole ? 403 : 404 }
+      );
+    }
+
+    if (params.userId === authUser.userId) {
+      return Response.json(
+        { success: false, error: 'The owner\'s role cannot be changed' },
+        { status: 400 }
+      );
+    }
+
+    const { data: updated, error } = await supabase
+      .from('shared_list_members')
+      .update({ role })
+      .eq('list_id', params.id)
+      .eq('user_id', params.userId)
+      .select('id');
+
+    if (error) {
+      console.error('Update shared list member error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to update member' },
+        { status: 500 }
+      );
+    }
+
+    if (!updated || updated.length === 0) {
+      return Response.json(
+        { success: false, error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    await touchSharedList(supabase, params.id);
+
+    return Response.json({
+      success: true,
+      members: await fetchSharedListMembers(supabase, params.id)
+    });
+
+  } catch (error) {
+    console.error('Shared list member PUT error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE to remove a member; the owner can remove anyone else, members can remove themselves
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const currentRole = await getSharedListRole(supabase, params.id, authUser.userId);
+    const isSelf = params.userId === authUser.userId;
+
+    if (!currentRole) {
+      return Response.json(
+        { success: false, error: 'Shared list not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isSelf && currentRole === 'owner') {
+      return Response.json(
+        { success: false, error: 'The owner cannot leave; delete the list instead' },
+        { status: 400 }
+      );
+    }
+
+    if (!isSelf && currentRole !== 'owner') {
+      return Response.json(
+        { success: false, error: 'Only the list owner can remove members' },
+        { status: 403 }
+      );
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('shared_list_members')
+      .delete()
+      .eq('list_id', params.id)
+      .eq('user_id', params.userId)
+      .select('id');
+
+    if (error) {
+      console.error('Remove shared list member error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to remove member' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return Response.json(
+        { success: false, error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    await touchSharedList(supabase, params.id);
+
+    return Response.json({
+      success: true,
+      message: isSelf ? 'Left shared list' : 'Member removed'
+    });
+
+  } catch (error) {
+    console.error('Shared list member DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchSharedListMembers, getSharedListRole, touchSharedList } from '@/lib/sharedLists';
+
+// POST to add someone to a shared list by their account email (owner only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { email, role = 'editor' } = await request.json();
+
+    if (typeof email !== 'string' || !email.trim()) {
+      return Response.json(
+        { success: false, error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    if (role !== 'editor' && role !== 'viewer') {
+      return Response.json(
+        { success: false, error: 'Role must be editor or viewer' },
+        { status: 400 }
+      );
+    }
+
+    const currentRole = await getSharedListRole(supabase, params.id, authUser.userId);
+
+    if (currentRole !== 'owner') {
+      return Response.json(
+        { success: false, error: 'Only the list owner can add members' },
+        { status: currentRole ? 403 : 404 }
+      );
+    }
+
+    const { data: invitee, error: userError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('email', email.trim().toLowerCase())
+      .single();
+
+    if (userError || !invitee) {
+      if (userError && userError.code !== 'PGRST116') {
+        console.error('Find user by email error:', userError);
+      }
+      return Response.json(
+        { success: false, error: 'No account found with that email' },
+        { status: 404 }
+      );
+    }
+
+    if (await getSharedListRole(supabase, params.id, invitee.id)) {
+      return Response.json(
+        { success: false, error: 'That person is already on this list' },
+        { status: 409 }
+      );
+    }
+
+    const { error: insertError } = await supabase
+      .from('shared_list_members')
+      .insert([{ list_id: params.id, user_id: invitee.id, role }]);
+
+    if (insertError) {
+      console.error('Add shared list member error:', insertError);
+      return Response.json(
+        { success: false, error: 'Failed to add member' },
+        { status: 500 }
+      );
+    }
+
+    await touchSharedList(supabase, params.id);
+    console.log('✅ Added member to shared list:', params.id);
+
+    return Response.json({
+      success: true,
+      members: await fetchSharedListMembers(supabase, params.id)
+    });
+
+  } catch (error) {
+    console.error('Shared list members POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,206 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import {
+  fetchSharedListMembers,
+  getSharedListRole,
+  sharedListFromRow,
+  sharedListItemFromRow
+} from '@/lib/sharedLists';
+
+// GET a shared list with its members and items. Clients poll with
+// ?since=<updatedAt from the last response> and get { changed: false }
+// until someone edits the list.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const role = await getSharedListRole(supabase, params.id, authUser.userId);
+
+    if (!role) {
+      return Response.json(
+        { success: false, error: 'Shared list not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: list, error: listError } = await supabase
+      .from('shared_lists')
+      .select('*')
+      .eq('id', params.id)
+      .single();
+
+    if (listError || !list) {
+      if (listError && listError.code !== 'PGRST116') {
+        console.error('Get shared list error:', listError);
+      }
+      return Response.json(
+        { success: false, error: 'Shared list not found' },
+        { status: 404 }
+      );
+    }
+
+    const since = request.nextUrl.searchParams.get('since');
+    if (since && new Date(list.updated_at).getTime() <= new Date(since).getTime()) {
+      return Response.json({
+        success: true,
+        changed: false,
+        updatedAt: list.updated_at
+      });
+    }
+
+    const { data: itemRows, error: itemsError } = await supabase
+      .from('shared_list_items')
+      .select('*')
+      .eq('list_id', params.id)
+      .order('created_at', { ascending: true });
+
+    if (itemsError) {
+      console.error('Get shared list items error:', itemsError);
+      return Response.json(
+        { success: false, error: 'Failed to get shared list items' },
+        { status: 500 }
+      );
+    }
+
+    const members = await fetchSharedListMembers(supabase, params.id);
+
+    return Response.json({
+      success: true,
+      changed: true,
+      updatedAt: list.updated_at,
+      list: sharedListFromRow(list, role),
+      members,
+      items: (itemRows || []).map(row => sharedListItemFromRow(row, members))
+    });
+
+  } catch (error) {
+    console.error('Shared list GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT to rename a shared list (owner only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { name } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 60) {
+      return Response.json(
+        { success: false, error: 'List name is required (60 characters or fewer)' },
+        { status: 400 }
+      );
+    }
+
+    const { data: list, error } = await supabase
+      .from('shared_lists')
+      .update({ name: name.trim(), updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .eq('owner_id', authUser.userId)
+      .select()
+      .single();
+
+    if (error || !list) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('Rename shared list error:', error);
+      }
+      return Response.json(
+        { success: false, error: 'Shared list not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      list: sharedListFromRow(list, 'owner')
+    });
+
+  } catch (error) {
+    console.error('Shared list PUT error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a shared list for everyone (owner only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('shared_lists')
+      .delete()
+      .eq('id', params.id)
+      .eq('owner_id', authUser.userId)
+      .select('id');
+
+    if (error) {
+      console.error('Delete shared list error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to delete shared list' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return Response.json(
+        { success: false, error: 'Shared list not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('✅ Deleted shared list:', params.id);
+
+    return Response.json({
+      success: true,
+      message: 'Shared list deleted'
+    });
+
+  } catch (error) {
+    console.error('Shared list DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
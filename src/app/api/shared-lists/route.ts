@@ -0,0 +1,152 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import {
+  isSharedListRole,
+  sharedListFromRow,
+  sharedListItemFromRow,
+  sharedListItemToRow,
+  validateSharedListItemInput
+} from '@/lib/sharedLists';
+
+// GET the shared lists the user belongs to
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('shared_list_members')
+      .select(`
+        role,
+        shared_lists (*)
+      `)
+      .eq('user_id', authUser.userId);
+
+    if (error) {
+      console.error('Get shared lists error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to get shared lists' },
+        { status: 500 }
+      );
+    }
+
+    const lists = (data || [])
+      .map((row: any) => {
+        const list = Array.isArray(row.shared_lists) ? row.shared_lists[0] : row.shared_lists;
+        return list && isSharedListRole(row.role) ? sharedListFromRow(list, row.role) : null;
+      })
+      .filter((list): list is NonNullable<typeof list> => list !== null)
+      .sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+
+    return Response.json({
+      success: true,
+      lists
+    });
+
+  } catch (error) {
+    console.error('Shared lists GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to create a shared list, optionally starting from existing items
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { name, items = [] } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 60) {
+      return Response.json(
+        { success: false, error: 'List name is required (60 characters or fewer)' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(items)) {
+      return Response.json(
+        { success: false, error: 'items must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const { data: list, error: listError } = await supabase
+      .from('shared_lists')
+      .insert([{ owner_id: authUser.userId, name: name.trim() }])
+      .select()
+      .single();
+
+    if (listError || !list) {
+      console.error('Create shared list error:', listError);
+      return Response.json(
+        { success: false, error: 'Failed to create shared list' },
+        { status: 500 }
+      );
+    }
+
+    const { error: memberError } = await supabase
+      .from('shared_list_members')
+      .insert([{ list_id: list.id, user_id: authUser.userId, role: 'owner' }]);
+
+    if (memberError) {
+      console.error('Add shared list owner error:', memberError);
+      await supabase.from('shared_lists').delete().eq('id', list.id);
+      return Response.json(
+        { success: false, error: 'Failed to create shared list' },
+        { status: 500 }
+      );
+    }
+
+    // Checked-off items are left behind: they've already been bought
+    const rows = items
+      .filter((item: any) => !validateSharedListItemInput(item) && !item.checked)
+      .map((item: any) => sharedListItemToRow(item, list.id, authUser.userId));
+
+    let savedItems: any[] = [];
+    if (rows.length > 0) {
+      const { data, error: itemsError } = await supabase
+        .from('shared_list_items')
+        .insert(rows)
+        .select();
+
+      if (itemsError) {
+        console.error('Copy items to shared list error:', itemsError);
+      }
+      savedItems = data || [];
+    }
+
+    console.log('✅ Created shared list:', list.name, 'with', savedItems.length, 'items');
+
+    return Response.json({
+      success: true,
+      list: sharedListFromRow(list, 'owner'),
+      items: savedItems.map(row => sharedListItemFromRow(row))
+    });
+
+  } catch (error) {
+    console.error('Shared lists POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
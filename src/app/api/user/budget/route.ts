@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { grocerySpendFromRow, loadWeeklyBudget, spendEntryToRow, validateSpendEntry } from '@/lib/budget';
+import { isDateString } from '@/lib/foodLog';
+
+// GET ?date=YYYY-MM-DD (the client's today) - this week's budget: planned and listed costs, actual spend, warnings and cheaper swaps
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().slice(0, 10);
+    if (!isDateString(date)) {
+      return Response.json(
+        { success: false, error: 'date must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      budget: await loadWeeklyBudget(supabase, authUser.userId, { today: date })
+    });
+
+  } catch (error) {
+    console.error('Budget GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST ?date=YYYY-MM-DD { amount, spentOn?, storeId?, note? } - record what a shopping trip actually cost
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().slice(0, 10);
+    if (!isDateString(date)) {
+      return Response.json(
+        { success: false, error: 'date must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateSpendEntry(body);
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: entry, error } = await supabase
+      .from('grocery_spend')
+      .insert(spendEntryToRow(body, authUser.userId, date))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Record grocery spend error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to record spend' },
+        { status: 500 }
+      );
+    }
+
+    console.log('🧾 Recorded', entry.amount, 'grocery spend for user:', authUser.userId);
+
+    return Response.json({
+      success: true,
+      entry: grocerySpendFromRow(entry),
+      budget: await loadWeeklyBudget(supabase, authUser.userId, { today: date })
+    });
+
+  } catch (error) {
+    console.error('Budget POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?id=<entry id>&date=YYYY-MM-DD - remove a spend entry entered by mistake
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().slice(0, 10);
+    if (!isDateString(date)) {
+      return Response.json(
+        { success: false, error: 'date must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return Response.json(
+        { success: false, error: 'id parameter required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('grocery_spend')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', authUser.userId);
+
+    if (error) {
+      console.error('Delete grocery spend error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to delete spend entry' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      budget: await loadWeeklyBudget(supabase, authUser.userId, { today: date })
+    });
+
+  } catch (error) {
+    console.error('Budget DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { adjustPantryQuantities, cookEventFromRow } from '@/lib/pantry';
+import { canUndoCookEvent, UNDO_WINDOW_MINUTES } from '@/lib/pantryDeduction';
+
+// DELETE to undo a cook event, putting the deducted quantities back in the pantry
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('cook_events')
+      .select('*')
+      .eq('id', params.id)
+      .eq('user_id', authUser.userId)
+      .single();
+
+    if (error || !row) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('Get cook event error:', error);
+      }
+      return Response.json(
+        { success: false, error: 'Cook event not found' },
+        { status: 404 }
+      );
+    }
+
+    const cookEvent = cookEventFromRow(row);
+
+    if (!canUndoCookEvent(cookEvent)) {
+      return Response.json(
+        {
+          success: false,
+          error: cookEvent.undoneAt
+            ? 'Cook event has already been undone'
+            : `Cook events can only be undone within ${UNDO_WINDOW_MINUTES} minutes`
+        },
+        { status: 409 }
+      );
+    }
+
+    // Put the amounts back on the current quantities rather than restoring the old
+    // ones, so edits made since cooking aren't overwritten. If this fails the event
+    // stays undoable, and nothing is left half restored for a retry to repeat.
+    const restores = cookEvent.deductions.map(deduction => ({ pantryItemId: deduction.pantryItemId, change: deduction.deducted }));
+    let quantities: Map<string, number>;
+    try {
+      quantities = await adjustPantryQuantities(supabase, authUser.userId, restores);
+    } catch (restoreError) {
+      console.error('Restore pantry items error:', restoreError);
+      return Response.json(
+        { success: false, error: 'Failed to restore pantry' },
+        { status: 500 }
+      );
+    }
+
+    const missingItems = cookEvent.deductions
+      .filter(deduction => !quantities.has(deduction.pantryItemId))
+      .map(deduction => deduction.name);
+    const restored = restores.filter(restore => quantities.has(restore.pantryItemId));
+
+    // Only one request can mark the event undone; one that loses the race (a double
+    // click) takes its restored amounts back out again
+    const { data: undone, error: undoError } = await supabase
+      .from('cook_events')
+      .update({ undone_at: new Date().toISOString() })
+      .eq('id', cookEvent.id)
+      .eq('user_id', authUser.userId)
+      .is('undone_at', null)
+      .select()
+      .single();
+
+    if (undoError || !undone) {
+      try {
+        await adjustPantryQuantities(
+          supabase,
+          authUser.userId,
+          restored.map(restore => ({ ...restore, change: -restore.change }))
+        );
+      } catch (reverseError) {
+        console.error('Reverse pantry restore error:', reverseError);
+      }
+
+      if (undoError && undoError.code !== 'PGRST116') {
+        console.error('Undo cook event error:', undoError);
+        return Response.json(
+          { success: false, error: 'Failed to undo cook event' },
+          { status: 500 }
+        );
+      }
+      return Response.json(
+        { success: false, error: 'Cook event has already been undone' },
+        { status: 409 }
+      );
+    }
+
+    // Nothing was left over from a meal that wasn't cooked
+    const { error: leftoversError } = await supabase
+      .from('leftovers')
+      .delete()
+      .eq('cook_event_id', cookEvent.id)
+      .eq('user_id', authUser.userId);
+
+    if (leftoversError) {
+      console.error('Remove cook event leftovers error:', leftoversError);
+    }
+
+    console.log('↩️ Undid cook event:', cookEvent.id, 'for user:', authUser.userId);
+
+    return Response.json({
+      success: true,
+      cookEvent: cookEventFromRow(undone),
+      missingItems
+    });
+
+  } catch (error) {
+    console.error('Cook event DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { adjustPantryQuantities, cookEventFromRow, pantryItemFromRow, recordLeftovers } from '@/lib/pantry';
+import { findLowStockItems, planPantryDeductions } from '@/lib/pantryDeduction';
+import { planIngredientLeftovers } from '@/lib/leftovers';
+import { Leftover } from '@/types/recipe';
+
+// GET recent cook events
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: events, error } = await supabase
+      .from('cook_events')
+      .select('*')
+      .eq('user_id', authUser.userId)
+      .order('cooked_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Get cook events error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to get cook events' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      cookEvents: (events || []).map(cookEventFromRow)
+    });
+
+  } catch (error) {
+    console.error('Cook events GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to mark a (possibly scaled) recipe as cooked, deduct its ingredients from the pantry
+// and note what's left of the packages bought for it
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { recipe } = await request.json();
+
+    if (!recipe || !recipe.title || !Array.isArray(recipe.ingredients)) {
+      return Response.json(
+        { success: false, error: 'Recipe with title and ingredients required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: pantryRows, error: pantryError } = await supabase
+      .from('pantry_items')
+      .select('*')
+      .eq('user_id', authUser.userId)
+      .gt('quantity', 0);
+
+    if (pantryError) {
+      console.error('Get pantry for cooking error:', pantryError);
+      return Response.json(
+        { success: false, error: 'Failed to get pantry items' },
+        { status: 500 }
+      );
+    }
+
+    const { deductions, unmatchedIngredients } = planPantryDeductions(
+      recipe.ingredients,
+      (pantryRows || []).map(pantryItemFromRow)
+    );
+
+    // Record the event first, so the pantry is never changed without one to undo
+    const { data: cookEvent, error: insertError } = await supabase
+      .from('cook_events')
+      .insert([{
+        user_id: authUser.userId,
+        recipe_id: recipe.id ? String(recipe.id) : null,
+        recipe_title: recipe.title,
+        servings: recipe.servings || 1,
+        deductions,
+        unmatched_ingredients: unmatchedIngredients,
+        cooked_at: new Date().toISOString()
+      }])
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Record cook event error:', insertError);
+      return Response.json(
+        { success: false, error: 'Failed to record cook event' },
+        { status: 500 }
+      );
+    }
+
+    // Take the amounts off whatever is in the pantry now, not the quantities read above
+    let quantities: Map<string, number>;
+    try {
+      quantities = await adjustPantryQuantities(
+        supabase,
+        authUser.userId,
+        deductions.map(deduction => ({ pantryItemId: deduction.pantryItemId, change: -deduction.deducted }))
+      );
+    } catch (updateError) {
+      console.error('Deduct pantry items error:', updateError);
+      const { error: deleteError } = await supabase
+        .from('cook_events')
+        .delete()
+        .eq('id', cookEvent.id)
+        .eq('user_id', authUser.userId);
+      if (deleteError) {
+        console.error('Remove cook event error:', deleteError);
+      }
+      return Response.json(
+        { success: false, error: 'Failed to update pantry' },
+        { status: 500 }
+      );
+    }
+
+    const applied = deductions.map(deduction => ({
+      ...deduction,
+      remaining: quantities.get(deduction.pantryItemId) ?? deduction.remaining
+    }));
+
+    // Uneaten servings are saved separately, once the cook knows how many are left.
+    // Losing a leftover note shouldn't fail the cook event itself
+    let leftovers: Leftover[] = [];
+    try {
+      leftovers = await recordLeftovers(
+        supabase,
+        authUser.userId,
+        cookEventFromRow(cookEvent),
+        planIngredientLeftovers(recipe.ingredients, unmatchedIngredients)
+      );
+    } catch (leftoverError) {
+      console.error('Record leftovers error:', leftoverError);
+    }
+
+    console.log('🍳 Recorded cook event for user:', authUser.userId, 'Items deducted:', deductions.length, 'Leftovers:', leftovers.length);
+
+    return Response.json({
+      success: true,
+      cookEvent: cookEventFromRow(cookEvent),
+      lowStockItems: findLowStockItems(applied),
+      leftovers
+    });
+
+  } catch (error) {
+    console.error('Cook events POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
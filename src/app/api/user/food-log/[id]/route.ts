@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchFoodLog, fetchReferenceProfile, summarizeDay } from '@/lib/foodLog';
+
+// DELETE a food log entry logged by mistake; returns that day's updated summary
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: removed, error } = await supabase
+      .from('food_log_entries')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', authUser.userId)
+      .select('eaten_on')
+      .single();
+
+    if (error || !removed) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('Delete food log entry error:', error);
+      }
+      return Response.json(
+        { success: false, error: 'Food log entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const [dayEntries, referenceProfile] = await Promise.all([
+      fetchFoodLog(supabase, authUser.userId, { start: removed.eaten_on, end: removed.eaten_on }),
+      fetchReferenceProfile(supabase, authUser.userId)
+    ]);
+
+    return Response.json({
+      success: true,
+      summary: summarizeDay(removed.eaten_on, dayEntries, referenceProfile)
+    });
+
+  } catch (error) {
+    console.error('Food log DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import {
+  fetchFoodLog,
+  fetchReferenceProfile,
+  foodLogEntryFromRow,
+  foodLogEntryToRow,
+  isDateString,
+  summarizeDay,
+  validateFoodLogEntry
+} from '@/lib/foodLog';
+
+// GET ?date=YYYY-MM-DD - what was logged on a day (today by default), in the order it was logged
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().slice(0, 10);
+    if (!isDateString(date)) {
+      return Response.json(
+        { success: false, error: 'date must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      date,
+      entries: await fetchFoodLog(supabase, authUser.userId, { start: date, end: date })
+    });
+
+  } catch (error) {
+    console.error('Food log GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { mealSlot, eatenOn?, portions?, recipe? | food? } - log a recipe's servings or free-text foods
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateFoodLogEntry(body);
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('food_log_entries')
+      .insert(foodLogEntryToRow(body, authUser.userId))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Log food error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to log food' },
+        { status: 500 }
+      );
+    }
+
+    const entry = foodLogEntryFromRow(row);
+    const [dayEntries, referenceProfile] = await Promise.all([
+      fetchFoodLog(supabase, authUser.userId, { start: entry.eatenOn, end: entry.eatenOn }),
+      fetchReferenceProfile(supabase, authUser.userId)
+    ]);
+
+    if (entry.unmatched.length > 0) {
+      console.log('⚠️ No nutrition data for logged food:', entry.unmatched.join(', '));
+    }
+    console.log('🍽️ Logged', entry.mealSlot, entry.description, 'for user:', authUser.userId);
+
+    return Response.json({
+      success: true,
+      entry,
+      summary: summarizeDay(entry.eatenOn, dayEntries, referenceProfile)
+    });
+
+  } catch (error) {
+    console.error('Food log POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
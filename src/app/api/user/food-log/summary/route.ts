@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchFoodLog, fetchReferenceProfile, isDateString, summarizeDay, summarizeWeek } from '@/lib/foodLog';
+import { weekRange } from '@/lib/budget';
+
+// GET ?period=day|week&date=YYYY-MM-DD - intake totals and % Daily Value for a day, or the week around it
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const period = request.nextUrl.searchParams.get('period') || 'day';
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().slice(0, 10);
+
+    if (period !== 'day' && period !== 'week') {
+      return Response.json(
+        { success: false, error: 'period must be day or week' },
+        { status: 400 }
+      );
+    }
+
+    if (!isDateString(date)) {
+      return Response.json(
+        { success: false, error: 'date must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    const range = period === 'week' ? weekRange(date) : { start: date, end: date };
+    const [entries, referenceProfile] = await Promise.all([
+      fetchFoodLog(supabase, authUser.userId, range),
+      fetchReferenceProfile(supabase, authUser.userId)
+    ]);
+
+    return Response.json({
+      success: true,
+      period,
+      summary: period === 'week'
+        ? summarizeWeek(range, entries, referenceProfile)
+        : summarizeDay(date, entries, referenceProfile)
+    });
+
+  } catch (error) {
+    console.error('Food log summary GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
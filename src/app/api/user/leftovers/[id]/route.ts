@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { leftoverFromRow } from '@/lib/pantry';
+
+// DELETE a leftover once it's been eaten or thrown out; the row is kept with used_at set
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: leftover, error } = await supabase
+      .from('leftovers')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .eq('user_id', authUser.userId)
+      .is('used_at', null)
+      .select()
+      .single();
+
+    if (error || !leftover) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('Use leftover error:', error);
+      }
+      return Response.json(
+        { success: false, error: 'Leftover not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      leftover: leftoverFromRow(leftover)
+    });
+
+  } catch (error) {
+    console.error('Leftover DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { cookEventFromRow, fetchOpenLeftovers, recordLeftovers } from '@/lib/pantry';
+import { planPortionLeftover } from '@/lib/leftovers';
+import { Leftover } from '@/types/recipe';
+
+// GET leftovers that are still good to eat, soonest use-by first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      leftovers: await fetchOpenLeftovers(supabase, authUser.userId)
+    });
+
+  } catch (error) {
+    console.error('Leftovers GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { cookEventId, servingsEaten } - save the uneaten servings of a recipe cooked earlier
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { cookEventId, servingsEaten } = await request.json();
+
+    if (!cookEventId || typeof servingsEaten !== 'number' || servingsEaten < 0) {
+      return Response.json(
+        { success: false, error: 'cookEventId and a non-negative servingsEaten are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('cook_events')
+      .select('*')
+      .eq('id', cookEventId)
+      .eq('user_id', authUser.userId)
+      .single();
+
+    if (error || !row || row.undone_at) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('Get cook event for leftovers error:', error);
+      }
+      return Response.json(
+        { success: false, error: 'Cook event not found' },
+        { status: 404 }
+      );
+    }
+
+    const cookEvent = cookEventFromRow(row);
+    const portion = planPortionLeftover(cookEvent.recipeTitle, cookEvent.servings, servingsEaten);
+
+    // The new count goes in before the old one comes out, so a failure leaves the earlier count
+    let leftovers: Leftover[];
+    try {
+      leftovers = await recordLeftovers(supabase, authUser.userId, cookEvent, portion ? [portion] : []);
+    } catch (recordError) {
+      console.error('Record leftover portions error:', recordError);
+      return Response.json(
+        { success: false, error: 'Failed to save leftovers' },
+        { status: 500 }
+      );
+    }
+
+    // Saving again replaces the earlier open count rather than adding to it; portions
+    // already eaten or thrown out stay on record
+    let clear = supabase
+      .from('leftovers')
+      .delete()
+      .eq('cook_event_id', cookEvent.id)
+      .eq('user_id', authUser.userId)
+      .eq('kind', 'portion')
+      .is('used_at', null);
+    if (leftovers.length > 0) {
+      clear = clear.not('id', 'in', `(${leftovers.map(leftover => leftover.id).join(',')})`);
+    }
+    const { error: clearError } = await clear;
+
+    if (clearError) {
+      console.error('Clear leftover portions error:', clearError);
+      if (leftovers.length > 0) {
+        const { error: rollbackError } = await supabase
+          .from('leftovers')
+          .delete()
+          .in('id', leftovers.map(leftover => leftover.id));
+        if (rollbackError) {
+          console.error('Remove new leftover portions error:', rollbackError);
+        }
+      }
+      return Response.json(
+        { success: false, error: 'Failed to save leftovers' },
+        { status: 500 }
+      );
+    }
+
+    console.log('🍱 Saved', portion?.amount || 0, 'leftover servings of', cookEvent.recipeTitle, 'for user:', authUser.userId);
+
+    return Response.json({
+      success: true,
+      leftovers
+    });
+
+  } catch (error) {
+    console.error('Leftovers POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
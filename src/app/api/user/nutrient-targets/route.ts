@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { isDateString } from '@/lib/foodLog';
+import { loadTargetBudget, refreshNutrientTargets, remainingTargets } from '@/lib/nutrientTargets';
+
+// GET ?date=YYYY-MM-DD - daily targets with what's been logged that day and what's left.
+// Clients send their local date; without one the day is UTC's
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().slice(0, 10);
+    if (!isDateString(date)) {
+      return Response.json(
+        { success: false, error: 'date must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    const { targets, consumed } = await loadTargetBudget(supabase, authUser.userId, date);
+
+    return Response.json({
+      success: true,
+      date,
+      targets,
+      consumed,
+      remaining: remainingTargets(targets, consumed)
+    });
+
+  } catch (error) {
+    console.error('Nutrient targets GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - recalculate targets from the current health profile and diet plan
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const targets = await refreshNutrientTargets(supabase, authUser.userId);
+    console.log('🎯 Recalculated nutrient targets for user:', authUser.userId, '- goal:', targets.goal);
+
+    return Response.json({
+      success: true,
+      targets
+    });
+
+  } catch (error) {
+    console.error('Nutrient targets POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { stapleOverridesFromPreferences } from '@/lib/pantryShopping';
+
+// GET the user's corrections to the built-in pantry staples
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: userData, error } = await supabase
+      .from('user_data')
+      .select('preferences')
+      .eq('user_id', authUser.userId)
+      .single();
+
+    if (error) {
+      console.error('Get pantry staples error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to get pantry staples' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      stapleOverrides: stapleOverridesFromPreferences(userData?.preferences)
+    });
+
+  } catch (error) {
+    console.error('Pantry staples GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT to replace the user's staple overrides ({ assumeOwned, alwaysBuy })
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!Array.isArray(body.assumeOwned) || !Array.isArray(body.alwaysBuy)) {
+      return Response.json(
+        { success: false, error: 'assumeOwned and alwaysBuy must be arrays' },
+        { status: 400 }
+      );
+    }
+
+    const { data: userData, error: getError } = await supabase
+      .from('user_data')
+      .select('preferences')
+      .eq('user_id', authUser.userId)
+      .single();
+
+    if (getError) {
+      console.error('Get preferences error:', getError);
+      return Response.json(
+        { success: false, error: 'Failed to get preferences' },
+        { status: 500 }
+      );
+    }
+
+    const stapleOverrides = stapleOverridesFromPreferences({ stapleOverrides: body });
+
+    // Keep the rest of the preferences object as it is
+    const { error: updateError } = await supabase
+      .from('user_data')
+      .update({
+        preferences: { ...(userData?.preferences || {}), stapleOverrides },
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', authUser.userId);
+
+    if (updateError) {
+      console.error('Update pantry staples error:', updateError);
+      return Response.json(
+        { success: false, error: 'Failed to update pantry staples' },
+        { status: 500 }
+      );
+    }
+
+    console.log('✅ Updated pantry staples for user:', authUser.userId);
+
+    return Response.json({
+      success: true,
+      stapleOverrides
+    });
+
+  } catch (error) {
+    console.error('Pantry staples PUT error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
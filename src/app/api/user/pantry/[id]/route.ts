@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { pantryItemFromRow, pantryItemToRow, validatePantryItemInput } from '@/lib/pantry';
+
+// PUT to update fields of a single pantry item
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const updates = await request.json();
+    const validationError = validatePantryItemInput(updates, true);
+
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: item, error } = await supabase
+      .from('pantry_items')
+      .update({
+        ...pantryItemToRow(updates),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', params.id)
+      .eq('user_id', authUser.userId)
+      .select()
+      .single();
+
+    if (error || !item) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('Update pantry item error:', error);
+      }
+      return Response.json(
+        { success: false, error: 'Pantry item not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      item: pantryItemFromRow(item)
+    });
+
+  } catch (error) {
+    console.error('Pantry item PUT error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a single pantry item
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('pantry_items')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', authUser.userId)
+      .select('id');
+
+    if (error) {
+      console.error('Delete pantry item error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to delete pantry item' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return Response.json(
+        { success: false, error: 'Pantry item not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      message: 'Pantry item removed'
+    });
+
+  } catch (error) {
+    console.error('Pantry item DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
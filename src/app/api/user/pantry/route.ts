@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { PANTRY_LOCATIONS, pantryItemFromRow, pantryItemToRow, validatePantryItemInput } from '@/lib/pantry';
+
+// GET pantry items, optionally filtered by location or upcoming expiry
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const location = searchParams.get('location');
+    const expiringWithin = searchParams.get('expiringWithin');
+
+    if (location && !PANTRY_LOCATIONS.includes(location as any)) {
+      return Response.json(
+        { success: false, error: `location must be one of: ${PANTRY_LOCATIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from('pantry_items')
+      .select('*')
+      .eq('user_id', authUser.userId)
+      .order('expiry_date', { ascending: true, nullsFirst: false })
+      .order('name', { ascending: true });
+
+    if (location) {
+      query = query.eq('location', location);
+    }
+
+    if (expiringWithin) {
+      const days = parseInt(expiringWithin);
+      if (isNaN(days) || days < 0) {
+        return Response.json(
+          { success: false, error: 'expiringWithin must be a number of days' },
+          { status: 400 }
+        );
+      }
+      const cutoff = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      query = query.not('expiry_date', 'is', null).lte('expiry_date', cutoff);
+    }
+
+    const { data: items, error } = await query;
+
+    if (error) {
+      console.error('Get pantry error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to get pantry items' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      items: (items || []).map(pantryItemFromRow)
+    });
+
+  } catch (error) {
+    console.error('Pantry GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to add one item ({ item }) or several ({ items }) to the pantry
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const inputs = Array.isArray(body.items) ? body.items : body.item ? [body.item] : [];
+
+    if (inputs.length === 0) {
+      return Response.json(
+        { success: false, error: 'item or items required' },
+        { status: 400 }
+      );
+    }
+
+    for (const input of inputs) {
+      const validationError = validatePantryItemInput(input);
+      if (validationError) {
+        return Response.json(
+          { success: false, error: validationError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const rows = inputs.map((input: any) => ({
+      quantity: 1,
+      unit: 'item',
+      location: 'pantry',
+      ...pantryItemToRow(input),
+      user_id: authUser.userId
+    }));
+
+    const { data: savedItems, error } = await supabase
+      .from('pantry_items')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      console.error('Add pantry items error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to add pantry items' },
+        { status: 500 }
+      );
+    }
+
+    console.log('✅ Added', savedItems?.length || 0, 'pantry items for user:', authUser.userId);
+
+    return Response.json({
+      success: true,
+      items: (savedItems || []).map(pantryItemFromRow)
+    });
+
+  } catch (error) {
+    console.error('Pantry POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
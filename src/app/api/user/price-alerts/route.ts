@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { getStoreNameLookup } from '@/lib/priceProvider';
+import {
+  fetchPriceObservations,
+  fetchPurchaseCounts,
+  findPriceAlerts,
+  groupByIngredient,
+  summarizePriceTrend
+} from '@/lib/priceHistory';
+
+// GET deals on ingredients the user buys often
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const purchaseCounts = await fetchPurchaseCounts(supabase, authUser.userId);
+    const observations = await fetchPriceObservations(supabase, Array.from(purchaseCounts.keys()), authUser.userId);
+    const storeName = await getStoreNameLookup();
+
+    const trends = Array.from(groupByIngredient(observations).values())
+      .map(group => summarizePriceTrend(group, { storeName }))
+      .filter((trend): trend is NonNullable<typeof trend> => trend !== null);
+
+    return Response.json({
+      success: true,
+      alerts: findPriceAlerts(trends, purchaseCounts, storeName)
+    });
+
+  } catch (error) {
+    console.error('Price alerts GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
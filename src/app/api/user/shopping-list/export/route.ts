@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchPantryItems } from '@/lib/pantry';
+import { applyPantryToShoppingList, stapleOverridesFromPreferences } from '@/lib/pantryShopping';
+import { EXPORT_FORMATS, isExportFormat, renderShoppingListExport } from '@/lib/shoppingListExport';
+import { storeLayoutFromRow } from '@/lib/storeLayouts';
+
+// GET the shopping list as a file:
+// ?format=text|csv|markdown|html&unchecked=true&layoutId=<store layout>
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get('format') || 'text';
+
+    if (!isExportFormat(format)) {
+      return Response.json(
+        { success: false, error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: userData, error } = await supabase
+      .from('user_data')
+      .select('shopping_list, preferences')
+      .eq('user_id', authUser.userId)
+      .single();
+
+    if (error) {
+      console.error('Get shopping list error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to get shopping list' },
+        { status: 500 }
+      );
+    }
+
+    const shoppingList = applyPantryToShoppingList(
+      Array.isArray(userData?.shopping_list) ? userData.shopping_list : [],
+      await fetchPantryItems(supabase, authUser.userId),
+      stapleOverridesFromPreferences(userData?.preferences)
+    );
+
+    // Follow the chosen store's aisle order, or the user's default store
+    const layoutId = searchParams.get('layoutId');
+    let layoutQuery = supabase
+      .from('store_layouts')
+      .select('*')
+      .eq('user_id', authUser.userId);
+    layoutQuery = layoutId ? layoutQuery.eq('id', layoutId) : layoutQuery.eq('is_default', true);
+    const { data: layoutRows } = await layoutQuery.limit(1);
+    const layout = layoutRows && layoutRows.length > 0 ? storeLayoutFromRow(layoutRows[0]) : null;
+
+    const rendered = renderShoppingListExport(shoppingList, format, {
+      uncheckedOnly: searchParams.get('unchecked') === 'true',
+      layout,
+      title: layout ? `Shopping list: ${layout.name}` : 'Shopping list'
+    });
+
+    const filename = `shopping-list-${new Date().toISOString().slice(0, 10)}.${rendered.fileExtension}`;
+
+    console.log('📤 Exported shopping list as', format, 'for user:', authUser.userId);
+
+    return new Response(rendered.body, {
+      headers: {
+        'Content-Type': rendered.contentType,
+        // The print page opens in the browser; everything else downloads
+        'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Shopping list export error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
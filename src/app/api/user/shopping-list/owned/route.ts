@@ -0,0 +1,160 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { fetchPantryItems, pantryItemFromRow } from '@/lib/pantry';
+import { applyPantryToShoppingList, spreadOwnedAmount, stapleOverridesFromPreferences } from '@/lib/pantryShopping';
+import { normalizeIngredientName } from '@/lib/shoppingList';
+import { stampItemVersions } from '@/lib/shoppingListSync';
+import { classifyIngredient } from '@/lib/storeAisles';
+import { PantryItem, PantryLocation, ShoppingListItem } from '@/types/recipe';
+
+// PUT to record how much of a shopping list item the user already has.
+// Updates (or creates) the matching pantry items and returns the re-checked list.
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { itemId, quantity } = await request.json();
+
+    if (!itemId || typeof quantity !== 'number' || quantity < 0) {
+      return Response.json(
+        { success: false, error: 'itemId and a non-negative quantity are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: userData, error: getUserError } = await supabase
+      .from('user_data')
+      .select('shopping_list, preferences')
+      .eq('user_id', authUser.userId)
+      .single();
+
+    if (getUserError) {
+      console.error('Get shopping list error:', getUserError);
+      return Response.json(
+        { success: false, error: 'Failed to get shopping list' },
+        { status: 500 }
+      );
+    }
+
+    const shoppingList: ShoppingListItem[] = Array.isArray(userData?.shopping_list) ? userData.shopping_list : [];
+    const item = shoppingList.find(listItem => listItem.id === itemId);
+
+    if (!item) {
+      return Response.json(
+        { success: false, error: 'Shopping list item not found' },
+        { status: 404 }
+      );
+    }
+
+    const unit = item.unit || 'item';
+    const pantryItems = await fetchPantryItems(supabase, authUser.userId);
+    const key = normalizeIngredientName(item.name);
+
+    // Record it against the existing pantry items in their own units when we can
+    const spread = spreadOwnedAmount(
+      pantryItems.filter(pantryItem => normalizeIngredientName(pantryItem.name) === key),
+      quantity,
+      unit,
+      item.name
+    );
+
+    const now = new Date().toISOString();
+    const savedItems: PantryItem[] = [];
+
+    if (spread.length > 0) {
+      for (const { pantryItem, quantity: newQuantity } of spread) {
+        if (Math.abs(newQuantity - pantryItem.quantity) < 0.0001) continue;
+
+        const { data: savedRow, error: pantryError } = await supabase
+          .from('pantry_items')
+          .update({ quantity: newQuantity, updated_at: now })
+          .eq('id', pantryItem.id)
+          .eq('user_id', authUser.userId)
+          .select()
+          .single();
+
+        if (pantryError || !savedRow) {
+          console.error('Save owned quantity error:', pantryError);
+          return Response.json(
+            { success: false, error: 'Failed to update pantry' },
+            { status: 500 }
+          );
+        }
+        savedItems.push(pantryItemFromRow(savedRow));
+      }
+    } else {
+      const { data: savedRow, error: pantryError } = await supabase
+        .from('pantry_items')
+        .insert([{
+          user_id: authUser.userId,
+          name: item.name,
+          quantity,
+          unit,
+          location: storageLocationFor(item.name)
+        }])
+        .select()
+        .single();
+
+      if (pantryError || !savedRow) {
+        console.error('Save owned quantity error:', pantryError);
+        return Response.json(
+          { success: false, error: 'Failed to update pantry' },
+          { status: 500 }
+        );
+      }
+      savedItems.push(pantryItemFromRow(savedRow));
+    }
+
+    const savedIds = new Set(savedItems.map(savedItem => savedItem.id));
+    const updatedList = stampItemVersions(shoppingList, applyPantryToShoppingList(
+      shoppingList,
+      [...pantryItems.filter(pantryItem => !savedIds.has(pantryItem.id)), ...savedItems],
+      stapleOverridesFromPreferences(userData?.preferences)
+    ));
+
+    const { error: updateError } = await supabase
+      .from('user_data')
+      .update({
+        shopping_list: updatedList,
+        updated_at: now
+      })
+      .eq('user_id', authUser.userId);
+
+    if (updateError) {
+      console.error('Update shopping list error:', updateError);
+      return Response.json(
+        { success: false, error: 'Failed to update shopping list' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      pantry_items: savedItems,
+      shopping_list: updatedList
+    });
+
+  } catch (error) {
+    console.error('Shopping list owned PUT error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+function storageLocationFor(name: string): PantryLocation {
+  const aisle = classifyIngredient(name);
+  if (aisle === 'frozen') return 'freezer';
+  if (aisle === 'produce' || aisle === 'dairy-eggs' || aisle === 'meat-seafood') return 'fridge';
+  return 'pantry';
+}
@@ -1,6 +1,14 @@
 import { NextRequest } from 'next/server';
 import { getAuthUser } from '@/lib/auth';
 import { createSupabaseServerClient } from '@/lib/supabase';
+import { categorizeShoppingList, mergeIntoShoppingList } from '@/lib/shoppingList';
+import { fetchPantryItems } from '@/lib/pantry';
+import { applyPantryToShoppingList, stapleOverridesFromPreferences } from '@/lib/pantryShopping';
+import { applyShoppingListOperations, ensureItemVersions, replaceShoppingList, stampItemVersions } from '@/lib/shoppingListSync';
+import { ShoppingListItem, ShoppingListOperation } from '@/types/recipe';
+
+// Another device's save can land between our read and our write; retry that many times
+const MAX_SYNC_ATTEMPTS = 3;
 
 // GET shopping list
 export async function GET(request: NextRequest) {
@@ -17,7 +25,7 @@ export async function GET(request: NextRequest) {
     
     const { data: userData, error } = await supabase
       .from('user_data')
-      .select('shopping_list')
+      .select('shopping_list, preferences')
       .eq('user_id', authUser.userId)
       .single();
     
@@ -28,10 +36,17 @@ export async function GET(request: NextRequest) {
         { status: 500 }
       );
     }
+
+    // Owned status is worked out fresh, since the pantry may have changed since the list was saved
+    const shoppingList = applyPantryToShoppingList(
+      ensureItemVersions(Array.isArray(userData?.shopping_list) ? userData.shopping_list : []),
+      await fetchPantryItems(supabase, authUser.userId),
+      stapleOverridesFromPreferences(userData?.preferences)
+    );
     
     return Response.json({
       success: true,
-      shopping_list: userData?.shopping_list || []
+      shopping_list: shoppingList
     });
     
   } catch (error) {
@@ -56,69 +71,70 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { recipeId, ingredients } = await request.json();
+    const { recipeId, recipeTitle, ingredients } = await request.json();
     
-    if (!recipeId || !ingredients) {
+    if (!recipeId || !Array.isArray(ingredients)) {
       return Response.json(
         { success: false, error: 'Recipe ID and ingredients required' },
         { status: 400 }
       );
     }
     
-    // Get current shopping list
-    const { data: userData, error: getUserError } = await supabase
-      .from('user_data')
-      .select('shopping_list')
-      .eq('user_id', authUser.userId)
-      .single();
-    
-    if (getUserError) {
-      console.error('Get shopping list error:', getUserError);
-      return Response.json(
-        { success: false, error: 'Failed to get shopping list' },
-        { status: 500 }
-      );
-    }
-    
-    let currentList = userData?.shopping_list || [];
-    
-    // Add ingredients to shopping list
-    const newItems = ingredients.map((ingredient: any) => ({
-      id: `${recipeId}-${ingredient.name}-${Date.now()}`,
-      recipeId,
-      name: ingredient.name,
-      amount: ingredient.amount,
-      unit: ingredient.unit,
-      estimatedPrice: ingredient.estimatedPrice,
-      checked: false,
-      isAlreadyOwned: false
-    }));
-    
-    currentList = [...currentList, ...newItems];
-    
-    // Update in database
-    const { error: updateError } = await supabase
-      .from('user_data')
-      .update({ 
-        shopping_list: currentList,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', authUser.userId);
-    
-    if (updateError) {
-      console.error('Update shopping list error:', updateError);
-      return Response.json(
-        { success: false, error: 'Failed to update shopping list' },
-        { status: 500 }
+    const pantryItems = await fetchPantryItems(supabase, authUser.userId);
+
+    for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      const { data: userData, error: getUserError } = await supabase
+        .from('user_data')
+        .select('shopping_list, preferences, updated_at')
+        .eq('user_id', authUser.userId)
+        .single();
+
+      if (getUserError || !userData) {
+        console.error('Get shopping list error:', getUserError);
+        return Response.json(
+          { success: false, error: 'Failed to get shopping list' },
+          { status: 500 }
+        );
+      }
+
+      // Merge into existing lines so each item appears once, with a per-recipe breakdown
+      const previousList = Array.isArray(userData.shopping_list) ? userData.shopping_list : [];
+      const mergedList = mergeIntoShoppingList(
+        previousList,
+        [{ recipeId: String(recipeId), recipeTitle, ingredients }]
       );
+
+      // Subtract what's already in the pantry, and staples the user keeps stocked
+      const currentList = stampItemVersions(previousList, applyPantryToShoppingList(
+        mergedList,
+        pantryItems,
+        stapleOverridesFromPreferences(userData.preferences)
+      ));
+
+      const { saved, error: updateError } = await saveIfUnchanged(supabase, authUser.userId, currentList, userData.updated_at);
+
+      if (updateError) {
+        console.error('Update shopping list error:', updateError);
+        return Response.json(
+          { success: false, error: 'Failed to update shopping list' },
+          { status: 500 }
+        );
+      }
+
+      if (saved) {
+        return Response.json({
+          success: true,
+          message: 'Recipe added to shopping list',
+          shopping_list: currentList
+        });
+      }
     }
-    
-    return Response.json({
-      success: true,
-      message: 'Recipe added to shopping list',
-      shopping_list: currentList
-    });
-    
+
+    return Response.json(
+      { success: false, error: 'The list is being updated from another device; try again' },
+      { status: 409 }
+    );
+
   } catch (error) {
     console.error('Shopping list POST error:', error);
     return Response.json(
@@ -141,46 +157,190 @@ export async function PUT(request: NextRequest) {
       );
     }
     
-    const { shopping_list } = await request.json();
+    const body = await request.json();
     
-    if (!Array.isArray(shopping_list)) {
+    if (!Array.isArray(body.shopping_list)) {
       return Response.json(
         { success: false, error: 'shopping_list must be an array' },
         { status: 400 }
       );
     }
-    
-    console.log('📝 Updating entire shopping list for user:', authUser.userId, 'Items:', shopping_list.length);
-    
-    // Update the entire shopping list in database
-    const { error: updateError } = await supabase
-      .from('user_data')
-      .update({ 
-        shopping_list: shopping_list,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', authUser.userId);
-    
-    if (updateError) {
-      console.error('Update shopping list error:', updateError);
+
+    console.log('📝 Updating entire shopping list for user:', authUser.userId, 'Items:', body.shopping_list.length);
+
+    for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      const { data: userData, error: getUserError } = await supabase
+        .from('user_data')
+        .select('shopping_list, updated_at')
+        .eq('user_id', authUser.userId)
+        .single();
+
+      if (getUserError || !userData) {
+        console.error('Get shopping list error:', getUserError);
+        return Response.json(
+          { success: false, error: 'Failed to get shopping list' },
+          { status: 500 }
+        );
+      }
+
+      // Items another device changed since this copy was read keep the server's version.
+      // Items added by hand on the client arrive without an aisle.
+      const previousList = ensureItemVersions(Array.isArray(userData.shopping_list) ? userData.shopping_list : []);
+      const { items, conflicts } = replaceShoppingList(previousList, body.shopping_list);
+      const shopping_list = stampItemVersions(previousList, categorizeShoppingList(items));
+
+      const { saved, error: updateError } = await saveIfUnchanged(supabase, authUser.userId, shopping_list, userData.updated_at);
+
+      if (updateError) {
+        console.error('Update shopping list error:', updateError);
+        return Response.json(
+          { success: false, error: 'Failed to update shopping list' },
+          { status: 500 }
+        );
+      }
+
+      if (saved) {
+        console.log('✅ Shopping list updated successfully for user:', authUser.userId, conflicts.length ? `(${conflicts.length} kept from another device)` : '');
+
+        return Response.json({
+          success: true,
+          shopping_list,
+          conflicts
+        });
+      }
+    }
+
+    return Response.json(
+      { success: false, error: 'The list is being updated from another device; try again' },
+      { status: 409 }
+    );
+
+  } catch (error) {
+    console.error('Shopping list PUT error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+// PATCH to replay item-level operations queued on a device, e.g. while offline.
+// Returns the merged list and what happened to each operation.
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
       return Response.json(
-        { success: false, error: 'Failed to update shopping list' },
-        { status: 500 }
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
       );
     }
-    
-    console.log('✅ Shopping list updated successfully for user:', authUser.userId);
-    
-    return Response.json({
-      success: true,
-      shopping_list: shopping_list
-    });
-    
+
+    const { operations } = await request.json();
+
+    if (!Array.isArray(operations) || operations.some(isMalformedOperation)) {
+      return Response.json(
+        { success: false, error: 'operations must be an array of add, update or remove operations' },
+        { status: 400 }
+      );
+    }
+
+    for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      const { data: userData, error: getUserError } = await supabase
+        .from('user_data')
+        .select('shopping_list, preferences, updated_at')
+        .eq('user_id', authUser.userId)
+        .single();
+
+      if (getUserError || !userData) {
+        console.error('Get shopping list error:', getUserError);
+        return Response.json(
+          { success: false, error: 'Failed to get shopping list' },
+          { status: 500 }
+        );
+      }
+
+      const { items, results } = applyShoppingListOperations(
+        Array.isArray(userData.shopping_list) ? userData.shopping_list : [],
+        operations as ShoppingListOperation[]
+      );
+      const shoppingList = categorizeShoppingList(items);
+
+      const { saved, error: updateError } = await saveIfUnchanged(supabase, authUser.userId, shoppingList, userData.updated_at);
+
+      if (updateError) {
+        console.error('Update shopping list error:', updateError);
+        return Response.json(
+          { success: false, error: 'Failed to update shopping list' },
+          { status: 500 }
+        );
+      }
+
+      if (saved) {
+        const conflicts = results.filter(result => result.status === 'conflict').length;
+        console.log('🔄 Synced', operations.length, 'shopping list operations for user:', authUser.userId, conflicts ? `(${conflicts} conflicts)` : '');
+
+        return Response.json({
+          success: true,
+          results,
+          shopping_list: applyPantryToShoppingList(
+            shoppingList,
+            await fetchPantryItems(supabase, authUser.userId),
+            stapleOverridesFromPreferences(userData.preferences)
+          )
+        });
+      }
+    }
+
+    return Response.json(
+      { success: false, error: 'The list is being updated from another device; try again' },
+      { status: 409 }
+    );
+
   } catch (error) {
-    console.error('Shopping list PUT error:', error);
+    console.error('Shopping list PATCH error:', error);
     return Response.json(
       { success: false, error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Save only if nobody else has saved since the list was read at `readAt`.
+// A list that has never been saved has no timestamp, which still counts as a match.
+async function saveIfUnchanged(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  userId: string,
+  shoppingList: ShoppingListItem[],
+  readAt: string | null
+): Promise<{ saved: boolean; error: unknown }> {
+  const update = supabase
+    .from('user_data')
+    .update({
+      shopping_list: shoppingList,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  const { data, error } = await (readAt ? update.eq('updated_at', readAt) : update.is('updated_at', null))
+    .select('user_id');
+
+  return { saved: !error && !!data && data.length > 0, error };
+}
+
+function isMalformedOperation(operation: any): boolean {
+  if (!operation || typeof operation.opId !== 'string') return true;
+
+  switch (operation.type) {
+    case 'add':
+      return !operation.item || typeof operation.item.id !== 'string' || typeof operation.item.name !== 'string';
+    case 'update':
+      return typeof operation.itemId !== 'string' || !operation.changes || typeof operation.changes !== 'object'
+        || typeof operation.baseVersion !== 'number';
+    case 'remove':
+      return typeof operation.itemId !== 'string' || typeof operation.baseVersion !== 'number';
+    default:
+      return true;
+  }
+}
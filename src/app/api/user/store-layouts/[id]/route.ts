@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { storeLayoutFromRow, storeLayoutToRow, validateStoreLayoutInput } from '@/lib/storeLayouts';
+
+// PUT to rename, reorder or make a store layout the default
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const updates = await request.json();
+    const validationError = validateStoreLayoutInput(updates, true);
+
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: layout, error } = await supabase
+      .from('store_layouts')
+      .update({
+        ...storeLayoutToRow(updates),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', params.id)
+      .eq('user_id', authUser.userId)
+      .select()
+      .single();
+
+    if (error || !layout) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('Update store layout error:', error);
+      }
+      return Response.json(
+        { success: false, error: 'Store layout not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only one layout can be the default; cleared once the new one is known to exist
+    if (updates.isDefault) {
+      const { error: clearError } = await supabase
+        .from('store_layouts')
+        .update({ is_default: false })
+        .eq('user_id', authUser.userId)
+        .neq('id', layout.id);
+
+      if (clearError) {
+        console.error('Clear default store layout error:', clearError);
+        return Response.json(
+          { success: false, error: 'Failed to update default store layout' },
+          { status: 500 }
+        );
+      }
+    }
+
+    return Response.json({
+      success: true,
+      layout: storeLayoutFromRow(layout)
+    });
+
+  } catch (error) {
+    console.error('Store layout PUT error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a store layout
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('store_layouts')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', authUser.userId)
+      .select('id');
+
+    if (error) {
+      console.error('Delete store layout error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to delete store layout' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return Response.json(
+        { success: false, error: 'Store layout not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      message: 'Store layout deleted'
+    });
+
+  } catch (error) {
+    console.error('Store layout DELETE error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { storeLayoutFromRow, storeLayoutToRow, validateStoreLayoutInput } from '@/lib/storeLayouts';
+
+// GET the user's store layouts, default first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: layouts, error } = await supabase
+      .from('store_layouts')
+      .select('*')
+      .eq('user_id', authUser.userId)
+      .order('is_default', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Get store layouts error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to get store layouts' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      layouts: (layouts || []).map(storeLayoutFromRow)
+    });
+
+  } catch (error) {
+    console.error('Store layouts GET error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to save a new store layout
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const authUser = await getAuthUser(request);
+
+    if (!authUser) {
+      return Response.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const input = await request.json();
+    const validationError = validateStoreLayoutInput(input);
+
+    if (validationError) {
+      return Response.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: layout, error } = await supabase
+      .from('store_layouts')
+      .insert([{
+        ...storeLayoutToRow(input),
+        user_id: authUser.userId
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Add store layout error:', error);
+      return Response.json(
+        { success: false, error: 'Failed to save store layout' },
+        { status: 500 }
+      );
+    }
+
+    // Only one layout can be the default; cleared once the new one is saved
+    if (input.isDefault) {
+      const { error: clearError } = await supabase
+        .from('store_layouts')
+        .update({ is_default: false })
+        .eq('user_id', authUser.userId)
+        .neq('id', layout.id);
+
+      if (clearError) {
+        console.error('Clear default store layout error:', clearError);
+        return Response.json(
+          { success: false, error: 'Failed to update default store layout' },
+          { status: 500 }
+        );
+      }
+    }
+
+    console.log('✅ Saved store layout for user:', authUser.userId, layout.name);
+
+    return Response.json({
+      success: true,
+      layout: storeLayoutFromRow(layout)
+    });
+
+  } catch (error) {
+    console.error('Store layouts POST error:', error);
+    return Response.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Recipe, SearchFilters } from '@/types/recipe';
+import { ExpiringIngredient, Recipe, SearchFilters } from '@/types/recipe';
+import { getAtRiskIngredients, rankRecipesByWasteReduction } from '@/lib/wasteReduction';
 import { searchRecipesWithParsing, searchRecipesAdvanced, checkAPIConnection } from '@/lib/api';
+import { HIGH_GLYCEMIC_LOAD } from '@/lib/glycemic';
 import { useAuth } from '@/contexts/AuthContext';
 import TopNavigation from '@/components/TopNavigation';
 import IngredientInput from '@/components/IngredientInput';
@@ -22,6 +24,7 @@ import { mockRecipes } from '@/data/mockRecipes';
 export default function RecipeSearchPage() {
   const { user, userData, updateUserData } = useAuth();
   const [ingredients, setIngredients] = useState<string[]>([]);
+  const [ingredientUseBy, setIngredientUseBy] = useState<Record<string, string>>({});
   const [currentFilters, setCurrentFilters] = useState<SearchFilters>({ dietary: [] });
   const [recipes, setRecipes] = useState<Recipe[]>(mockRecipes);
   const [loading, setLoading] = useState(false);
@@ -43,6 +46,7 @@ export default function RecipeSearchPage() {
   const [showDietPlan, setShowDietPlan] = useState(false);
   const [currentDietPlan, setCurrentDietPlan] = useState<any>(null);
   const [hasDietPlan, setHasDietPlan] = useState(false);
+  const [healthProfile, setHealthProfile] = useState<any>(null);
   
   // Authentication modal
   const [showAuthModal, setShowAuthModal] = useState(false);
@@ -107,6 +111,15 @@ export default function RecipeSearchPage() {
     }
   }, [user, userData?.favorites]); // Watch both user AND userData.favorites
 
+  // Health profile for personal % Daily Values in recipe details
+  useEffect(() => {
+    if (user) {
+      getUserHealthProfile().then(setHealthProfile);
+    } else {
+      setHealthProfile(null);
+    }
+  }, [user]);
+
   // IMMEDIATE CLEANUP: Clear favorites on mount if no user
   useEffect(() => {
     if (!user) {
@@ -495,9 +508,13 @@ export default function RecipeSearchPage() {
     try {
       console.log('📡 Calling searchRecipesWithParsing API...');
       
+      const expiringIngredients: ExpiringIngredient[] = Object.entries(ingredientUseBy)
+        .map(([name, useBy]) => ({ name, useBy }));
+
       const result = await searchRecipesWithParsing({ 
         prompt: query,
-        maxResults: 5
+        maxResults: 5,
+        expiringIngredients
       });
 
       console.log('📋 API Response received:', {
@@ -544,7 +561,7 @@ export default function RecipeSearchPage() {
       console.log('🏁 AI search completed, setting loading to false');
       setLoading(false);
     }
-  }, [currentFilters, ingredients]);
+  }, [currentFilters, ingredients, ingredientUseBy]);
 
   // Listen for recipe search events from diet plan
   useEffect(() => {
@@ -665,6 +682,8 @@ export default function RecipeSearchPage() {
     setHasDietPlan(true);
     setShowHealthProfile(false);
     setShowDietPlan(true);
+    // The modal saved age and sex to the health profile along with the plan
+    if (user) getUserHealthProfile().then(setHealthProfile);
   };
 
   const handleViewDietPlan = () => {
@@ -767,8 +786,15 @@ export default function RecipeSearchPage() {
     // Check for condition-specific warnings
     if (healthProfile.conditions && Array.isArray(healthProfile.conditions)) {
       healthProfile.conditions.forEach((condition: string) => {
-        if (condition.toLowerCase().includes('diabetes') && recipe.nutrition?.carbs && recipe.nutrition.carbs > 45) {
-          warnings.push('High carbohydrate content - monitor blood sugar');
+        if (condition.toLowerCase().includes('diabetes')) {
+          // Glycemic load says more than carbs alone; older recipes without one fall back to the carb count
+          if (typeof recipe.nutrition?.glycemicLoad === 'number') {
+            if (recipe.nutrition.glycemicLoad >= HIGH_GLYCEMIC_LOAD) {
+              warnings.push(`High glycemic load (${recipe.nutrition.glycemicLoad} per serving) - monitor blood sugar`);
+            }
+          } else if (recipe.nutrition?.carbs && recipe.nutrition.carbs > 45) {
+            warnings.push('High carbohydrate content - monitor blood sugar');
+          }
         }
         if (condition.toLowerCase().includes('hypertension') && recipe.nutrition?.sodium && recipe.nutrition.sodium > 600) {
           warnings.push('High sodium content - may affect blood pressure');
@@ -883,6 +909,14 @@ export default function RecipeSearchPage() {
           allRecipes = await filterRecipesByHealth(allRecipes, healthProfile);
         }
       }
+
+      // 5. Put recipes that use up soon-to-expire ingredients first
+      const atRiskIngredients = getAtRiskIngredients(
+        Object.entries(ingredientUseBy).map(([name, useBy]) => ({ name, useBy }))
+      );
+      if (atRiskIngredients.length > 0) {
+        allRecipes = rankRecipesByWasteReduction(allRecipes, atRiskIngredients);
+      }
       
       setRecipes(allRecipes);
       
@@ -897,7 +931,7 @@ export default function RecipeSearchPage() {
     } finally {
       setLoading(false);
     }
-  }, [ingredients, currentFilters, apiStatus, user]);
+  }, [ingredients, ingredientUseBy, currentFilters, apiStatus, user]);
 
   // Filter mock recipes based on current criteria
   const filterMockRecipes = (recipes: Recipe[], filters: SearchFilters, userIngredients: string[]): Recipe[] => {
@@ -1086,6 +1120,7 @@ export default function RecipeSearchPage() {
 
   const clearSearch = () => {
     setIngredients([]);
+    setIngredientUseBy({});
     setCurrentFilters({ dietary: [] });
     setRecipes(mockRecipes);
     setHasSearched(false);
@@ -1244,6 +1279,8 @@ export default function RecipeSearchPage() {
                 ingredients={ingredients}
                 onIngredientsChange={setIngredients}
                 placeholder="Add ingredients you have..."
+                useByDates={ingredientUseBy}
+                onUseByDatesChange={setIngredientUseBy}
               />
             </div>
           </div>
@@ -1545,6 +1582,8 @@ export default function RecipeSearchPage() {
         }}
         onAddToShoppingList={handleAddToShoppingListWithTracking}
         isFavorite={selectedRecipe ? isFavorite(selectedRecipe.id) : false}
+        referenceProfile={healthProfile && { age: healthProfile.age ?? undefined, sex: healthProfile.sex ?? undefined }}
+        healthConditions={healthProfile?.conditions}
       />
 
       {/* Shopping List Modal */}
@@ -4,10 +4,13 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Recipe, UserPreferences } from '@/types/recipe';
+import { Leftover, Recipe, UserPreferences } from '@/types/recipe';
 import { formatRating } from '@/lib/utils';
+import { fetchLeftovers } from '@/lib/api';
+import { describeLeftover } from '@/lib/leftovers';
+import { daysUntilExpiry } from '@/lib/wasteReduction';
 import MarkdownText from './MarkdownText';
-import { Brain, TrendingUp, Target, CheckCircle,   Clock, Sparkles, RefreshCw } from 'lucide-react';
+import { Brain, TrendingUp, Target, CheckCircle,   Clock, Sparkles, RefreshCw, Soup } from 'lucide-react';
 
 interface AIRecommendationsProps {
   userIngredients: string[];
@@ -19,7 +22,7 @@ interface AIRecommendationsProps {
 
 interface AIRecommendation {
   id: string;
-  type: 'smart_match' | 'trending' | 'seasonal' | 'health_goal' | 'time_based' | 'learning';
+  type: 'smart_match' | 'leftovers' | 'trending' | 'seasonal' | 'health_goal' | 'time_based' | 'learning';
   title: string;
   description: string;
   confidence: number; // 0-100
@@ -55,6 +58,10 @@ export default function AIRecommendations({
     
     const newRecommendations: AIRecommendation[] = [];
 
+    // Leftovers from earlier cooking come first: they're the ones with a clock on them
+    const leftoversResult = await fetchLeftovers();
+    newRecommendations.push(...leftoverRecommendations(leftoversResult.leftovers || [], currentTime));
+
     // Smart ingredient matching
     if (userIngredients.length > 0) {
       newRecommendations.push({
@@ -222,6 +229,7 @@ export default function AIRecommendations({
   const getTypeIcon = (type: string) => {
     switch (type) {
       case 'smart_match': return <Target className="w-5 h-5" />;
+      case 'leftovers': return <Soup className="w-5 h-5" />;
       case 'trending': return <TrendingUp className="w-5 h-5" />;
       case 'time_based': return <Clock className="w-5 h-5" />;
       case 'learning': return <Brain className="w-5 h-5" />;
@@ -232,6 +240,7 @@ export default function AIRecommendations({
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'smart_match': return 'text-purple-600 bg-purple-100';
+      case 'leftovers': return 'text-orange-600 bg-orange-100';
       case 'trending': return 'text-pink-600 bg-pink-100';
       case 'time_based': return 'text-blue-600 bg-blue-100';
       case 'seasonal': return 'text-green-600 bg-green-100';
@@ -274,6 +283,7 @@ export default function AIRecommendations({
         {[
           { id: 'all', label: 'All Suggestions', count: recommendations.length },
           { id: 'smart_match', label: 'Smart Match', count: recommendations.filter(r => r.type === 'smart_match').length },
+          { id: 'leftovers', label: 'Leftovers', count: recommendations.filter(r => r.type === 'leftovers').length },
           { id: 'trending', label: 'Trending', count: recommendations.filter(r => r.type === 'trending').length },
           { id: 'time_based', label: 'Time-Based', count: recommendations.filter(r => r.type === 'time_based').length },
           { id: 'seasonal', label: 'Seasonal', count: recommendations.filter(r => r.type === 'seasonal').length }
@@ -408,6 +418,52 @@ export default function AIRecommendations({
 }
 
 // Helper functions
+function leftoverRecommendations(leftovers: Leftover[], now: Date): AIRecommendation[] {
+  const useByText = (leftover: Leftover) => {
+    const daysLeft = daysUntilExpiry(leftover.useBy, now) ?? 0;
+    return daysLeft <= 0 ? 'use today' : daysLeft === 1 ? 'use by tomorrow' : `use within ${daysLeft} days`;
+  };
+  // The sooner it has to be eaten, the stronger the suggestion
+  const urgency = (leftover: Leftover) => Math.max(0, 4 - (daysUntilExpiry(leftover.useBy, now) ?? 0)) * 3;
+
+  const recommendations: AIRecommendation[] = leftovers
+    .filter(leftover => leftover.kind === 'portion')
+    .map(leftover => ({
+      id: `leftovers_${leftover.id}`,
+      type: 'leftovers' as const,
+      title: `Cook Again with Leftover ${leftover.name}`,
+      description: `Turn ${describeLeftover(leftover)} into something new`,
+      confidence: Math.min(98, 85 + urgency(leftover)),
+      reasoning: [
+        `${describeLeftover(leftover)} left from ${new Date(leftover.createdAt).toLocaleDateString()} - ${useByText(leftover)}`,
+        'Already cooked, so a new meal is mostly assembly',
+        'Nothing extra to buy'
+      ],
+      suggestedIngredients: [leftover.name],
+      estimatedTime: 15,
+      difficulty: 'Easy' as const,
+      tags: ['leftovers', 'no_waste', 'quick']
+    }));
+
+  const ingredients = leftovers.filter(leftover => leftover.kind === 'ingredient');
+  if (ingredients.length > 0) {
+    recommendations.push({
+      id: 'leftovers_ingredients',
+      type: 'leftovers',
+      title: 'Use Up Opened Packages',
+      description: `Recipes for the rest of your ${ingredients.map(leftover => leftover.name).join(', ')}`,
+      confidence: Math.min(95, 82 + Math.max(...ingredients.map(urgency))),
+      reasoning: ingredients.map(leftover => `${describeLeftover(leftover)} left over - ${useByText(leftover)}`),
+      suggestedIngredients: ingredients.map(leftover => leftover.name),
+      estimatedTime: 30,
+      difficulty: 'Easy',
+      tags: ['leftovers', 'no_waste', 'budget']
+    });
+  }
+
+  return recommendations;
+}
+
 function getSeasonalIngredients(month: number): string[] {
   const seasonalMap: Record<number, string[]> = {
     0: ['citrus', 'winter squash', 'kale'], // January
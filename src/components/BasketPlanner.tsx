@@ -0,0 +1,121 @@
+// src/components/BasketPlanner.tsx
+// Cheapest single-store and split-basket plans for a priced shopping list
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { PriceData } from '@/types/recipe';
+import { BasketPlan, optimizeBasket } from '@/lib/basketOptimizer';
+import { formatPrice } from '@/lib/utils';
+import { Split, Store, Info } from 'lucide-react';
+
+interface BasketPlannerProps {
+  priceData: PriceData[];
+}
+
+export default function BasketPlanner({ priceData }: BasketPlannerProps) {
+  const [maxStops, setMaxStops] = useState(2);
+  const [convenienceWeight, setConvenienceWeight] = useState(0.5);
+
+  const optimization = useMemo(
+    () => optimizeBasket(priceData, { maxStops, convenienceWeight }),
+    [priceData, maxStops, convenienceWeight]
+  );
+
+  if (!optimization.singleStore) return null;
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+      <div className="flex items-center gap-2">
+        <Split className="w-5 h-5 text-green-600" />
+        <h4 className="font-medium text-gray-900">Plan your shop</h4>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Up to
+          <select
+            value={maxStops}
+            onChange={(e) => setMaxStops(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            {[1, 2, 3].filter(stops => stops <= Math.max(priceData.length, 1)).map(stops => (
+              <option key={stops} value={stops}>{stops} {stops === 1 ? 'store' : 'stores'}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>Lowest cost</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.25}
+            value={convenienceWeight}
+            onChange={(e) => setConvenienceWeight(Number(e.target.value))}
+            className="accent-green-600"
+          />
+          <span>Fewest stops</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <BasketPlanCard
+          title="One store"
+          plan={optimization.singleStore}
+          recommended={optimization.recommended === 'single'}
+        />
+        {optimization.multiStore && (
+          <BasketPlanCard
+            title={`Split across ${optimization.multiStore.stops.length} stores`}
+            plan={optimization.multiStore}
+            recommended={optimization.recommended === 'multi'}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BasketPlanCard({ title, plan, recommended }: { title: string; plan: BasketPlan; recommended: boolean }) {
+  return (
+    <div className={`p-4 rounded-lg border ${recommended ? 'border-green-500 bg-green-50' : 'border-gray-200'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">{title}</span>
+        {recommended && (
+          <span className="px-2 py-0.5 bg-green-600 text-white text-xs rounded-full">Recommended</span>
+        )}
+      </div>
+
+      <div className="text-2xl font-bold text-gray-900">{formatPrice(plan.totalCost)}</div>
+      <div className="text-xs text-gray-500 mb-3">
+        {formatPrice(plan.itemsCost)} groceries · {formatPrice(plan.deliveryCost)} delivery
+        {plan.totalDistance > 0 && ` · ${plan.totalDistance} mi`}
+      </div>
+
+      <div className="space-y-2 mb-3">
+        {plan.stops.map(stop => (
+          <div key={stop.store.id} className="text-sm">
+            <div className="flex items-center gap-2 font-medium text-gray-800">
+              <Store className="w-4 h-4 text-gray-500" />
+              {stop.store.logo} {stop.store.name}
+              <span className="ml-auto text-gray-600">{formatPrice(stop.itemsCost)}</span>
+            </div>
+            <div className="pl-6 text-xs text-gray-500">
+              {stop.items.map(item => item.ingredient.name).join(', ')}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <ul className="space-y-1">
+        {plan.explanation.map((line, index) => (
+          <li key={index} className="flex items-start gap-1 text-xs text-gray-600">
+            <Info className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            {line}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
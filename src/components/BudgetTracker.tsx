@@ -0,0 +1,146 @@
+// src/components/BudgetTracker.tsx
+// This week's grocery budget against planned costs and what was actually spent
+
+'use client';
+
+import React, { useState } from 'react';
+import { WeeklyBudgetSummary } from '@/types/recipe';
+import { formatPrice } from '@/lib/utils';
+import { Wallet, AlertTriangle, Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface BudgetTrackerProps {
+  budget: WeeklyBudgetSummary;
+  isSaving: boolean;
+  onRecordSpend: (amount: number, note: string) => Promise<boolean>;
+  onDeleteSpend: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<WeeklyBudgetSummary['status'], { bar: string; text: string }> = {
+  under: { bar: 'bg-green-500', text: 'text-green-700' },
+  near: { bar: 'bg-yellow-500', text: 'text-yellow-700' },
+  over: { bar: 'bg-red-500', text: 'text-red-700' }
+};
+
+export default function BudgetTracker({ budget, isSaving, onRecordSpend, onDeleteSpend }: BudgetTrackerProps) {
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const styles = STATUS_STYLES[budget.status];
+  const spentShare = budget.budget > 0 ? Math.min(100, (budget.actualSpend / budget.budget) * 100) : 0;
+  const projectedShare = budget.budget > 0 ? Math.min(100, (budget.projectedTotal / budget.budget) * 100) : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!(value > 0)) return;
+    if (await onRecordSpend(value, note.trim())) {
+      setAmount('');
+      setNote('');
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-green-600" />
+          <h4 className="font-medium text-gray-900">This week's grocery budget</h4>
+        </div>
+        <span className={`text-sm font-medium ${styles.text}`}>
+          {budget.remaining >= 0
+            ? `${formatPrice(budget.remaining)} left`
+            : `${formatPrice(-budget.remaining)} over`}
+        </span>
+      </div>
+
+      {/* Spent so far, then everything still planned on top */}
+      <div>
+        <div className="relative h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className={`absolute inset-y-0 left-0 ${styles.bar} opacity-40`} style={{ width: `${projectedShare}%` }} />
+          <div className={`absolute inset-y-0 left-0 ${styles.bar}`} style={{ width: `${spentShare}%` }} />
+        </div>
+        <div className="flex flex-wrap justify-between gap-2 mt-2 text-xs text-gray-600">
+          <span>Spent {formatPrice(budget.actualSpend)}</span>
+          <span>List {formatPrice(budget.shoppingListCost)}</span>
+          {budget.plannedMealsCost > 0 && <span>Diet plan {formatPrice(budget.plannedMealsCost)}</span>}
+          <span>
+            Budget {formatPrice(budget.budget)}
+            {budget.budgetSource === 'per-serving' && ' (from your per-serving range)'}
+          </span>
+        </div>
+      </div>
+
+      {budget.warnings.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 space-y-2">
+          {budget.warnings.map((warning, index) => (
+            <p key={index} className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {warning}
+            </p>
+          ))}
+          {budget.substitutions.length > 0 && (
+            <ul className="pl-6 space-y-1 list-disc">
+              {budget.substitutions.map(swap => (
+                <li key={swap.ingredientName}>
+                  Try {swap.substitute} instead of {swap.ingredientName} to save about {formatPrice(swap.saving)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* What the trips this week actually cost */}
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Amount spent"
+          className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+          maxLength={200}
+          className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !(parseFloat(amount) > 0)}
+          className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Record spend
+        </button>
+      </form>
+
+      {budget.spendEntries.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {budget.spendEntries.map(entry => (
+            <li key={entry.id} className="flex items-center justify-between gap-2 py-2">
+              <span className="text-gray-700">
+                {new Date(`${entry.spentOn}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                {entry.note && <span className="text-gray-500"> · {entry.note}</span>}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="font-medium text-gray-900">{formatPrice(entry.amount)}</span>
+                <button
+                  onClick={() => onDeleteSpend(entry.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove this entry"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
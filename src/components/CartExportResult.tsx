@@ -0,0 +1,93 @@
+// src/components/CartExportResult.tsx
+// What made it into a retailer cart, and what the shopper still has to find themselves
+
+'use client';
+
+import React from 'react';
+import { CartExport } from '@/types/recipe';
+import { formatPrice } from '@/lib/utils';
+import { CheckCircle, AlertTriangle, ExternalLink, ShoppingCart } from 'lucide-react';
+
+interface CartExportResultProps {
+  cart: CartExport;
+  itemCount: number; // list items sent, which needn't match the number of cart lines
+  onBack?: () => void;
+}
+
+export default function CartExportResult({ cart, itemCount, onBack }: CartExportResultProps) {
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h4 className="font-semibold text-gray-900">{cart.retailer.name} cart</h4>
+          <p className="text-sm text-gray-600">
+            {itemCount - cart.unmatched.length} of {itemCount} items matched · about {formatPrice(cart.estimatedTotal)}
+          </p>
+        </div>
+        {cart.checkoutUrl && (
+          <a
+            href={cart.checkoutUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2 text-sm"
+          >
+            <ShoppingCart className="w-4 h-4" />
+            Open cart
+          </a>
+        )}
+      </div>
+
+      {cart.lines.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+          {cart.lines.map(line => (
+            <li key={line.productId} className="flex items-center justify-between gap-2 px-3 py-2">
+              <span className="flex items-center gap-2 text-gray-800">
+                <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                {line.productName}
+                {line.quantity > 1 && <span className="text-gray-500">× {line.quantity}</span>}
+              </span>
+              <span className="flex items-center gap-3">
+                {line.price !== undefined && <span className="text-gray-700">{formatPrice(line.price)}</span>}
+                {line.url && (
+                  <a
+                    href={line.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800"
+                    title={`Find at ${cart.retailer.name}`}
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {cart.unmatched.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <p className="flex items-center gap-2 font-medium mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            Not matched - add these yourself
+          </p>
+          <ul className="pl-6 list-disc space-y-0.5">
+            {cart.unmatched.map(({ ingredient }, index) => (
+              <li key={index}>{ingredient.name}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {onBack && (
+        <button
+          onClick={onBack}
+          className="text-sm text-gray-600 hover:text-gray-800"
+        >
+          ← Choose another store
+        </button>
+      )}
+    </div>
+  );
+}
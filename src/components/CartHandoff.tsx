@@ -0,0 +1,91 @@
+// src/components/CartHandoff.tsx
+// Pick a retailer and send what's left on the shopping list to its cart
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CartExport, CartRetailer, Ingredient } from '@/types/recipe';
+import { exportShoppingCart } from '@/lib/api';
+import CartExportResult from './CartExportResult';
+import { ShoppingCart, Loader2, X } from 'lucide-react';
+
+interface CartHandoffProps {
+  ingredients: Ingredient[];
+  onClose: () => void;
+}
+
+export default function CartHandoff({ ingredients, onClose }: CartHandoffProps) {
+  const [retailers, setRetailers] = useState<CartRetailer[]>([]);
+  const [cart, setCart] = useState<CartExport | null>(null);
+  const [exportingTo, setExportingTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRetailers = async () => {
+      try {
+        const response = await fetch('/api/cart/export');
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setRetailers(result.retailers);
+        }
+      } catch (err) {
+        console.error('❌ Failed to load cart retailers:', err);
+      }
+    };
+
+    loadRetailers();
+  }, []);
+
+  const handleExport = async (retailerId: string) => {
+    setExportingTo(retailerId);
+    setError(null);
+    const result = await exportShoppingCart(retailerId, ingredients);
+    setExportingTo(null);
+
+    if (result.success && result.cart) {
+      setCart(result.cart);
+    } else {
+      setError(result.error || 'Could not build the cart');
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900 flex items-center gap-2">
+          <ShoppingCart className="w-5 h-5 text-green-600" />
+          Send {ingredients.length} items to a store
+        </h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {cart ? (
+        <CartExportResult cart={cart} itemCount={ingredients.length} onBack={() => setCart(null)} />
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {retailers.map(retailer => (
+            <button
+              key={retailer.id}
+              onClick={() => handleExport(retailer.id)}
+              disabled={exportingTo !== null}
+              className="flex items-center gap-2 px-3 py-2 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              {exportingTo === retailer.id && <Loader2 className="w-4 h-4 animate-spin" />}
+              {retailer.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
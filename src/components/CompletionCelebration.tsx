@@ -3,7 +3,10 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Recipe } from '@/types/recipe';
+import { CookEvent, Leftover, LowStockItem, Recipe } from '@/types/recipe';
+import { canUndoCookEvent } from '@/lib/pantryDeduction';
+import { formatKitchenAmount } from '@/lib/recipeScaler';
+import { describeLeftover } from '@/lib/leftovers';
 import { 
   Trophy, 
   Star, 
@@ -13,7 +16,13 @@ import {
   Share2, 
   Camera,
   X,
-  Sparkles 
+  Sparkles,
+  Package,
+  Undo2,
+  ShoppingCart,
+  Soup,
+  Minus,
+  Plus
 } from 'lucide-react';
 
 interface CompletionCelebrationProps {
@@ -24,6 +33,12 @@ interface CompletionCelebrationProps {
   onRate?: (rating: number) => void;
   onShare?: () => void;
   onSaveToFavorites?: () => void;
+  cookEvent?: CookEvent | null;
+  lowStockItems?: LowStockItem[];
+  onUndoCook?: () => void;
+  onAddLowStockToShoppingList?: () => void;
+  leftovers?: Leftover[];
+  onSaveLeftoverServings?: (servingsEaten: number) => Promise<boolean>;
 }
 
 export default function CompletionCelebration({
@@ -33,12 +48,22 @@ export default function CompletionCelebration({
   cookingTimeMinutes,
   onRate,
   onShare,
-  onSaveToFavorites
+  onSaveToFavorites,
+  cookEvent,
+  lowStockItems = [],
+  onUndoCook,
+  onAddLowStockToShoppingList,
+  leftovers = [],
+  onSaveLeftoverServings
 }: CompletionCelebrationProps) {
   const [rating, setRating] = useState(0);
   const [showConfetti, setShowConfetti] = useState(false);
   const [achievements, setAchievements] = useState<string[]>([]);
   const [isPhotoModalOpen, setIsPhotoModalOpen] = useState(false);
+  const [undoAvailable, setUndoAvailable] = useState(false);
+  const [restockAdded, setRestockAdded] = useState(false);
+  const [servingsEaten, setServingsEaten] = useState(0);
+  const [leftoverServingsSaved, setLeftoverServingsSaved] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -51,6 +76,22 @@ export default function CompletionCelebration({
     }
   }, [isOpen]);
 
+  // Hide the undo button once the window closes
+  useEffect(() => {
+    setRestockAdded(false);
+    setLeftoverServingsSaved(false);
+    setServingsEaten(cookEvent?.servings || 0);
+    if (!cookEvent || !canUndoCookEvent(cookEvent)) {
+      setUndoAvailable(false);
+      return;
+    }
+
+    setUndoAvailable(true);
+    const msLeft = new Date(cookEvent.undoableUntil).getTime() - Date.now();
+    const timer = setTimeout(() => setUndoAvailable(false), msLeft);
+    return () => clearTimeout(timer);
+  }, [cookEvent]);
+
   const generateAchievements = () => {
     const newAchievements = [];
     
@@ -267,6 +308,110 @@ export default function CompletionCelebration({
                 </div>
               )}
 
+              {/* Pantry Update */}
+              {cookEvent && (cookEvent.deductions.length > 0 || lowStockItems.length > 0) && (
+                <div className="mb-4 sm:mb-6 text-left bg-gray-50 border border-gray-200 rounded-lg sm:rounded-xl p-3 sm:p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="flex items-center gap-2 text-sm sm:text-base font-semibold text-gray-900">
+                      <Package className="w-4 h-4 text-gray-600" />
+                      Pantry updated
+                    </h3>
+                    {undoAvailable && onUndoCook && (
+                      <button
+                        onClick={onUndoCook}
+                        className="flex items-center gap-1 px-2 py-1 text-xs sm:text-sm text-blue-600 hover:bg-blue-50 rounded touch-manipulation"
+                      >
+                        <Undo2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                        Undo
+                      </button>
+                    )}
+                  </div>
+
+                  <ul className="space-y-1 text-xs sm:text-sm text-gray-700">
+                    {cookEvent.deductions.map((deduction) => (
+                      <li key={deduction.pantryItemId}>
+                        Used {deduction.approximate ? '~' : ''}{formatKitchenAmount(deduction.deducted, deduction.unit).display} {deduction.unit} {deduction.name}
+                        <span className="text-gray-500"> ({formatKitchenAmount(deduction.remaining, deduction.unit).display} {deduction.unit} left)</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {lowStockItems.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-gray-200">
+                      <p className="text-xs sm:text-sm font-medium text-amber-800 mb-1">Running low:</p>
+                      <p className="text-xs sm:text-sm text-amber-700 mb-2">
+                        {lowStockItems.map(item => item.status === 'depleted' ? `${item.name} (used up)` : item.name).join(', ')}
+                      </p>
+                      {onAddLowStockToShoppingList && (
+                        <button
+                          onClick={() => {
+                            onAddLowStockToShoppingList();
+                            setRestockAdded(true);
+                          }}
+                          disabled={restockAdded}
+                          className="flex items-center gap-2 px-3 py-1.5 bg-amber-500 text-white rounded-lg text-xs sm:text-sm hover:bg-amber-600 disabled:opacity-60 transition-colors touch-manipulation"
+                        >
+                          <ShoppingCart className="w-3 h-3 sm:w-4 sm:h-4" />
+                          {restockAdded ? 'Added to shopping list' : 'Add to shopping list'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Leftovers */}
+              {cookEvent && (onSaveLeftoverServings || leftovers.length > 0) && (
+                <div className="mb-4 sm:mb-6 text-left bg-orange-50 border border-orange-200 rounded-lg sm:rounded-xl p-3 sm:p-4">
+                  <h3 className="flex items-center gap-2 text-sm sm:text-base font-semibold text-gray-900 mb-2">
+                    <Soup className="w-4 h-4 text-orange-600" />
+                    Leftovers
+                  </h3>
+
+                  {leftovers.length > 0 && (
+                    <ul className="space-y-1 text-xs sm:text-sm text-gray-700 mb-3">
+                      {leftovers.map(leftover => (
+                        <li key={leftover.id}>{describeLeftover(leftover)}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {onSaveLeftoverServings && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-700">
+                      <span>Servings eaten:</span>
+                      <button
+                        onClick={() => {
+                          setServingsEaten(Math.max(servingsEaten - 1, 0));
+                          setLeftoverServingsSaved(false);
+                        }}
+                        className="p-1 rounded bg-white border border-gray-200 hover:bg-gray-50 touch-manipulation"
+                        aria-label="Fewer servings eaten"
+                      >
+                        <Minus className="w-3 h-3" />
+                      </button>
+                      <span className="w-6 text-center font-medium">{servingsEaten}</span>
+                      <button
+                        onClick={() => {
+                          setServingsEaten(Math.min(servingsEaten + 1, cookEvent.servings));
+                          setLeftoverServingsSaved(false);
+                        }}
+                        className="p-1 rounded bg-white border border-gray-200 hover:bg-gray-50 touch-manipulation"
+                        aria-label="More servings eaten"
+                      >
+                        <Plus className="w-3 h-3" />
+                      </button>
+                      <span className="text-gray-500">of {cookEvent.servings}</span>
+                      <button
+                        onClick={async () => setLeftoverServingsSaved(await onSaveLeftoverServings(servingsEaten))}
+                        className="ml-auto px-3 py-1.5 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors touch-manipulation"
+                      >
+                        {leftoverServingsSaved ? 'Saved' : 'Save leftovers'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Rating Section - Touch-Friendly */}
               <div className="mb-4 sm:mb-6">
                 <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3">How was your cooking experience?</h3>
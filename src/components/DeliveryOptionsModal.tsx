@@ -3,8 +3,10 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Recipe } from '@/types/recipe';
-import { X, Truck, ShoppingCart, ExternalLink } from 'lucide-react';
+import { CartExport, Recipe } from '@/types/recipe';
+import { exportShoppingCart } from '@/lib/api';
+import CartExportResult from './CartExportResult';
+import { X, Truck, ShoppingCart, ExternalLink, Loader2 } from 'lucide-react';
 
 interface DeliveryOptionsModalProps {
   isOpen: boolean;
@@ -13,17 +15,65 @@ interface DeliveryOptionsModalProps {
   userIngredients?: string[];
 }
 
+// Restaurant apps take a dish search in the link
+const RESTAURANT_SEARCH_URLS: Record<string, (query: string) => string> = {
+  'DoorDash': query => `https://www.doordash.com/search/store/${query}/`,
+  'Uber Eats': query => `https://www.ubereats.com/search?q=${query}`
+};
+
 export default function DeliveryOptionsModal({ 
   isOpen, 
   onClose, 
-  recipe 
+  recipe,
+  userIngredients = []
 }: DeliveryOptionsModalProps) {
   const [selectedTab, setSelectedTab] = useState<'restaurants' | 'groceries' | 'comparison'>('restaurants');
+  const [cart, setCart] = useState<CartExport | null>(null);
+  const [cartItemCount, setCartItemCount] = useState(0);
+  const [exportingTo, setExportingTo] = useState<string | null>(null);
+  const [cartError, setCartError] = useState<string | null>(null);
 
   const handleOrderClick = (service: string) => {
-    alert(`This would redirect you to ${service}. Feature coming soon!`);
+    const searchUrl = RESTAURANT_SEARCH_URLS[service];
+    if (searchUrl) {
+      window.open(searchUrl(encodeURIComponent(recipe.title)), '_blank', 'noopener,noreferrer');
+    }
   };
 
+  // Everything the recipe needs that the user doesn't already have goes in the cart
+  const handleShopClick = async (retailerId: string) => {
+    const toBuy = (Array.isArray(recipe.ingredients) ? recipe.ingredients : []).filter(ingredient =>
+      ingredient.name && !userIngredients.some(userIng =>
+        ingredient.name.toLowerCase().includes(userIng.toLowerCase()) ||
+        userIng.toLowerCase().includes(ingredient.name.toLowerCase())
+      )
+    );
+    if (toBuy.length === 0) {
+      setCartError('You already have everything this recipe needs.');
+      return;
+    }
+
+    setExportingTo(retailerId);
+    setCartError(null);
+    const result = await exportShoppingCart(retailerId, toBuy);
+    setExportingTo(null);
+
+    if (result.success && result.cart) {
+      setCart(result.cart);
+      setCartItemCount(toBuy.length);
+    } else {
+      setCartError(result.error || 'Could not build the cart');
+    }
+  };
+
+  // Shop buttons show a spinner for the retailer being exported to
+  const shopButtonContent = (retailerId: string) => (
+    <>
+      {exportingTo === retailerId ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShoppingCart className="w-4 h-4" />}
+      Shop
+    </>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -132,9 +182,19 @@ export default function DeliveryOptionsModal({
             </div>
           )}
 
-          {selectedTab === 'groceries' && (
+          {selectedTab === 'groceries' && cart && (
+            <CartExportResult cart={cart} itemCount={cartItemCount} onBack={() => setCart(null)} />
+          )}
+
+          {selectedTab === 'groceries' && !cart && (
             <div className="space-y-4">
               <h3 className="font-bold text-gray-900 mb-4">Order Ingredients</h3>
+
+              {cartError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  {cartError}
+                </div>
+              )}
               
               {/* Instacart */}
               <div className="border border-gray-200 rounded-lg p-4">
@@ -149,11 +209,11 @@ export default function DeliveryOptionsModal({
                     </div>
                   </div>
                   <button
-                    onClick={() => handleOrderClick('Instacart')}
-                    className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors flex items-center gap-2"
+                    onClick={() => handleShopClick('instacart')}
+                    disabled={exportingTo !== null}
+                    className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors flex items-center gap-2 disabled:opacity-50"
                   >
-                    <ShoppingCart className="w-4 h-4" />
-                    Shop
+                    {shopButtonContent('instacart')}
                   </button>
                 </div>
               </div>
@@ -171,11 +231,11 @@ export default function DeliveryOptionsModal({
                     </div>
                   </div>
                   <button
-                    onClick={() => handleOrderClick('DoorDash')}
-                    className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors flex items-center gap-2"
+                    onClick={() => handleShopClick('doordash')}
+                    disabled={exportingTo !== null}
+                    className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors flex items-center gap-2 disabled:opacity-50"
                   >
-                    <ShoppingCart className="w-4 h-4" />
-                    Shop
+                    {shopButtonContent('doordash')}
                   </button>
                 </div>
               </div>
@@ -193,11 +253,11 @@ export default function DeliveryOptionsModal({
                     </div>
                   </div>
                   <button
-                    onClick={() => handleOrderClick('Amazon Fresh')}
-                    className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors flex items-center gap-2"
+                    onClick={() => handleShopClick('amazon_fresh')}
+                    disabled={exportingTo !== null}
+                    className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors flex items-center gap-2 disabled:opacity-50"
                   >
-                    <ShoppingCart className="w-4 h-4" />
-                    Shop
+                    {shopButtonContent('amazon_fresh')}
                   </button>
                 </div>
               </div>
@@ -215,11 +275,11 @@ export default function DeliveryOptionsModal({
                     </div>
                   </div>
                   <button
-                    onClick={() => handleOrderClick('Walmart Grocery')}
-                    className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2"
+                    onClick={() => handleShopClick('walmart')}
+                    disabled={exportingTo !== null}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2 disabled:opacity-50"
                   >
-                    <ShoppingCart className="w-4 h-4" />
-                    Shop
+                    {shopButtonContent('walmart')}
                   </button>
                 </div>
               </div>
@@ -291,7 +351,9 @@ export default function DeliveryOptionsModal({
         <div className="p-4 border-t border-gray-200 bg-gray-50">
           <div className="flex items-center justify-between">
             <div className="text-sm text-gray-600">
-              Feature preview - Coming soon!
+              {selectedTab === 'groceries'
+                ? 'Items you already have are left out of the cart'
+                : 'Opens in a new tab'}
             </div>
             <button
               onClick={onClose}
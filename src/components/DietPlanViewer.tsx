@@ -20,9 +20,13 @@ import {
   Zap,
   Search,
   Loader2,
-  Menu
+  Menu,
+  DollarSign
 } from 'lucide-react';
 import MarkdownText from './MarkdownText';
+import { DietPlanBudgetCheck } from '@/types/recipe';
+import { formatPrice } from '@/lib/utils';
+import { DietPlanCostBreakdown } from '@/lib/mealPlanCost';
 
 interface DietPlanViewerProps {
   isOpen: boolean;
@@ -217,6 +221,8 @@ export default function DietPlanViewer({ isOpen, onClose, onEdit, userId,  dietP
 
   const mealPlanDays = dietPlan?.mealPlan?.dailyMeals ? Object.keys(dietPlan.mealPlan.dailyMeals) : [];
   const currentDayIndex = mealPlanDays.findIndex(day => day === selectedDay);
+  const costBreakdown: DietPlanCostBreakdown | undefined = dietPlan?.metadata?.costBreakdown;
+  const selectedDayCost = costBreakdown?.days.find(day => day.day === selectedDay);
 
   const nextDay = () => {
     const nextIndex = (currentDayIndex + 1) % mealPlanDays.length;
@@ -474,6 +480,73 @@ export default function DietPlanViewer({ isOpen, onClose, onEdit, userId,  dietP
                 )}
               </div>
 
+              {/* Over the grocery budget */}
+              {dietPlan?.budgetCheck && !dietPlan.budgetCheck.withinBudget && (
+                <div className="bg-red-50 border border-red-200 rounded-xl sm:rounded-2xl p-4 sm:p-6">
+                  <h3 className="text-base sm:text-lg font-semibold text-red-900 mb-3 flex items-center gap-2">
+                    <DollarSign className="w-4 h-4 sm:w-5 sm:h-5" />
+                    Over Your Grocery Budget
+                  </h3>
+                  <ul className="space-y-1 text-sm sm:text-base text-red-800">
+                    {(dietPlan.budgetCheck as DietPlanBudgetCheck).warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                  {dietPlan.budgetCheck.substitutions.length > 0 && (
+                    <div className="mt-3">
+                      <p className="text-sm font-medium text-red-900 mb-2">Cheaper swaps to get back under:</p>
+                      <ul className="space-y-1 text-sm text-red-800">
+                        {(dietPlan.budgetCheck as DietPlanBudgetCheck).substitutions.map(swap => (
+                          <li key={swap.ingredientName}>
+                            {swap.ingredientName} → {swap.substitute} (save about {formatPrice(swap.saving)})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* What the week's meals cost, as priced when the plan was generated */}
+              {costBreakdown && (
+                <div className="bg-green-50 border border-green-200 rounded-xl sm:rounded-2xl p-4 sm:p-6">
+                  <h3 className="text-base sm:text-lg font-semibold text-green-900 mb-3 flex items-center gap-2">
+                    <DollarSign className="w-4 h-4 sm:w-5 sm:h-5" />
+                    Meal Costs
+                  </h3>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-xs sm:text-sm">
+                    <div className="p-2 sm:p-3 bg-white/60 rounded-lg">
+                      <div className="font-semibold text-green-700">This week</div>
+                      <div className={costBreakdown.weeklyTotal > costBreakdown.perWeekLimit ? 'text-red-600' : 'text-gray-700'}>
+                        {formatPrice(costBreakdown.weeklyTotal)} of {formatPrice(costBreakdown.perWeekLimit)}
+                      </div>
+                    </div>
+                    <div className="p-2 sm:p-3 bg-white/60 rounded-lg">
+                      <div className="font-semibold text-green-700">Per serving</div>
+                      <div className="text-gray-700">
+                        {formatPrice(costBreakdown.averagePerServing)} (limit {formatPrice(costBreakdown.perMealLimit)})
+                      </div>
+                    </div>
+                    {costBreakdown.replacedMeals > 0 && (
+                      <div className="p-2 sm:p-3 bg-white/60 rounded-lg">
+                        <div className="font-semibold text-green-700">Budget swaps</div>
+                        <div className="text-gray-700">{costBreakdown.replacedMeals} meals</div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-3 flex flex-wrap gap-2 text-xs sm:text-sm">
+                    {costBreakdown.days.map(day => (
+                      <span
+                        key={day.day}
+                        className={`px-2 py-1 rounded-full ${day.overBudget ? 'bg-red-100 text-red-700' : 'bg-white/60 text-gray-700'}`}
+                      >
+                        {day.day.replace(/^day(\d+)$/i, 'Day $1')}: {formatPrice(day.total)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Key Restrictions */}
               {dietPlan?.restrictions && dietPlan.restrictions.length > 0 && (
                 <div className="bg-red-50 border border-red-200 rounded-xl sm:rounded-2xl p-4 sm:p-6">
@@ -595,6 +668,8 @@ export default function DietPlanViewer({ isOpen, onClose, onEdit, userId,  dietP
                           };
                         }
                         
+                        const mealCost = selectedDayCost?.meals.find(meal => meal.meal === mealType);
+                        
                         return (
                           <div key={mealType} className="bg-white border border-gray-200 rounded-xl sm:rounded-2xl p-4 sm:p-6 shadow-sm hover:shadow-md transition-shadow">
                             <div className="flex items-center gap-2 sm:gap-3 mb-3 sm:mb-4">
@@ -613,6 +688,13 @@ export default function DietPlanViewer({ isOpen, onClose, onEdit, userId,  dietP
                                   {mealInfo.calories} cal
                                 </span>
                               )}
+                              {mealCost && (
+                                <span className={`text-xs sm:text-sm px-2 py-1 rounded-full ${
+                                  mealCost.cost > mealCost.limit ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                                }`}>
+                                  ~{formatPrice(mealCost.cost)}
+                                </span>
+                              )}
                             </div>
                             
                             <div className="space-y-2 sm:space-y-3">
@@ -620,6 +702,12 @@ export default function DietPlanViewer({ isOpen, onClose, onEdit, userId,  dietP
                                 {mealInfo.name}
                               </h5>
                               
+                              {mealCost?.replaced && (
+                                <p className="text-xs sm:text-sm text-green-700">
+                                  Swapped in for {mealCost.replaced.replace(/\(\d+\s*calories?\)/i, '').trim()} to stay on budget
+                                </p>
+                              )}
+                              
                               {mealInfo.ingredients.length > 0 && (
                                 <div>
                                   <p className="text-xs sm:text-sm font-medium text-gray-700 mb-1">Ingredients:</p>
@@ -676,6 +764,11 @@ export default function DietPlanViewer({ isOpen, onClose, onEdit, userId,  dietP
                   {Object.values(checkedItems).filter(Boolean).length} of {
                     dietPlan.shoppingList?.reduce((total: number, category: any) => total + (category.items?.length || 0), 0) || 0
                   } items checked
+                  {dietPlan?.budgetCheck && (
+                    <span className={dietPlan.budgetCheck.withinBudget ? 'ml-2' : 'ml-2 text-red-600 font-medium'}>
+                      · about {formatPrice(dietPlan.budgetCheck.estimatedWeeklyCost)} for the week
+                    </span>
+                  )}
                 </div>
               </div>
               
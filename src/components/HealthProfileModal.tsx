@@ -5,6 +5,7 @@
 import React, { useState } from 'react';
 import { X, Heart, Plus, Trash2, AlertTriangle, CheckCircle, Loader2, Brain } from 'lucide-react';
 import RareDiseaseModal from './RareDiseaseModal';
+import { BiologicalSex } from '@/types/recipe';
 
 interface HealthProfileModalProps {
   isOpen: boolean;
@@ -57,6 +58,8 @@ export default function HealthProfileModal({ isOpen, onClose, onComplete }: Heal
   const [cookingSkill, setCookingSkill] = useState<'Beginner' | 'Intermediate' | 'Advanced'>('Intermediate');
   const [budgetMin, setBudgetMin] = useState(5);
   const [budgetMax, setBudgetMax] = useState(15);
+  const [age, setAge] = useState('');
+  const [sex, setSex] = useState<BiologicalSex | ''>('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showRareConditionModal, setShowRareConditionModal] = useState(false);
@@ -138,6 +141,34 @@ export default function HealthProfileModal({ isOpen, onClose, onComplete }: Heal
     setShowRareConditionModal(false);
   };
 
+  // Age and sex set the reference intakes behind personal % Daily Values; a guest's save is simply refused
+  const saveHealthProfile = async (severityLevels: Record<string, string>) => {
+    const years = parseInt(age);
+    try {
+      const response = await fetch('/api/health/profile', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          conditions: healthConditions.map(c => c.name),
+          restrictions: selectedDietaryPreferences,
+          allergens,
+          medications: currentMedications,
+          goal: goalType,
+          severity: severityLevels,
+          ...(years > 0 && years < 130 && { age: years }),
+          ...(sex && { sex })
+        }),
+      });
+      if (!response.ok) {
+        console.log('⚠️ Health profile not saved:', response.status);
+      }
+    } catch (error) {
+      console.error('Failed to save health profile:', error);
+    }
+  };
+
   const generateDietPlan = async () => {
     setIsGenerating(true);
     setError(null);
@@ -195,6 +226,8 @@ export default function HealthProfileModal({ isOpen, onClose, onComplete }: Heal
         userId: 'user-' + Date.now()
       };
 
+      await saveHealthProfile(severityLevels);
+
       const response = await fetch('/api/health/diet-plan', {
         method: 'POST',
         headers: {
@@ -526,6 +559,37 @@ export default function HealthProfileModal({ isOpen, onClose, onComplete }: Heal
                   </div>
                 </div>
 
+                <div className="mb-6">
+                  <h4 className="font-medium text-gray-900 mb-1">About You</h4>
+                  <p className="text-sm text-gray-600 mb-3">Optional - used to show % Daily Values for your age and sex</p>
+                  <div className="flex gap-3">
+                    <div className="flex-1">
+                      <label className="block text-sm text-gray-600 mb-1">Age</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="129"
+                        value={age}
+                        onChange={(e) => setAge(e.target.value.replace(/\D/g, ''))}
+                        placeholder="Years"
+                        className="w-full p-3 border border-gray-300 rounded-lg"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-sm text-gray-600 mb-1">Sex</label>
+                      <select
+                        value={sex}
+                        onChange={(e) => setSex(e.target.value as BiologicalSex | '')}
+                        className="w-full p-3 border border-gray-300 rounded-lg"
+                      >
+                        <option value="">Prefer not to say</option>
+                        <option value="female">Female</option>
+                        <option value="male">Male</option>
+                      </select>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="mb-6">
                   <h4 className="font-medium text-gray-900 mb-3">Cooking Skill Level</h4>
                   <div className="flex gap-3">
@@ -580,6 +644,7 @@ export default function HealthProfileModal({ isOpen, onClose, onComplete }: Heal
                     <div>Allergies: {allergens.length} selected</div>
                     <div>Dietary preferences: {selectedDietaryPreferences.length} selected</div>
                     <div>Goal: {goalType}</div>
+                    {(age || sex) && <div>About you: {[age && `${age} years`, sex].filter(Boolean).join(', ')}</div>}
                     <div>Budget: ${budgetMin}-${budgetMax} per meal</div>
                     {rareConditionAnalysis && (
                       <div className="text-purple-700">Rare condition analysis: {rareConditionAnalysis.conditionName}</div>
@@ -3,20 +3,27 @@
 'use client';
 
 import React, { useState, KeyboardEvent, useEffect } from 'react';
-import { X, Plus, Sparkles, ChefHat, Search } from 'lucide-react';
+import { X, Plus, Sparkles, ChefHat, Search, Calendar } from 'lucide-react';
+import { AT_RISK_WINDOW_DAYS, daysUntilExpiry } from '@/lib/wasteReduction';
 
 interface IngredientInputProps {
   ingredients: string[];
   onIngredientsChange: (ingredients: string[]) => void;
   placeholder?: string;
+  // Optional use-by dates (YYYY-MM-DD) keyed by ingredient
+  useByDates?: Record<string, string>;
+  onUseByDatesChange?: (useByDates: Record<string, string>) => void;
 }
 
 export default function IngredientInput({ 
   ingredients, 
   onIngredientsChange, 
-  placeholder = "Enter an ingredient..." 
+  placeholder = "Enter an ingredient...",
+  useByDates = {},
+  onUseByDatesChange
 }: IngredientInputProps) {
   const [inputValue, setInputValue] = useState('');
+  const [editingDateFor, setEditingDateFor] = useState<string | null>(null);
   const [isInputFocused, setIsInputFocused] = useState(false);
   const [showAllSuggestions, setShowAllSuggestions] = useState(false);
   const [isClient, setIsClient] = useState(false);
@@ -71,6 +78,28 @@ export default function IngredientInput({
       ingredient => ingredient !== ingredientToRemove
     );
     onIngredientsChange(updatedIngredients);
+
+    if (onUseByDatesChange && useByDates[ingredientToRemove]) {
+      const { [ingredientToRemove]: _removed, ...remainingDates } = useByDates;
+      onUseByDatesChange(remainingDates);
+    }
+  };
+
+  const setUseByDate = (ingredient: string, date: string) => {
+    if (!onUseByDatesChange) return;
+
+    if (date) {
+      onUseByDatesChange({ ...useByDates, [ingredient]: date });
+    } else {
+      const { [ingredient]: _removed, ...remainingDates } = useByDates;
+      onUseByDatesChange(remainingDates);
+    }
+  };
+
+  const isExpiringSoon = (ingredient: string) => {
+    const daysLeft = daysUntilExpiry(useByDates[ingredient]);
+    // Already-expired items aren't at risk any more; they're past saving
+    return daysLeft !== null && daysLeft >= 0 && daysLeft <= AT_RISK_WINDOW_DAYS;
   };
 
   const handleKeyPress = (event: KeyboardEvent<HTMLInputElement>) => {
@@ -224,9 +253,35 @@ export default function IngredientInput({
                 {ingredients.map((ingredient, index) => (
                   <div
                     key={index}
-                    className="group flex items-center gap-1.5 sm:gap-2 px-2.5 sm:px-3 py-1.5 sm:py-2 bg-gradient-to-r from-green-100 to-blue-100 text-green-800 rounded-full text-xs sm:text-sm font-medium border border-green-200 hover:shadow-md transition-all"
+                    className={`group flex items-center gap-1.5 sm:gap-2 px-2.5 sm:px-3 py-1.5 sm:py-2 rounded-full text-xs sm:text-sm font-medium border hover:shadow-md transition-all ${
+                      isExpiringSoon(ingredient)
+                        ? 'bg-gradient-to-r from-amber-100 to-orange-100 text-amber-900 border-amber-300'
+                        : 'bg-gradient-to-r from-green-100 to-blue-100 text-green-800 border-green-200'
+                    }`}
                   >
                     <span className="capitalize truncate max-w-[100px] sm:max-w-none">{ingredient}</span>
+                    {onUseByDatesChange && (
+                      useByDates[ingredient] || editingDateFor === ingredient ? (
+                        <input
+                          type="date"
+                          value={useByDates[ingredient] || ''}
+                          onChange={(e) => setUseByDate(ingredient, e.target.value)}
+                          onBlur={() => setEditingDateFor(null)}
+                          autoFocus={editingDateFor === ingredient}
+                          className="bg-white/80 border border-gray-200 rounded px-1 py-0.5 text-xs text-gray-700 w-[7.5rem]"
+                          aria-label={`Use-by date for ${ingredient}`}
+                        />
+                      ) : (
+                        <button
+                          onClick={() => setEditingDateFor(ingredient)}
+                          className="text-gray-400 hover:text-amber-600 transition-colors touch-manipulation"
+                          aria-label={`Add use-by date for ${ingredient}`}
+                          title="Add a use-by date"
+                        >
+                          <Calendar className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+                        </button>
+                      )
+                    )}
                     <button
                       onClick={() => removeIngredient(ingredient)}
                       className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-red-500 text-white hover:bg-red-600 transition-colors flex items-center justify-center group-hover:scale-110 touch-manipulation"
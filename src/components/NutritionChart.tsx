@@ -3,14 +3,19 @@
 'use client';
 
 import React from 'react';
-import { Recipe } from '@/types/recipe';
+import { DailyValueKey, MicronutrientKey, Recipe, ReferenceIntakeProfile, TargetFit } from '@/types/recipe';
+import { getReferenceIntakes, nutrientsOfConcern, percentDailyValues } from '@/lib/dailyValues';
+import { MICRONUTRIENT_KEYS } from '@/lib/nutrition';
 
 interface NutritionChartProps {
   recipe: Recipe;
   showDetailed?: boolean;
+  referenceProfile?: ReferenceIntakeProfile | null; // age and sex from the health profile
+  conditions?: string[]; // health conditions whose key nutrients are highlighted
+  targetFit?: TargetFit; // defaults to the one attached to the recipe
 }
 
-export default function NutritionChart({ recipe, showDetailed = false }: NutritionChartProps) {
+export default function NutritionChart({ recipe, showDetailed = false, referenceProfile, conditions = [], targetFit = recipe.targetFit }: NutritionChartProps) {
   const { nutrition } = recipe;
 
   // Data for macronutrients
@@ -20,14 +25,24 @@ export default function NutritionChart({ recipe, showDetailed = false }: Nutriti
     { name: 'Fat', value: nutrition.fat, color: '#f59e0b', calories: nutrition.fat * 9 },
   ];
 
-  // Calculate percentages for daily values (based on 2000 calorie diet)
-  const dailyValues = {
-    calories: Math.round((nutrition.calories / 2000) * 100),
-    protein: Math.round((nutrition.protein / 50) * 100),
-    carbs: Math.round((nutrition.carbs / 300) * 100),
-    fat: Math.round((nutrition.fat / 65) * 100),
-    fiber: Math.round(((nutrition.fiber || 0) / 25) * 100),
-  };
+  // % Daily Value against the health profile's reference intakes, or label values without one
+  const { basis } = getReferenceIntakes(referenceProfile);
+  const dailyValueEntries = percentDailyValues(nutrition, referenceProfile);
+  const dailyValues = dailyValueEntries.reduce((acc, entry) => {
+    acc[entry.key] = entry.percent;
+    return acc;
+  }, {} as Partial<Record<DailyValueKey, number>>);
+
+  const concerns = nutrientsOfConcern(conditions);
+  const micronutrientEntries = dailyValueEntries
+    .filter((entry) => MICRONUTRIENT_KEYS.includes(entry.key as MicronutrientKey))
+    .sort((a, b) => Number(concerns.includes(b.key)) - Number(concerns.includes(a.key)));
+  const concernEntries = dailyValueEntries.filter((entry) => concerns.includes(entry.key));
+
+  // Targets worth a bar: energy and the macros, plus anything a goal or condition set or this serving breaks
+  const targetLines = (targetFit?.lines || []).filter((line) =>
+    ['calories', 'protein', 'carbs', 'fat'].includes(line.key) || line.target.reason || line.status === 'exceeds'
+  );
 
   if (!showDetailed) {
     // Simple nutrition display with CSS-only pie chart
@@ -65,6 +80,26 @@ export default function NutritionChart({ recipe, showDetailed = false }: Nutriti
             </div>
           ))}
         </div>
+
+        {/* Key nutrients for the user's health conditions */}
+        {concernEntries.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-gray-200">
+            <div className="text-xs font-medium text-gray-500 mb-2">Key nutrients for your health profile</div>
+            <div className="flex flex-wrap gap-2">
+              {concernEntries.map((entry) => (
+                <span key={entry.key} className="px-2 py-1 bg-purple-50 text-purple-800 rounded-full text-xs">
+                  {entry.name} {entry.percent}% DV
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {targetFit && (
+          <div className={`mt-3 text-sm font-medium text-center ${targetFit.exceeds.length > 0 ? 'text-red-700' : 'text-teal-700'}`}>
+            {targetFit.message}
+          </div>
+        )}
       </div>
     );
   }
@@ -124,14 +159,144 @@ export default function NutritionChart({ recipe, showDetailed = false }: Nutriti
               </div>
             </div>
           )}
+
+          {nutrition.saturatedFat !== undefined && (
+            <div className="flex justify-between border-b border-gray-300 py-1">
+              <span className="font-bold">Saturated Fat</span>
+              <div className="text-right">
+                <span>{nutrition.saturatedFat}g</span>
+                <span className="font-bold ml-2">{dailyValues.saturatedFat}%</span>
+              </div>
+            </div>
+          )}
+
+          {nutrition.cholesterol !== undefined && (
+            <div className="flex justify-between border-b border-gray-300 py-1">
+              <span className="font-bold">Cholesterol</span>
+              <div className="text-right">
+                <span>{nutrition.cholesterol}mg</span>
+                <span className="font-bold ml-2">{dailyValues.cholesterol}%</span>
+              </div>
+            </div>
+          )}
+
+          {nutrition.sodium !== undefined && (
+            <div className="flex justify-between border-b border-gray-300 py-1">
+              <span className="font-bold">Sodium</span>
+              <div className="text-right">
+                <span>{nutrition.sodium}mg</span>
+                <span className="font-bold ml-2">{dailyValues.sodium}%</span>
+              </div>
+            </div>
+          )}
         </div>
 
+        {micronutrientEntries.length > 0 && (
+          <div className="border-t-4 border-black mt-2 pt-1 space-y-1">
+            {micronutrientEntries.map((entry) => (
+              <div
+                key={entry.key}
+                className={`flex justify-between border-b border-gray-300 py-1 ${concerns.includes(entry.key) ? 'bg-purple-50 font-bold' : ''}`}
+              >
+                <span>{entry.name}</span>
+                <div className="text-right">
+                  <span>{entry.amount} {entry.unit}</span>
+                  <span className="font-bold ml-2">{entry.percent}%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="text-xs mt-3 border-t border-gray-400 pt-2">
           *The % Daily Value tells you how much a nutrient in a serving contributes to a daily diet. 
-          2,000 calories a day is used for general nutrition advice.
+          {basis === 'personal'
+            ? ' Reference intakes are set for the age and sex in your health profile.'
+            : ' 2,000 calories a day is used for general nutrition advice.'}
         </div>
       </div>
 
+      {/* Vitamins and minerals as a share of the day */}
+      {micronutrientEntries.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-800 mb-3">Vitamins & Minerals</h4>
+          {concerns.length > 0 && (
+            <p className="text-xs text-purple-700 mb-3">
+              Highlighted nutrients matter most for the conditions in your health profile.
+            </p>
+          )}
+          <div className="space-y-2">
+            {micronutrientEntries.map((entry) => {
+              const highlighted = concerns.includes(entry.key);
+              return (
+                <div key={entry.key}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className={highlighted ? 'font-semibold text-purple-800' : 'font-medium'}>{entry.name}</span>
+                    <span>{entry.percent}% DV</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div 
+                      className={`h-2 rounded-full transition-all duration-300 ${highlighted ? 'bg-purple-500' : 'bg-teal-500'}`}
+                      style={{ width: `${Math.min(entry.percent, 100)}%` }}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Today's targets: what's logged so far, plus this serving */}
+      {targetLines.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-800 mb-1">Today&apos;s Targets</h4>
+          <p className={`text-xs mb-3 ${targetFit?.exceeds.length ? 'text-red-700' : 'text-gray-600'}`}>{targetFit?.message}</p>
+          <div className="space-y-3">
+            {targetLines.map((line) => {
+              const scale = Math.max(line.target.amount, line.consumed + line.amount, 1);
+              const over = line.status === 'exceeds';
+              return (
+                <div key={line.key} title={line.target.reason}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium">
+                      {line.name}
+                      <span className="text-xs text-gray-500 ml-1">
+                        ({line.target.limit === 'max' ? 'limit' : 'at least'} {line.target.amount} {line.unit})
+                      </span>
+                    </span>
+                    <span className={over ? 'text-red-700 font-medium' : 'text-gray-700'}>
+                      +{line.amount} {line.unit}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-3 relative overflow-hidden flex">
+                    <div
+                      className="h-3 bg-gray-400"
+                      style={{ width: `${(line.consumed / scale) * 100}%` }}
+                    ></div>
+                    <div
+                      className={`h-3 ${over ? 'bg-red-500' : line.target.limit === 'min' ? 'bg-green-500' : 'bg-teal-500'}`}
+                      style={{ width: `${(line.amount / scale) * 100}%` }}
+                    ></div>
+                    <div
+                      className="absolute top-0 bottom-0 w-0.5 bg-gray-800"
+                      style={{ left: `${(line.target.amount / scale) * 100}%` }}
+                    ></div>
+                  </div>
+                  {line.target.reason && (
+                    <div className="text-xs text-gray-500 mt-1">{line.target.reason}</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-4 text-xs text-gray-500 mt-2">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-gray-400"></span>Logged today</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-teal-500"></span>This serving</span>
+          </div>
+        </div>
+      )}
+
       {/* Visual Bar Chart with CSS */}
       <div>
         <h4 className="font-medium text-gray-800 mb-3">Nutrition Breakdown</h4>
@@ -4,8 +4,10 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Recipe, Ingredient } from '@/types/recipe';
+import { Recipe, Ingredient, GroceryStore, StoreItemPrice, PriceData } from '@/types/recipe';
 import { formatPrice } from '@/lib/utils';
+import { scaleRecipe } from '@/lib/recipeScaler';
+import BasketPlanner from './BasketPlanner';
 import { 
   ShoppingCart, 
   TrendingDown, 
@@ -22,43 +24,7 @@ import {
 interface PriceComparisonProps {
   recipe: Recipe;
   servings?: number;
-  onStoreSelect: (store: Store, items: ShoppingItem[]) => void;
-}
-
-interface Store {
-  id: string;
-  name: string;
-  logo: string;
-  rating: number;
-  deliveryTime: string;
-  deliveryFee: number;
-  minimumOrder: number;
-  distance: number; // miles
-  availability: number; // percentage of items available
-}
-
-interface ShoppingItem {
-  ingredient: Ingredient;
-  store: Store;
-  price: number;
-  unit: string;
-  inStock: boolean;
-  salePrice?: number;
-  originalPrice?: number;
-  promotion?: string;
-  substitutes?: Array<{
-    name: string;
-    price: number;
-    savings: number;
-  }>;
-}
-
-interface PriceData {
-  store: Store;
-  items: ShoppingItem[];
-  totalCost: number;
-  totalSavings: number;
-  estimatedDeliveryTime: string;
+  onStoreSelect: (store: GroceryStore, items: StoreItemPrice[]) => void;
 }
 
 export default function PriceComparison({ recipe, servings = recipe.servings, onStoreSelect }: PriceComparisonProps) {
@@ -67,71 +33,12 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
   const [selectedStore, setSelectedStore] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'price' | 'rating' | 'distance' | 'delivery'>('price');
   const [showOnlyAvailable, setShowOnlyAvailable] = useState(false);
-
-  // Mock stores data
-  const stores: Store[] = [
-    {
-      id: 'whole_foods',
-      name: 'Whole Foods Market',
-      logo: '🥗',
-      rating: 4.5,
-      deliveryTime: '1-2 hours',
-      deliveryFee: 4.95,
-      minimumOrder: 35,
-      distance: 2.3,
-      availability: 95
-    },
-    {
-      id: 'kroger',
-      name: 'Kroger',
-      logo: '🛒',
-      rating: 4.2,
-      deliveryTime: '2-3 hours',
-      deliveryFee: 2.95,
-      minimumOrder: 25,
-      distance: 1.8,
-      availability: 88
-    },
-    {
-      id: 'walmart',
-      name: 'Walmart Grocery',
-      logo: '🏪',
-      rating: 4.0,
-      deliveryTime: '3-4 hours',
-      deliveryFee: 1.95,
-      minimumOrder: 20,
-      distance: 3.1,
-      availability: 92
-    },
-    {
-      id: 'target',
-      name: 'Target',
-      logo: '🎯',
-      rating: 4.3,
-      deliveryTime: '2-3 hours',
-      deliveryFee: 3.95,
-      minimumOrder: 30,
-      distance: 2.7,
-      availability: 85
-    },
-    {
-      id: 'instacart',
-      name: 'Instacart (Multiple Stores)',
-      logo: '📦',
-      rating: 4.1,
-      deliveryTime: '1-2 hours',
-      deliveryFee: 5.95,
-      minimumOrder: 10,
-      distance: 0, // Various locations
-      availability: 98
-    }
-  ];
+  const [error, setError] = useState<string | null>(null);
 
   // Scale ingredients based on servings
-  const scaledIngredients = recipe.ingredients.map(ingredient => ({
-    ...ingredient,
-    amount: (ingredient.amount * servings) / recipe.servings
-  }));
+  const scaledIngredients = servings === recipe.servings
+    ? recipe.ingredients
+    : scaleIngredients(recipe, servings);
 
   useEffect(() => {
     fetchPriceData();
@@ -139,99 +46,36 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
 
   const fetchPriceData = async () => {
     setLoading(true);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    const priceComparisons: PriceData[] = stores.map(store => {
-      const items = scaledIngredients.map(ingredient => 
-        generateMockPricing(ingredient, store)
-      );
-      
-      const totalCost = items.reduce((sum, item) => sum + item.price, 0) + store.deliveryFee;
-      const totalSavings = items.reduce((sum, item) => 
-        sum + (item.originalPrice ? item.originalPrice - item.price : 0), 0
-      );
-      
-      return {
-        store,
-        items,
-        totalCost,
-        totalSavings,
-        estimatedDeliveryTime: store.deliveryTime
-      };
-    });
-
-    setPriceData(priceComparisons);
-    setLoading(false);
-  };
-
-  const generateMockPricing = (ingredient: Ingredient, store: Store): ShoppingItem => {
-    // Base pricing with store-specific multipliers
-    const basePrices: Record<string, number> = {
-      'chicken': 6.99, 'beef': 8.99, 'fish': 12.99, 'pork': 5.99,
-      'cheese': 4.50, 'milk': 3.49, 'eggs': 2.99, 'butter': 4.99,
-      'onion': 1.29, 'garlic': 2.49, 'tomato': 2.99, 'potato': 1.99,
-      'rice': 2.99, 'pasta': 1.49, 'bread': 2.49, 'oil': 3.99
-    };
-
-    const storeMultipliers: Record<string, number> = {
-      'whole_foods': 1.3,
-      'kroger': 1.0,
-      'walmart': 0.85,
-      'target': 1.1,
-      'instacart': 1.15
-    };
-
-    const basePrice = basePrices[ingredient.name.toLowerCase()] || 3.99;
-    const multiplier = storeMultipliers[store.id] || 1.0;
-    let price = basePrice * multiplier * ingredient.amount;
-    
-    // Add some randomness
-    price *= (0.9 + Math.random() * 0.2);
-    
-    const finalPrice = Math.round(price * 100) / 100;
-    const inStock = Math.random() > 0.1; // 90% chance in stock
-    
-    // Generate sale pricing randomly
-    const hasSale = Math.random() > 0.7; // 30% chance of sale
-    const salePrice = hasSale ? finalPrice * 0.8 : undefined;
-    const originalPrice = hasSale ? finalPrice : undefined;
-
-    const item: ShoppingItem = {
-      ingredient,
-      store,
-      price: salePrice || finalPrice,
-      unit: ingredient.unit,
-      inStock,
-      salePrice,
-      originalPrice,
-      promotion: hasSale ? 'Weekly Special' : undefined
-    };
-
-    // Add substitutes for out-of-stock items
-    if (!inStock) {
-      item.substitutes = [
-        {
-          name: `Organic ${ingredient.name}`,
-          price: finalPrice * 1.4,
-          savings: -(finalPrice * 0.4)
-        },
-        {
-          name: `Store brand ${ingredient.name}`,
-          price: finalPrice * 0.7,
-          savings: finalPrice * 0.3
-        }
-      ];
+    setError(null);
+
+    try {
+      const response = await fetch('/api/prices/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ingredients: scaledIngredients.map(({ name, amount, unit }) => ({ name, amount, unit }))
+        })
+      });
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setPriceData(result.comparisons);
+      } else {
+        setError(result.error || 'Could not load prices');
+      }
+    } catch (err) {
+      console.error('❌ Failed to load prices:', err);
+      setError('Could not load prices');
+    } finally {
+      setLoading(false);
     }
-
-    return item;
   };
 
   const sortedPriceData = [...priceData].sort((a, b) => {
     switch (sortBy) {
       case 'price':
-        return a.totalCost - b.totalCost;
+        // A cheaper total that's missing items isn't a better deal
+        return (a.unavailableItems || 0) - (b.unavailableItems || 0) || a.totalCost - b.totalCost;
       case 'rating':
         return b.store.rating - a.store.rating;
       case 'distance':
@@ -247,7 +91,11 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
     ? sortedPriceData.filter(data => data.store.availability >= 90)
     : sortedPriceData;
 
-  const bestPrice = Math.min(...priceData.map(data => data.totalCost));
+  const fewestUnavailable = Math.min(...priceData.map(data => data.unavailableItems || 0));
+  const bestPrice = Math.min(...priceData
+    .filter(data => (data.unavailableItems || 0) === fewestUnavailable)
+    .map(data => data.totalCost));
+  const isBestPrice = (data: PriceData) => (data.unavailableItems || 0) === fewestUnavailable && data.totalCost === bestPrice;
   const avgPrice = priceData.reduce((sum, data) => sum + data.totalCost, 0) / priceData.length;
 
   return (
@@ -337,7 +185,7 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
                   ? 'border-blue-500 bg-blue-50' 
                   : 'border-gray-200'
               } ${
-                data.totalCost === bestPrice 
+                isBestPrice(data) 
                   ? 'ring-2 ring-green-500 ring-opacity-50' 
                   : ''
               }`}
@@ -352,7 +200,7 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
                   <div>
                     <h4 className="font-semibold text-gray-900 flex items-center gap-2">
                       {data.store.name}
-                      {data.totalCost === bestPrice && (
+                      {isBestPrice(data) && (
                         <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
                           Best Price
                         </span>
@@ -388,6 +236,11 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
                       Save {formatPrice(data.totalSavings)}
                     </div>
                   )}
+                  {data.unavailableItems > 0 && (
+                    <div className="text-xs text-amber-600">
+                      Excludes {data.unavailableItems} out-of-stock item{data.unavailableItems === 1 ? '' : 's'}
+                    </div>
+                  )}
                   <div className="text-xs text-gray-500">
                     {data.store.availability}% available
                   </div>
@@ -407,6 +260,16 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
                             <div className="font-medium text-gray-900">
                               {item.ingredient.amount} {item.ingredient.unit} {item.ingredient.name}
                             </div>
+                            {item.packages && (
+                              <div className="text-xs text-gray-600 mt-1">
+                                Buy {item.packages.packages.map(({ product, count }) => `${count} × ${product.name}`).join(' + ')}
+                                {item.packages.leftoverAmount > 0 && (
+                                  <span className="text-gray-500">
+                                    {' '}· {item.packages.approximate ? 'about ' : ''}{item.packages.leftoverAmount} {item.packages.unit} left over
+                                  </span>
+                                )}
+                              </div>
+                            )}
                             {!item.inStock && (
                               <div className="flex items-center gap-1 text-red-600 text-sm mt-1">
                                 <AlertCircle className="w-3 h-3" />
@@ -503,7 +366,7 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
           <h4 className="font-medium text-blue-900 mb-2">💡 Smart Shopping Insights</h4>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-blue-800">
             <div>
-              <strong>Best Value:</strong> {priceData.find(d => d.totalCost === bestPrice)?.store.name} 
+              <strong>Best Value:</strong> {priceData.find(isBestPrice)?.store.name} 
               saves you {formatPrice(avgPrice - bestPrice)} vs average
             </div>
             <div>
@@ -529,11 +392,18 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
         </div>
       )}
 
+      {/* Cheapest way to shop it */}
+      {!loading && priceData.length > 1 && (
+        <div className="mt-6">
+          <BasketPlanner priceData={priceData} />
+        </div>
+      )}
+
       {/* Empty State */}
       {!loading && priceData.length === 0 && (
         <div className="text-center py-8">
           <ShoppingCart className="w-12 h-12 text-gray-300 mx-auto mb-3" />
-          <p className="text-gray-600 mb-2">No price data available</p>
+          <p className="text-gray-600 mb-2">{error || 'No price data available'}</p>
           <p className="text-sm text-gray-500">
             Try refreshing or check your internet connection
           </p>
@@ -542,4 +412,15 @@ export default function PriceComparison({ recipe, servings = recipe.servings, on
     </div>
   );
 }
-                          <div className="mt-2 pt-2 border-t border-gray-100"></div>
\ No newline at end of file
+                          <div className="mt-2 pt-2 border-t border-gray-100"></div>
+
+// Beyond what the scaler allows (e.g. a huge batch), price the plain proportional amounts
+function scaleIngredients(recipe: Recipe, servings: number): Ingredient[] {
+  try {
+    return scaleRecipe(recipe, { targetServings: servings }).ingredients;
+  } catch (error) {
+    console.error('Error scaling recipe for price comparison:', error);
+    const factor = servings / (recipe.servings || 1);
+    return recipe.ingredients.map((ingredient) => ({ ...ingredient, amount: ingredient.amount * factor }));
+  }
+}
@@ -3,8 +3,10 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Recipe } from '@/types/recipe';
+import { GlycemicLoadLevel, Recipe } from '@/types/recipe';
 import { formatCookingTime, formatPrice, formatRating, getDifficultyColor } from '@/lib/utils';
+import { describeWasteReduction } from '@/lib/wasteReduction';
+import { glycemicLoadLevel } from '@/lib/glycemic';
 import DeliveryOptionsModal from './DeliveryOptionsModal';
 import MarkdownText from './MarkdownText';
 import { 
@@ -21,7 +23,8 @@ import {
   AlertTriangle,
   CheckCircle,
   Sparkles,
-  Info
+  Info,
+  Target
 } from 'lucide-react';
 
 interface RecipeCardProps {
@@ -51,6 +54,12 @@ const cuisineFallbacks: Record<string, string> = {
 
 const genericFallback = 'https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=400&h=300&fit=crop&auto=format&q=80';
 
+const GLYCEMIC_LOAD_STYLES: Record<GlycemicLoadLevel, string> = {
+  low: 'bg-green-100 text-green-700',
+  medium: 'bg-amber-100 text-amber-700',
+  high: 'bg-red-100 text-red-700'
+};
+
 export default function RecipeCard({ 
   recipe, 
   onViewDetails,
@@ -392,6 +401,21 @@ export default function RecipeCard({
                   <div className="text-gray-600 text-xs">fat</div>
                 </div>
               </div>
+              {typeof recipe.nutrition?.glycemicLoad === 'number' && (
+                <div
+                  className="mt-2 pt-2 border-t border-gray-200 flex items-center justify-center gap-1.5 text-xs"
+                  title="Glycemic load per serving: 10 or less is low, 20 or more is high. One carb exchange is 15 g of carbohydrate less fiber."
+                >
+                  <span className={`px-1.5 py-0.5 rounded font-medium ${GLYCEMIC_LOAD_STYLES[glycemicLoadLevel(recipe.nutrition.glycemicLoad)]}`}>
+                    GL {recipe.nutrition.glycemicLoad}
+                  </span>
+                  {typeof recipe.nutrition.carbExchanges === 'number' && (
+                    <span className="text-gray-600">
+                      {recipe.nutrition.carbExchanges} carb exchange{recipe.nutrition.carbExchanges === 1 ? '' : 's'}
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -416,6 +440,46 @@ export default function RecipeCard({
             )}
           </div>
 
+          {/* Expiring items this recipe uses up */}
+          {describeWasteReduction(recipe.wasteReduction) && (
+            <div
+              className="flex items-center gap-1.5 px-2 py-1.5 bg-amber-50 border border-amber-200 rounded-lg text-xs sm:text-sm text-amber-800"
+              title={recipe.wasteReduction?.atRiskItemsUsed.join(', ')}
+            >
+              <AlertTriangle className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span className="font-medium truncate">{describeWasteReduction(recipe.wasteReduction)}</span>
+            </div>
+          )}
+
+          {/* Would push this week over the grocery budget */}
+          {recipe.budgetImpact && recipe.budgetImpact.overBy > 0 && (
+            <div
+              className="flex items-center gap-1.5 px-2 py-1.5 bg-red-50 border border-red-200 rounded-lg text-xs sm:text-sm text-red-800"
+              title={`About ${formatPrice(recipe.budgetImpact.recipeCost)} on top of ${formatPrice(recipe.budgetImpact.projectedTotal - recipe.budgetImpact.recipeCost)} already planned`}
+            >
+              <DollarSign className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span className="font-medium truncate">{recipe.budgetImpact.message}</span>
+            </div>
+          )}
+
+          {/* How a serving fits what's left of today's nutrient targets */}
+          {recipe.targetFit && (
+            <div
+              className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-xs sm:text-sm border ${
+                recipe.targetFit.exceeds.length > 0
+                  ? 'bg-red-50 border-red-200 text-red-800'
+                  : 'bg-teal-50 border-teal-200 text-teal-800'
+              }`}
+              title={recipe.targetFit.lines
+                .filter((line) => line.target.reason || line.status === 'exceeds')
+                .map((line) => `${line.name}: ${line.amount} ${line.unit} of ${line.remaining} ${line.unit} left`)
+                .join('\n')}
+            >
+              <Target className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span className="font-medium truncate">{recipe.targetFit.message}</span>
+            </div>
+          )}
+
           {/* Ingredient Match Summary */}
           {userIngredients.length > 0 && matchingIngredients > 0 && totalIngredients > 0 && (
             <div className="p-2 sm:p-3 bg-green-50 border border-green-200 rounded-lg sm:rounded-xl">
@@ -2,11 +2,14 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Recipe } from '@/types/recipe';
+import { CookEvent, Ingredient, Leftover, LowStockItem, Recipe, ReferenceIntakeProfile } from '@/types/recipe';
+import { markRecipeCooked, saveLeftoverServings, undoCookEvent } from '@/lib/api';
 import { formatCookingTime, formatPrice, getDifficultyColor } from '@/lib/utils';
+import { scaleRecipe, ScaledRecipe } from '@/lib/recipeScaler';
 import CookingAssistant from './CookingAssistant';
 import CompletionCelebration from './CompletionCelebration';
 import MarkdownText from './MarkdownText';
+import NutritionChart from './NutritionChart';
 import { 
   X, 
   Clock, 
@@ -30,6 +33,8 @@ interface RecipeDetailsModalProps {
   onToggleFavorite?: (recipeId: string) => void;
   onAddToShoppingList?: (recipe: Recipe) => void;
   isFavorite?: boolean;
+  referenceProfile?: ReferenceIntakeProfile | null; // age and sex from the health profile, for personal % Daily Values
+  healthConditions?: string[];
 }
 
 export default function RecipeDetailsModal({
@@ -39,12 +44,17 @@ export default function RecipeDetailsModal({
   userIngredients = [],
   onToggleFavorite,
   onAddToShoppingList,
-  isFavorite = false
+  isFavorite = false,
+  referenceProfile = null,
+  healthConditions = []
 }: RecipeDetailsModalProps) {
   const [servings, setServings] = useState(recipe?.servings || 4);
   const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
   const [showCookingAssistant, setShowCookingAssistant] = useState(false);
   const [showCelebration, setShowCelebration] = useState(false);
+  const [cookEvent, setCookEvent] = useState<CookEvent | null>(null);
+  const [lowStockItems, setLowStockItems] = useState<LowStockItem[]>([]);
+  const [leftovers, setLeftovers] = useState<Leftover[]>([]);
 
   if (!isOpen || !recipe) return null;
 
@@ -52,15 +62,18 @@ export default function RecipeDetailsModal({
   const recipeInstructions = Array.isArray(recipe.instructions) ? recipe.instructions : [];
   const scalingFactor = servings / (recipe.servings || 1);
 
-  const scaledIngredients = recipeIngredients
-    .filter((ingredient) => ingredient && ingredient.name)
-    .map(ingredient => ({
-      ...ingredient,
-      amount: typeof ingredient.amount === 'number' 
-        ? Math.round((ingredient.amount * scalingFactor) * 100) / 100 
-        : ingredient.amount || 0,
-      estimatedPrice: (ingredient as any).estimatedPrice ? (ingredient as any).estimatedPrice * scalingFactor : undefined
-    }));
+  let scaledRecipe: ScaledRecipe | null = null;
+  try {
+    scaledRecipe = scaleRecipe({ ...recipe, ingredients: recipeIngredients }, { targetServings: servings });
+  } catch (error) {
+    console.error('Error scaling recipe:', error);
+  }
+
+  // Falls back to the unscaled recipe if scaling fails (e.g. a huge batch recipe)
+  const displayRecipe: Recipe = scaledRecipe || recipe;
+  const scaledIngredients: Array<Ingredient & { displayAmount?: string; displayUnit?: string }> = scaledRecipe
+    ? scaledRecipe.ingredients
+    : recipeIngredients.filter((ingredient) => ingredient && ingredient.name);
 
   const totalCost = scaledIngredients.reduce((sum, ing) => sum + ((ing as any).estimatedPrice || 0), 0);
 
@@ -115,26 +128,72 @@ export default function RecipeDetailsModal({
 
   const handleAddToShoppingList = () => {
     if (onAddToShoppingList) {
-      const scaledRecipe: Recipe = {
-        ...recipe,
-        servings: servings,
-        ingredients: scaledIngredients
-      };
-      onAddToShoppingList(scaledRecipe);
+      onAddToShoppingList(displayRecipe);
     }
   };
 
   const handleAddSingleIngredient = (ingredient: typeof scaledIngredients[0]) => {
     if (onAddToShoppingList) {
       const singleIngredientRecipe: Recipe = {
-        ...recipe,
-        servings: servings,
+        ...displayRecipe,
         ingredients: [ingredient]
       };
       onAddToShoppingList(singleIngredientRecipe);
     }
   };
 
+  const handleCookingComplete = async () => {
+    setShowCookingAssistant(false);
+    setShowCelebration(true);
+
+    // Deduct the scaled quantities from the pantry; signed-out users just get the celebration
+    const result = await markRecipeCooked(displayRecipe);
+    if (result.success && result.cookEvent) {
+      setCookEvent(result.cookEvent);
+      setLowStockItems(result.lowStockItems || []);
+      setLeftovers(result.leftovers || []);
+    }
+  };
+
+  const handleSaveLeftoverServings = async (servingsEaten: number) => {
+    if (!cookEvent) return false;
+
+    const result = await saveLeftoverServings(cookEvent.id, servingsEaten);
+    if (result.success) {
+      setLeftovers(current => [
+        ...current.filter(leftover => leftover.kind !== 'portion'),
+        ...(result.leftovers || [])
+      ]);
+    }
+    return result.success;
+  };
+
+  const handleUndoCook = async () => {
+    if (!cookEvent) return;
+
+    const result = await undoCookEvent(cookEvent.id);
+    if (result.success) {
+      setCookEvent(null);
+      setLowStockItems([]);
+      setLeftovers([]);
+    } else {
+      alert(result.error || 'Could not undo the pantry update');
+    }
+  };
+
+  const handleRestockLowItems = () => {
+    if (onAddToShoppingList && lowStockItems.length > 0) {
+      onAddToShoppingList({
+        ...displayRecipe,
+        ingredients: lowStockItems.map(item => ({
+          name: item.name,
+          amount: item.restockAmount,
+          unit: item.unit
+        }))
+      });
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
       <div className="bg-white rounded-xl w-full max-w-xs sm:max-w-lg md:max-w-4xl lg:max-w-6xl xl:max-w-7xl h-[90vh] sm:h-[95vh] overflow-hidden flex flex-col">
@@ -190,7 +249,7 @@ export default function RecipeDetailsModal({
               <div className="flex flex-wrap gap-2 text-xs">
                 <div className="flex items-center gap-1">
                   <Clock className="w-3 h-3 text-blue-600" />
-                  <span>{formatCookingTime(recipe.cookingTime || 0)}</span>
+                  <span>{formatCookingTime(displayRecipe.cookingTime || 0)}</span>
                 </div>
                 <div className="flex items-center gap-1">
                   <ChefHat className="w-3 h-3 text-purple-600" />
@@ -238,6 +297,9 @@ export default function RecipeDetailsModal({
           {servings !== recipe.servings && (
             <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded text-xs text-blue-800">
               📏 Recipe scaled from {recipe.servings} to {servings} servings
+              {scaledRecipe?.scalingNotes.map((note, index) => (
+                <div key={index} className="mt-1 text-blue-700">• {note}</div>
+              ))}
             </div>
           )}
 
@@ -378,8 +440,16 @@ export default function RecipeDetailsModal({
                               <div className="flex-1 min-w-0">
                                 <span className={hasIngredient ? 'font-medium' : ''}>
                                   {hasIngredient && '✓ '}
-                                  {ingredient.amount || 0} {ingredient.unit || ''} {ingredient.name || 'Unknown ingredient'}
+                                  {ingredient.displayAmount || ingredient.amount || 0} {ingredient.displayUnit ?? ingredient.unit ?? ''} {ingredient.name || 'Unknown ingredient'}
+                                  {ingredient.preparation && (
+                                    <span className="text-gray-500">, {ingredient.preparation}</span>
+                                  )}
                                 </span>
+                                {ingredient.toTaste && (
+                                  <span className="text-xs bg-gray-200 text-gray-600 px-1 py-0.5 rounded ml-1">
+                                    To taste
+                                  </span>
+                                )}
                                 {(ingredient as any).optional && (
                                   <span className="text-xs bg-gray-200 text-gray-600 px-1 py-0.5 rounded ml-1">
                                     Optional
@@ -448,39 +518,7 @@ export default function RecipeDetailsModal({
           {/* Nutrition Info*/}
           {(recipe as any).nutrition && (
             <div className="mt-6 pt-4 border-t border-gray-200">
-              <h4 className="font-medium text-gray-900 mb-3 text-sm">Nutrition Information</h4>
-              <div className="grid grid-cols-5 gap-3 p-3 bg-gray-50 rounded-lg text-center">
-                <div>
-                  <div className="text-lg font-bold text-gray-900">
-                    {Math.round(((recipe as any).nutrition.calories || 0) * scalingFactor)}
-                  </div>
-                  <div className="text-xs text-gray-600">Calories</div>
-                </div>
-                <div>
-                  <div className="text-lg font-semibold text-gray-900">
-                    {Math.round(((recipe as any).nutrition.protein || 0) * scalingFactor)}g
-                  </div>
-                  <div className="text-xs text-gray-600">Protein</div>
-                </div>
-                <div>
-                  <div className="text-lg font-semibold text-gray-900">
-                    {Math.round(((recipe as any).nutrition.carbs || 0) * scalingFactor)}g
-                  </div>
-                  <div className="text-xs text-gray-600">Carbs</div>
-                </div>
-                <div>
-                  <div className="text-lg font-semibold text-gray-900">
-                    {Math.round(((recipe as any).nutrition.fat || 0) * scalingFactor)}g
-                  </div>
-                  <div className="text-xs text-gray-600">Fat</div>
-                </div>
-                <div>
-                  <div className="text-lg font-semibold text-gray-900">
-                    {Math.round(((recipe as any).nutrition.fiber || 0) * scalingFactor)}g
-                  </div>
-                  <div className="text-xs text-gray-600">Fiber</div>
-                </div>
-              </div>
+              <NutritionChart recipe={displayRecipe} referenceProfile={referenceProfile} conditions={healthConditions} />
             </div>
           )}
         </div>
@@ -541,20 +579,28 @@ export default function RecipeDetailsModal({
       </div>
       
       <CookingAssistant
-        recipe={recipe}
+        recipe={displayRecipe}
         isActive={showCookingAssistant}
-        onComplete={() => {
-          setShowCookingAssistant(false);
-          setShowCelebration(true);
-        }}
+        onComplete={handleCookingComplete}
         onExit={() => setShowCookingAssistant(false)}
       />
 
       <CompletionCelebration
         isOpen={showCelebration}
-        onClose={() => setShowCelebration(false)}
+        onClose={() => {
+          setShowCelebration(false);
+          setCookEvent(null);
+          setLowStockItems([]);
+          setLeftovers([]);
+        }}
         recipe={recipe}
         cookingTimeMinutes={25}
+        cookEvent={cookEvent}
+        lowStockItems={lowStockItems}
+        leftovers={leftovers}
+        onUndoCook={handleUndoCook}
+        onSaveLeftoverServings={handleSaveLeftoverServings}
+        onAddLowStockToShoppingList={onAddToShoppingList ? handleRestockLowItems : undefined}
         onRate={(rating) => {
           console.log('Recipe rated:', rating, 'stars');
         }}
@@ -0,0 +1,263 @@
+// src/components/SharedListPanel.tsx
+
+'use client';
+
+import React, { useState } from 'react';
+import { SharedListItem, SharedListRole, StoreLayout } from '@/types/recipe';
+import { groupByAisle } from '@/lib/storeAisles';
+import { useSharedList } from '@/hooks/useSharedList';
+import { Check, Trash2, Plus, Users, UserMinus, AlertCircle, X } from 'lucide-react';
+
+interface SharedListPanelProps {
+  sharedList: ReturnType<typeof useSharedList>;
+  currentUserId?: string;
+  layout?: StoreLayout | null;
+  onLeave: () => void;
+  onDelete: () => void;
+}
+
+const ROLE_LABELS: Record<SharedListRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view'
+};
+
+export default function SharedListPanel({
+  sharedList,
+  currentUserId,
+  layout,
+  onLeave,
+  onDelete
+}: SharedListPanelProps) {
+  const { list, members, items, error, canEdit } = sharedList;
+  const [newItemName, setNewItemName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Exclude<SharedListRole, 'owner'>>('editor');
+  const [showMembers, setShowMembers] = useState(false);
+
+  const isOwner = list?.role === 'owner';
+  const groupedItems = groupByAisle(items, layout);
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItemName.trim()) return;
+    sharedList.addItem(newItemName);
+    setNewItemName('');
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    if (await sharedList.addMember(inviteEmail.trim(), inviteRole)) {
+      setInviteEmail('');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!currentUserId) return;
+    if (await sharedList.removeMember(currentUserId)) {
+      onLeave();
+    }
+  };
+
+  if (!list) {
+    return <p className="text-center text-gray-500 py-8">Loading shared list...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3 text-sm">
+          <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+          <span className="flex-1 text-red-700">{error}</span>
+          <button onClick={sharedList.clearError} className="p-1 hover:bg-red-100 rounded-lg">
+            <X className="w-4 h-4 text-red-600" />
+          </button>
+        </div>
+      )}
+
+      {/* Members */}
+      <div className="p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-3">
+        <button
+          onClick={() => setShowMembers(!showMembers)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-700"
+        >
+          <Users className="w-4 h-4" />
+          {members.length} {members.length === 1 ? 'member' : 'members'}
+          <span className="text-gray-400 font-normal">· you {ROLE_LABELS[list.role].toLowerCase()}</span>
+        </button>
+
+        {showMembers && (
+          <>
+            <ul className="space-y-1">
+              {members.map(member => (
+                <li key={member.userId} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 text-gray-900">
+                    {member.name}
+                    <span className="text-gray-500"> {member.email}</span>
+                  </span>
+                  {isOwner && member.role !== 'owner' ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => sharedList.updateMemberRole(member.userId, e.target.value as Exclude<SharedListRole, 'owner'>)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                      >
+                        <option value="editor">{ROLE_LABELS.editor}</option>
+                        <option value="viewer">{ROLE_LABELS.viewer}</option>
+                      </select>
+                      <button
+                        onClick={() => sharedList.removeMember(member.userId)}
+                        className="p-1 text-gray-400 hover:text-red-500 rounded"
+                        title="Remove from list"
+                      >
+                        <UserMinus className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {isOwner && (
+              <form onSubmit={handleInvite} className="flex gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="Their account email"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as Exclude<SharedListRole, 'owner'>)}
+                  className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="editor">{ROLE_LABELS.editor}</option>
+                  <option value="viewer">{ROLE_LABELS.viewer}</option>
+                </select>
+                <button
+                  type="submit"
+                  className="px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm font-medium"
+                >
+                  Add
+                </button>
+              </form>
+            )}
+
+            <button
+              onClick={isOwner ? onDelete : handleLeave}
+              className="text-xs text-red-600 hover:underline"
+            >
+              {isOwner ? 'Delete this list for everyone' : 'Leave this list'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleAddItem} className="flex gap-2">
+          <input
+            type="text"
+            value={newItemName}
+            onChange={(e) => setNewItemName(e.target.value)}
+            placeholder="Add an item for everyone..."
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-colors flex items-center gap-2 font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </form>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">Nothing on this list yet</p>
+      ) : (
+        groupedItems.map(({ aisle, label, items: aisleItems }) => (
+          <div key={aisle} className="space-y-3">
+            <h3 className="font-semibold text-gray-900 text-lg border-b border-gray-200 pb-2">
+              {label} ({aisleItems.length})
+            </h3>
+            <div className="grid gap-3">
+              {aisleItems.map(item => (
+                <SharedListItemRow
+                  key={item.id}
+                  item={item}
+                  canEdit={canEdit}
+                  checkedByYou={item.checkedBy === currentUserId}
+                  onSetChecked={sharedList.setItemChecked}
+                  onRemove={sharedList.removeItem}
+                />
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+function SharedListItemRow({
+  item,
+  canEdit,
+  checkedByYou,
+  onSetChecked,
+  onRemove
+}: {
+  item: SharedListItem;
+  canEdit: boolean;
+  checkedByYou: boolean;
+  onSetChecked: (item: SharedListItem, checked: boolean) => void;
+  onRemove: (item: SharedListItem) => void;
+}) {
+  return (
+    <div className={`flex items-center gap-4 p-4 rounded-xl border transition-all duration-200 ${
+      item.checked
+        ? 'bg-green-50 border-green-200'
+        : 'bg-white border-gray-200 hover:border-gray-300'
+    }`}>
+      <button
+        onClick={() => onSetChecked(item, !item.checked)}
+        disabled={!canEdit}
+        className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-colors disabled:cursor-not-allowed ${
+          item.checked
+            ? 'bg-green-500 border-green-500 text-white'
+            : 'border-gray-300 hover:border-green-400'
+        }`}
+      >
+        {item.checked && <Check className="w-4 h-4" />}
+      </button>
+
+      <div className="flex-1">
+        <div className={`font-medium ${item.checked ? 'text-green-800 line-through' : 'text-gray-900'}`}>
+          {item.name}
+        </div>
+        <div className="flex items-center gap-4 text-sm text-gray-600 mt-1">
+          {item.amount && item.unit && (
+            <span>{item.amount} {item.unit}</span>
+          )}
+          {item.checked && (
+            <span className="text-xs text-green-700">
+              Got it: {checkedByYou ? 'you' : item.checkedByName || 'a former member'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {canEdit && (
+        <button
+          onClick={() => onRemove(item)}
+          className="flex-shrink-0 p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,22 +2,34 @@
 
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Recipe } from '@/types/recipe';
-import { X, ShoppingCart, Check, Trash2, Plus, AlertCircle, Wifi, WifiOff, RefreshCw, Loader2 } from 'lucide-react';
-
-interface ShoppingListItem {
-  id: string;
-  recipeId?: string;
-  name: string;
-  amount?: number;
-  unit?: string;
-  estimatedPrice?: number;
-  checked: boolean;
-  isAlreadyOwned: boolean;
-  category?: string;
-}
+import { PantryStapleOverrides, PriceAlert, PriceData, Recipe, SharedList, ShoppingListItem, ShoppingListOperation, StoreLayout, WeeklyBudgetSummary } from '@/types/recipe';
+import { classifyIngredient, groupByAisle } from '@/lib/storeAisles';
+import { applyShoppingListOperations } from '@/lib/shoppingListSync';
+import {
+  cacheShoppingList,
+  enqueueShoppingListOperation,
+  getCachedShoppingList,
+  getQueuedShoppingListOperations,
+  newOperationStamp,
+  removeQueuedShoppingListOperations
+} from '@/lib/offlineQueue';
+import { localDateString } from '@/lib/api';
+import { useSharedList } from '@/hooks/useSharedList';
+import StoreLayoutEditor, { StoreLayoutInput } from './StoreLayoutEditor';
+import SharedListPanel from './SharedListPanel';
+import BasketPlanner from './BasketPlanner';
+import CartHandoff from './CartHandoff';
+import BudgetTracker from './BudgetTracker';
+import { X, ShoppingCart, Check, Trash2, Plus, AlertCircle, Wifi, WifiOff, RefreshCw, Loader2, Store, Users, Download, Tag } from 'lucide-react';
+
+const EXPORT_LINKS = [
+  { format: 'text', label: 'Text' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'Print' }
+];
 
 interface SmartShoppingListProps {
   isOpen: boolean;
@@ -40,7 +52,24 @@ export default function SmartShoppingList({
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [exportUncheckedOnly, setExportUncheckedOnly] = useState(true);
+  const isSyncingRef = useRef(false);
+  const [storeLayouts, setStoreLayouts] = useState<StoreLayout[]>([]);
+  const [selectedLayoutId, setSelectedLayoutId] = useState<string>('');
+  const [layoutEditorMode, setLayoutEditorMode] = useState<'closed' | 'new' | 'edit'>('closed');
+  const [isSavingLayout, setIsSavingLayout] = useState(false);
+  const [stapleOverrides, setStapleOverrides] = useState<PantryStapleOverrides>({ assumeOwned: [], alwaysBuy: [] });
+  const [sharedLists, setSharedLists] = useState<SharedList[]>([]);
+  const [activeListId, setActiveListId] = useState<string>('');
+  const [storePrices, setStorePrices] = useState<PriceData[] | null>(null);
+  const [isComparingPrices, setIsComparingPrices] = useState(false);
+  const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>([]);
+  const [weeklyBudget, setWeeklyBudget] = useState<WeeklyBudgetSummary | null>(null);
+  const [isSavingSpend, setIsSavingSpend] = useState(false);
+  const [showCartHandoff, setShowCartHandoff] = useState(false);
+  const sharedList = useSharedList(activeListId || null);
 
   // Monitor online status
   useEffect(() => {
@@ -56,6 +85,13 @@ export default function SmartShoppingList({
     };
   }, []);
 
+  // Send edits made offline as soon as the connection is back
+  useEffect(() => {
+    if (isOnline && user) {
+      syncQueuedOperations();
+    }
+  }, [isOnline, user]);
+
   // Load shopping list when component opens
   useEffect(() => {
     if (isOpen && user) {
@@ -63,118 +99,545 @@ export default function SmartShoppingList({
     }
   }, [isOpen, user]);
 
-  // Add recipes to shopping list when component opens
+  // Load store layouts so the list can follow a store's walking route
   useEffect(() => {
-    if (isOpen && recipes.length > 0 && user && shoppingList.length === 0) {
-      addRecipesToShoppingList();
+    if (isOpen && user) {
+      loadStoreLayouts();
     }
-  }, [isOpen, recipes, user, shoppingList.length]);
+  }, [isOpen, user]);
 
-  // Load shopping list from API
-  // In SmartShoppingList.tsx, update loadShoppingList to sync with AuthContext:
-const loadShoppingList = async () => {
-  if (!user) return;
+  // Load this account's pantry staple corrections
+  useEffect(() => {
+    if (isOpen && user) {
+      loadStapleOverrides();
+    }
+  }, [isOpen, user]);
 
-  setIsLoading(true);
-  setError(null);
+  // Load deals on things this user buys often
+  useEffect(() => {
+    if (isOpen && user) {
+      loadPriceAlerts();
+    }
+  }, [isOpen, user]);
 
-  try {
-    console.log('🔄 Loading shopping list for user:', user.email);
-    
-    const response = await fetch('/api/user/shopping-list', {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${user.accessToken || 'demo'}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  // Load this week's grocery budget
+  useEffect(() => {
+    if (isOpen && user) {
+      loadWeeklyBudget();
     }
+  }, [isOpen, user]);
 
-    const result = await response.json();
-    
-    if (result.success) {
-      const items = result.shopping_list || [];
-      console.log('✅ Loaded shopping list:', items.length, 'items');
-      setShoppingList(items);
-      setHasUnsavedChanges(false);
-      
-      // 🔥 SYNC WITH AUTH CONTEXT
-      await updateUserData({ shoppingList: items });
-      console.log('🔄 Synced AuthContext with', items.length, 'items');
-    } else {
-      throw new Error(result.error || 'Failed to load shopping list');
+  // Load the household lists this user belongs to
+  useEffect(() => {
+    if (isOpen && user) {
+      loadSharedLists();
     }
-  } catch (err) {
-    console.error('❌ Failed to load shopping list:', err);
-    setError(err instanceof Error ? err.message : 'Failed to load shopping list');
-    setShoppingList([]);
-  } finally {
-    setIsLoading(false);
-  }
-};
-
-  // Save shopping list to API
-  const saveShoppingList = async (newList: ShoppingListItem[]) => {
+  }, [isOpen, user]);
+
+  // Store prices were for the list as it was; drop them once it changes
+  useEffect(() => {
+    setStorePrices(null);
+  }, [shoppingList]);
+
+  // Add recipes to shopping list when component opens
+  useEffect(() => {
+    if (isOpen && recipes.length > 0 && user && shoppingList.length === 0) {
+      addRecipesToShoppingList();
+    }
+  }, [isOpen, recipes, user, shoppingList.length]);
+
+  // Load shopping list from API, with any edits still waiting to sync laid on top.
+  // Without a connection, fall back to the copy saved on this device.
+  const loadShoppingList = async () => {
     if (!user) return;
-  
-    setIsSaving(true);
+
+    setIsLoading(true);
     setError(null);
-  
+
     try {
-      console.log('💾 Saving shopping list:', newList.length, 'items');
-      
+      console.log('🔄 Loading shopping list for user:', user.email);
+
       const response = await fetch('/api/user/shopping-list', {
-        method: 'PUT',
+        method: 'GET',
         headers: {
           'Authorization': `Bearer ${user.accessToken || 'demo'}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          shopping_list: newList
-        }),
       });
-  
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
-  
+
       const result = await response.json();
-      
+
       if (result.success) {
-        console.log('✅ Shopping list saved successfully');
-        setHasUnsavedChanges(false);
-        
-        await updateUserData({ shoppingList: newList });
-        console.log('🔄 Updated AuthContext with', newList.length, 'items');
-        
-        onCartUpdate?.();
+        const serverItems: ShoppingListItem[] = result.shopping_list || [];
+        const queued = await getQueuedShoppingListOperations(user.id);
+        const items = applyShoppingListOperations(serverItems, queued).items;
+        console.log('✅ Loaded shopping list:', serverItems.length, 'items,', queued.length, 'edits waiting to sync');
+
+        setShoppingList(items);
+        setPendingChanges(queued.length);
+        await cacheShoppingList(user.id, serverItems);
+
+        // 🔥 SYNC WITH AUTH CONTEXT
+        await updateUserData({ shoppingList: items }, { persist: false });
+
+        if (queued.length > 0) syncQueuedOperations();
       } else {
-        throw new Error(result.error || 'Failed to save shopping list');
+        throw new Error(result.error || 'Failed to load shopping list');
       }
     } catch (err) {
-      console.error('❌ Failed to save shopping list:', err);
-      setError(err instanceof Error ? err.message : 'Failed to save shopping list');
-      setHasUnsavedChanges(true);
+      const cached = await getCachedShoppingList(user.id).catch(() => null);
+
+      if (cached) {
+        const queued = await getQueuedShoppingListOperations(user.id);
+        console.log('📴 Showing saved copy of shopping list:', cached.length, 'items');
+        setShoppingList(applyShoppingListOperations(cached, queued).items);
+        setPendingChanges(queued.length);
+        setSyncNotice('You\'re offline. Showing the list saved on this device; changes will sync when you reconnect.');
+      } else {
+        console.error('❌ Failed to load shopping list:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load shopping list');
+        setShoppingList([]);
+      }
     } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Send queued edits to the server and take its merged copy of the list
+  const syncQueuedOperations = async () => {
+    if (!user || isSyncingRef.current) return;
+
+    isSyncingRef.current = true;
+    setIsSaving(true);
+    let hasMore = false;
+
+    try {
+      const operations = await getQueuedShoppingListOperations(user.id);
+      if (operations.length === 0) return;
+
+      console.log('💾 Syncing', operations.length, 'shopping list edits');
+
+      const response = await fetch('/api/user/shopping-list', {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${user.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ operations }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      await removeQueuedShoppingListOperations(operations.map(operation => operation.opId));
+
+      // Edits made while the request was in flight are still queued
+      const stillQueued = await getQueuedShoppingListOperations(user.id);
+      const serverItems: ShoppingListItem[] = result.shopping_list || [];
+      const items = applyShoppingListOperations(serverItems, stillQueued).items;
+
+      setShoppingList(items);
+      setPendingChanges(stillQueued.length);
+      await cacheShoppingList(user.id, serverItems);
+      await updateUserData({ shoppingList: items }, { persist: false });
+      hasMore = stillQueued.length > 0;
+
+      const conflicts = (result.results || []).filter((entry: any) => entry.status === 'conflict');
+      setSyncNotice(conflicts.length > 0 ? conflicts.map((entry: any) => entry.message).join(' ') : null);
+      console.log('✅ Shopping list synced', conflicts.length ? `with ${conflicts.length} conflicts` : '');
+
+      onCartUpdate?.();
+    } catch (err) {
+      // Everything stays queued; the next edit or reconnect tries again
+      console.error('❌ Failed to sync shopping list:', err);
+    } finally {
+      isSyncingRef.current = false;
       setIsSaving(false);
     }
+
+    if (hasMore) syncQueuedOperations();
   };
 
-  // Update shopping list with debounced save
-  const updateShoppingList = useCallback((newList: ShoppingListItem[]) => {
-    setShoppingList(newList);
-    setHasUnsavedChanges(true);
-    
-    // Debounced save
-    const timeoutId = setTimeout(() => {
-      saveShoppingList(newList);
-    }, 1000);
+  // Show an edit straight away and queue it; it's sent now if we're online
+  const queueOperations = async (operations: ShoppingListOperation[]) => {
+    if (!user || operations.length === 0) return;
+
+    setShoppingList(current => applyShoppingListOperations(current, operations).items);
+    setPendingChanges(count => count + operations.length);
+
+    try {
+      for (const operation of operations) {
+        await enqueueShoppingListOperation(user.id, operation);
+      }
+    } catch (err) {
+      console.error('❌ Failed to queue shopping list edit:', err);
+      setError('Could not save this change on your device');
+      return;
+    }
+
+    if (navigator.onLine) {
+      syncQueuedOperations();
+    }
+  };
+
+  const loadStoreLayouts = async () => {
+    try {
+      const response = await fetch('/api/user/store-layouts', {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      if (result.success) {
+        const layouts: StoreLayout[] = result.layouts || [];
+        setStoreLayouts(layouts);
+        setSelectedLayoutId(current =>
+          layouts.some(layout => layout.id === current) ? current : layouts.find(layout => layout.isDefault)?.id || ''
+        );
+      }
+    } catch (err) {
+      // The list still works in the default aisle order
+      console.error('❌ Failed to load store layouts:', err);
+    }
+  };
+
+  const saveStoreLayout = async (input: StoreLayoutInput) => {
+    const editing = layoutEditorMode === 'edit' ? storeLayouts.find(layout => layout.id === selectedLayoutId) : null;
+
+    setIsSavingLayout(true);
+    try {
+      const response = await fetch(editing ? `/api/user/store-layouts/${editing.id}` : '/api/user/store-layouts', {
+        method: editing ? 'PUT' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      setSelectedLayoutId(result.layout.id);
+      setLayoutEditorMode('closed');
+      await loadStoreLayouts();
+    } catch (err) {
+      console.error('❌ Failed to save store layout:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save store layout');
+    } finally {
+      setIsSavingLayout(false);
+    }
+  };
+
+  const deleteStoreLayout = async () => {
+    if (!selectedLayoutId) return;
+
+    try {
+      const response = await fetch(`/api/user/store-layouts/${selectedLayoutId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      setSelectedLayoutId('');
+      setLayoutEditorMode('closed');
+      await loadStoreLayouts();
+    } catch (err) {
+      console.error('❌ Failed to delete store layout:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete store layout');
+    }
+  };
+
+  const loadStapleOverrides = async () => {
+    try {
+      const response = await fetch('/api/user/pantry-staples', {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setStapleOverrides(result.stapleOverrides);
+      }
+    } catch (err) {
+      console.error('❌ Failed to load pantry staples:', err);
+    }
+  };
+
+  const loadPriceAlerts = async () => {
+    try {
+      const response = await fetch('/api/user/price-alerts', {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setPriceAlerts(result.alerts);
+      }
+    } catch (err) {
+      console.error('❌ Failed to load price alerts:', err);
+    }
+  };
+
+  const loadWeeklyBudget = async () => {
+    try {
+      const response = await fetch(`/api/user/budget?date=${localDateString()}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setWeeklyBudget(result.budget);
+      }
+    } catch (err) {
+      console.error('❌ Failed to load weekly budget:', err);
+    }
+  };
+
+  // What a finished shopping trip actually cost
+  const recordSpend = async (amount: number, note: string): Promise<boolean> => {
+    setIsSavingSpend(true);
+    try {
+      const today = localDateString();
+      const response = await fetch(`/api/user/budget?date=${today}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ amount, spentOn: today, note: note || undefined }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      setWeeklyBudget(result.budget);
+      return true;
+    } catch (err) {
+      console.error('❌ Failed to record spend:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record spend');
+      return false;
+    } finally {
+      setIsSavingSpend(false);
+    }
+  };
+
+  const deleteSpend = async (id: string) => {
+    try {
+      const response = await fetch(`/api/user/budget?id=${encodeURIComponent(id)}&date=${localDateString()}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      setWeeklyBudget(result.budget);
+    } catch (err) {
+      console.error('❌ Failed to delete spend entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete spend entry');
+    }
+  };
+
+  // "I always have this" / "I need to buy this" for staples, remembered per account
+  const setStapleOwned = async (name: string, owned: boolean) => {
+    const key = name.trim().toLowerCase();
+    const updated: PantryStapleOverrides = {
+      assumeOwned: stapleOverrides.assumeOwned.filter(staple => staple !== key).concat(owned ? [key] : []),
+      alwaysBuy: stapleOverrides.alwaysBuy.filter(staple => staple !== key).concat(owned ? [] : [key])
+    };
+
+    try {
+      const response = await fetch('/api/user/pantry-staples', {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${user?.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updated),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      setStapleOverrides(result.stapleOverrides);
+      await loadShoppingList();
+    } catch (err) {
+      console.error('❌ Failed to update pantry staples:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update pantry staples');
+    }
+  };
+
+  // Record how much of an item is already at home; the pantry is updated to match
+  const recordOwnedAmount = async (itemId: string, quantity: number) => {
+    if (!user) return;
+
+    try {
+      const response = await fetch('/api/user/shopping-list/owned', {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${user.accessToken || 'demo'}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ itemId, quantity }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      const serverItems: ShoppingListItem[] = result.shopping_list || [];
+      const items = applyShoppingListOperations(serverItems, await getQueuedShoppingListOperations(user.id)).items;
+      setShoppingList(items);
+      await cacheShoppingList(user.id, serverItems);
+      await updateUserData({ shoppingList: items }, { persist: false });
+    } catch (err) {
+      console.error('❌ Failed to record owned amount:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record owned amount');
+    }
+  };
+
+  const loadSharedLists = async () => {
+    try {
+      const response = await fetch('/api/shared-lists', {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const result = await response.json();
+      if (response.ok && result.success) {
+        const lists: SharedList[] = result.lists || [];
+        setSharedLists(lists);
+        setActiveListId(current => lists.some(list => list.id === current) ? current : '');
+      }
+    } catch (err) {
+      console.error('❌ Failed to load shared lists:', err);
+    }
+  };
+
+  // Price what's left to buy at each store, for the basket planner
+  const compareStorePrices = async () => {
+    const toBuy = shoppingList.filter(item => !item.checked && !item.isAlreadyOwned);
+    if (toBuy.length === 0) return;
 
-    return () => clearTimeout(timeoutId);
-  }, [user]);
+    setIsComparingPrices(true);
+    try {
+      const response = await fetch('/api/prices/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ingredients: toBuy.map(item => ({
+            name: item.name,
+            amount: item.amountToBuy ?? item.amount ?? 1,
+            unit: item.unit || ''
+          }))
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      setStorePrices(result.comparisons);
+    } catch (err) {
+      console.error('❌ Failed to compare store prices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare store prices');
+    } finally {
+      setIsComparingPrices(false);
+    }
+  };
+
+  // Start a household list from the current personal list
+  const shareCurrentList = async () => {
+    const name = window.prompt('Name for the shared list', 'Household list');
+    if (!name?.trim()) return;
+
+    try {
+      const response = await fetch('/api/shared-lists', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), items: shoppingList }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+
+      await loadSharedLists();
+      setActiveListId(result.list.id);
+    } catch (err) {
+      console.error('❌ Failed to share shopping list:', err);
+      setError(err instanceof Error ? err.message : 'Failed to share shopping list');
+    }
+  };
+
+  const deleteSharedList = async () => {
+    if (!activeListId || !window.confirm('Delete this list for everyone on it?')) return;
+
+    try {
+      const response = await fetch(`/api/shared-lists/${activeListId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      setActiveListId('');
+      await loadSharedLists();
+    } catch (err) {
+      console.error('❌ Failed to delete shared list:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete shared list');
+    }
+  };
 
   // Add recipes to shopping list
   const addRecipesToShoppingList = async () => {
@@ -192,6 +655,7 @@ const loadShoppingList = async () => {
           },
           body: JSON.stringify({
             recipeId: recipe.id,
+            recipeTitle: recipe.title,
             ingredients: recipe.ingredients
           }),
         });
@@ -214,17 +678,25 @@ const loadShoppingList = async () => {
   };
 
   // Toggle item checked status
-  const toggleItemCheck = async (itemId: string) => {
-    const updatedList = shoppingList.map(item =>
-      item.id === itemId ? { ...item, checked: !item.checked } : item
-    );
-    updateShoppingList(updatedList);
+  const toggleItemCheck = (itemId: string) => {
+    const item = shoppingList.find(listItem => listItem.id === itemId);
+    if (!item) return;
+
+    queueOperations([{
+      ...newOperationStamp(),
+      type: 'update',
+      itemId,
+      changes: { checked: !item.checked },
+      baseVersion: item.version || 1
+    }]);
   };
 
+  const removeOperationsFor = (items: ShoppingListItem[]): ShoppingListOperation[] =>
+    items.map(item => ({ ...newOperationStamp(), type: 'remove', itemId: item.id, baseVersion: item.version || 1 }));
+
   // Remove item from list
-  const removeItem = async (itemId: string) => {
-    const updatedList = shoppingList.filter(item => item.id !== itemId);
-    updateShoppingList(updatedList);
+  const removeItem = (itemId: string) => {
+    queueOperations(removeOperationsFor(shoppingList.filter(item => item.id === itemId)));
   };
 
   // Add custom item
@@ -236,65 +708,39 @@ const loadShoppingList = async () => {
       name: name.trim(),
       checked: false,
       isAlreadyOwned: false,
-      category: 'Other'
+      category: classifyIngredient(name)
     };
     
-    const updatedList = [...shoppingList, newItem];
-    updateShoppingList(updatedList);
+    queueOperations([{ ...newOperationStamp(), type: 'add', item: newItem }]);
   };
 
   // Clear all items
   const clearAllItems = () => {
-    updateShoppingList([]);
+    queueOperations(removeOperationsFor(shoppingList));
   };
 
   // Clear completed items
   const clearCompletedItems = () => {
-    const updatedList = shoppingList.filter(item => !item.checked);
-    updateShoppingList(updatedList);
+    queueOperations(removeOperationsFor(shoppingList.filter(item => item.checked)));
   };
 
-  // Categorize ingredient for better organization
-  const categorizeIngredient = (ingredientName: string): string => {
-    const name = ingredientName.toLowerCase();
-    
-    if (name.includes('chicken') || name.includes('beef') || name.includes('pork') || name.includes('fish') || name.includes('salmon')) {
-      return 'Meat & Seafood';
-    }
-    if (name.includes('milk') || name.includes('cheese') || name.includes('yogurt') || name.includes('butter') || name.includes('cream')) {
-      return 'Dairy';
-    }
-    if (name.includes('apple') || name.includes('banana') || name.includes('orange') || name.includes('berry') || name.includes('grape')) {
-      return 'Fruits';
-    }
-    if (name.includes('carrot') || name.includes('onion') || name.includes('tomato') || name.includes('lettuce') || name.includes('pepper') || name.includes('cucumber')) {
-      return 'Vegetables';
-    }
-    if (name.includes('bread') || name.includes('rice') || name.includes('pasta') || name.includes('flour') || name.includes('cereal')) {
-      return 'Grains & Bread';
-    }
-    if (name.includes('oil') || name.includes('vinegar') || name.includes('salt') || name.includes('pepper') || name.includes('spice') || name.includes('sauce')) {
-      return 'Condiments & Spices';
-    }
-    
-    return 'Other';
+  // Group items by aisle, in the selected store's walking order
+  const selectedLayout = storeLayouts.find(layout => layout.id === selectedLayoutId) || null;
+  const groupedItems = groupByAisle(shoppingList, selectedLayout);
+
+  const exportUrl = (format: string) => {
+    const params = new URLSearchParams({ format, unchecked: String(exportUncheckedOnly) });
+    if (selectedLayoutId) params.set('layoutId', selectedLayoutId);
+    return `/api/user/shopping-list/export?${params.toString()}`;
   };
 
-  // Group items by category
-  const groupedItems = shoppingList.reduce((groups, item) => {
-    const category = item.category || categorizeIngredient(item.name);
-    if (!groups[category]) {
-      groups[category] = [];
-    }
-    groups[category].push(item);
-    return groups;
-  }, {} as Record<string, ShoppingListItem[]>);
-
-  // Calculate totals
-  const totalItems = shoppingList.length;
-  const completedItems = shoppingList.filter(item => item.checked).length;
-  const totalEstimatedPrice = shoppingList
-    .filter(item => !item.checked && item.estimatedPrice)
+  // Calculate totals for whichever list is showing
+  const activeItems: ShoppingListItem[] = activeListId ? sharedList.items : shoppingList;
+  const totalItems = activeItems.length;
+  const completedItems = activeItems.filter(item => item.checked).length;
+  const itemsToBuy = activeItems.filter(item => !item.checked && !item.isAlreadyOwned);
+  const totalEstimatedPrice = activeItems
+    .filter(item => !item.checked && !item.isAlreadyOwned && item.estimatedPrice)
     .reduce((sum, item) => sum + (item.estimatedPrice || 0), 0);
 
   if (!isOpen) return null;
@@ -351,10 +797,10 @@ const loadShoppingList = async () => {
               </div>
             )}
             
-            {hasUnsavedChanges && !isSaving && (
+            {pendingChanges > 0 && !isSaving && (
               <div className="flex items-center gap-2 px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-medium">
                 <AlertCircle className="w-3 h-3" />
-                Unsaved changes
+                {pendingChanges} {pendingChanges === 1 ? 'change' : 'changes'} waiting to sync
               </div>
             )}
 
@@ -377,6 +823,38 @@ const loadShoppingList = async () => {
           </div>
         </div>
 
+        {/* Sync notice: offline copy or edits that lost to another device's */}
+        {syncNotice && (
+          <div className="mx-6 mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-xl flex items-center gap-3 text-sm">
+            <AlertCircle className="w-4 h-4 text-yellow-700 flex-shrink-0" />
+            <span className="flex-1 text-yellow-800">{syncNotice}</span>
+            <button
+              onClick={() => setSyncNotice(null)}
+              className="p-1 hover:bg-yellow-100 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4 text-yellow-700" />
+            </button>
+          </div>
+        )}
+
+        {/* Deals on frequently bought ingredients */}
+        {priceAlerts.length > 0 && (
+          <div className="mx-6 mt-4 p-3 bg-green-50 border border-green-200 rounded-xl flex items-start gap-3 text-sm">
+            <Tag className="w-4 h-4 text-green-700 flex-shrink-0 mt-0.5" />
+            <ul className="flex-1 space-y-1 text-green-800">
+              {priceAlerts.slice(0, 3).map(alert => (
+                <li key={`${alert.ingredientKey}-${alert.storeId}`}>{alert.message}</li>
+              ))}
+            </ul>
+            <button
+              onClick={() => setPriceAlerts([])}
+              className="p-1 hover:bg-green-100 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4 text-green-700" />
+            </button>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
@@ -402,7 +880,41 @@ const loadShoppingList = async () => {
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
-          {totalItems === 0 ? (
+          {/* Personal or household list */}
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <Users className="w-4 h-4 text-gray-500" />
+            <select
+              value={activeListId}
+              onChange={(e) => setActiveListId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">My list</option>
+              {sharedLists.map(list => (
+                <option key={list.id} value={list.id}>{list.name} (shared)</option>
+              ))}
+            </select>
+            {!activeListId && (
+              <button
+                onClick={shareCurrentList}
+                className="px-3 py-2 text-sm text-green-700 hover:bg-green-50 rounded-xl transition-colors"
+              >
+                Share with household
+              </button>
+            )}
+          </div>
+
+          {activeListId ? (
+            <SharedListPanel
+              sharedList={sharedList}
+              currentUserId={user?.id}
+              layout={selectedLayout}
+              onLeave={() => {
+                setActiveListId('');
+                loadSharedLists();
+              }}
+              onDelete={deleteSharedList}
+            />
+          ) : totalItems === 0 ? (
             /* Empty State */
             <div className="text-center py-12">
               <div className="text-6xl mb-4">🛒</div>
@@ -432,11 +944,117 @@ const loadShoppingList = async () => {
                 </button>
               </div>
 
+              {/* Export */}
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Download className="w-4 h-4 text-gray-500" />
+                <span className="text-gray-600">Export:</span>
+                {EXPORT_LINKS.map(({ format, label }) => (
+                  <a
+                    key={format}
+                    href={exportUrl(format)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-1 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    {label}
+                  </a>
+                ))}
+                <label className="flex items-center gap-1 ml-2 text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={exportUncheckedOnly}
+                    onChange={(e) => setExportUncheckedOnly(e.target.checked)}
+                    className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                  Unchecked only
+                </label>
+              </div>
+
+              {/* Where to shop */}
+              <div className="space-y-3">
+                <button
+                  onClick={storePrices ? () => setStorePrices(null) : compareStorePrices}
+                  disabled={isComparingPrices || !isOnline}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-xl hover:bg-blue-100 transition-colors text-sm font-medium disabled:opacity-50"
+                >
+                  {isComparingPrices ? <Loader2 className="w-4 h-4 animate-spin" /> : <Store className="w-4 h-4" />}
+                  {storePrices ? 'Hide store plan' : 'Find the cheapest stores'}
+                </button>
+                {storePrices && <BasketPlanner priceData={storePrices} />}
+              </div>
+
+              {/* Hand what's left off to a retailer's cart */}
+              {showCartHandoff && (
+                <CartHandoff
+                  ingredients={itemsToBuy.map(item => ({
+                    name: item.name,
+                    amount: item.amountToBuy ?? item.amount ?? 1,
+                    unit: item.unit || ''
+                  }))}
+                  onClose={() => setShowCartHandoff(false)}
+                />
+              )}
+
+              {/* Weekly budget */}
+              {weeklyBudget && (
+                <BudgetTracker
+                  budget={weeklyBudget}
+                  isSaving={isSavingSpend}
+                  onRecordSpend={recordSpend}
+                  onDeleteSpend={deleteSpend}
+                />
+              )}
+
               {/* Grouped Items */}
-              {Object.entries(groupedItems).map(([category, items]) => (
-                <div key={category} className="space-y-3">
+              {/* Store Layout */}
+              <div className="flex flex-wrap items-center gap-2">
+                <Store className="w-4 h-4 text-gray-500" />
+                <select
+                  value={selectedLayoutId}
+                  onChange={(e) => {
+                    setSelectedLayoutId(e.target.value);
+                    setLayoutEditorMode('closed');
+                  }}
+                  className="px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">Typical store order</option>
+                  {storeLayouts.map(layout => (
+                    <option key={layout.id} value={layout.id}>
+                      {layout.name}{layout.isDefault ? ' (default)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {selectedLayout && (
+                  <button
+                    onClick={() => setLayoutEditorMode('edit')}
+                    className="px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-xl transition-colors"
+                  >
+                    Edit layout
+                  </button>
+                )}
+                <button
+                  onClick={() => setLayoutEditorMode('new')}
+                  className="px-3 py-2 text-sm text-green-700 hover:bg-green-50 rounded-xl transition-colors"
+                >
+                  + New store
+                </button>
+              </div>
+
+              {layoutEditorMode !== 'closed' && (
+                <StoreLayoutEditor
+                  key={layoutEditorMode === 'edit' ? selectedLayoutId : 'new'}
+                  layout={layoutEditorMode === 'edit' ? selectedLayout : null}
+                  isSaving={isSavingLayout}
+                  onSave={saveStoreLayout}
+                  onCancel={() => setLayoutEditorMode('closed')}
+                  onDelete={layoutEditorMode === 'edit' ? deleteStoreLayout : undefined}
+                />
+              )}
+
+              {groupedItems.map(({ aisle, label, items }) => (
+                <div key={aisle} className="space-y-3">
                   <h3 className="font-semibold text-gray-900 text-lg border-b border-gray-200 pb-2">
-                    {category} ({items.length})
+                    {label} ({items.length})
                   </h3>
                   <div className="grid gap-3">
                     {items.map((item) => (
@@ -445,6 +1063,8 @@ const loadShoppingList = async () => {
                         item={item}
                         onToggleCheck={toggleItemCheck}
                         onRemove={removeItem}
+                        onRecordOwned={recordOwnedAmount}
+                        onSetStapleOwned={setStapleOwned}
                       />
                     ))}
                   </div>
@@ -478,10 +1098,9 @@ const loadShoppingList = async () => {
               
               {totalItems > 0 && (
                 <button
-                  onClick={() => {
-                    alert('Export to store feature coming soon!');
-                  }}
-                  className="px-6 py-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white rounded-xl hover:from-green-600 hover:to-emerald-600 transition-all duration-300 font-medium shadow-lg hover:shadow-xl"
+                  onClick={() => setShowCartHandoff(true)}
+                  disabled={!isOnline || itemsToBuy.length === 0}
+                  className="px-6 py-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white rounded-xl hover:from-green-600 hover:to-emerald-600 transition-all duration-300 font-medium shadow-lg hover:shadow-xl disabled:opacity-50"
                 >
                   Export to Store
                 </button>
@@ -498,12 +1117,28 @@ const loadShoppingList = async () => {
 function ShoppingListItemComponent({
   item,
   onToggleCheck,
-  onRemove
+  onRemove,
+  onRecordOwned,
+  onSetStapleOwned
 }: {
   item: ShoppingListItem;
   onToggleCheck: (id: string) => void;
   onRemove: (id: string) => void;
+  onRecordOwned: (id: string, quantity: number) => void;
+  onSetStapleOwned: (name: string, owned: boolean) => void;
 }) {
+  const hasBreakdown = Array.isArray(item.sources) && item.sources.length > 1;
+  const [isEditingOwned, setIsEditingOwned] = useState(false);
+  const [ownedInput, setOwnedInput] = useState('');
+
+  const handleOwnedSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseFloat(ownedInput);
+    if (isNaN(quantity) || quantity < 0) return;
+    onRecordOwned(item.id, quantity);
+    setIsEditingOwned(false);
+  };
+
   return (
     <div className={`flex items-center gap-4 p-4 rounded-xl border transition-all duration-200 ${
       item.checked 
@@ -528,25 +1163,95 @@ function ShoppingListItemComponent({
         
         <div className="flex items-center gap-4 text-sm text-gray-600 mt-1">
           {item.amount && item.unit && (
-            <span>{item.amount} {item.unit}</span>
+            typeof item.amountToBuy === 'number' ? (
+              <span>
+                Buy {item.amountToBuy} {item.unit}{' '}
+                <span className="text-gray-400">(need {item.approximate ? '~' : ''}{item.amount}, have {item.ownedAmount})</span>
+              </span>
+            ) : (
+              <span>{item.approximate ? '~' : ''}{item.amount} {item.unit}</span>
+            )
           )}
           
           {item.estimatedPrice && (
             <span className="font-medium">${item.estimatedPrice.toFixed(2)}</span>
           )}
           
-          {item.recipeId && (
+          {item.recipeId && !hasBreakdown && (
             <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs">
-              Recipe ingredient
+              {item.recipeTitle || 'Recipe ingredient'}
             </span>
           )}
           
-          {item.isAlreadyOwned && (
+          {item.isAlreadyOwned && item.isPantryStaple && (
+            <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs">
+              Pantry staple
+            </span>
+          )}
+
+          {item.isAlreadyOwned && !item.isPantryStaple && (
             <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs">
               You have this
             </span>
           )}
         </div>
+
+        {!item.checked && (
+          <div className="flex items-center gap-3 mt-2 text-xs">
+            {item.isPantryStaple ? (
+              <button onClick={() => onSetStapleOwned(item.name, false)} className="text-gray-500 hover:text-gray-800 underline">
+                I need to buy this
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => {
+                    setOwnedInput(String(item.ownedAmount ?? ''));
+                    setIsEditingOwned(!isEditingOwned);
+                  }}
+                  className="text-gray-500 hover:text-gray-800 underline"
+                >
+                  {item.isAlreadyOwned || item.ownedAmount ? 'Edit what I have' : 'I have some'}
+                </button>
+                {!item.isAlreadyOwned && (
+                  <button onClick={() => onSetStapleOwned(item.name, true)} className="text-gray-500 hover:text-gray-800 underline">
+                    I always have this
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {isEditingOwned && (
+          <form onSubmit={handleOwnedSubmit} className="flex items-center gap-2 mt-2">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={ownedInput}
+              onChange={(e) => setOwnedInput(e.target.value)}
+              autoFocus
+              className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <span className="text-sm text-gray-600">{item.unit || 'item(s)'} at home</span>
+            <button type="submit" className="px-3 py-1 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-xs font-medium">
+              Save
+            </button>
+          </form>
+        )}
+
+        {/* Which recipes this merged line is for */}
+        {hasBreakdown && (
+          <ul className="mt-2 space-y-0.5 text-xs text-gray-500">
+            {item.sources!.map((source, index) => (
+              <li key={`${source.recipeId}-${index}`}>
+                {source.recipeTitle || (source.recipeId === 'custom' ? 'Added by you' : 'Recipe')}:{' '}
+                {source.amount > 0 ? `${source.amount} ${source.unit} ` : ''}{source.name}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
       
       <button
@@ -0,0 +1,132 @@
+// src/components/StoreLayoutEditor.tsx
+
+'use client';
+
+import React, { useState } from 'react';
+import { StoreAisle, StoreLayout } from '@/types/recipe';
+import { AISLE_LABELS, resolveAisleOrder } from '@/lib/storeAisles';
+import { ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+
+export interface StoreLayoutInput {
+  name: string;
+  aisleOrder: StoreAisle[];
+  isDefault: boolean;
+}
+
+interface StoreLayoutEditorProps {
+  layout?: StoreLayout | null;
+  isSaving?: boolean;
+  onSave: (input: StoreLayoutInput) => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+}
+
+export default function StoreLayoutEditor({
+  layout,
+  isSaving = false,
+  onSave,
+  onCancel,
+  onDelete
+}: StoreLayoutEditorProps) {
+  const [name, setName] = useState(layout?.name || '');
+  const [aisleOrder, setAisleOrder] = useState<StoreAisle[]>(resolveAisleOrder(layout));
+  const [isDefault, setIsDefault] = useState(layout?.isDefault || false);
+
+  const moveAisle = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= aisleOrder.length) return;
+
+    const updated = [...aisleOrder];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setAisleOrder(updated);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), aisleOrder, isDefault });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Store name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={60}
+          placeholder="e.g. Corner Grocery"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Aisles in the order you walk them</p>
+        <ol className="space-y-1">
+          {aisleOrder.map((aisle, index) => (
+            <li key={aisle} className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm">
+              <span className="w-5 text-gray-400">{index + 1}.</span>
+              <span className="flex-1 text-gray-900">{AISLE_LABELS[aisle]}</span>
+              <button
+                type="button"
+                onClick={() => moveAisle(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                title="Move up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveAisle(index, 1)}
+                disabled={index === aisleOrder.length - 1}
+                className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                title="Move down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={isDefault}
+          onChange={(e) => setIsDefault(e.target.checked)}
+          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+        />
+        Use this store by default
+      </label>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim()}
+          className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm font-medium disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save layout'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+        >
+          Cancel
+        </button>
+        {onDelete && (
+          <button
+            type="button"
+            onClick={onDelete}
+            className="ml-auto flex items-center gap-1 px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-sm"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
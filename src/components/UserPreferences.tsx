@@ -5,6 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { UserPreferences as UserPreferencesType, CuisineType, DietaryRestriction } from '@/types/recipe';
+import { MEALS_PER_WEEK } from '@/lib/mealPlanCost';
 import { Settings, Save, RotateCcw, User, Heart, AlertTriangle, DollarSign } from 'lucide-react';
 
 interface UserPreferencesProps {
@@ -194,6 +195,25 @@ export default function UserPreferences({
                     </div>
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Weekly grocery budget
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="5"
+                    value={preferences.weeklyBudget ?? ''}
+                    onChange={(e) => updatePreferences({
+                      weeklyBudget: e.target.value ? Math.max(0, parseFloat(e.target.value)) : undefined
+                    })}
+                    placeholder={`${preferences.budgetRange.max * preferences.householdSize * MEALS_PER_WEEK}`}
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Leave empty to use your maximum per serving for every meal of the week.
+                  </p>
+                </div>
               </div>
             </section>
 
@@ -341,6 +361,7 @@ export default function UserPreferences({
                   <span className="text-gray-600">Budget:</span>
                   <span className="ml-2 font-medium">
                     ${preferences.budgetRange.min} - ${preferences.budgetRange.max} per serving
+                    {preferences.weeklyBudget ? `, $${preferences.weeklyBudget} a week` : ''}
                   </span>
                 </div>
                 <div>
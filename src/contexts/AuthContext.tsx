@@ -3,6 +3,7 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { ShoppingListItem } from '@/types/recipe';
 
 interface User {
   id: string;
@@ -23,28 +24,17 @@ interface UserData {
     budgetRange: { min: number; max: number };
     householdSize: number;
     cookingSkillLevel: 'Beginner' | 'Intermediate' | 'Advanced';
+    weeklyBudget?: number;
   };
 }
 
-interface ShoppingListItem {
-  id: string;
-  name: string;
-  amount?: number;
-  unit?: string;
-  recipeId?: string;
-  recipeTitle?: string;
-  checked: boolean;
-  estimatedPrice?: number;
-  isAlreadyOwned: boolean;
-}
-
 interface AuthContextType {
   user: User | null;
   userData: UserData;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   register: (email: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
-  updateUserData: (updates: Partial<UserData>) => Promise<boolean>;
+  updateUserData: (updates: Partial<UserData>, options?: { persist?: boolean }) => Promise<boolean>;
   refreshShoppingList: () => Promise<void>;
   isLoading: boolean;
   isHydrated: boolean;
@@ -266,14 +256,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateUserData = async (updates: Partial<UserData>): Promise<boolean> => {
+  // Pass { persist: false } when the server already has this data, e.g. a list it just returned
+  const updateUserData = async (updates: Partial<UserData>, options: { persist?: boolean } = {}): Promise<boolean> => {
     setUserData(prev => {
       const updated = { ...prev, ...updates };
       console.log('📝 Updated user data locally:', Object.keys(updates));
       return updated;
     });
 
-    if (user) {
+    if (user && options.persist !== false) {
       try {
         let success = true;
 
@@ -0,0 +1,215 @@
+// src/hooks/useSharedList.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SharedList, SharedListItem, SharedListMember, SharedListRole } from '@/types/recipe';
+
+// How often to ask the server whether anyone else has changed the list
+const POLL_INTERVAL_MS = 5000;
+
+interface UseSharedListReturn {
+  list: SharedList | null;
+  members: SharedListMember[];
+  items: SharedListItem[];
+  isLoading: boolean;
+  error: string | null;
+  canEdit: boolean;
+  setItemChecked: (item: SharedListItem, checked: boolean) => Promise<void>;
+  addItem: (name: string) => Promise<void>;
+  removeItem: (item: SharedListItem) => Promise<void>;
+  addMember: (email: string, role: Exclude<SharedListRole, 'owner'>) => Promise<boolean>;
+  updateMemberRole: (userId: string, role: Exclude<SharedListRole, 'owner'>) => Promise<void>;
+  removeMember: (userId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+  clearError: () => void;
+}
+
+async function requestJson(url: string, init?: RequestInit): Promise<{ ok: boolean; status: number; body: any }> {
+  const response = await fetch(url, {
+    ...init,
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const body = await response.json().catch(() => ({}));
+  return { ok: response.ok && body.success !== false, status: response.status, body };
+}
+
+export function useSharedList(listId: string | null): UseSharedListReturn {
+  const [list, setList] = useState<SharedList | null>(null);
+  const [members, setMembers] = useState<SharedListMember[]>([]);
+  const [items, setItems] = useState<SharedListItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const updatedAtRef = useRef<string | null>(null);
+
+  const load = useCallback(async (incremental: boolean) => {
+    if (!listId) return;
+
+    const since = incremental && updatedAtRef.current ? `?since=${encodeURIComponent(updatedAtRef.current)}` : '';
+    const { ok, body } = await requestJson(`/api/shared-lists/${listId}${since}`);
+
+    if (!ok) {
+      throw new Error(body.error || 'Failed to load shared list');
+    }
+
+    updatedAtRef.current = body.updatedAt;
+    if (!body.changed) return;
+
+    setList(body.list);
+    setMembers(body.members || []);
+    setItems(body.items || []);
+  }, [listId]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await load(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load shared list');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [load]);
+
+  useEffect(() => {
+    updatedAtRef.current = null;
+    setList(null);
+    setMembers([]);
+    setItems([]);
+    if (!listId) return;
+
+    refresh();
+
+    // Poll while the tab is visible; a missed poll is caught up by the next one
+    const interval = setInterval(() => {
+      if (document.hidden) return;
+      load(true).catch(err => console.error('❌ Shared list poll failed:', err));
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [listId, load, refresh]);
+
+  const replaceItem = (item: SharedListItem) => {
+    setItems(prev => prev.map(existing => existing.id === item.id ? item : existing));
+  };
+
+  const setItemChecked = useCallback(async (item: SharedListItem, checked: boolean) => {
+    if (!listId) return;
+
+    // Show the tick straight away; the server's copy replaces it either way
+    replaceItem({ ...item, checked });
+
+    try {
+      const { ok, status, body } = await requestJson(`/api/shared-lists/${listId}/items/${item.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ checked })
+      });
+
+      if (ok) {
+        replaceItem(body.item);
+      } else if (status === 409 && body.item) {
+        replaceItem(body.item);
+        setError(body.error);
+      } else {
+        replaceItem(item);
+        setError(body.error || 'Failed to update item');
+      }
+    } catch (err) {
+      replaceItem(item);
+      setError('Network error while updating item');
+    }
+  }, [listId]);
+
+  const addItem = useCallback(async (name: string) => {
+    if (!listId || !name.trim()) return;
+
+    const { ok, body } = await requestJson(`/api/shared-lists/${listId}/items`, {
+      method: 'POST',
+      body: JSON.stringify({ name: name.trim() })
+    });
+
+    if (ok) {
+      setItems(prev => [...prev, body.item]);
+    } else {
+      setError(body.error || 'Failed to add item');
+    }
+  }, [listId]);
+
+  const removeItem = useCallback(async (item: SharedListItem) => {
+    if (!listId) return;
+
+    const { ok, status, body } = await requestJson(
+      `/api/shared-lists/${listId}/items/${item.id}?version=${item.version}`,
+      { method: 'DELETE' }
+    );
+
+    if (ok) {
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+    } else {
+      setError(body.error || 'Failed to remove item');
+      if (status === 409) await refresh();
+    }
+  }, [listId, refresh]);
+
+  const addMember = useCallback(async (email: string, role: Exclude<SharedListRole, 'owner'>) => {
+    if (!listId) return false;
+
+    const { ok, body } = await requestJson(`/api/shared-lists/${listId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role })
+    });
+
+    if (ok) {
+      setMembers(body.members || []);
+    } else {
+      setError(body.error || 'Failed to add member');
+    }
+    return ok;
+  }, [listId]);
+
+  const updateMemberRole = useCallback(async (userId: string, role: Exclude<SharedListRole, 'owner'>) => {
+    if (!listId) return;
+
+    const { ok, body } = await requestJson(`/api/shared-lists/${listId}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role })
+    });
+
+    if (ok) {
+      setMembers(body.members || []);
+    } else {
+      setError(body.error || 'Failed to update member');
+    }
+  }, [listId]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    if (!listId) return false;
+
+    const { ok, body } = await requestJson(`/api/shared-lists/${listId}/members/${userId}`, {
+      method: 'DELETE'
+    });
+
+    if (ok) {
+      setMembers(prev => prev.filter(member => member.userId !== userId));
+    } else {
+      setError(body.error || 'Failed to remove member');
+    }
+    return ok;
+  }, [listId]);
+
+  return {
+    list,
+    members,
+    items,
+    isLoading,
+    error,
+    canEdit: list?.role === 'owner' || list?.role === 'editor',
+    setItemChecked,
+    addItem,
+    removeItem,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    refresh,
+    clearError: () => setError(null)
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildMealOptions } from './ai-diet-generator';
+
+const allMeals = (preferences: any) => Object.values(buildMealOptions(preferences)).flat();
+
+describe('buildMealOptions', () => {
+  it('leaves meat and fish out for vegetarians but keeps eggs', () => {
+    const meals = allMeals({ isVegetarian: true });
+    expect(meals.filter(meal => /chicken|salmon|fish|lean protein/i.test(meal))).toEqual([]);
+    expect(meals).toContain('Scrambled eggs with spinach on toast (330 calories)');
+  });
+
+  it('swaps in dairy-free versions and drops the rest for dairy-free diets', () => {
+    const meals = allMeals({ isDairyFree: true });
+    expect(meals).toContain('Therapeutic coconut yogurt with berries (140 calories)');
+    expect(meals.filter(meal => /greek yogurt|cheese/i.test(meal))).toEqual([]);
+  });
+
+  it('leaves eggs out for vegans', () => {
+    expect(allMeals({ isVegan: true }).filter(meal => /\beggs?\b/i.test(meal))).toEqual([]);
+  });
+
+  it.each([
+    ['peanuts', 'Apple slices with peanut butter (180 calories)'],
+    ['peanut', 'Apple slices with peanut butter (180 calories)'],
+    ['egg', 'Scrambled eggs with spinach on toast (330 calories)'],
+    ['berry', 'Anti-inflammatory oatmeal with berries and walnuts (350 calories)'],
+    ['Walnuts', 'Anti-inflammatory oatmeal with berries and walnuts (350 calories)']
+  ])('allergen "%s" removes %s', (allergen, meal) => {
+    expect(allMeals({ allergens: [allergen] })).not.toContain(meal);
+  });
+
+  it('does not drop meals that only contain the allergen as part of another word', () => {
+    expect(allMeals({ allergens: ['nut'] })).toContain('Nutrient-dense crackers with healthy fats (170 calories)');
+  });
+});
@@ -1,6 +1,8 @@
 // src/lib/ai-diet-generator.ts
 
 import { z } from 'zod';
+import { DietPlanCostBreakdown, MealIngredients, MealSlot, fitMealPlanToBudget, reconcileShoppingList } from './mealPlanCost';
+import { singularize } from './shoppingList';
 
 const RareConditionAnalysisSchema = z.object({
   conditionName: z.string(),
@@ -80,6 +82,7 @@ export interface GeneratedDietPlan {
     confidenceScore: number;
     processingTime: number;
     hasRareConditionAnalysis: boolean;
+    costBreakdown?: DietPlanCostBreakdown;
   };
 }
 
@@ -441,6 +444,13 @@ Special considerations: ${analysis.specialNotes?.join('; ') || 'Requires medical
     });
   }
 
+  const { max: maxPerServing } = params.preferences.budgetRange;
+  const budgetText = `BUDGET:
+- At most $${maxPerServing.toFixed(2)} per meal and $${(maxPerServing / 2).toFixed(2)} for snacks
+- At most $${(maxPerServing * 3).toFixed(2)} per day and $${(maxPerServing * 21).toFixed(2)} for the week
+- Build meals around affordable staples (oats, eggs, beans, lentils, rice, seasonal vegetables) and keep costly proteins occasional
+- Meals over budget will be swapped for cheaper ones, so price them honestly`;
+
   return `Create a comprehensive, medically-informed 7-day diet plan for someone with complex health needs including rare conditions.
 
 PATIENT PROFILE:
@@ -453,11 +463,14 @@ Primary goal: ${params.goalType}
 Cooking skill level: ${params.preferences.cookingSkillLevel}
 Budget range: $${params.preferences.budgetRange.min}-${params.preferences.budgetRange.max} per serving
 
+${budgetText}
+
 CRITICAL REQUIREMENTS:
 - Integrate rare condition dietary needs into all recommendations
 - Ensure all meals are safe for the listed health conditions
 - Consider medication-food interactions
 - Provide specific calorie counts for each meal
+- List one serving's ingredients for every meal in mealIngredients, covering all 7 days
 - Include variety while respecting all restrictions
 
 Please provide a detailed response in this exact JSON format:
@@ -490,6 +503,15 @@ Please provide a detailed response in this exact JSON format:
       "day7": { "breakfast": "...", "lunch": "...", "dinner": "...", "snacks": "..." }
     }
   },
+  "mealIngredients": {
+    "day1": {
+      "breakfast": ["1/2 cup rolled oats", "1 banana", "1 tbsp walnuts"],
+      "lunch": ["One ingredient per line with amount and unit, for one serving"],
+      "dinner": ["..."],
+      "snacks": ["..."]
+    },
+    "day2": { "breakfast": ["..."], "lunch": ["..."], "dinner": ["..."], "snacks": ["..."] }
+  },
   "shoppingList": [
     {
       "category": "Therapeutic Foods",
@@ -553,16 +575,23 @@ function parseEnhancedAIResponse(response: string, params: DietPlanParams): Gene
       console.error('❌ Invalid response structure from enhanced AI');
       return null;
     }
+
+    const { mealIngredients, ...plan } = parsed;
+    const costBreakdown = applyBudgetToPlan(
+      plan,
+      params,
+      mealIngredients && typeof mealIngredients === 'object' ? mealIngredients : undefined
+    );
     
     // Add rare condition integration summary
     let rareConditionIntegration;
     if (params.rareConditionAnalysis && params.rareConditionAnalysis.length > 0) {
-      rareConditionIntegration = createRareConditionIntegration(params.rareConditionAnalysis, parsed);
+      rareConditionIntegration = createRareConditionIntegration(params.rareConditionAnalysis, plan);
     }
     
     // Add enhanced metadata
     return {
-      ...parsed,
+      ...plan,
       rareConditionIntegration,
       metadata: {
         generatedAt: new Date().toISOString(),
@@ -570,7 +599,8 @@ function parseEnhancedAIResponse(response: string, params: DietPlanParams): Gene
         generationMethod: 'ai',
         confidenceScore: 0.95,
         processingTime: 0,
-        hasRareConditionAnalysis: !!(params.rareConditionAnalysis && params.rareConditionAnalysis.length > 0)
+        hasRareConditionAnalysis: !!(params.rareConditionAnalysis && params.rareConditionAnalysis.length > 0),
+        costBreakdown
       }
     };
     
@@ -580,6 +610,50 @@ function parseEnhancedAIResponse(response: string, params: DietPlanParams): Gene
   }
 }
 
+// Swap meals that blow the per-serving budget for cheaper structured options, price the week
+// and bring the shopping list in line with the swaps
+function applyBudgetToPlan(
+  plan: Pick<GeneratedDietPlan, 'mealPlan' | 'shoppingList' | 'specialNotes'>,
+  params: DietPlanParams,
+  mealIngredients?: MealIngredients
+): DietPlanCostBreakdown {
+  const { budgetRange } = params.preferences;
+  const alternatives = buildMealOptions({
+    ...getDietaryFlags(params),
+    allergens: params.allergens,
+    rareConditionAnalysis: params.rareConditionAnalysis
+  });
+
+  const { dailyMeals, breakdown } = fitMealPlanToBudget(
+    plan.mealPlan.dailyMeals,
+    budgetRange,
+    alternatives,
+    mealIngredients
+  );
+  plan.mealPlan.dailyMeals = dailyMeals as GeneratedDietPlan['mealPlan']['dailyMeals'];
+
+  if (breakdown.replacedMeals > 0) {
+    plan.shoppingList = reconcileShoppingList(plan.shoppingList, breakdown, mealIngredients);
+    plan.specialNotes.push(
+      `**Budget Swaps**: ${breakdown.replacedMeals} meal${breakdown.replacedMeals === 1 ? ' was' : 's were'} replaced with cheaper options to stay within $${budgetRange.max} per serving`
+    );
+  }
+  if (!breakdown.withinBudget) {
+    plan.specialNotes.push(
+      `**Budget Note**: This week still comes to about $${breakdown.weeklyTotal.toFixed(2)} ($${breakdown.averagePerServing.toFixed(2)} per serving) against a $${breakdown.perWeekLimit.toFixed(2)} limit - lean on beans, lentils, eggs and rice where you can`
+    );
+  }
+
+  console.log('💰 Meal plan cost:', {
+    weeklyTotal: breakdown.weeklyTotal,
+    perWeekLimit: breakdown.perWeekLimit,
+    replacedMeals: breakdown.replacedMeals,
+    withinBudget: breakdown.withinBudget
+  });
+
+  return breakdown;
+}
+
 // Create rare condition integration summary
 function createRareConditionIntegration(rareAnalyses: RareConditionAnalysis[], dietPlan: any) {
   const integration = {
@@ -620,6 +694,7 @@ async function generateEnhancedStructuredPlan(params: DietPlanParams): Promise<D
     console.log('🏗️ Generating enhanced structured plan with rare condition integration...');
     
     const structuredPlan = createEnhancedStructuredPlan(params);
+    const costBreakdown = applyBudgetToPlan(structuredPlan, params);
     
     return {
       success: true,
@@ -631,7 +706,8 @@ async function generateEnhancedStructuredPlan(params: DietPlanParams): Promise<D
           generationMethod: 'structured',
           confidenceScore: 0.85,
           processingTime: 0,
-          hasRareConditionAnalysis: !!(params.rareConditionAnalysis && params.rareConditionAnalysis.length > 0)
+          hasRareConditionAnalysis: !!(params.rareConditionAnalysis && params.rareConditionAnalysis.length > 0),
+          costBreakdown
         }
       }
     };
@@ -646,10 +722,8 @@ async function generateEnhancedStructuredPlan(params: DietPlanParams): Promise<D
   }
 }
 
-// Enhanced structured plan creation
-function createEnhancedStructuredPlan(params: DietPlanParams): Omit<GeneratedDietPlan, 'metadata'> {
-  console.log('🏗️ Creating enhanced structured plan with rare condition support...');
-  
+// Health and dietary flags the structured generators key off
+function getDietaryFlags(params: DietPlanParams) {
   // Analyze health conditions
   const hasHypertension = params.healthConditions.some(c => 
     c.toLowerCase().includes('hypertension') || c.toLowerCase().includes('blood pressure')
@@ -668,6 +742,23 @@ function createEnhancedStructuredPlan(params: DietPlanParams): Omit<GeneratedDie
   const isDairyFree = params.dietaryPreferences.some(p => p.toLowerCase().includes('dairy')) || 
                      params.allergens.some(a => a.toLowerCase().includes('dairy'));
 
+  return { hasHypertension, hasDiabetes, hasHeartDisease, isVegetarian, isVegan, isGlutenFree, isDairyFree };
+}
+
+// Enhanced structured plan creation
+function createEnhancedStructuredPlan(params: DietPlanParams): Omit<GeneratedDietPlan, 'metadata'> {
+  console.log('🏗️ Creating enhanced structured plan with rare condition support...');
+  
+  const {
+    hasHypertension,
+    hasDiabetes,
+    hasHeartDisease,
+    isVegetarian,
+    isVegan,
+    isGlutenFree,
+    isDairyFree
+  } = getDietaryFlags(params);
+
   // Create base plan object
   const basePlan = {
     restrictions: generateEnhancedRestrictions({ 
@@ -697,6 +788,7 @@ function createEnhancedStructuredPlan(params: DietPlanParams): Omit<GeneratedDie
         isVegan, 
         isGlutenFree, 
         isDairyFree, 
+        allergens: params.allergens,
         cookingSkill: params.preferences.cookingSkillLevel, 
         goalType: params.goalType,
         rareConditionAnalysis: params.rareConditionAnalysis 
@@ -850,8 +942,51 @@ function generateEnhancedSpecialNotes(conditions: any): string[] {
 
 function generateEnhancedWeeklyMealPlan(preferences: any): Record<string, any> {
   const mealPlan: Record<string, any> = {};
+  const mealOptions = buildMealOptions(preferences);
 
-  // Create base meal options
+  // Generate 7 days
+  for (let day = 1; day <= 7; day++) {
+    mealPlan[`day${day}`] = {
+      breakfast: mealOptions.breakfast[(day - 1) % mealOptions.breakfast.length],
+      lunch: mealOptions.lunch[(day - 1) % mealOptions.lunch.length],
+      dinner: mealOptions.dinner[(day - 1) % mealOptions.dinner.length],
+      snacks: mealOptions.snacks[(day - 1) % mealOptions.snacks.length]
+    };
+  }
+
+  return mealPlan;
+}
+
+const MEAT_PATTERN = /\b(chicken|fish|salmon|tuna|turkey|beef|pork|shrimp|lean protein)\b/i;
+const EGG_PATTERN = /\beggs?\b/i;
+const DAIRY_PATTERN = /\b(milk|cheese|yogurt|cream|whey)\b/i;
+const PLANT_DAIRY_PATTERN = /\b(coconut|plant|almond|soy|oat) (yogurt|milk|cream)\b/gi;
+
+// Whether a meal or shopping item is allowed by the dietary flags and allergens
+function fitsDiet(text: string, preferences: any): boolean {
+  const animalDairy = text.replace(PLANT_DAIRY_PATTERN, ' ');
+  if ((preferences.isVegetarian || preferences.isVegan) && MEAT_PATTERN.test(text)) return false;
+  if (preferences.isVegan && EGG_PATTERN.test(text)) return false;
+  if ((preferences.isVegan || preferences.isDairyFree) && DAIRY_PATTERN.test(animalDairy)) return false;
+  return !(preferences.allergens || []).some((allergen: string) => mentionsAllergen(text, allergen));
+}
+
+// "peanuts" rules out "peanut butter" and "egg" rules out "eggs"
+function mentionsAllergen(text: string, allergen: string): boolean {
+  const words = allergen.toLowerCase().trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return false;
+
+  const singular = [...words.slice(0, -1), singularize(words[words.length - 1])].join(' ');
+  const forms = new Set([words.join(' '), singular, `${singular}s`, `${singular}es`, singular.replace(/([^aeiou])y$/, '$1ies')]);
+  const pattern = Array.from(forms).map(form => form.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  return new RegExp(`\\b(${pattern})\\b`, 'i').test(text);
+}
+
+/**
+ * Meal options per slot after dietary, allergen and rare condition filtering.
+ * The budget staples at the end of each list are what over-budget meals get swapped for.
+ */
+export function buildMealOptions(preferences: any): Record<MealSlot, string[]> {
   let mealOptions = {
     breakfast: [
       "Anti-inflammatory oatmeal with berries and walnuts (350 calories)",
@@ -860,7 +995,9 @@ function generateEnhancedWeeklyMealPlan(preferences: any): Record<string, any> {
       "Therapeutic vegetable scramble with herbs (380 calories)",
       "Healing smoothie bowl with superfoods (360 calories)",
       "Omega-3 rich chia pudding with almonds (330 calories)",
-      "Heart-healthy whole grain cereal with banana (310 calories)"
+      "Heart-healthy whole grain cereal with banana (310 calories)",
+      "Budget oatmeal with banana (300 calories)",
+      "Scrambled eggs with spinach on toast (330 calories)"
     ],
     lunch: [
       "Therapeutic quinoa salad with healing vegetables (420 calories)",
@@ -869,7 +1006,9 @@ function generateEnhancedWeeklyMealPlan(preferences: any): Record<string, any> {
       "Healing stuffed sweet potato with legumes (460 calories)",
       "Mediterranean salad with therapeutic herbs (440 calories)",
       "Gut-healing veggie wrap with probiotics (410 calories)",
-      "Immune-supporting lentil soup (430 calories)"
+      "Immune-supporting lentil soup (430 calories)",
+      "Lentil and rice bowl with carrots (420 calories)",
+      "Black beans and potato soup (400 calories)"
     ],
     dinner: [
       "Omega-3 rich fish with healing vegetables (480 calories)",
@@ -878,7 +1017,9 @@ function generateEnhancedWeeklyMealPlan(preferences: any): Record<string, any> {
       "Nutrient-dense stuffed bell peppers (460 calories)",
       "Healing salmon with cruciferous vegetables (510 calories)",
       "Lean protein with zucchini noodles (470 calories)",
-      "Plant-based healing chili (450 calories)"
+      "Plant-based healing chili (450 calories)",
+      "Chickpea and broccoli stir-fry with rice (470 calories)",
+      "Bean chili with kidney beans and rice (460 calories)"
     ],
     snacks: [
       "Anti-inflammatory apple with almond butter (180 calories)",
@@ -887,7 +1028,9 @@ function generateEnhancedWeeklyMealPlan(preferences: any): Record<string, any> {
       "Therapeutic Greek yogurt with berries (140 calories)",
       "Nutrient-dense crackers with healthy fats (170 calories)",
       "Healing protein smoothie (200 calories)",
-      "Brain-healthy nuts with dark chocolate (150 calories)"
+      "Brain-healthy nuts with dark chocolate (150 calories)",
+      "Carrot sticks with hummus (150 calories)",
+      "Apple slices with peanut butter (180 calories)"
     ]
   };
 
@@ -915,37 +1058,30 @@ function generateEnhancedWeeklyMealPlan(preferences: any): Record<string, any> {
     });
   }
 
-  // Apply other dietary restrictions
-  if (preferences.isVegan) {
-    mealOptions.breakfast = mealOptions.breakfast.map(meal => 
-      meal.replace(/Greek yogurt/gi, 'coconut yogurt').replace(/milk/gi, 'plant milk')
-    );
-    mealOptions.lunch = mealOptions.lunch.filter(meal => 
-      !meal.toLowerCase().includes('cheese')
-    );
-    mealOptions.dinner = mealOptions.dinner.filter(meal => 
-      !meal.toLowerCase().includes('fish') && !meal.toLowerCase().includes('chicken') && 
-      !meal.toLowerCase().includes('salmon')
-    );
+  // Apply other dietary restrictions: swap in dairy-free versions where there are
+  // some, then drop whatever the diet or an allergen still rules out
+  if (preferences.isVegan || preferences.isDairyFree) {
+    Object.keys(mealOptions).forEach(mealType => {
+      mealOptions[mealType as keyof typeof mealOptions] = mealOptions[mealType as keyof typeof mealOptions].map(meal =>
+        meal.replace(/Greek yogurt/gi, 'coconut yogurt').replace(/\bmilk\b/gi, 'plant milk')
+      );
+    });
   }
 
   if (preferences.isGlutenFree) {
-    mealOptions.breakfast = mealOptions.breakfast.map(meal => 
-      meal.replace(/toast/gi, 'gluten-free toast').replace(/cereal/gi, 'gluten-free cereal')
-    );
+    Object.keys(mealOptions).forEach(mealType => {
+      mealOptions[mealType as keyof typeof mealOptions] = mealOptions[mealType as keyof typeof mealOptions].map(meal =>
+        meal.replace(/\b(toast|cereal|bread|wrap|crackers)\b/gi, 'gluten-free $1')
+      );
+    });
   }
 
-  // Generate 7 days
-  for (let day = 1; day <= 7; day++) {
-    mealPlan[`day${day}`] = {
-      breakfast: mealOptions.breakfast[(day - 1) % mealOptions.breakfast.length],
-      lunch: mealOptions.lunch[(day - 1) % mealOptions.lunch.length],
-      dinner: mealOptions.dinner[(day - 1) % mealOptions.dinner.length],
-      snacks: mealOptions.snacks[(day - 1) % mealOptions.snacks.length]
-    };
-  }
+  Object.keys(mealOptions).forEach(mealType => {
+    mealOptions[mealType as keyof typeof mealOptions] = mealOptions[mealType as keyof typeof mealOptions]
+      .filter(meal => fitsDiet(meal, preferences));
+  });
 
-  return mealPlan;
+  return mealOptions;
 }
 
 function generateEnhancedShoppingList(preferences: any): Array<{category: string; items: string[]}> {
@@ -1000,16 +1136,10 @@ function generateEnhancedShoppingList(preferences: any): Array<{category: string
     }
   }
 
-  // Filter out allergens
-  if (preferences.allergens && preferences.allergens.length > 0) {
-    baseList.forEach(category => {
-      category.items = category.items.filter(item => {
-        return !preferences.allergens.some((allergen: string) => 
-          item.toLowerCase().includes(allergen.toLowerCase())
-        );
-      });
-    });
-  }
+  // Filter out allergens and what the diet rules out
+  baseList.forEach(category => {
+    category.items = category.items.filter(item => fitsDiet(item, preferences));
+  });
 
   return baseList;
 }
@@ -1,6 +1,22 @@
 // src/lib/api.ts
 
-import { Recipe, SearchRequest } from '@/types/recipe';
+import {
+  CartExport,
+  CookEvent,
+  DailyIntakeSummary,
+  ExpiringIngredient,
+  DailyValueKey,
+  FoodLogEntry,
+  Ingredient,
+  Leftover,
+  LowStockItem,
+  NutrientProfile,
+  NutrientTargets,
+  Recipe,
+  SearchRequest,
+  WeeklyIntakeSummary
+} from '@/types/recipe';
+import type { FoodLogInput } from './foodLog';
 import { parseRecipeResponse } from './recipeParser';
 
 export interface SonarSearchResponse {
@@ -37,11 +53,59 @@ export interface SubstitutionResponse {
   error?: string;
 }
 
+export interface CookEventResponse {
+  success: boolean;
+  cookEvent?: CookEvent;
+  lowStockItems?: LowStockItem[];
+  leftovers?: Leftover[];
+  missingItems?: string[];
+  error?: string;
+}
+
+export interface LeftoversResponse {
+  success: boolean;
+  leftovers?: Leftover[];
+  error?: string;
+}
+
+export interface FoodLogResponse {
+  success: boolean;
+  date?: string;
+  entries?: FoodLogEntry[];
+  entry?: FoodLogEntry;
+  summary?: DailyIntakeSummary;
+  error?: string;
+}
+
+export interface IntakeSummaryResponse {
+  success: boolean;
+  period?: 'day' | 'week';
+  summary?: DailyIntakeSummary | WeeklyIntakeSummary;
+  error?: string;
+}
+
+export interface NutrientTargetsResponse {
+  success: boolean;
+  date?: string;
+  targets?: NutrientTargets;
+  consumed?: NutrientProfile;
+  remaining?: Partial<Record<DailyValueKey, number>>;
+  error?: string;
+}
+
+export interface CartExportResponse {
+  success: boolean;
+  cart?: CartExport;
+  error?: string;
+}
+
 export async function searchRecipesWithParsing(req: { 
   prompt: string;
   maxResults?: number;
   ingredients?: string[];
   filters?: any;
+  usePantry?: boolean; // add the signed-in user's saved pantry items to ingredients
+  expiringIngredients?: ExpiringIngredient[];
 }): Promise<SonarSearchResponse> {
   try {
     console.log('🚀 Searching recipes via API route:', req.prompt);
@@ -56,7 +120,10 @@ export async function searchRecipesWithParsing(req: {
         prompt: req.prompt,
         maxResults: req.maxResults || 5,
         ingredients: req.ingredients || [],
-        filters: req.filters || {}
+        filters: req.filters || {},
+        usePantry: req.usePantry || false,
+        expiringIngredients: req.expiringIngredients || [],
+        date: localDateString()
       })
     });
 
@@ -230,6 +297,175 @@ function getMockSubstitute(ingredient: string): string {
   return `Alternative for ${ingredient}`;
 }
 
+// Mark a recipe as cooked; pass the scaled recipe so the right quantities come off the pantry
+export async function markRecipeCooked(recipe: Recipe): Promise<CookEventResponse> {
+  return sendCookEventRequest('/api/user/cook-events', 'POST', { recipe });
+}
+
+export async function undoCookEvent(cookEventId: string): Promise<CookEventResponse> {
+  return sendCookEventRequest(`/api/user/cook-events/${encodeURIComponent(cookEventId)}`, 'DELETE');
+}
+
+async function sendCookEventRequest(url: string, method: string, body?: unknown): Promise<CookEventResponse> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+
+    const data = await response.json().catch(() => ({ error: `HTTP ${response.status}: ${response.statusText}` }));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+
+    return data;
+
+  } catch (error) {
+    console.error('❌ Cook event request error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// Hand a shopping list off to a retailer; the cart says which items found no product
+export async function exportShoppingCart(retailerId: string, ingredients: Ingredient[]): Promise<CartExportResponse> {
+  try {
+    const response = await fetch('/api/cart/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        retailerId,
+        ingredients: ingredients.map(({ name, amount, unit }) => ({ name, amount: amount || 0, unit: unit || '' }))
+      })
+    });
+
+    const data = await response.json().catch(() => ({ error: `HTTP ${response.status}: ${response.statusText}` }));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+
+    return data;
+
+  } catch (error) {
+    console.error('❌ Cart export error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+export async function fetchLeftovers(): Promise<LeftoversResponse> {
+  return sendLeftoversRequest('/api/user/leftovers', 'GET');
+}
+
+// Record how many of a cooked recipe's servings were eaten; the rest are saved as leftovers
+export async function saveLeftoverServings(cookEventId: string, servingsEaten: number): Promise<LeftoversResponse> {
+  return sendLeftoversRequest('/api/user/leftovers', 'POST', { cookEventId, servingsEaten });
+}
+
+export async function markLeftoverUsed(leftoverId: string): Promise<LeftoversResponse> {
+  return sendLeftoversRequest(`/api/user/leftovers/${encodeURIComponent(leftoverId)}`, 'DELETE');
+}
+
+async function sendLeftoversRequest(url: string, method: string, body?: unknown): Promise<LeftoversResponse> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+
+    const data = await response.json().catch(() => ({ error: `HTTP ${response.status}: ${response.statusText}` }));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+
+    return data;
+
+  } catch (error) {
+    console.error('❌ Leftovers request error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+export async function fetchFoodLogEntries(date: string = localDateString()): Promise<FoodLogResponse> {
+  return sendFoodLogRequest(`/api/user/food-log?date=${encodeURIComponent(date)}`, 'GET');
+}
+
+export async function logFood(input: FoodLogInput): Promise<FoodLogResponse> {
+  return sendFoodLogRequest('/api/user/food-log', 'POST', { ...input, eatenOn: input.eatenOn || localDateString() });
+}
+
+export async function deleteFoodLogEntry(entryId: string): Promise<FoodLogResponse> {
+  return sendFoodLogRequest(`/api/user/food-log/${encodeURIComponent(entryId)}`, 'DELETE');
+}
+
+export async function fetchIntakeSummary(period: 'day' | 'week', date: string = localDateString()): Promise<IntakeSummaryResponse> {
+  return sendFoodLogRequest(`/api/user/food-log/summary?period=${period}&date=${encodeURIComponent(date)}`, 'GET');
+}
+
+// Today's targets (or another day's) with what's been logged and what's left
+export async function fetchNutrientTargets(date: string = localDateString()): Promise<NutrientTargetsResponse> {
+  return sendFoodLogRequest(`/api/user/nutrient-targets?date=${encodeURIComponent(date)}`, 'GET');
+}
+
+export async function recalculateNutrientTargets(): Promise<NutrientTargetsResponse> {
+  return sendFoodLogRequest('/api/user/nutrient-targets', 'POST');
+}
+
+// The user's calendar day, which the server can't know: "today" in UTC is tomorrow by evening in the Americas
+export function localDateString(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+async function sendFoodLogRequest(url: string, method: string, body?: unknown): Promise<any> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+
+    const data = await response.json().catch(() => ({ error: `HTTP ${response.status}: ${response.statusText}` }));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+
+    return data;
+
+  } catch (error) {
+    console.error('❌ Food log request error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
 export async function checkAPIConnection(): Promise<{ connected: boolean; message: string }> {
   try {
     console.log('🔍 Checking API connection via health endpoint...');
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { GroceryStore, PriceData } from '@/types/recipe';
+import { optimizeBasket } from './basketOptimizer';
+
+// Prices in ingredient order; null is out of stock
+function storePrices(id: string, prices: Array<number | null>, store: Partial<GroceryStore> = {}): PriceData {
+  const names = ['milk', 'bread', 'eggs'];
+  return {
+    store: { id, name: id, deliveryFee: 0, minimumOrder: 0, distance: 1, ...store } as GroceryStore,
+    items: prices.map((price, index) => ({
+      ingredient: { name: names[index], amount: 1, unit: 'item' },
+      storeId: id,
+      price: price ?? 0,
+      unit: 'item',
+      inStock: price !== null
+    })),
+    totalCost: 0,
+    totalSavings: 0,
+    unavailableItems: 0,
+    estimatedDeliveryTime: ''
+  };
+}
+
+const corner = storePrices('corner', [3, 2, null]);
+const market = storePrices('market', [2, 3, 4]);
+
+describe('optimizeBasket', () => {
+  it('returns nothing to recommend without prices', () => {
+    expect(optimizeBasket([])).toEqual({ singleStore: null, multiStore: null, recommended: null });
+  });
+
+  it('prefers the single store that has everything, then splits when money is all that counts', () => {
+    const result = optimizeBasket([corner, market], { convenienceWeight: 0 });
+
+    expect(result.singleStore).toMatchObject({ totalCost: 9, unavailableItems: [] });
+    expect(result.singleStore!.stops[0].store.id).toBe('market');
+    expect(result.multiStore).toMatchObject({ totalCost: 8, itemsCost: 8 });
+    expect(result.multiStore!.moves).toEqual([
+      { ingredientName: 'bread', fromStoreId: 'market', toStoreId: 'corner', saving: 1, reason: 'cheaper' }
+    ]);
+    expect(result.recommended).toBe('multi');
+  });
+
+  it('keeps to one store when the extra stop is worth more than the saving', () => {
+    const result = optimizeBasket([corner, market], { convenienceWeight: 1 });
+
+    expect(result.recommended).toBe('single');
+    expect(result.singleStore!.explanation.at(-1)).toBe(
+      'Splitting would save $1.00, less than the extra stop is worth at your convenience setting'
+    );
+  });
+
+  it('charges a minimum order shortfall to the plan', () => {
+    const result = optimizeBasket([storePrices('deli', [2, 2, 2], { minimumOrder: 10, deliveryFee: 1 })], { maxStops: 1 });
+
+    expect(result.singleStore!.stops[0].minimumOrderShortfall).toBe(4);
+    expect(result.singleStore!.totalCost).toBe(11);
+    expect(result.multiStore).toBeNull();
+  });
+
+  it('lists items no store in the plan has', () => {
+    const result = optimizeBasket([corner], {});
+    expect(result.singleStore!.unavailableItems).toEqual(['eggs']);
+    expect(result.singleStore!.explanation).toContain('Out of stock: eggs');
+  });
+});
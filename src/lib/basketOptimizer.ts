@@ -0,0 +1,276 @@
+// src/lib/basketOptimizer.ts
+// Split a basket across stores for the lowest total cost, with room to trade savings for fewer stops
+
+import { GroceryStore, PriceData, StoreItemPrice } from '@/types/recipe';
+import { formatPrice } from './utils';
+
+export interface BasketOptimizerOptions {
+  maxStops?: number;
+  // 0 only counts money; 1 values each extra stop and each mile of travel
+  // at EXTRA_STOP_COST and COST_PER_MILE
+  convenienceWeight?: number;
+}
+
+export interface BasketStop {
+  store: GroceryStore;
+  items: StoreItemPrice[];
+  itemsCost: number;
+  deliveryFee: number;
+  minimumOrderShortfall: number; // extra spend needed to reach the store's minimum order
+}
+
+// An item bought somewhere other than the cheapest single store
+export interface BasketItemMove {
+  ingredientName: string;
+  fromStoreId: string;
+  toStoreId: string;
+  saving: number; // 0 when the single store is out of stock; negative when the split skips that store
+  reason: 'cheaper' | 'out_of_stock';
+}
+
+export interface BasketPlan {
+  stops: BasketStop[];
+  itemsCost: number;
+  deliveryCost: number;
+  totalCost: number; // items, delivery and any minimum order shortfall
+  totalDistance: number;
+  convenienceCost: number;
+  score: number; // totalCost plus convenienceCost; lower is better
+  unavailableItems: string[]; // out of stock at every stop
+  moves: BasketItemMove[];
+  explanation: string[];
+}
+
+export interface BasketOptimization {
+  singleStore: BasketPlan | null;
+  multiStore: BasketPlan | null; // null when no split beats a single store's coverage or maxStops is 1
+  recommended: 'single' | 'multi' | null;
+}
+
+export const EXTRA_STOP_COST = 8;
+export const COST_PER_MILE = 1;
+const MAX_STOPS_LIMIT = 4;
+
+/**
+ * Find the best single-store plan and the best plan over up to `maxStops` stores.
+ *
+ * Every combination of stores is tried; within one, each item goes to the
+ * cheapest store that has it in stock. Plans missing fewer items always win,
+ * then the lowest score. A store left under its minimum order is charged the
+ * shortfall, since that money has to be spent there anyway.
+ */
+export function optimizeBasket(priceData: PriceData[], options: BasketOptimizerOptions = {}): BasketOptimization {
+  const maxStops = Math.max(1, Math.min(Math.floor(options.maxStops ?? 2), MAX_STOPS_LIMIT, priceData.length));
+  const weight = Math.max(0, Math.min(options.convenienceWeight ?? 0.5, 1));
+
+  if (priceData.length === 0) {
+    return { singleStore: null, multiStore: null, recommended: null };
+  }
+
+  let bestSingle: BasketPlan | null = null;
+  let bestMulti: BasketPlan | null = null;
+
+  for (const combination of combinations(priceData, maxStops)) {
+    const plan = buildPlan(combination, weight);
+    if (!plan) continue;
+
+    if (plan.stops.length === 1) {
+      if (!bestSingle || isBetter(plan, bestSingle)) bestSingle = plan;
+    } else if (!bestMulti || isBetter(plan, bestMulti)) {
+      bestMulti = plan;
+    }
+  }
+
+  if (!bestSingle) {
+    return { singleStore: null, multiStore: null, recommended: null };
+  }
+
+  bestSingle.explanation = explainSingle(bestSingle);
+
+  if (bestMulti) {
+    bestMulti.moves = findMoves(bestMulti, bestSingle);
+    bestMulti.explanation = explainMulti(bestMulti, bestSingle, weight);
+  }
+
+  const multiWins = !!bestMulti && isBetter(bestMulti, bestSingle);
+  if (bestMulti && !multiWins) {
+    bestSingle.explanation.push(whySingleWins(bestMulti, bestSingle, weight));
+  }
+
+  return {
+    singleStore: bestSingle,
+    multiStore: bestMulti,
+    recommended: multiWins ? 'multi' : 'single'
+  };
+}
+
+function buildPlan(combination: PriceData[], weight: number): BasketPlan | null {
+  const itemCount = combination[0].items.length;
+  const assigned = new Map<string, StoreItemPrice[]>(combination.map(data => [data.store.id, []]));
+  const unavailableItems: string[] = [];
+
+  for (let index = 0; index < itemCount; index++) {
+    let cheapest: StoreItemPrice | null = null;
+    for (const data of combination) {
+      const item = data.items[index];
+      if (item?.inStock && (!cheapest || item.price < cheapest.price)) cheapest = item;
+    }
+
+    if (cheapest) {
+      assigned.get(cheapest.storeId)!.push(cheapest);
+    } else {
+      unavailableItems.push(combination[0].items[index].ingredient.name);
+    }
+  }
+
+  // A store that ends up with nothing is the same plan as a smaller combination
+  if (combination.length > 1 && combination.some(data => assigned.get(data.store.id)!.length === 0)) {
+    return null;
+  }
+
+  const stops: BasketStop[] = combination.map(({ store }) => {
+    const items = assigned.get(store.id)!;
+    const itemsCost = roundCents(items.reduce((sum, item) => sum + item.price, 0));
+    return {
+      store,
+      items,
+      itemsCost,
+      deliveryFee: store.deliveryFee,
+      minimumOrderShortfall: roundCents(Math.max(0, store.minimumOrder - itemsCost))
+    };
+  });
+
+  const itemsCost = roundCents(stops.reduce((sum, stop) => sum + stop.itemsCost, 0));
+  const deliveryCost = roundCents(stops.reduce((sum, stop) => sum + stop.deliveryFee, 0));
+  const shortfall = stops.reduce((sum, stop) => sum + stop.minimumOrderShortfall, 0);
+  const totalCost = roundCents(itemsCost + deliveryCost + shortfall);
+  const totalDistance = Math.round(stops.reduce((sum, stop) => sum + stop.store.distance, 0) * 10) / 10;
+  const convenienceCost = roundCents(weight * ((stops.length - 1) * EXTRA_STOP_COST + totalDistance * COST_PER_MILE));
+
+  return {
+    stops,
+    itemsCost,
+    deliveryCost,
+    totalCost,
+    totalDistance,
+    convenienceCost,
+    score: roundCents(totalCost + convenienceCost),
+    unavailableItems,
+    moves: [],
+    explanation: []
+  };
+}
+
+function isBetter(plan: BasketPlan, other: BasketPlan): boolean {
+  if (plan.unavailableItems.length !== other.unavailableItems.length) {
+    return plan.unavailableItems.length < other.unavailableItems.length;
+  }
+  return plan.score < other.score;
+}
+
+function findMoves(plan: BasketPlan, single: BasketPlan): BasketItemMove[] {
+  const singleStop = single.stops[0];
+  const moves: BasketItemMove[] = [];
+
+  for (const stop of plan.stops) {
+    if (stop.store.id === singleStop.store.id) continue;
+
+    for (const item of stop.items) {
+      const atSingle = singleStop.items.find(candidate => candidate.ingredient.name === item.ingredient.name);
+      moves.push(atSingle
+        ? {
+            ingredientName: item.ingredient.name,
+            fromStoreId: singleStop.store.id,
+            toStoreId: stop.store.id,
+            saving: roundCents(atSingle.price - item.price),
+            reason: 'cheaper'
+          }
+        : {
+            ingredientName: item.ingredient.name,
+            fromStoreId: singleStop.store.id,
+            toStoreId: stop.store.id,
+            saving: 0,
+            reason: 'out_of_stock'
+          });
+    }
+  }
+
+  return moves.sort((a, b) => b.saving - a.saving);
+}
+
+function explainSingle(plan: BasketPlan): string[] {
+  const stop = plan.stops[0];
+  const lines = [
+    `Everything at ${stop.store.name}: ${formatPrice(stop.itemsCost)} of groceries plus ${formatPrice(stop.deliveryFee)} delivery`
+  ];
+
+  if (stop.minimumOrderShortfall > 0) {
+    lines.push(`${formatPrice(stop.minimumOrderShortfall)} short of the ${formatPrice(stop.store.minimumOrder)} minimum order`);
+  }
+  if (plan.unavailableItems.length > 0) {
+    lines.push(`Out of stock: ${plan.unavailableItems.join(', ')}`);
+  }
+
+  return lines;
+}
+
+function explainMulti(plan: BasketPlan, single: BasketPlan, weight: number): string[] {
+  const storeName = (storeId: string) => plan.stops.find(stop => stop.store.id === storeId)?.store.name || storeId;
+  const singleName = single.stops[0].store.name;
+
+  const lines = plan.moves.map(move => {
+    const source = `${move.ingredientName} from ${storeName(move.toStoreId)}`;
+    if (move.reason === 'out_of_stock') return `${source}: out of stock at ${singleName}`;
+    // Negative when this split leaves out the single store and buys the item elsewhere anyway
+    return move.saving >= 0
+      ? `${source}: ${formatPrice(move.saving)} less than at ${singleName}`
+      : `${source}: ${formatPrice(-move.saving)} more than at ${singleName}`;
+  });
+
+  const itemSavings = roundCents(single.itemsCost - plan.itemsCost);
+  const extraDelivery = roundCents(plan.deliveryCost - single.deliveryCost);
+  lines.push(itemSavings >= 0
+    ? `Splitting saves ${formatPrice(itemSavings)} on groceries and adds ${formatPrice(extraDelivery)} in delivery fees`
+    : `Splitting costs ${formatPrice(-itemSavings)} more on groceries and adds ${formatPrice(extraDelivery)} in delivery fees`);
+
+  for (const stop of plan.stops) {
+    if (stop.minimumOrderShortfall > 0) {
+      lines.push(`${formatPrice(stop.minimumOrderShortfall)} short of ${stop.store.name}'s ${formatPrice(stop.store.minimumOrder)} minimum order`);
+    }
+  }
+  if (weight > 0) {
+    lines.push(`The extra ${plan.stops.length - 1 === 1 ? 'stop is' : 'stops are'} weighed at ${formatPrice(roundCents(plan.convenienceCost - single.convenienceCost))} of your time`);
+  }
+  if (plan.unavailableItems.length > 0) {
+    lines.push(`Out of stock everywhere in this plan: ${plan.unavailableItems.join(', ')}`);
+  }
+
+  return lines;
+}
+
+function whySingleWins(multi: BasketPlan, single: BasketPlan, weight: number): string {
+  const costDifference = roundCents(single.totalCost - multi.totalCost);
+  if (multi.unavailableItems.length > single.unavailableItems.length) {
+    return 'Splitting the order would leave more items out of stock';
+  }
+  if (costDifference <= 0) {
+    return 'Splitting the order would not save money once delivery fees are counted';
+  }
+  return weight > 0
+    ? `Splitting would save ${formatPrice(costDifference)}, less than the extra stop is worth at your convenience setting`
+    : `Splitting would save ${formatPrice(costDifference)}`;
+}
+
+function* combinations<T>(items: T[], maxSize: number, start = 0, current: T[] = []): Generator<T[]> {
+  for (let index = start; index < items.length; index++) {
+    const next = [...current, items[index]];
+    yield next;
+    if (next.length < maxSize) {
+      yield* combinations(items, maxSize, index + 1, next);
+    }
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { GrocerySpend, ShoppingListItem } from '@/types/recipe';
+import {
+  recipeBudgetImpact,
+  shoppingListBudgetLines,
+  spendEntryToRow,
+  summarizeWeeklyBudget,
+  validateSpendEntry,
+  weekRange,
+  weeklyBudgetFromPreferences
+} from './budget';
+
+function item(name: string, estimatedPrice: number, extra: Partial<ShoppingListItem> = {}): ShoppingListItem {
+  return { id: `item-${name}`, name, amount: 2, unit: 'lb', estimatedPrice, checked: false, isAlreadyOwned: false, ...extra };
+}
+
+function spend(amount: number, spentOn = '2026-10-18'): GrocerySpend {
+  return { id: `spend-${amount}`, amount, spentOn, createdAt: `${spentOn}T20:00:00Z` };
+}
+
+describe('weekRange', () => {
+  it.each([
+    ['2026-10-19', '2026-10-19', '2026-10-25'], // Monday
+    ['2026-10-18', '2026-10-12', '2026-10-18'], // Sunday stays in the week it ends
+    ['2026-10-22', '2026-10-19', '2026-10-25'],
+    ['2026-01-01', '2025-12-29', '2026-01-04']
+  ])('the week of %s runs %s to %s', (today, start, end) => {
+    expect(weekRange(today)).toEqual({ start, end });
+  });
+});
+
+describe('weeklyBudgetFromPreferences', () => {
+  it('takes an explicit weekly budget over the per-serving range', () => {
+    expect(weeklyBudgetFromPreferences({ weeklyBudget: 80, budgetRange: { max: 5 } })).toEqual({ amount: 80, source: 'weekly' });
+  });
+
+  it('multiplies the per-serving limit by household size and meals', () => {
+    expect(weeklyBudgetFromPreferences({ budgetRange: { max: 2 }, householdSize: 2 })).toEqual({ amount: 84, source: 'per-serving' });
+  });
+});
+
+describe('shoppingListBudgetLines', () => {
+  it('prices only the part still to buy and skips owned and checked items', () => {
+    const lines = shoppingListBudgetLines([
+      item('rice', 4, { amountToBuy: 1 }),
+      item('beans', 3, { isAlreadyOwned: true }),
+      item('bread', 3, { checked: true })
+    ]);
+    expect(lines).toEqual([{ name: 'rice', amount: 1, unit: 'lb', price: 2 }]);
+  });
+});
+
+describe('summarizeWeeklyBudget', () => {
+  it('adds spend to what is left to buy and warns when near the budget', () => {
+    const summary = summarizeWeeklyBudget({
+      preferences: { weeklyBudget: 50 },
+      shoppingList: [item('rice', 10)],
+      spendEntries: [spend(36)],
+      today: '2026-10-18'
+    });
+
+    expect(summary).toMatchObject({
+      weekStart: '2026-10-12',
+      weekEnd: '2026-10-18',
+      actualSpend: 36,
+      shoppingListCost: 10,
+      projectedTotal: 46,
+      remaining: 4,
+      status: 'near',
+      substitutions: []
+    });
+    expect(summary.warnings).toEqual(["This week's groceries come to about $46.00, leaving $4.00 of your $50.00 budget."]);
+  });
+
+  it('says when spending alone is over the budget', () => {
+    const summary = summarizeWeeklyBudget({
+      preferences: { weeklyBudget: 30 },
+      shoppingList: [],
+      spendEntries: [spend(20), spend(15)],
+      today: '2026-10-18'
+    });
+
+    expect(summary.status).toBe('over');
+    expect(summary.warnings).toEqual(["You've spent $35.00 this week, $5.00 over your $30.00 budget."]);
+  });
+});
+
+describe('recipeBudgetImpact', () => {
+  const summary = summarizeWeeklyBudget({ preferences: { weeklyBudget: 50 }, shoppingList: [], spendEntries: [spend(45)], today: '2026-10-18' });
+
+  it('reports how far a recipe would take the week over', () => {
+    expect(recipeBudgetImpact({ estimatedCost: 8 } as any, summary)).toMatchObject({
+      recipeCost: 8,
+      overBy: 3,
+      message: 'Would put this week $3.00 over your $50.00 grocery budget'
+    });
+  });
+
+  it('has nothing to say about a recipe without a cost', () => {
+    expect(recipeBudgetImpact({ servings: 2 } as any, summary)).toBeNull();
+  });
+});
+
+describe('spend entries', () => {
+  it.each([
+    [{ amount: 42.5 }, null],
+    [{ amount: 0 }, 'amount must be a positive number'],
+    [{ amount: 10, spentOn: '18/10/2026' }, 'spentOn must be a YYYY-MM-DD date'],
+    [{ amount: 10, note: 'x'.repeat(201) }, 'note must be text of at most 200 characters']
+  ])('%o -> %s', (input, expected) => {
+    expect(validateSpendEntry(input)).toBe(expected);
+  });
+
+  it("dates an entry on the client's day unless it says otherwise", () => {
+    expect(spendEntryToRow({ amount: 12.345, note: ' market ' }, 'user-1', '2026-10-18')).toMatchObject({
+      amount: 12.35,
+      spent_on: '2026-10-18',
+      note: 'market',
+      store_id: null
+    });
+    expect(spendEntryToRow({ amount: 5, spentOn: '2026-10-11' }, 'user-1', '2026-10-18').spent_on).toBe('2026-10-11');
+  });
+});
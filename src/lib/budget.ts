@@ -0,0 +1,425 @@
+// src/lib/budget.ts
+// Weekly grocery budget: planned and listed costs against actual spend, with cheaper swaps when over
+
+import {
+  BudgetImpact,
+  BudgetSubstitution,
+  DietPlanBudgetCheck,
+  GrocerySpend,
+  Recipe,
+  ShoppingListItem,
+  WeeklyBudgetSummary
+} from '@/types/recipe';
+import groceryPrices from '@/data/groceryPrices.json';
+import { createSupabaseServerClient, DatabaseGrocerySpend } from './supabase';
+import { normalizeIngredientName } from './shoppingList';
+import { fetchPantryItems } from './pantry';
+import { applyPantryToShoppingList, stapleOverridesFromPreferences } from './pantryShopping';
+import { parseIngredientLine } from './ingredientParser';
+import { estimateRealisticPrice, findPricedIngredient } from './realisticEstimator';
+import { findSubstitutions } from './substitutions';
+import { MEALS_PER_WEEK } from './mealPlanCost';
+import { formatPrice } from './utils';
+
+type SupabaseClient = ReturnType<typeof createSupabaseServerClient>;
+
+// A diet plan's shopping list: item names grouped by category, usually without amounts
+export type DietPlanShoppingList = Array<{ category: string; items: string[] }>;
+
+// Something still to buy this week and what it's expected to cost
+export interface BudgetLine {
+  name: string;
+  amount: number;
+  unit: string;
+  price: number;
+}
+
+const NEAR_BUDGET_SHARE = 0.9; // "near" from 90% of the budget
+const DIET_PLAN_SERVINGS_PER_ITEM = 3; // a week's plan uses each listed item a few times
+const MIN_SUBSTITUTION_SAVING = 0.25;
+const MAX_SUBSTITUTIONS = 5;
+const MAX_SPEND_NOTE_LENGTH = 200;
+
+const ingredientPrices: Record<string, { price: number; unit: string; serving: number }> = groceryPrices.ingredients;
+
+/**
+ * An explicit weekly budget wins. Otherwise budgetRange is the most the user
+ * wants to pay per serving, so a week is that for every meal and every person.
+ */
+export function weeklyBudgetFromPreferences(preferences: any): { amount: number; source: WeeklyBudgetSummary['budgetSource'] } {
+  const weekly = Number(preferences?.weeklyBudget);
+  if (Number.isFinite(weekly) && weekly > 0) {
+    return { amount: roundCents(weekly), source: 'weekly' };
+  }
+
+  const perServing = Number(preferences?.budgetRange?.max);
+  const householdSize = Number(preferences?.householdSize);
+  return {
+    amount: roundCents(
+      (Number.isFinite(perServing) && perServing > 0 ? perServing : 15) *
+      (Number.isFinite(householdSize) && householdSize > 0 ? householdSize : 1) *
+      MEALS_PER_WEEK
+    ),
+    source: 'per-serving'
+  };
+}
+
+// Monday to Sunday around the calendar day `today` (YYYY-MM-DD). Only the
+// client knows its own day, so this works on the date alone, not on a time
+export function weekRange(today: string): { start: string; end: string } {
+  const day = new Date(`${today}T00:00:00Z`);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  const start = new Date(day.getTime() - daysSinceMonday * 24 * 60 * 60 * 1000);
+  const end = new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000);
+  return { start: toDateString(start), end: toDateString(end) };
+}
+
+// Unchecked items that aren't already owned, priced for the part still to buy
+export function shoppingListBudgetLines(items: ShoppingListItem[]): BudgetLine[] {
+  return items
+    .filter(item => !item.checked && !item.isAlreadyOwned)
+    .map(item => {
+      const amount = item.amount ?? 1;
+      const toBuy = item.amountToBuy ?? amount;
+      const unit = item.unit || '';
+      const price = item.estimatedPrice !== undefined
+        ? (amount > 0 ? item.estimatedPrice * (toBuy / amount) : item.estimatedPrice)
+        : estimateRealisticPrice(item.name, toBuy, unit);
+      return { name: item.name, amount: toBuy, unit, price: roundCents(price) };
+    });
+}
+
+/**
+ * Diet plan items are mostly bare names ("Organic spinach"), so an item
+ * without a quantity is priced as a few servings of whatever the price table
+ * counts as one. Items already on the shopping list are left out so they
+ * aren't counted twice.
+ */
+export function dietPlanBudgetLines(shoppingList: DietPlanShoppingList, skipKeys: Set<string> = new Set()): BudgetLine[] {
+  const lines: BudgetLine[] = [];
+  const seen = new Set(skipKeys);
+
+  for (const category of shoppingList || []) {
+    for (const item of Array.isArray(category?.items) ? category.items : []) {
+      if (typeof item !== 'string' || !item.trim()) continue;
+
+      const parsed = parseIngredientLine(item);
+      const name = parsed.name || item.trim();
+      const key = normalizeIngredientName(name);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      let amount = parsed.amount;
+      let unit = parsed.unit;
+      // The parser reads a bare name as one item
+      if (!(amount > 0) || (amount === 1 && !/\d/.test(item))) {
+        const priced = findPricedIngredient(name);
+        amount = DIET_PLAN_SERVINGS_PER_ITEM * (priced ? ingredientPrices[priced].serving : 1);
+        unit = priced ? ingredientPrices[priced].unit : '';
+      }
+
+      lines.push({ name, amount, unit, price: estimateRealisticPrice(name, amount, unit) });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Best cheaper swap per line, biggest savings first, until the total saved
+ * covers `overBy`. Only substitutes the price table knows are considered, so a
+ * saving is never just the fallback price for an unknown ingredient.
+ */
+export function suggestBudgetSubstitutions(lines: BudgetLine[], overBy: number): BudgetSubstitution[] {
+  const candidates: BudgetSubstitution[] = [];
+
+  for (const line of lines) {
+    let best: BudgetSubstitution | null = null;
+
+    for (const option of findSubstitutions(line.name)) {
+      const substitute = option.replace(/\s*\(.*?\)/g, '').trim();
+      if (!substitute || substitute.includes('+') || !findPricedIngredient(substitute)) continue;
+
+      const substitutePrice = estimateRealisticPrice(substitute, line.amount, line.unit);
+      const saving = roundCents(line.price - substitutePrice);
+      if (saving >= MIN_SUBSTITUTION_SAVING && (!best || saving > best.saving)) {
+        best = {
+          ingredientName: line.name,
+          substitute,
+          currentPrice: line.price,
+          substitutePrice,
+          saving
+        };
+      }
+    }
+
+    if (best) candidates.push(best);
+  }
+
+  const picked: BudgetSubstitution[] = [];
+  let saved = 0;
+  for (const candidate of candidates.sort((a, b) => b.saving - a.saving)) {
+    if (saved >= overBy || picked.length >= MAX_SUBSTITUTIONS) break;
+    picked.push(candidate);
+    saved += candidate.saving;
+  }
+  return picked;
+}
+
+export function summarizeWeeklyBudget(input: {
+  preferences: any;
+  shoppingList: ShoppingListItem[];
+  dietPlanShoppingList?: DietPlanShoppingList | null;
+  spendEntries: GrocerySpend[];
+  today: string;
+}): WeeklyBudgetSummary {
+  const { start, end } = weekRange(input.today);
+  const { amount: budget, source } = weeklyBudgetFromPreferences(input.preferences);
+
+  const listLines = shoppingListBudgetLines(input.shoppingList);
+  const listKeys = new Set(input.shoppingList.map(item => normalizeIngredientName(item.name)));
+  const planLines = dietPlanBudgetLines(input.dietPlanShoppingList || [], listKeys);
+
+  const shoppingListCost = sumLines(listLines);
+  const plannedMealsCost = sumLines(planLines);
+  const actualSpend = roundCents(input.spendEntries.reduce((total, entry) => total + entry.amount, 0));
+  const projectedTotal = roundCents(actualSpend + shoppingListCost + plannedMealsCost);
+  const remaining = roundCents(budget - projectedTotal);
+
+  const status: WeeklyBudgetSummary['status'] = remaining < 0
+    ? 'over'
+    : projectedTotal >= budget * NEAR_BUDGET_SHARE ? 'near' : 'under';
+
+  const warnings: string[] = [];
+  if (actualSpend > budget) {
+    warnings.push(`You've spent ${formatPrice(actualSpend)} this week, ${formatPrice(actualSpend - budget)} over your ${formatPrice(budget)} budget.`);
+  } else if (status === 'over') {
+    warnings.push(
+      `This week's groceries come to about ${formatPrice(projectedTotal)}, ${formatPrice(-remaining)} over your ${formatPrice(budget)} budget` +
+      (plannedMealsCost > 0 ? `, with ${formatPrice(plannedMealsCost)} of it from your diet plan.` : '.')
+    );
+  } else if (status === 'near') {
+    warnings.push(`This week's groceries come to about ${formatPrice(projectedTotal)}, leaving ${formatPrice(remaining)} of your ${formatPrice(budget)} budget.`);
+  }
+
+  return {
+    weekStart: start,
+    weekEnd: end,
+    budget,
+    budgetSource: source,
+    plannedMealsCost,
+    shoppingListCost,
+    actualSpend,
+    projectedTotal,
+    remaining,
+    status,
+    warnings,
+    substitutions: status === 'over' ? suggestBudgetSubstitutions([...listLines, ...planLines], -remaining) : [],
+    spendEntries: input.spendEntries
+  };
+}
+
+// Null when the recipe has no cost to weigh
+export function recipeBudgetImpact(recipe: Recipe, summary: WeeklyBudgetSummary): BudgetImpact | null {
+  const recipeCost = recipe.estimatedCost ?? (recipe.costPerServing !== undefined ? recipe.costPerServing * recipe.servings : undefined);
+  if (recipeCost === undefined || !(recipeCost > 0)) return null;
+
+  const projectedTotal = roundCents(summary.projectedTotal + recipeCost);
+  const overBy = roundCents(Math.max(0, projectedTotal - summary.budget));
+
+  let message: string;
+  if (summary.remaining < 0) {
+    message = `This week is already ${formatPrice(-summary.remaining)} over your grocery budget`;
+  } else if (overBy > 0) {
+    message = `Would put this week ${formatPrice(overBy)} over your ${formatPrice(summary.budget)} grocery budget`;
+  } else {
+    message = `Leaves ${formatPrice(summary.budget - projectedTotal)} of this week's grocery budget`;
+  }
+
+  return { recipeCost: roundCents(recipeCost), projectedTotal, budget: summary.budget, overBy, message };
+}
+
+/**
+ * A plan is checked against its own per-serving range, and against the
+ * user's week when there is one to compare with. `mealsCost` is the week
+ * priced meal by meal at generation time; without it the shopping list
+ * stands in for the meals.
+ */
+export function checkDietPlanBudget(
+  shoppingList: DietPlanShoppingList,
+  budgetRange: { min: number; max: number },
+  week?: WeeklyBudgetSummary | null,
+  mealsCost?: number
+): DietPlanBudgetCheck {
+  const lines = dietPlanBudgetLines(shoppingList);
+  const estimatedWeeklyCost = mealsCost !== undefined ? roundCents(mealsCost) : sumLines(lines);
+  const costPerServing = roundCents(estimatedWeeklyCost / MEALS_PER_WEEK);
+  const planOverBy = roundCents((costPerServing - budgetRange.max) * MEALS_PER_WEEK);
+
+  const warnings: string[] = [];
+  if (planOverBy > 0) {
+    warnings.push(`This plan costs about ${formatPrice(costPerServing)} per serving, above your ${formatPrice(budgetRange.max)} limit.`);
+  }
+  if (week?.status === 'over') {
+    warnings.push(...week.warnings);
+  }
+
+  const overBy = Math.max(planOverBy, week?.status === 'over' ? -week.remaining : 0);
+
+  return {
+    estimatedWeeklyCost,
+    costPerServing,
+    budgetRange,
+    withinBudget: overBy <= 0,
+    warnings,
+    substitutions: overBy > 0 ? suggestBudgetSubstitutions(lines, overBy) : []
+  };
+}
+
+export function grocerySpendFromRow(row: DatabaseGrocerySpend): GrocerySpend {
+  return {
+    id: row.id,
+    amount: Number(row.amount),
+    spentOn: row.spent_on,
+    storeId: row.store_id || undefined,
+    note: row.note || undefined,
+    createdAt: row.created_at
+  };
+}
+
+export function validateSpendEntry(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Spend entry must be an object';
+  }
+  if (typeof input.amount !== 'number' || !Number.isFinite(input.amount) || input.amount <= 0) {
+    return 'amount must be a positive number';
+  }
+  if (input.spentOn !== undefined &&
+      (typeof input.spentOn !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.spentOn) || isNaN(Date.parse(input.spentOn)))) {
+    return 'spentOn must be a YYYY-MM-DD date';
+  }
+  if (input.storeId !== undefined && (typeof input.storeId !== 'string' || input.storeId.length > 60)) {
+    return 'storeId must be a store id';
+  }
+  if (input.note !== undefined && (typeof input.note !== 'string' || input.note.length > MAX_SPEND_NOTE_LENGTH)) {
+    return `note must be text of at most ${MAX_SPEND_NOTE_LENGTH} characters`;
+  }
+  return null;
+}
+
+// `today` is the client's date, for entries that don't say when they were spent
+export function spendEntryToRow(input: any, userId: string, today: string): Partial<DatabaseGrocerySpend> {
+  return {
+    user_id: userId,
+    amount: roundCents(input.amount),
+    spent_on: input.spentOn || today,
+    store_id: input.storeId?.trim() || null,
+    note: input.note?.trim() || null
+  };
+}
+
+export async function fetchGrocerySpend(
+  supabase: SupabaseClient,
+  userId: string,
+  range: { start: string; end: string }
+): Promise<GrocerySpend[]> {
+  const { data, error } = await supabase
+    .from('grocery_spend')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('spent_on', range.start)
+    .lte('spent_on', range.end)
+    .order('spent_on', { ascending: false });
+
+  if (error) {
+    console.error('Get grocery spend error:', error);
+    return [];
+  }
+
+  return (data || []).map(grocerySpendFromRow);
+}
+
+// Items of the active diet plan that haven't been bought yet
+export async function fetchActiveDietPlanShoppingList(supabase: SupabaseClient, userId: string): Promise<DietPlanShoppingList> {
+  const { data: plan, error } = await supabase
+    .from('diet_plans')
+    .select('id, shopping_list_categories (name, order_index, shopping_list_items (name, is_purchased))')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') { // no active plan
+      console.error('Get active diet plan for budget error:', error);
+    }
+    return [];
+  }
+
+  return ((plan?.shopping_list_categories || []) as any[])
+    .sort((a, b) => a.order_index - b.order_index)
+    .map(category => ({
+      category: category.name,
+      items: (category.shopping_list_items || [])
+        .filter((item: any) => !item.is_purchased)
+        .map((item: any) => item.name)
+    }));
+}
+
+/**
+ * This week's budget for a user, for the week around `today`: the client's
+ * date when it sent one, since the server's UTC day is already tomorrow on a
+ * Sunday evening in the Americas. Pass `dietPlanShoppingList` to see the week
+ * as it would be with a different plan, e.g. one that's just been generated.
+ */
+export async function loadWeeklyBudget(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { dietPlanShoppingList?: DietPlanShoppingList; today?: string } = {}
+): Promise<WeeklyBudgetSummary> {
+  const today = options.today || toDateString(new Date());
+
+  const { data: userData, error } = await supabase
+    .from('user_data')
+    .select('preferences, shopping_list')
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Get user data for budget error:', error);
+  }
+
+  const [pantryItems, spendEntries, dietPlanShoppingList] = await Promise.all([
+    fetchPantryItems(supabase, userId),
+    fetchGrocerySpend(supabase, userId, weekRange(today)),
+    options.dietPlanShoppingList
+      ? Promise.resolve(options.dietPlanShoppingList)
+      : fetchActiveDietPlanShoppingList(supabase, userId)
+  ]);
+
+  return summarizeWeeklyBudget({
+    preferences: userData?.preferences,
+    // What's owned is worked out again: the pantry may have changed since the list was saved
+    shoppingList: applyPantryToShoppingList(
+      Array.isArray(userData?.shopping_list) ? userData.shopping_list : [],
+      pantryItems,
+      stapleOverridesFromPreferences(userData?.preferences)
+    ),
+    dietPlanShoppingList,
+    spendEntries,
+    today
+  });
+}
+
+function sumLines(lines: BudgetLine[]): number {
+  return roundCents(lines.reduce((total, line) => total + line.price, 0));
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
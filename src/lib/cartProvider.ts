@@ -0,0 +1,99 @@
+// src/lib/cartProvider.ts
+// Retailer cart handoff behind one interface: shopping list in, cart payload or deep link out
+
+import { CartExport, CartRetailer, Ingredient } from '@/types/recipe';
+import { createSupabaseServerClient } from './supabase';
+import { mockCartProvider } from './mockCartProvider';
+import { validatePriceRequestIngredients } from './priceProvider';
+
+type SupabaseClient = ReturnType<typeof createSupabaseServerClient>;
+
+/**
+ * Turns a shopping list into a retailer cart. The mock provider matches
+ * against the local price table; retailer adapters implement the same calls
+ * against their product search and cart APIs. buildCart must account for
+ * every ingredient, either as a cart line or as unmatched with a reason.
+ */
+export interface CartProvider {
+  id: string;
+  listRetailers(): Promise<CartRetailer[]>;
+  buildCart(retailer: CartRetailer, ingredients: Ingredient[]): Promise<CartExport>;
+}
+
+const providers: Record<string, CartProvider> = {
+  [mockCartProvider.id]: mockCartProvider
+};
+
+export function registerCartProvider(provider: CartProvider): void {
+  providers[provider.id] = provider;
+}
+
+/**
+ * The provider named by CART_PROVIDER, falling back to the mock provider.
+ */
+export function getCartProvider(id: string | undefined = process.env.CART_PROVIDER): CartProvider {
+  if (id && !providers[id]) {
+    console.warn(`⚠️ Unknown cart provider "${id}", using the mock provider`);
+  }
+  return (id && providers[id]) || mockCartProvider;
+}
+
+/**
+ * Build a cart at one retailer. Returns null when the provider doesn't know the retailer.
+ */
+export async function exportCart(
+  retailerId: string,
+  ingredients: Ingredient[],
+  provider: CartProvider = getCartProvider()
+): Promise<CartExport | null> {
+  const retailer = (await provider.listRetailers()).find(candidate => candidate.id === retailerId);
+  if (!retailer) return null;
+
+  return provider.buildCart(retailer, ingredients);
+}
+
+/**
+ * Check a cart export request. Returns an error message or null.
+ */
+export function validateCartExportRequest(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Cart export request must be an object';
+  }
+  if (typeof input.retailerId !== 'string' || !input.retailerId.trim()) {
+    return 'retailerId is required';
+  }
+  return validatePriceRequestIngredients(input.ingredients);
+}
+
+/**
+ * Keep a record of the handoff, so items that never match a product can be
+ * found and fixed. `itemCount` is the list items sent: one can need several
+ * cart lines and several can share one, so lines don't count items.
+ * Failures are logged and don't stop the export.
+ */
+export async function recordCartExport(
+  supabase: SupabaseClient,
+  userId: string,
+  cartExport: CartExport,
+  itemCount: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('cart_exports')
+    .insert({
+      user_id: userId,
+      provider_id: cartExport.providerId,
+      retailer_id: cartExport.retailer.id,
+      item_count: itemCount,
+      matched_count: itemCount - cartExport.unmatched.length,
+      unmatched_items: cartExport.unmatched.map(({ ingredient, reason }) => ({
+        name: ingredient.name,
+        amount: ingredient.amount,
+        unit: ingredient.unit,
+        reason
+      }))
+    });
+
+  if (error) {
+    console.error('Record cart export error:', error);
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { NutritionInfo } from '@/types/recipe';
+import {
+  LABEL_DAILY_VALUES,
+  dailyValueAmounts,
+  getReferenceIntakes,
+  nutrientsOfConcern,
+  percentDailyValues
+} from './dailyValues';
+
+const serving: NutritionInfo = {
+  calories: 500,
+  protein: 25,
+  carbs: 55,
+  fat: 20,
+  fiber: 7,
+  sodium: 690,
+  sugar: 8,
+  saturatedFat: 4,
+  micronutrients: { iron: 4.5, vitaminC: 18 }
+};
+
+describe('getReferenceIntakes', () => {
+  it('uses the label values without an age or sex', () => {
+    expect(getReferenceIntakes(null)).toEqual({ basis: 'label', values: LABEL_DAILY_VALUES });
+    expect(getReferenceIntakes({ age: 0 }).basis).toBe('label');
+  });
+
+  it.each([
+    [{ age: 25, sex: 'female' as const }, 'iron', 18],
+    [{ age: 25, sex: 'male' as const }, 'iron', 8],
+    [{ age: 60, sex: 'female' as const }, 'calcium', 1200],
+    [{ age: 75, sex: 'male' as const }, 'vitaminD', 20],
+    [{ age: 6 }, 'sodium', 1500]
+  ])('%o -> %s %d', (profile, key, expected) => {
+    expect(getReferenceIntakes(profile).values[key as keyof typeof LABEL_DAILY_VALUES]).toBe(expected);
+  });
+
+  it('fills a missing age with an adult one and a missing sex with the higher value', () => {
+    expect(getReferenceIntakes({ sex: 'male' }).values).toMatchObject({ calories: 2400, protein: 56 });
+    expect(getReferenceIntakes({ age: 40 }).values).toMatchObject({ iron: 18, zinc: 11 });
+  });
+
+  it('scales the macros without an RDA to the calories', () => {
+    expect(getReferenceIntakes({ age: 10, sex: 'female' }).values).toMatchObject({
+      calories: 1800,
+      carbs: 248,
+      fat: 70,
+      saturatedFat: 18,
+      fiber: 25,
+      cholesterol: 300
+    });
+  });
+});
+
+describe('percentDailyValues', () => {
+  it('reports only what the serving carries, in label order', () => {
+    const entries = percentDailyValues(serving);
+
+    expect(entries.map(entry => entry.key)).toEqual([
+      'calories', 'fat', 'saturatedFat', 'sodium', 'carbs', 'fiber', 'protein', 'iron', 'vitaminC'
+    ]);
+    expect(entries.find(entry => entry.key === 'sodium')).toEqual({
+      key: 'sodium', name: 'Sodium', unit: 'mg', amount: 690, reference: 2300, percent: 30
+    });
+  });
+
+  it('measures against the personal intakes when given a profile', () => {
+    const iron = percentDailyValues(serving, { age: 30, sex: 'male' }).find(entry => entry.key === 'iron');
+    expect(iron).toMatchObject({ reference: 8, percent: 56 });
+  });
+});
+
+describe('dailyValueAmounts', () => {
+  it('drops amounts that are missing or not numbers', () => {
+    expect(dailyValueAmounts({ ...serving, cholesterol: undefined, micronutrients: { zinc: NaN, calcium: 120 } })).not.toHaveProperty('zinc');
+    expect(dailyValueAmounts({ ...serving, micronutrients: { calcium: 120 } })).toMatchObject({ calcium: 120 });
+  });
+});
+
+describe('nutrientsOfConcern', () => {
+  it('combines the nutrients for every condition without repeats', () => {
+    expect(nutrientsOfConcern(['Iron-deficiency anemia', 'Celiac disease'])).toEqual([
+      'iron', 'vitaminB12', 'folate', 'vitaminC', 'calcium', 'vitaminD'
+    ]);
+  });
+
+  it('has nothing to flag for an unknown condition', () => {
+    expect(nutrientsOfConcern(['Migraine'])).toEqual([]);
+  });
+
+  it.each([
+    ['Coronary heart disease', ['sodium', 'potassium', 'saturatedFat']],
+    ['Heartburn', []],
+    ['Postural Orthostatic Tachycardia Syndrome', []]
+  ])('%s -> %o', (condition, expected) => {
+    expect(nutrientsOfConcern([condition])).toEqual(expected);
+  });
+});
@@ -0,0 +1,185 @@
+// src/lib/dailyValues.ts
+// % Daily Value for a serving, against FDA label values or the DRIs for a person's age and sex
+
+import {
+  BiologicalSex,
+  DailyValueEntry,
+  DailyValueKey,
+  NutritionInfo,
+  ReferenceIntakeProfile,
+  ReferenceIntakes
+} from '@/types/recipe';
+import { getFoodDataset } from './nutrition';
+
+// FDA Daily Values used on US nutrition labels (2,000 calorie diet, adults and children 4+)
+export const LABEL_DAILY_VALUES: Record<DailyValueKey, number> = {
+  calories: 2000,
+  protein: 50,
+  carbs: 275,
+  fat: 78,
+  saturatedFat: 20,
+  cholesterol: 300,
+  fiber: 28,
+  sodium: 2300,
+  potassium: 4700,
+  calcium: 1300,
+  iron: 18,
+  magnesium: 420,
+  zinc: 11,
+  selenium: 55,
+  iodine: 150,
+  vitaminA: 900,
+  vitaminC: 90,
+  vitaminD: 20,
+  vitaminB12: 2.4,
+  folate: 400
+};
+
+// Upper age of each DRI life-stage group; anyone older falls in the 71+ group
+const AGE_GROUP_LIMITS = [3, 8, 13, 18, 30, 50, 70];
+
+// Adults with a known sex but no age are treated as 31-50
+const DEFAULT_ADULT_AGE = 40;
+
+/**
+ * RDA (or AI where no RDA exists) per life-stage group as [female, male]:
+ * 1-3, 4-8, 9-13, 14-18, 19-30, 31-50, 51-70, 71+. Calories are the Dietary
+ * Guidelines estimate for a moderately active person; sodium is the chronic
+ * disease risk reduction intake rather than a requirement.
+ */
+const DIETARY_REFERENCE_INTAKES: Record<Exclude<DailyValueKey, 'carbs' | 'fat' | 'saturatedFat' | 'fiber' | 'cholesterol'>, Array<[number, number]>> = {
+  calories: [[1000, 1000], [1400, 1400], [1800, 2000], [2000, 2800], [2000, 2600], [2000, 2400], [1800, 2200], [1800, 2200]],
+  protein: [[13, 13], [19, 19], [34, 34], [46, 52], [46, 56], [46, 56], [46, 56], [46, 56]],
+  sodium: [[1200, 1200], [1500, 1500], [1800, 1800], [2300, 2300], [2300, 2300], [2300, 2300], [2300, 2300], [2300, 2300]],
+  potassium: [[2000, 2000], [2300, 2300], [2300, 2500], [2300, 3000], [2600, 3400], [2600, 3400], [2600, 3400], [2600, 3400]],
+  calcium: [[700, 700], [1000, 1000], [1300, 1300], [1300, 1300], [1000, 1000], [1000, 1000], [1200, 1000], [1200, 1200]],
+  iron: [[7, 7], [10, 10], [8, 8], [15, 11], [18, 8], [18, 8], [8, 8], [8, 8]],
+  magnesium: [[80, 80], [130, 130], [240, 240], [360, 410], [310, 400], [320, 420], [320, 420], [320, 420]],
+  zinc: [[3, 3], [5, 5], [8, 8], [9, 11], [8, 11], [8, 11], [8, 11], [8, 11]],
+  selenium: [[20, 20], [30, 30], [40, 40], [55, 55], [55, 55], [55, 55], [55, 55], [55, 55]],
+  iodine: [[90, 90], [90, 90], [120, 120], [150, 150], [150, 150], [150, 150], [150, 150], [150, 150]],
+  vitaminA: [[300, 300], [400, 400], [600, 600], [700, 900], [700, 900], [700, 900], [700, 900], [700, 900]],
+  vitaminC: [[15, 15], [25, 25], [45, 45], [65, 75], [75, 90], [75, 90], [75, 90], [75, 90]],
+  vitaminD: [[15, 15], [15, 15], [15, 15], [15, 15], [15, 15], [15, 15], [15, 15], [20, 20]],
+  vitaminB12: [[0.9, 0.9], [1.2, 1.2], [1.8, 1.8], [2.4, 2.4], [2.4, 2.4], [2.4, 2.4], [2.4, 2.4], [2.4, 2.4]],
+  folate: [[150, 150], [200, 200], [300, 300], [400, 400], [400, 400], [400, 400], [400, 400], [400, 400]]
+};
+
+// Nutrients worth watching for a health condition, matched on words in the condition's name
+const CONDITION_NUTRIENTS: Array<{ pattern: RegExp; nutrients: DailyValueKey[] }> = [
+  { pattern: /anemi|anaemi/i, nutrients: ['iron', 'vitaminB12', 'folate', 'vitaminC'] },
+  { pattern: /thyroid|hashimoto|graves/i, nutrients: ['iodine', 'selenium', 'iron', 'zinc'] },
+  { pattern: /osteopor|osteopen/i, nutrients: ['calcium', 'vitaminD', 'magnesium'] },
+  { pattern: /hypertension|blood pressure|\bheart (disease|failure|attack)\b|\bcardiac\b|\bcoronary\b|\bcardiovascular\b/i, nutrients: ['sodium', 'potassium', 'saturatedFat'] },
+  { pattern: /cholesterol/i, nutrients: ['saturatedFat', 'cholesterol', 'fiber'] },
+  { pattern: /celiac|crohn/i, nutrients: ['iron', 'calcium', 'vitaminD', 'folate', 'vitaminB12'] },
+  { pattern: /kidney/i, nutrients: ['sodium', 'potassium', 'protein'] },
+  { pattern: /diabet/i, nutrients: ['carbs', 'fiber'] }
+];
+
+/**
+ * Daily reference intakes for a profile. Without an age or sex there's nothing
+ * to personalise, so the FDA label values apply; with only one of the two, the
+ * missing half is filled conservatively (adult age, and the higher of the
+ * female and male values).
+ */
+export function getReferenceIntakes(profile?: ReferenceIntakeProfile | null): ReferenceIntakes {
+  const age = profile?.age && profile.age > 0 ? profile.age : undefined;
+  const sex = profile?.sex;
+
+  if (age === undefined && !sex) {
+    return { basis: 'label', values: { ...LABEL_DAILY_VALUES } };
+  }
+
+  const group = ageGroupIndex(age ?? DEFAULT_ADULT_AGE);
+  const values = {} as Record<DailyValueKey, number>;
+
+  for (const [key, groups] of Object.entries(DIETARY_REFERENCE_INTAKES)) {
+    values[key as DailyValueKey] = pickBySex(groups[group], sex);
+  }
+
+  // Macros without an RDA follow the label's share of calories
+  const caloriesRatio = values.calories / LABEL_DAILY_VALUES.calories;
+  values.carbs = Math.round(LABEL_DAILY_VALUES.carbs * caloriesRatio);
+  values.fat = Math.round(LABEL_DAILY_VALUES.fat * caloriesRatio);
+  values.saturatedFat = Math.round(LABEL_DAILY_VALUES.saturatedFat * caloriesRatio);
+  values.fiber = Math.round(LABEL_DAILY_VALUES.fiber * caloriesRatio); // the AI is 14 g per 1,000 kcal
+  values.cholesterol = LABEL_DAILY_VALUES.cholesterol;
+
+  return { basis: 'personal', values };
+}
+
+/**
+ * % Daily Value of every nutrient the serving reports, in label order. Nutrients
+ * the recipe doesn't carry are left out rather than shown as 0%.
+ */
+export function percentDailyValues(
+  nutrition: NutritionInfo,
+  profile?: ReferenceIntakeProfile | null
+): DailyValueEntry[] {
+  const { values } = getReferenceIntakes(profile);
+  const { nutrients } = getFoodDataset();
+
+  const entries: DailyValueEntry[] = [];
+  for (const [key, amount] of Object.entries(dailyValueAmounts(nutrition))) {
+    const dailyValueKey = key as DailyValueKey;
+    const reference = values[dailyValueKey];
+    entries.push({
+      key: dailyValueKey,
+      name: nutrients[dailyValueKey]?.name || key,
+      unit: nutrients[dailyValueKey]?.unit || '',
+      amount,
+      reference,
+      percent: reference > 0 ? Math.round((amount / reference) * 100) : 0
+    });
+  }
+  return entries;
+}
+
+// The nutrients a serving reports, in label order, keyed the same way as reference intakes
+export function dailyValueAmounts(nutrition: NutritionInfo): Partial<Record<DailyValueKey, number>> {
+  const amounts: Partial<Record<DailyValueKey, number | undefined>> = {
+    calories: nutrition.calories,
+    fat: nutrition.fat,
+    saturatedFat: nutrition.saturatedFat,
+    cholesterol: nutrition.cholesterol,
+    sodium: nutrition.sodium,
+    carbs: nutrition.carbs,
+    fiber: nutrition.fiber,
+    protein: nutrition.protein,
+    ...nutrition.micronutrients
+  };
+
+  const reported: Partial<Record<DailyValueKey, number>> = {};
+  for (const [key, amount] of Object.entries(amounts)) {
+    if (typeof amount === 'number' && isFinite(amount)) {
+      reported[key as DailyValueKey] = amount;
+    }
+  }
+  return reported;
+}
+
+// Nutrients to highlight for someone with these health conditions, most relevant first
+export function nutrientsOfConcern(conditions: string[]): DailyValueKey[] {
+  const concerns: DailyValueKey[] = [];
+  for (const condition of conditions) {
+    for (const { pattern, nutrients } of CONDITION_NUTRIENTS) {
+      if (!pattern.test(condition)) continue;
+      for (const nutrient of nutrients) {
+        if (!concerns.includes(nutrient)) concerns.push(nutrient);
+      }
+    }
+  }
+  return concerns;
+}
+
+function ageGroupIndex(age: number): number {
+  const index = AGE_GROUP_LIMITS.findIndex(limit => age <= limit);
+  return index === -1 ? AGE_GROUP_LIMITS.length : index;
+}
+
+function pickBySex([female, male]: [number, number], sex?: BiologicalSex): number {
+  if (sex === 'female') return female;
+  if (sex === 'male') return male;
+  return Math.max(female, male);
+}
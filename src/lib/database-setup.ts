@@ -16,7 +16,7 @@ export async function setupDatabaseTables(): Promise<{
       .from('information_schema.tables')
       .select('table_name')
       .eq('table_schema', 'public')
-      .in('table_name', ['diet_plans', 'meal_plan_days', 'shopping_list_categories', 'shopping_list_items']);
+      .in('table_name', ['diet_plans', 'meal_plan_days', 'shopping_list_categories', 'shopping_list_items', 'pantry_items', 'cook_events', 'store_layouts', 'shared_lists', 'shared_list_members', 'shared_list_items', 'price_observations', 'grocery_spend', 'cart_exports', 'leftovers', 'food_log_entries', 'nutrient_targets']);
 
     if (checkError) {
       console.error('❌ Error checking existing tables:', checkError);
@@ -82,11 +82,178 @@ export async function setupDatabaseTables(): Promise<{
           created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       );
 
+      -- Create pantry_items table
+      CREATE TABLE IF NOT EXISTS pantry_items (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          quantity NUMERIC DEFAULT 1 CHECK (quantity >= 0),
+          unit TEXT DEFAULT 'item',
+          location TEXT NOT NULL DEFAULT 'pantry' CHECK (location IN ('fridge', 'freezer', 'pantry')),
+          purchase_date DATE,
+          expiry_date DATE,
+          notes TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      -- Create cook_events table
+      CREATE TABLE IF NOT EXISTS cook_events (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          recipe_id TEXT,
+          recipe_title TEXT NOT NULL,
+          servings INTEGER DEFAULT 1,
+          deductions JSONB DEFAULT '[]'::jsonb,
+          unmatched_ingredients JSONB DEFAULT '[]'::jsonb,
+          cooked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          undone_at TIMESTAMP WITH TIME ZONE
+      );
+
+      -- Create store_layouts table
+      CREATE TABLE IF NOT EXISTS store_layouts (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          aisle_order JSONB DEFAULT '[]'::jsonb,
+          is_default BOOLEAN DEFAULT false,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      -- Create shared_lists table
+      CREATE TABLE IF NOT EXISTS shared_lists (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          owner_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      -- Create shared_list_members table
+      CREATE TABLE IF NOT EXISTS shared_list_members (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          list_id UUID REFERENCES shared_lists(id) ON DELETE CASCADE,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE(list_id, user_id)
+      );
+
+      -- Create shared_list_items table
+      CREATE TABLE IF NOT EXISTS shared_list_items (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          list_id UUID REFERENCES shared_lists(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          amount NUMERIC,
+          unit TEXT,
+          category TEXT,
+          sources JSONB DEFAULT '[]'::jsonb,
+          estimated_price NUMERIC,
+          checked BOOLEAN DEFAULT false,
+          checked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+          checked_at TIMESTAMP WITH TIME ZONE,
+          added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+          version INTEGER NOT NULL DEFAULT 1,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      -- Create price_observations table
+      CREATE TABLE IF NOT EXISTS price_observations (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          ingredient_key TEXT NOT NULL,
+          ingredient_name TEXT NOT NULL,
+          store_id TEXT NOT NULL,
+          unit TEXT NOT NULL DEFAULT '',
+          unit_price NUMERIC NOT NULL,
+          regular_unit_price NUMERIC,
+          promotion TEXT,
+          reported_by UUID REFERENCES users(id) ON DELETE CASCADE,
+          observed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE NULLS NOT DISTINCT (ingredient_key, store_id, unit, observed_on, reported_by)
+      );
+
+      -- Create grocery_spend table
+      CREATE TABLE IF NOT EXISTS grocery_spend (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+          spent_on DATE NOT NULL DEFAULT CURRENT_DATE,
+          store_id TEXT,
+          note TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      -- Create cart_exports table
+      CREATE TABLE IF NOT EXISTS cart_exports (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          provider_id TEXT NOT NULL,
+          retailer_id TEXT NOT NULL,
+          item_count INTEGER NOT NULL DEFAULT 0,
+          matched_count INTEGER NOT NULL DEFAULT 0,
+          unmatched_items JSONB NOT NULL DEFAULT '[]',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      -- Create leftovers table
+      CREATE TABLE IF NOT EXISTS leftovers (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          cook_event_id UUID REFERENCES cook_events(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL CHECK (kind IN ('ingredient', 'portion')),
+          name TEXT NOT NULL,
+          amount DECIMAL(10,3) NOT NULL,
+          unit TEXT NOT NULL,
+          recipe_title TEXT,
+          use_by DATE NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          used_at TIMESTAMP WITH TIME ZONE
+      );
+
+      -- Create food_log_entries table
+      CREATE TABLE IF NOT EXISTS food_log_entries (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          eaten_on DATE NOT NULL DEFAULT CURRENT_DATE,
+          meal_slot TEXT NOT NULL CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+          description TEXT NOT NULL,
+          recipe_id TEXT,
+          portions DECIMAL(6,2) NOT NULL DEFAULT 1 CHECK (portions > 0),
+          nutrients JSONB NOT NULL,
+          confidence INTEGER NOT NULL DEFAULT 0,
+          unmatched TEXT[] DEFAULT '{}',
+          glycemic_load DECIMAL(6,1),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      -- Create nutrient_targets table
+      CREATE TABLE IF NOT EXISTS nutrient_targets (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+          targets JSONB NOT NULL,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
       -- Enable Row Level Security on all tables
       ALTER TABLE diet_plans ENABLE ROW LEVEL SECURITY;
       ALTER TABLE meal_plan_days ENABLE ROW LEVEL SECURITY;
       ALTER TABLE shopping_list_categories ENABLE ROW LEVEL SECURITY;
       ALTER TABLE shopping_list_items ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE cook_events ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE store_layouts ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE shared_lists ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE shared_list_members ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE shared_list_items ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE price_observations ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE grocery_spend ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE cart_exports ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE leftovers ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE food_log_entries ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE nutrient_targets ENABLE ROW LEVEL SECURITY;
 
       -- Create indexes
       CREATE INDEX IF NOT EXISTS idx_diet_plans_user_id ON diet_plans(user_id);
@@ -95,6 +262,32 @@ export async function setupDatabaseTables(): Promise<{
       CREATE INDEX IF NOT EXISTS idx_meal_plan_days_diet_plan_id ON meal_plan_days(diet_plan_id);
       CREATE INDEX IF NOT EXISTS idx_shopping_categories_diet_plan_id ON shopping_list_categories(diet_plan_id);
       CREATE INDEX IF NOT EXISTS idx_shopping_items_category_id ON shopping_list_items(category_id);
+      CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);
+      CREATE INDEX IF NOT EXISTS idx_pantry_items_expiry_date ON pantry_items(expiry_date);
+      CREATE INDEX IF NOT EXISTS idx_cook_events_user_id ON cook_events(user_id);
+      CREATE INDEX IF NOT EXISTS idx_store_layouts_user_id ON store_layouts(user_id);
+      CREATE INDEX IF NOT EXISTS idx_shared_lists_owner_id ON shared_lists(owner_id);
+      CREATE INDEX IF NOT EXISTS idx_shared_list_members_list_id ON shared_list_members(list_id);
+      CREATE INDEX IF NOT EXISTS idx_shared_list_members_user_id ON shared_list_members(user_id);
+      CREATE INDEX IF NOT EXISTS idx_shared_list_items_list_id ON shared_list_items(list_id);
+      CREATE INDEX IF NOT EXISTS idx_price_observations_ingredient ON price_observations(ingredient_key, observed_on);
+      CREATE INDEX IF NOT EXISTS idx_price_observations_reported_by ON price_observations(reported_by);
+      CREATE INDEX IF NOT EXISTS idx_grocery_spend_user_spent_on ON grocery_spend(user_id, spent_on);
+      CREATE INDEX IF NOT EXISTS idx_cart_exports_user_created ON cart_exports(user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_leftovers_user_use_by ON leftovers(user_id, use_by);
+      CREATE INDEX IF NOT EXISTS idx_leftovers_cook_event ON leftovers(cook_event_id);
+      CREATE INDEX IF NOT EXISTS idx_food_log_entries_user_eaten_on ON food_log_entries(user_id, eaten_on);
+
+      -- Change a pantry quantity in place, so concurrent cook events and undos don't overwrite each other
+      CREATE OR REPLACE FUNCTION adjust_pantry_quantity(p_item_id UUID, p_user_id UUID, p_change NUMERIC)
+      RETURNS NUMERIC
+      LANGUAGE sql
+      AS $$
+          UPDATE pantry_items
+          SET quantity = GREATEST(0, quantity + p_change), updated_at = NOW()
+          WHERE id = p_item_id AND user_id = p_user_id
+          RETURNING quantity;
+      $$;
     `;
 
     console.log('📝 Executing table creation SQL...');
@@ -118,7 +311,7 @@ export async function setupDatabaseTables(): Promise<{
       .from('information_schema.tables')
       .select('table_name')
       .eq('table_schema', 'public')
-      .in('table_name', ['diet_plans', 'meal_plan_days', 'shopping_list_categories', 'shopping_list_items']);
+      .in('table_name', ['diet_plans', 'meal_plan_days', 'shopping_list_categories', 'shopping_list_items', 'pantry_items', 'cook_events', 'store_layouts', 'shared_lists', 'shared_list_members', 'shared_list_items', 'price_observations', 'grocery_spend', 'cart_exports', 'leftovers', 'food_log_entries', 'nutrient_targets']);
 
     if (finalCheckError) {
       console.warn('⚠️ Could not verify table creation:', finalCheckError);
@@ -274,6 +467,177 @@ async function createRLSPolicies(): Promise<void> {
                 AND diet_plans.user_id = auth.uid()::text
             )
         );
+
+    -- RLS policies for pantry_items
+    CREATE POLICY IF NOT EXISTS "Users can view their own pantry items" ON public.pantry_items
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own pantry items" ON public.pantry_items
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own pantry items" ON public.pantry_items
+        FOR UPDATE USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can delete their own pantry items" ON public.pantry_items
+        FOR DELETE USING (auth.uid() = user_id);
+
+    -- RLS policies for cook_events
+    CREATE POLICY IF NOT EXISTS "Users can view their own cook events" ON public.cook_events
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own cook events" ON public.cook_events
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own cook events" ON public.cook_events
+        FOR UPDATE USING (auth.uid() = user_id);
+
+    -- RLS policies for store_layouts
+    CREATE POLICY IF NOT EXISTS "Users can view their own store layouts" ON public.store_layouts
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own store layouts" ON public.store_layouts
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own store layouts" ON public.store_layouts
+        FOR UPDATE USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can delete their own store layouts" ON public.store_layouts
+        FOR DELETE USING (auth.uid() = user_id);
+
+    -- RLS policies for shared_lists
+    CREATE POLICY IF NOT EXISTS "Members can view their shared lists" ON public.shared_lists
+        FOR SELECT USING (
+            auth.uid() = owner_id OR EXISTS (
+                SELECT 1 FROM public.shared_list_members 
+                WHERE shared_list_members.list_id = shared_lists.id 
+                AND shared_list_members.user_id = auth.uid()
+            )
+        );
+
+    CREATE POLICY IF NOT EXISTS "Users can create their own shared lists" ON public.shared_lists
+        FOR INSERT WITH CHECK (auth.uid() = owner_id);
+
+    CREATE POLICY IF NOT EXISTS "Owners can update their shared lists" ON public.shared_lists
+        FOR UPDATE USING (auth.uid() = owner_id);
+
+    CREATE POLICY IF NOT EXISTS "Owners can delete their shared lists" ON public.shared_lists
+        FOR DELETE USING (auth.uid() = owner_id);
+
+    -- RLS policies for shared_list_members
+    CREATE POLICY IF NOT EXISTS "Users can view their own list memberships" ON public.shared_list_members
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can leave shared lists" ON public.shared_list_members
+        FOR DELETE USING (auth.uid() = user_id);
+
+    -- RLS policies for shared_list_items
+    CREATE POLICY IF NOT EXISTS "Members can view shared list items" ON public.shared_list_items
+        FOR SELECT USING (
+            EXISTS (
+                SELECT 1 FROM public.shared_list_members 
+                WHERE shared_list_members.list_id = shared_list_items.list_id 
+                AND shared_list_members.user_id = auth.uid()
+            )
+        );
+
+    CREATE POLICY IF NOT EXISTS "Editors can add shared list items" ON public.shared_list_items
+        FOR INSERT WITH CHECK (
+            EXISTS (
+                SELECT 1 FROM public.shared_list_members 
+                WHERE shared_list_members.list_id = shared_list_items.list_id 
+                AND shared_list_members.user_id = auth.uid()
+                AND shared_list_members.role IN ('owner', 'editor')
+            )
+        );
+
+    CREATE POLICY IF NOT EXISTS "Editors can update shared list items" ON public.shared_list_items
+        FOR UPDATE USING (
+            EXISTS (
+                SELECT 1 FROM public.shared_list_members 
+                WHERE shared_list_members.list_id = shared_list_items.list_id 
+                AND shared_list_members.user_id = auth.uid()
+                AND shared_list_members.role IN ('owner', 'editor')
+            )
+        );
+
+    CREATE POLICY IF NOT EXISTS "Editors can delete shared list items" ON public.shared_list_items
+        FOR DELETE USING (
+            EXISTS (
+                SELECT 1 FROM public.shared_list_members 
+                WHERE shared_list_members.list_id = shared_list_items.list_id 
+                AND shared_list_members.user_id = auth.uid()
+                AND shared_list_members.role IN ('owner', 'editor')
+            )
+        );
+
+    -- RLS policies for price_observations
+    CREATE POLICY IF NOT EXISTS "Anyone can view price observations" ON public.price_observations
+        FOR SELECT USING (true);
+
+    CREATE POLICY IF NOT EXISTS "Users can report prices" ON public.price_observations
+        FOR INSERT WITH CHECK (auth.uid() = reported_by);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own price reports" ON public.price_observations
+        FOR UPDATE USING (auth.uid() = reported_by);
+
+    -- RLS policies for grocery_spend
+    CREATE POLICY IF NOT EXISTS "Users can view their own grocery spend" ON public.grocery_spend
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own grocery spend" ON public.grocery_spend
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own grocery spend" ON public.grocery_spend
+        FOR UPDATE USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can delete their own grocery spend" ON public.grocery_spend
+        FOR DELETE USING (auth.uid() = user_id);
+
+    -- RLS policies for cart_exports
+    CREATE POLICY IF NOT EXISTS "Users can view their own cart exports" ON public.cart_exports
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own cart exports" ON public.cart_exports
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    -- RLS policies for leftovers
+    CREATE POLICY IF NOT EXISTS "Users can view their own leftovers" ON public.leftovers
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own leftovers" ON public.leftovers
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own leftovers" ON public.leftovers
+        FOR UPDATE USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can delete their own leftovers" ON public.leftovers
+        FOR DELETE USING (auth.uid() = user_id);
+
+    -- RLS policies for food_log_entries
+    CREATE POLICY IF NOT EXISTS "Users can view their own food log entries" ON public.food_log_entries
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own food log entries" ON public.food_log_entries
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own food log entries" ON public.food_log_entries
+        FOR UPDATE USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can delete their own food log entries" ON public.food_log_entries
+        FOR DELETE USING (auth.uid() = user_id);
+
+    -- RLS policies for nutrient_targets
+    CREATE POLICY IF NOT EXISTS "Users can view their own nutrient targets" ON public.nutrient_targets
+        FOR SELECT USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can insert their own nutrient targets" ON public.nutrient_targets
+        FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can update their own nutrient targets" ON public.nutrient_targets
+        FOR UPDATE USING (auth.uid() = user_id);
+
+    CREATE POLICY IF NOT EXISTS "Users can delete their own nutrient targets" ON public.nutrient_targets
+        FOR DELETE USING (auth.uid() = user_id);
   `;
 
   const { error: rlsError } = await supabase.rpc('exec_sql', { sql: rlsPoliciesSQL });
@@ -390,6 +754,300 @@ async function createTablesIndividually(): Promise<{
     }
     console.log('✅ shopping_list_items table created with RLS enabled');
 
+    // Create pantry_items table
+    const pantryItemsSQL = `
+      CREATE TABLE IF NOT EXISTS pantry_items (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          quantity NUMERIC DEFAULT 1 CHECK (quantity >= 0),
+          unit TEXT DEFAULT 'item',
+          location TEXT NOT NULL DEFAULT 'pantry' CHECK (location IN ('fridge', 'freezer', 'pantry')),
+          purchase_date DATE,
+          expiry_date DATE,
+          notes TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: pantryItemsError } = await supabase.rpc('exec_sql', { sql: pantryItemsSQL });
+    if (pantryItemsError) {
+      console.error('❌ Error creating pantry_items table:', pantryItemsError);
+      throw pantryItemsError;
+    }
+    console.log('✅ pantry_items table created with RLS enabled');
+
+    // Create cook_events table
+    const cookEventsSQL = `
+      CREATE TABLE IF NOT EXISTS cook_events (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          recipe_id TEXT,
+          recipe_title TEXT NOT NULL,
+          servings INTEGER DEFAULT 1,
+          deductions JSONB DEFAULT '[]'::jsonb,
+          unmatched_ingredients JSONB DEFAULT '[]'::jsonb,
+          cooked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          undone_at TIMESTAMP WITH TIME ZONE
+      );
+      ALTER TABLE cook_events ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: cookEventsError } = await supabase.rpc('exec_sql', { sql: cookEventsSQL });
+    if (cookEventsError) {
+      console.error('❌ Error creating cook_events table:', cookEventsError);
+      throw cookEventsError;
+    }
+    console.log('✅ cook_events table created with RLS enabled');
+
+    // Create the function cook events use to change pantry quantities in place
+    const adjustPantryQuantitySQL = `
+      CREATE OR REPLACE FUNCTION adjust_pantry_quantity(p_item_id UUID, p_user_id UUID, p_change NUMERIC)
+      RETURNS NUMERIC
+      LANGUAGE sql
+      AS $$
+          UPDATE pantry_items
+          SET quantity = GREATEST(0, quantity + p_change), updated_at = NOW()
+          WHERE id = p_item_id AND user_id = p_user_id
+          RETURNING quantity;
+      $$;
+    `;
+
+    const { error: adjustPantryQuantityError } = await supabase.rpc('exec_sql', { sql: adjustPantryQuantitySQL });
+    if (adjustPantryQuantityError) {
+      console.error('❌ Error creating adjust_pantry_quantity function:', adjustPantryQuantityError);
+      throw adjustPantryQuantityError;
+    }
+    console.log('✅ adjust_pantry_quantity function created');
+
+    // Create store_layouts table
+    const storeLayoutsSQL = `
+      CREATE TABLE IF NOT EXISTS store_layouts (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          aisle_order JSONB DEFAULT '[]'::jsonb,
+          is_default BOOLEAN DEFAULT false,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE store_layouts ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: storeLayoutsError } = await supabase.rpc('exec_sql', { sql: storeLayoutsSQL });
+    if (storeLayoutsError) {
+      console.error('❌ Error creating store_layouts table:', storeLayoutsError);
+      throw storeLayoutsError;
+    }
+    console.log('✅ store_layouts table created with RLS enabled');
+
+    // Create shared_lists table
+    const sharedListsSQL = `
+      CREATE TABLE IF NOT EXISTS shared_lists (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          owner_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE shared_lists ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: sharedListsError } = await supabase.rpc('exec_sql', { sql: sharedListsSQL });
+    if (sharedListsError) {
+      console.error('❌ Error creating shared_lists table:', sharedListsError);
+      throw sharedListsError;
+    }
+    console.log('✅ shared_lists table created with RLS enabled');
+
+    // Create shared_list_members table
+    const sharedListMembersSQL = `
+      CREATE TABLE IF NOT EXISTS shared_list_members (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          list_id UUID REFERENCES shared_lists(id) ON DELETE CASCADE,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE(list_id, user_id)
+      );
+      ALTER TABLE shared_list_members ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: sharedListMembersError } = await supabase.rpc('exec_sql', { sql: sharedListMembersSQL });
+    if (sharedListMembersError) {
+      console.error('❌ Error creating shared_list_members table:', sharedListMembersError);
+      throw sharedListMembersError;
+    }
+    console.log('✅ shared_list_members table created with RLS enabled');
+
+    // Create shared_list_items table
+    const sharedListItemsSQL = `
+      CREATE TABLE IF NOT EXISTS shared_list_items (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          list_id UUID REFERENCES shared_lists(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          amount NUMERIC,
+          unit TEXT,
+          category TEXT,
+          sources JSONB DEFAULT '[]'::jsonb,
+          estimated_price NUMERIC,
+          checked BOOLEAN DEFAULT false,
+          checked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+          checked_at TIMESTAMP WITH TIME ZONE,
+          added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+          version INTEGER NOT NULL DEFAULT 1,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE shared_list_items ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: sharedListItemsError } = await supabase.rpc('exec_sql', { sql: sharedListItemsSQL });
+    if (sharedListItemsError) {
+      console.error('❌ Error creating shared_list_items table:', sharedListItemsError);
+      throw sharedListItemsError;
+    }
+    console.log('✅ shared_list_items table created with RLS enabled');
+
+    // Create price_observations table
+    const priceObservationsSQL = `
+      CREATE TABLE IF NOT EXISTS price_observations (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          ingredient_key TEXT NOT NULL,
+          ingredient_name TEXT NOT NULL,
+          store_id TEXT NOT NULL,
+          unit TEXT NOT NULL DEFAULT '',
+          unit_price NUMERIC NOT NULL,
+          regular_unit_price NUMERIC,
+          promotion TEXT,
+          reported_by UUID REFERENCES users(id) ON DELETE CASCADE,
+          observed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE NULLS NOT DISTINCT (ingredient_key, store_id, unit, observed_on, reported_by)
+      );
+      ALTER TABLE price_observations ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: priceObservationsError } = await supabase.rpc('exec_sql', { sql: priceObservationsSQL });
+    if (priceObservationsError) {
+      console.error('❌ Error creating price_observations table:', priceObservationsError);
+      throw priceObservationsError;
+    }
+    console.log('✅ price_observations table created with RLS enabled');
+
+    // Create grocery_spend table
+    const grocerySpendSQL = `
+      CREATE TABLE IF NOT EXISTS grocery_spend (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+          spent_on DATE NOT NULL DEFAULT CURRENT_DATE,
+          store_id TEXT,
+          note TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE grocery_spend ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: grocerySpendError } = await supabase.rpc('exec_sql', { sql: grocerySpendSQL });
+    if (grocerySpendError) {
+      console.error('❌ Error creating grocery_spend table:', grocerySpendError);
+      throw grocerySpendError;
+    }
+    console.log('✅ grocery_spend table created with RLS enabled');
+
+    // Create cart_exports table
+    const cartExportsSQL = `
+      CREATE TABLE IF NOT EXISTS cart_exports (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          provider_id TEXT NOT NULL,
+          retailer_id TEXT NOT NULL,
+          item_count INTEGER NOT NULL DEFAULT 0,
+          matched_count INTEGER NOT NULL DEFAULT 0,
+          unmatched_items JSONB NOT NULL DEFAULT '[]',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE cart_exports ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: cartExportsError } = await supabase.rpc('exec_sql', { sql: cartExportsSQL });
+    if (cartExportsError) {
+      console.error('❌ Error creating cart_exports table:', cartExportsError);
+      throw cartExportsError;
+    }
+    console.log('✅ cart_exports table created with RLS enabled');
+
+    // Create leftovers table
+    const leftoversSQL = `
+      CREATE TABLE IF NOT EXISTS leftovers (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          cook_event_id UUID REFERENCES cook_events(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL CHECK (kind IN ('ingredient', 'portion')),
+          name TEXT NOT NULL,
+          amount DECIMAL(10,3) NOT NULL,
+          unit TEXT NOT NULL,
+          recipe_title TEXT,
+          use_by DATE NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          used_at TIMESTAMP WITH TIME ZONE
+      );
+      ALTER TABLE leftovers ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: leftoversError } = await supabase.rpc('exec_sql', { sql: leftoversSQL });
+    if (leftoversError) {
+      console.error('❌ Error creating leftovers table:', leftoversError);
+      throw leftoversError;
+    }
+    console.log('✅ leftovers table created with RLS enabled');
+
+    // Create food_log_entries table
+    const foodLogEntriesSQL = `
+      CREATE TABLE IF NOT EXISTS food_log_entries (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          eaten_on DATE NOT NULL DEFAULT CURRENT_DATE,
+          meal_slot TEXT NOT NULL CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+          description TEXT NOT NULL,
+          recipe_id TEXT,
+          portions DECIMAL(6,2) NOT NULL DEFAULT 1 CHECK (portions > 0),
+          nutrients JSONB NOT NULL,
+          confidence INTEGER NOT NULL DEFAULT 0,
+          unmatched TEXT[] DEFAULT '{}',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE food_log_entries ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: foodLogEntriesError } = await supabase.rpc('exec_sql', { sql: foodLogEntriesSQL });
+    if (foodLogEntriesError) {
+      console.error('❌ Error creating food_log_entries table:', foodLogEntriesError);
+      throw foodLogEntriesError;
+    }
+    console.log('✅ food_log_entries table created with RLS enabled');
+
+    // Create nutrient_targets table
+    const nutrientTargetsSQL = `
+      CREATE TABLE IF NOT EXISTS nutrient_targets (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          user_id UUID UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+          targets JSONB NOT NULL,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE nutrient_targets ENABLE ROW LEVEL SECURITY;
+    `;
+
+    const { error: nutrientTargetsError } = await supabase.rpc('exec_sql', { sql: nutrientTargetsSQL });
+    if (nutrientTargetsError) {
+      console.error('❌ Error creating nutrient_targets table:', nutrientTargetsError);
+      throw nutrientTargetsError;
+    }
+    console.log('✅ nutrient_targets table created with RLS enabled');
+
     // Create indexes
     const indexesSQL = [
       'CREATE INDEX IF NOT EXISTS idx_diet_plans_user_id ON diet_plans(user_id);',
@@ -397,7 +1055,22 @@ async function createTablesIndividually(): Promise<{
       'CREATE INDEX IF NOT EXISTS idx_diet_plans_created_at ON diet_plans(created_at);',
       'CREATE INDEX IF NOT EXISTS idx_meal_plan_days_diet_plan_id ON meal_plan_days(diet_plan_id);',
       'CREATE INDEX IF NOT EXISTS idx_shopping_categories_diet_plan_id ON shopping_list_categories(diet_plan_id);',
-      'CREATE INDEX IF NOT EXISTS idx_shopping_items_category_id ON shopping_list_items(category_id);'
+      'CREATE INDEX IF NOT EXISTS idx_shopping_items_category_id ON shopping_list_items(category_id);',
+      'CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);',
+      'CREATE INDEX IF NOT EXISTS idx_pantry_items_expiry_date ON pantry_items(expiry_date);',
+      'CREATE INDEX IF NOT EXISTS idx_cook_events_user_id ON cook_events(user_id);',
+      'CREATE INDEX IF NOT EXISTS idx_store_layouts_user_id ON store_layouts(user_id);',
+      'CREATE INDEX IF NOT EXISTS idx_shared_lists_owner_id ON shared_lists(owner_id);',
+      'CREATE INDEX IF NOT EXISTS idx_shared_list_members_list_id ON shared_list_members(list_id);',
+      'CREATE INDEX IF NOT EXISTS idx_shared_list_members_user_id ON shared_list_members(user_id);',
+      'CREATE INDEX IF NOT EXISTS idx_shared_list_items_list_id ON shared_list_items(list_id);',
+      'CREATE INDEX IF NOT EXISTS idx_price_observations_ingredient ON price_observations(ingredient_key, observed_on);',
+      'CREATE INDEX IF NOT EXISTS idx_price_observations_reported_by ON price_observations(reported_by);',
+      'CREATE INDEX IF NOT EXISTS idx_grocery_spend_user_spent_on ON grocery_spend(user_id, spent_on);',
+      'CREATE INDEX IF NOT EXISTS idx_cart_exports_user_created ON cart_exports(user_id, created_at);',
+      'CREATE INDEX IF NOT EXISTS idx_leftovers_user_use_by ON leftovers(user_id, use_by);',
+      'CREATE INDEX IF NOT EXISTS idx_leftovers_cook_event ON leftovers(cook_event_id);',
+      'CREATE INDEX IF NOT EXISTS idx_food_log_entries_user_eaten_on ON food_log_entries(user_id, eaten_on);'
     ];
 
     for (const indexSQL of indexesSQL) {
@@ -456,6 +1129,18 @@ export async function enableRLSOnExistingTables(): Promise<{
       ALTER TABLE public.meal_plan_days ENABLE ROW LEVEL SECURITY;
       ALTER TABLE public.shopping_list_categories ENABLE ROW LEVEL SECURITY;
       ALTER TABLE public.shopping_list_items ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.pantry_items ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.cook_events ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.store_layouts ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.shared_lists ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.shared_list_members ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.shared_list_items ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.price_observations ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.grocery_spend ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.cart_exports ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.leftovers ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.food_log_entries ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE public.nutrient_targets ENABLE ROW LEVEL SECURITY;
       ALTER TABLE public.recipes ENABLE ROW LEVEL SECURITY;
       ALTER TABLE public.favorites ENABLE ROW LEVEL SECURITY;
       ALTER TABLE public.password_reset_tokens ENABLE ROW LEVEL SECURITY;
@@ -489,6 +1174,18 @@ export async function dropAllTables(): Promise<{
 }> {
   try {
     const dropSQL = `
+      DROP TABLE IF EXISTS nutrient_targets CASCADE;
+      DROP TABLE IF EXISTS food_log_entries CASCADE;
+      DROP TABLE IF EXISTS leftovers CASCADE;
+      DROP TABLE IF EXISTS cart_exports CASCADE;
+      DROP TABLE IF EXISTS grocery_spend CASCADE;
+      DROP TABLE IF EXISTS price_observations CASCADE;
+      DROP TABLE IF EXISTS shared_list_items CASCADE;
+      DROP TABLE IF EXISTS shared_list_members CASCADE;
+      DROP TABLE IF EXISTS shared_lists CASCADE;
+      DROP TABLE IF EXISTS store_layouts CASCADE;
+      DROP TABLE IF EXISTS cook_events CASCADE;
+      DROP TABLE IF EXISTS pantry_items CASCADE;
       DROP TABLE IF EXISTS shopping_list_items CASCADE;
       DROP TABLE IF EXISTS shopping_list_categories CASCADE;
       DROP TABLE IF EXISTS meal_plan_days CASCADE;
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { FoodLogEntry, NutrientProfile } from '@/types/recipe';
+import {
+  foodLogEntryFromRow,
+  foodLogEntryToRow,
+  isDateString,
+  parseFoodText,
+  summarizeDay,
+  summarizeWeek,
+  validateFoodLogEntry
+} from './foodLog';
+import { emptyProfile } from './nutrition';
+
+function entry(eatenOn: string, mealSlot: FoodLogEntry['mealSlot'], nutrients: Partial<NutrientProfile>, extra: Partial<FoodLogEntry> = {}): FoodLogEntry {
+  return {
+    id: `${eatenOn}-${mealSlot}`,
+    eatenOn,
+    mealSlot,
+    description: mealSlot,
+    portions: 1,
+    nutrients: { ...emptyProfile(), ...nutrients },
+    confidence: 100,
+    unmatched: [],
+    createdAt: `${eatenOn}T12:00:00Z`,
+    ...extra
+  };
+}
+
+const recipe = {
+  title: 'Scrambled eggs',
+  servings: 2,
+  ingredients: [{ name: 'eggs', amount: 4, unit: '' }]
+};
+
+describe('validateFoodLogEntry', () => {
+  it.each([
+    [{ mealSlot: 'lunch', food: '2 eggs' }, null],
+    [{ mealSlot: 'dinner', recipe, portions: 1.5, eatenOn: '2026-10-19' }, null],
+    [{ mealSlot: 'brunch', food: '2 eggs' }, 'mealSlot must be one of breakfast, lunch, dinner, snack'],
+    [{ mealSlot: 'lunch', food: '2 eggs', eatenOn: '19/10/2026' }, 'eatenOn must be a YYYY-MM-DD date'],
+    [{ mealSlot: 'lunch', food: '2 eggs', portions: 0 }, 'portions must be a positive number no more than 20'],
+    [{ mealSlot: 'lunch', food: '2 eggs', recipe }, 'Log either a recipe or free-text food'],
+    [{ mealSlot: 'lunch' }, 'Log either a recipe or free-text food'],
+    [{ mealSlot: 'lunch', recipe: { ...recipe, ingredients: [] } }, 'recipe.ingredients must be a non-empty array'],
+    [{ mealSlot: 'lunch', food: 'x'.repeat(301) }, 'food must be text of at most 300 characters']
+  ])('%o -> %s', (input, expected) => {
+    expect(validateFoodLogEntry(input)).toBe(expected);
+  });
+});
+
+describe('parseFoodText', () => {
+  it('reads one food per line, comma or semicolon', () => {
+    expect(parseFoodText('2 eggs, 1 cup milk;\nbanana')).toMatchObject([
+      { name: 'eggs', amount: 2 },
+      { name: 'milk', amount: 1, unit: 'cup' },
+      { name: 'banana' }
+    ]);
+  });
+});
+
+describe('foodLogEntryToRow', () => {
+  it('stores the eaten portions of a recipe, not the whole dish', () => {
+    const whole = foodLogEntryToRow({ mealSlot: 'breakfast', eatenOn: '2026-10-19', portions: 2, recipe }, 'user-1');
+    const half = foodLogEntryToRow({ mealSlot: 'breakfast', eatenOn: '2026-10-19', portions: 1, recipe }, 'user-1');
+
+    expect(whole).toMatchObject({ user_id: 'user-1', eaten_on: '2026-10-19', description: 'Scrambled eggs', portions: 2 });
+    expect(half.nutrients.calories).toBeCloseTo(whole.nutrients.calories / 2, 0);
+  });
+
+  it('keeps what free text it could not match', () => {
+    const row = foodLogEntryToRow({ mealSlot: 'snack', eatenOn: '2026-10-19', food: '1 banana, 1 dragon fruit powder' }, 'user-1');
+
+    expect(row.unmatched).toEqual(['dragon fruit powder']);
+    expect(row.confidence).toBeLessThan(100);
+    expect(row.recipe_id).toBeNull();
+  });
+});
+
+describe('foodLogEntryFromRow', () => {
+  it('fills in nutrients an older row is missing', () => {
+    const parsed = foodLogEntryFromRow({
+      id: 'log-1',
+      user_id: 'user-1',
+      eaten_on: '2026-10-19',
+      meal_slot: 'lunch',
+      description: 'Soup',
+      recipe_id: null,
+      portions: '1.5' as any,
+      nutrients: { calories: 300 } as NutrientProfile,
+      confidence: 80,
+      unmatched: null as any,
+      glycemic_load: null,
+      created_at: '2026-10-19T12:00:00Z'
+    });
+
+    expect(parsed).toMatchObject({ portions: 1.5, unmatched: [], glycemicLoad: undefined });
+    expect(parsed.nutrients).toMatchObject({ calories: 300, folate: 0 });
+  });
+});
+
+describe('summarizeDay', () => {
+  const entries = [
+    entry('2026-10-19', 'breakfast', { calories: 400, sodium: 500 }, { unmatched: ['chia'] }),
+    entry('2026-10-19', 'lunch', { calories: 600, sodium: 650 }, { confidence: 50, unmatched: ['chia'] }),
+    entry('2026-10-18', 'dinner', { calories: 900 })
+  ];
+
+  it('adds up the day by meal and overall', () => {
+    const summary = summarizeDay('2026-10-19', entries);
+
+    expect(summary).toMatchObject({ entryCount: 2, totals: { calories: 1000, sodium: 1150 }, unmatched: ['chia'] });
+    expect(summary.byMealSlot.lunch.calories).toBe(600);
+    expect(summary.byMealSlot.dinner.calories).toBe(0);
+    expect(summary.dailyValues.find(value => value.key === 'sodium')).toMatchObject({ percent: 50 });
+  });
+
+  it('weights confidence by calories', () => {
+    expect(summarizeDay('2026-10-19', entries).confidence).toBe(70);
+  });
+
+  it('has no daily values for a day with nothing logged', () => {
+    expect(summarizeDay('2026-10-20', entries)).toMatchObject({ entryCount: 0, dailyValues: [], confidence: 0 });
+  });
+});
+
+describe('summarizeWeek', () => {
+  it('averages over the days that have anything logged', () => {
+    const summary = summarizeWeek({ start: '2026-10-19', end: '2026-10-25' }, [
+      entry('2026-10-19', 'dinner', { calories: 1800 }),
+      entry('2026-10-21', 'dinner', { calories: 2200 }),
+      entry('2026-10-26', 'dinner', { calories: 5000 })
+    ]);
+
+    expect(summary.days.map(day => day.date)).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-24', '2026-10-25'
+    ]);
+    expect(summary).toMatchObject({ daysLogged: 2, averageDaily: { calories: 2000 } });
+  });
+});
+
+describe('isDateString', () => {
+  it.each([
+    ['2026-10-19', true],
+    ['2026-13-01', false],
+    ['2026-10-19T00:00:00Z', false],
+    [20261019, false]
+  ])('%s -> %s', (value, expected) => {
+    expect(isDateString(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,263 @@
+// src/lib/foodLog.ts
+// What a user ate: nutrients for each logged meal, and daily and weekly intake summaries
+
+import {
+  DailyIntakeSummary,
+  FoodLogEntry,
+  FoodLogMealSlot,
+  Ingredient,
+  NutrientProfile,
+  ReferenceIntakeProfile,
+  WeeklyIntakeSummary
+} from '@/types/recipe';
+import { createSupabaseServerClient, DatabaseFoodLogEntry } from './supabase';
+import {
+  analyzeRecipeNutrition,
+  emptyProfile,
+  NUTRIENT_KEYS,
+  roundProfile,
+  scaleProfile,
+  toAnalyzableIngredients,
+  toNutritionInfo
+} from './nutrition';
+import { percentDailyValues } from './dailyValues';
+import { parseIngredientLine } from './ingredientParser';
+
+type SupabaseClient = ReturnType<typeof createSupabaseServerClient>;
+
+export const FOOD_LOG_MEAL_SLOTS: FoodLogMealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_PORTIONS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A meal to log: servings of a recipe, or foods typed as free text ("2 eggs,
+ * 1 slice toast"). Portions multiply either; for free text they default to one
+ * because the amounts are in the text.
+ */
+export interface FoodLogInput {
+  mealSlot: FoodLogMealSlot;
+  eatenOn?: string; // YYYY-MM-DD, today when absent
+  portions?: number;
+  recipe?: {
+    id?: string;
+    title: string;
+    servings: number;
+    ingredients: Ingredient[];
+  };
+  food?: string;
+}
+
+export function validateFoodLogEntry(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Food log entry must be an object';
+  }
+  if (!FOOD_LOG_MEAL_SLOTS.includes(input.mealSlot)) {
+    return `mealSlot must be one of ${FOOD_LOG_MEAL_SLOTS.join(', ')}`;
+  }
+  if (input.eatenOn !== undefined && !isDateString(input.eatenOn)) {
+    return 'eatenOn must be a YYYY-MM-DD date';
+  }
+  if (input.portions !== undefined &&
+      (typeof input.portions !== 'number' || !Number.isFinite(input.portions) || input.portions <= 0 || input.portions > MAX_PORTIONS)) {
+    return `portions must be a positive number no more than ${MAX_PORTIONS}`;
+  }
+  if (Boolean(input.recipe) === Boolean(input.food)) {
+    return 'Log either a recipe or free-text food';
+  }
+
+  if (input.recipe) {
+    const { title, servings, ingredients } = input.recipe;
+    if (typeof title !== 'string' || !title.trim() || title.length > MAX_DESCRIPTION_LENGTH) {
+      return 'recipe.title is required';
+    }
+    if (typeof servings !== 'number' || !Number.isFinite(servings) || servings <= 0) {
+      return 'recipe.servings must be a positive number';
+    }
+    if (!Array.isArray(ingredients) || ingredients.length === 0) {
+      return 'recipe.ingredients must be a non-empty array';
+    }
+    if (input.recipe.id !== undefined && typeof input.recipe.id !== 'string') {
+      return 'recipe.id must be a string';
+    }
+  } else if (typeof input.food !== 'string' || !input.food.trim() || input.food.length > MAX_DESCRIPTION_LENGTH) {
+    return `food must be text of at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+// Free text as ingredients, one food per line, comma or semicolon
+export function parseFoodText(text: string): Ingredient[] {
+  return text
+    .split(/[\n;,]/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const parsed = parseIngredientLine(line);
+      return { name: parsed.name || line, amount: parsed.amount, unit: parsed.unit };
+    });
+}
+
+/**
+ * The row to store for a validated entry. Nutrients are worked out now, with the
+ * same analysis as /api/nutrition/analyze, so later changes to the dataset or a
+ * recipe don't rewrite what was eaten.
+ */
+export function foodLogEntryToRow(input: FoodLogInput, userId: string): Omit<DatabaseFoodLogEntry, 'id' | 'created_at'> {
+  const portions = input.portions ?? 1;
+  const analysis = input.recipe
+    ? analyzeRecipeNutrition(toAnalyzableIngredients(input.recipe.ingredients), input.recipe.servings)
+    : analyzeRecipeNutrition(toAnalyzableIngredients(parseFoodText(input.food as string)), 1);
+  const servings = input.recipe ? input.recipe.servings : 1;
+
+  return {
+    user_id: userId,
+    eaten_on: input.eatenOn || toDateString(new Date()),
+    meal_slot: input.mealSlot,
+    description: (input.recipe ? input.recipe.title : input.food as string).trim(),
+    recipe_id: input.recipe?.id || null,
+    portions,
+    nutrients: roundProfile(scaleProfile(analysis.total, portions / servings)),
+    confidence: analysis.coverage.confidence,
+    unmatched: analysis.coverage.unmatched,
+    glycemic_load: Math.round(analysis.glycemic.glycemicLoad * portions * 10) / 10
+  };
+}
+
+export function foodLogEntryFromRow(row: DatabaseFoodLogEntry): FoodLogEntry {
+  return {
+    id: row.id,
+    eatenOn: row.eaten_on,
+    mealSlot: row.meal_slot,
+    description: row.description,
+    recipeId: row.recipe_id || undefined,
+    portions: Number(row.portions),
+    nutrients: scaleProfile(row.nutrients as NutrientProfile, 1),
+    confidence: row.confidence,
+    unmatched: row.unmatched || [],
+    glycemicLoad: row.glycemic_load === null ? undefined : Number(row.glycemic_load),
+    createdAt: row.created_at
+  };
+}
+
+export function summarizeDay(
+  date: string,
+  entries: FoodLogEntry[],
+  profile?: ReferenceIntakeProfile | null
+): DailyIntakeSummary {
+  const dayEntries = entries.filter(entry => entry.eatenOn === date);
+  const byMealSlot = {} as Record<FoodLogMealSlot, NutrientProfile>;
+  for (const slot of FOOD_LOG_MEAL_SLOTS) {
+    byMealSlot[slot] = roundProfile(sumProfiles(dayEntries.filter(entry => entry.mealSlot === slot).map(entry => entry.nutrients)));
+  }
+  const totals = roundProfile(sumProfiles(dayEntries.map(entry => entry.nutrients)));
+
+  return {
+    date,
+    entryCount: dayEntries.length,
+    totals,
+    byMealSlot,
+    dailyValues: dayEntries.length > 0 ? percentDailyValues(toNutritionInfo(totals), profile) : [],
+    confidence: intakeConfidence(dayEntries),
+    unmatched: Array.from(new Set(dayEntries.flatMap(entry => entry.unmatched)))
+  };
+}
+
+// Monday to Sunday, with the average taken over days that have anything logged
+export function summarizeWeek(
+  range: { start: string; end: string },
+  entries: FoodLogEntry[],
+  profile?: ReferenceIntakeProfile | null
+): WeeklyIntakeSummary {
+  const days: DailyIntakeSummary[] = [];
+  const start = Date.parse(`${range.start}T00:00:00Z`);
+  for (let day = 0; day < 7; day++) {
+    days.push(summarizeDay(toDateString(new Date(start + day * DAY_MS)), entries, profile));
+  }
+
+  const logged = days.filter(day => day.entryCount > 0);
+  const averageDaily = roundProfile(scaleProfile(sumProfiles(logged.map(day => day.totals)), 1 / Math.max(logged.length, 1)));
+
+  return {
+    start: range.start,
+    end: range.end,
+    days,
+    daysLogged: logged.length,
+    averageDaily,
+    dailyValues: logged.length > 0 ? percentDailyValues(toNutritionInfo(averageDaily), profile) : []
+  };
+}
+
+export async function fetchFoodLog(
+  supabase: SupabaseClient,
+  userId: string,
+  range: { start: string; end: string }
+): Promise<FoodLogEntry[]> {
+  const { data, error } = await supabase
+    .from('food_log_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('eaten_on', range.start)
+    .lte('eaten_on', range.end)
+    .order('eaten_on', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get food log error:', error);
+    return [];
+  }
+
+  return (data || []).map(foodLogEntryFromRow);
+}
+
+// Age and sex from the health profile, for personal % Daily Values
+export async function fetchReferenceProfile(supabase: SupabaseClient, userId: string): Promise<ReferenceIntakeProfile | null> {
+  const { data: profile, error } = await supabase
+    .from('user_health_profiles')
+    .select('age, sex')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') { // no health profile yet
+      console.error('Get health profile for reference intakes error:', error);
+    }
+    return null;
+  }
+
+  return {
+    age: profile?.age || undefined,
+    sex: profile?.sex === 'female' || profile?.sex === 'male' ? profile.sex : undefined
+  };
+}
+
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+function sumProfiles(profiles: NutrientProfile[]): NutrientProfile {
+  const total = emptyProfile();
+  for (const profile of profiles) {
+    for (const key of NUTRIENT_KEYS) {
+      total[key] += profile[key] || 0;
+    }
+  }
+  return total;
+}
+
+// Entries weighted by calories, so a coffee with an unknown syrup doesn't sink a well-matched day
+function intakeConfidence(entries: FoodLogEntry[]): number {
+  if (entries.length === 0) return 0;
+  const calories = entries.reduce((sum, entry) => sum + entry.nutrients.calories, 0);
+  if (calories <= 0) {
+    return Math.round(entries.reduce((sum, entry) => sum + entry.confidence, 0) / entries.length);
+  }
+  return Math.round(entries.reduce((sum, entry) => sum + entry.confidence * entry.nutrients.calories, 0) / calories);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { FoodLogEntry, IngredientNutrition, NutrientProfile } from '@/types/recipe';
+import { analyzeGlycemicLoad, carbExchanges, getGlycemicIndex, glycemicLoadLevel, summarizeMealLoads } from './glycemic';
+import { emptyProfile } from './nutrition';
+
+function analyzed(ingredient: string, foodId: string | undefined, grams: number, carbs: number, fiber = 0): IngredientNutrition {
+  return {
+    ingredient,
+    ...(foodId && { foodId, foodName: foodId }),
+    matchScore: foodId ? 1 : 0,
+    grams,
+    weightApproximate: false,
+    nutrients: { ...emptyProfile(), carbs, fiber }
+  };
+}
+
+function logged(eatenOn: string, mealSlot: FoodLogEntry['mealSlot'], glycemicLoad: number | undefined, nutrients: Partial<NutrientProfile> = {}, unmatched: string[] = []): FoodLogEntry {
+  return {
+    id: `${eatenOn}-${mealSlot}-${glycemicLoad}`,
+    eatenOn,
+    mealSlot,
+    description: `${mealSlot} ${glycemicLoad}`,
+    portions: 1,
+    nutrients: { ...emptyProfile(), ...nutrients },
+    confidence: 100,
+    unmatched,
+    glycemicLoad,
+    createdAt: `${eatenOn}T12:00:00Z`
+  };
+}
+
+describe('glycemicLoadLevel', () => {
+  it.each([
+    [10, 'low'],
+    [10.1, 'medium'],
+    [19.9, 'medium'],
+    [20, 'high']
+  ])('%d -> %s', (load, expected) => {
+    expect(glycemicLoadLevel(load)).toBe(expected);
+  });
+});
+
+describe('carbExchanges', () => {
+  it.each([
+    [15, 1],
+    [22, 1.5],
+    [40, 2.5],
+    [-5, 0]
+  ])('%d g -> %d', (carbs, expected) => {
+    expect(carbExchanges(carbs)).toBe(expected);
+  });
+});
+
+describe('getGlycemicIndex', () => {
+  it('looks foods up by their food-composition id', () => {
+    expect(getGlycemicIndex('white-rice')).toEqual({ gi: 73 });
+    expect(getGlycemicIndex('almond-butter')).toEqual({ gi: 15, estimated: true });
+    expect(getGlycemicIndex('chicken-breast')).toBeNull();
+  });
+});
+
+describe('analyzeGlycemicLoad', () => {
+  it('weighs each GI by available carbohydrate, per serving', () => {
+    const analysis = analyzeGlycemicLoad([
+      analyzed('rice', 'white-rice', 100, 80, 1),
+      analyzed('lentils', 'lentils', 200, 40, 16)
+    ], 2);
+
+    // (73 * 79 + 32 * 24) / 100 = 65.35 for the dish
+    expect(analysis).toMatchObject({
+      glycemicLoad: 32.7,
+      level: 'high',
+      glycemicIndex: 63,
+      availableCarbs: 51.5,
+      carbExchanges: 3.5,
+      coverage: 100,
+      unrated: []
+    });
+  });
+
+  it('lists carbohydrate it has no GI for and counts it against coverage', () => {
+    const analysis = analyzeGlycemicLoad([
+      analyzed('rice', 'white-rice', 100, 30),
+      analyzed('cheese', 'cheddar', 30, 0.4),
+      analyzed('crackers', 'flour-crackers', 30, 10)
+    ], 1);
+
+    expect(analysis.unrated).toEqual(['crackers']);
+    expect(analysis.coverage).toBe(74);
+  });
+
+  it('takes the weight of unmatched ingredients off coverage', () => {
+    const analysis = analyzeGlycemicLoad([
+      analyzed('rice', 'white-rice', 150, 30),
+      analyzed('mystery sauce', undefined, 50, 0)
+    ], 1);
+
+    expect(analysis).toMatchObject({ coverage: 75, unrated: ['mystery sauce'] });
+  });
+
+  it('has no GI to report without rated carbohydrate', () => {
+    expect(analyzeGlycemicLoad([analyzed('chicken', 'chicken-breast', 200, 0)], 1)).toMatchObject({
+      glycemicLoad: 0,
+      level: 'low',
+      glycemicIndex: null,
+      coverage: 100
+    });
+  });
+});
+
+describe('summarizeMealLoads', () => {
+  it('groups entries into meals in day and slot order', () => {
+    const meals = summarizeMealLoads([
+      logged('2026-10-19', 'dinner', 12, { carbs: 40, fiber: 10 }),
+      logged('2026-10-19', 'breakfast', 6, { carbs: 20 }, ['chia']),
+      logged('2026-10-19', 'breakfast', 5.5, { carbs: 10 }, ['chia']),
+      logged('2026-10-18', 'snack', 3, { carbs: 12 })
+    ]);
+
+    expect(meals.map(meal => [meal.date, meal.mealSlot])).toEqual([
+      ['2026-10-18', 'snack'],
+      ['2026-10-19', 'breakfast'],
+      ['2026-10-19', 'dinner']
+    ]);
+    expect(meals[1]).toMatchObject({ glycemicLoad: 11.5, level: 'medium', carbExchanges: 2, unmatched: ['chia'] });
+    expect(meals[2]).toMatchObject({ carbExchanges: 2 });
+  });
+
+  it('skips entries logged before glycemic load was tracked', () => {
+    expect(summarizeMealLoads([logged('2026-10-19', 'lunch', undefined, { carbs: 60 })])).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+// src/lib/glycemic.ts
+// Glycemic load and carbohydrate exchanges from the bundled glycemic index dataset
+
+import {
+  FoodLogEntry,
+  FoodLogMealSlot,
+  GlycemicIndexDataset,
+  GlycemicIndexEntry,
+  GlycemicLoadAnalysis,
+  GlycemicLoadLevel,
+  IngredientNutrition,
+  MealGlycemicLoad
+} from '@/types/recipe';
+import glycemicIndex from '@/data/glycemicIndex.json';
+
+// Conventional cut-offs for a serving or a meal: 10 or less is low, 20 or more is high
+export const LOW_GLYCEMIC_LOAD = 10;
+export const HIGH_GLYCEMIC_LOAD = 20;
+
+// One diabetic exchange (a "carb choice") is 15 g of available carbohydrate
+const GRAMS_PER_CARB_EXCHANGE = 15;
+
+// Below this an ingredient without a GI value doesn't count against coverage (a pinch of spice, a splash of vinegar)
+const NEGLIGIBLE_CARBS = 0.5;
+
+// Below this much coverage a low load may only be carbohydrate that couldn't be seen, so it isn't worth praising
+export const MIN_GLYCEMIC_COVERAGE = 80;
+
+const MEAL_SLOT_ORDER: FoodLogMealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+let dataset: GlycemicIndexDataset = glycemicIndex;
+
+// Swap in a different glycemic index table keyed by the same food-composition ids
+export function loadGlycemicIndexDataset(data: GlycemicIndexDataset): void {
+  dataset = data;
+}
+
+export function getGlycemicIndex(foodId: string): GlycemicIndexEntry | null {
+  return dataset.foods[foodId] || null;
+}
+
+export function glycemicLoadLevel(load: number): GlycemicLoadLevel {
+  if (load <= LOW_GLYCEMIC_LOAD) return 'low';
+  if (load >= HIGH_GLYCEMIC_LOAD) return 'high';
+  return 'medium';
+}
+
+export function carbExchanges(availableCarbs: number): number {
+  return Math.round((Math.max(availableCarbs, 0) / GRAMS_PER_CARB_EXCHANGE) * 2) / 2;
+}
+
+/**
+ * Per-serving glycemic load of analyzed ingredients: each one's GI times its
+ * available carbohydrate, over 100. Ingredients with carbohydrate but no GI
+ * value are left out of the load and listed, and coverage says how much of
+ * the carbohydrate that leaves unrated. Ingredients with no nutrition data
+ * at all could be any amount of carbohydrate, so they are listed too and
+ * their share of the weight (or of the count, without weights) comes off
+ * coverage.
+ */
+export function analyzeGlycemicLoad(ingredients: IngredientNutrition[], servings: number): GlycemicLoadAnalysis {
+  let load = 0;
+  let availableCarbs = 0;
+  let ratedCarbs = 0;
+  const unrated: string[] = [];
+  const unmatched = ingredients.filter(ingredient => !ingredient.foodId);
+
+  for (const ingredient of ingredients) {
+    if (!ingredient.foodId) {
+      unrated.push(ingredient.ingredient);
+      continue;
+    }
+
+    const carbs = availableCarbsOf(ingredient.nutrients.carbs, ingredient.nutrients.fiber);
+    availableCarbs += carbs;
+    if (carbs <= 0) continue;
+
+    const entry = getGlycemicIndex(ingredient.foodId);
+    if (entry) {
+      load += (entry.gi * carbs) / 100;
+      ratedCarbs += carbs;
+    } else if (carbs >= NEGLIGIBLE_CARBS) {
+      unrated.push(ingredient.ingredient);
+    }
+  }
+
+  const totalGrams = ingredients.reduce((sum, ingredient) => sum + ingredient.grams, 0);
+  const unmatchedShare = totalGrams > 0
+    ? unmatched.reduce((sum, ingredient) => sum + ingredient.grams, 0) / totalGrams
+    : ingredients.length > 0 ? unmatched.length / ingredients.length : 0;
+  const carbCoverage = availableCarbs > 0 ? ratedCarbs / availableCarbs : 1;
+
+  const perServing = 1 / Math.max(servings, 1);
+  const glycemicLoad = roundTo(load * perServing, 1);
+  const servingCarbs = roundTo(availableCarbs * perServing, 1);
+
+  return {
+    glycemicLoad,
+    level: glycemicLoadLevel(glycemicLoad),
+    glycemicIndex: ratedCarbs > 0 ? Math.round((load / ratedCarbs) * 100) : null,
+    availableCarbs: servingCarbs,
+    carbExchanges: carbExchanges(servingCarbs),
+    coverage: Math.round(carbCoverage * (1 - unmatchedShare) * 100),
+    unrated
+  };
+}
+
+/**
+ * Logged entries grouped into meals (one meal slot on one day) with their
+ * combined glycemic load, oldest first. Entries logged before glycemic load was
+ * tracked are skipped, and so is a meal left with none. Foods an entry had no
+ * nutrition data for are listed, since the load leaves them out.
+ */
+export function summarizeMealLoads(entries: FoodLogEntry[]): MealGlycemicLoad[] {
+  const meals = new Map<string, { date: string; mealSlot: FoodLogMealSlot; descriptions: string[]; unmatched: string[]; load: number; carbs: number }>();
+
+  for (const entry of entries) {
+    if (typeof entry.glycemicLoad !== 'number') continue;
+
+    const key = `${entry.eatenOn}|${entry.mealSlot}`;
+    const meal = meals.get(key) || { date: entry.eatenOn, mealSlot: entry.mealSlot, descriptions: [], unmatched: [], load: 0, carbs: 0 };
+    meal.descriptions.push(entry.description);
+    meal.unmatched.push(...entry.unmatched.filter(name => !meal.unmatched.includes(name)));
+    meal.load += entry.glycemicLoad;
+    meal.carbs += availableCarbsOf(entry.nutrients.carbs, entry.nutrients.fiber);
+    meals.set(key, meal);
+  }
+
+  return Array.from(meals.values())
+    .sort((a, b) => a.date.localeCompare(b.date) || MEAL_SLOT_ORDER.indexOf(a.mealSlot) - MEAL_SLOT_ORDER.indexOf(b.mealSlot))
+    .map(({ date, mealSlot, descriptions, unmatched, load, carbs }) => {
+      const glycemicLoad = roundTo(load, 1);
+      return { date, mealSlot, descriptions, glycemicLoad, level: glycemicLoadLevel(glycemicLoad), carbExchanges: carbExchanges(carbs), unmatched };
+    });
+}
+
+function availableCarbsOf(carbs: number, fiber: number): number {
+  return Math.max((carbs || 0) - (fiber || 0), 0);
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseIngredientLine, ParsedIngredientLine } from './ingredientParser';
+
+// Real recipe lines and the fields they should parse to; fields not listed aren't checked
+const corpus: Array<[string, Partial<ParsedIngredientLine>]> = [
+  // Mixed and unicode fractions
+  ['1 1/2 cups all-purpose flour, sifted', { amount: 1.5, unit: 'cup', name: 'all-purpose flour', preparation: 'sifted' }],
+  ['2 ½ tbsp olive oil', { amount: 2.5, unit: 'tbsp', name: 'olive oil' }],
+  ['1½ cups milk', { amount: 1.5, unit: 'cup', name: 'milk' }],
+  ['¾ cup sugar', { amount: 0.75, unit: 'cup', name: 'sugar' }],
+  ['1.5 kg potatoes, peeled and quartered', { amount: 1.5, unit: 'kg', name: 'potatoes', preparation: 'peeled and quartered' }],
+  ['200g dark chocolate, chopped', { amount: 200, unit: 'g', name: 'dark chocolate', preparation: 'chopped' }],
+
+  // Ranges
+  ['2-3 cloves garlic, minced', { amount: 2, amountMax: 3, unit: 'clove', name: 'garlic', preparation: 'minced' }],
+  ['1 to 2 teaspoons chili flakes', { amount: 1, amountMax: 2, unit: 'tsp', name: 'chili flakes' }],
+
+  // Package sizes
+  ['2 (14 oz) cans diced tomatoes, drained', { amount: 2, unit: 'can', packageSize: { amount: 14, unit: 'oz' }, name: 'diced tomatoes', preparation: 'drained' }],
+  ['1 (400 g) can chickpeas, rinsed and drained', { amount: 1, unit: 'can', packageSize: { amount: 400, unit: 'g' }, name: 'chickpeas', preparation: 'rinsed and drained' }],
+  ['1 can (14 oz) tomatoes', { amount: 1, unit: 'can', packageSize: { amount: 14, unit: 'oz' }, name: 'tomatoes' }],
+  ['2 sticks butter, softened', { amount: 2, unit: 'stick', name: 'butter', preparation: 'softened' }],
+
+  // Preparation notes, before or after the name
+  ['3 large eggs, beaten', { amount: 3, unit: 'large', name: 'eggs', preparation: 'beaten' }],
+  ['1 cup chopped fresh parsley', { amount: 1, unit: 'cup', name: 'fresh parsley', preparation: 'chopped' }],
+  ['1 lb boneless chicken thighs, cut into 1-inch pieces', { amount: 1, unit: 'lb', name: 'boneless chicken thighs', preparation: 'cut into 1-inch pieces' }],
+
+  // Optional and to-taste markers
+  ['1/4 cup walnuts, toasted (optional)', { amount: 0.25, unit: 'cup', name: 'walnuts', preparation: 'toasted', optional: true }],
+  ['optional: 1 tsp honey', { amount: 1, unit: 'tsp', name: 'honey', optional: true }],
+  ['salt and pepper to taste', { name: 'salt and pepper', toTaste: true, optional: false }],
+  ['Salt, to taste', { name: 'Salt', toTaste: true }],
+  ['a pinch of nutmeg', { amount: 1, unit: 'pinch', name: 'nutmeg', toTaste: false }],
+  ['salt, or more to taste', { name: 'salt', toTaste: true }],
+  ['1 tsp kosher salt, plus more to taste', { amount: 1, unit: 'tsp', name: 'kosher salt', toTaste: true }],
+
+  // Part of a counted fruit
+  ['zest of 1 lemon', { amount: 1, unit: 'item', name: 'lemon zest' }],
+  ['Juice of 2 limes', { amount: 2, unit: 'item', name: 'lime juice' }]
+];
+
+describe('parseIngredientLine', () => {
+  it.each(corpus)('parses %j', (line, expected) => {
+    expect(parseIngredientLine(line)).toMatchObject({ original: line, ...expected });
+  });
+
+  it('leaves amountMax, packageSize and preparation off lines without them', () => {
+    const parsed = parseIngredientLine('¾ cup sugar');
+    expect(parsed.amountMax).toBeUndefined();
+    expect(parsed.packageSize).toBeUndefined();
+    expect(parsed.preparation).toBeUndefined();
+  });
+
+  it('drops "or more" along with the to-taste marker', () => {
+    const parsed = parseIngredientLine('salt, or more to taste');
+    expect(parsed.notes).toBeUndefined();
+    expect(parsed.name).not.toMatch(/more/);
+  });
+});
@@ -0,0 +1,419 @@
+// src/lib/ingredientParser.ts
+// Ingredient-line grammar: quantities, ranges, package sizes, preparation notes and markers
+
+export interface ParsedIngredientLine {
+  original: string;
+  amount: number;
+  amountMax?: number;
+  unit: string;
+  name: string;
+  packageSize?: { amount: number; unit: string };
+  preparation?: string;
+  notes?: string;
+  optional: boolean;
+  toTaste: boolean;
+}
+
+const unicodeFractions: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4',
+  '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5', '⅙': '1/6',
+  '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8'
+};
+
+const numberWords: Record<string, number> = {
+  'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5,
+  'six': 6, 'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10, 'eleven': 11,
+  'twelve': 12, 'dozen': 12, 'half': 0.5, 'a half': 0.5, 'quarter': 0.25
+};
+
+// Canonical unit for every spelling we accept
+const unitAliases: Record<string, string> = {
+  'cup': 'cup', 'cups': 'cup', 'c': 'cup',
+  'tablespoon': 'tbsp', 'tablespoons': 'tbsp', 'tbsp': 'tbsp', 'tbsps': 'tbsp', 'tbs': 'tbsp', 'tbl': 'tbsp', 'T': 'tbsp',
+  'teaspoon': 'tsp', 'teaspoons': 'tsp', 'tsp': 'tsp', 'tsps': 'tsp', 't': 'tsp',
+  'pound': 'lb', 'pounds': 'lb', 'lb': 'lb', 'lbs': 'lb',
+  'ounce': 'oz', 'ounces': 'oz', 'oz': 'oz',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl oz': 'fl oz', 'fl. oz': 'fl oz',
+  'gram': 'g', 'grams': 'g', 'g': 'g', 'gr': 'g',
+  'kilogram': 'kg', 'kilograms': 'kg', 'kg': 'kg', 'kgs': 'kg',
+  'milligram': 'mg', 'milligrams': 'mg', 'mg': 'mg',
+  'milliliter': 'ml', 'milliliters': 'ml', 'millilitre': 'ml', 'millilitres': 'ml', 'ml': 'ml',
+  'liter': 'l', 'liters': 'l', 'litre': 'l', 'litres': 'l', 'l': 'l',
+  'pint': 'pint', 'pints': 'pint', 'pt': 'pint',
+  'quart': 'quart', 'quarts': 'quart', 'qt': 'quart',
+  'gallon': 'gallon', 'gallons': 'gallon', 'gal': 'gallon',
+  'pinch': 'pinch', 'pinches': 'pinch',
+  'dash': 'dash', 'dashes': 'dash',
+  'handful': 'handful', 'handfuls': 'handful',
+  'piece': 'piece', 'pieces': 'piece',
+  'clove': 'clove', 'cloves': 'clove',
+  'slice': 'slice', 'slices': 'slice',
+  'can': 'can', 'cans': 'can',
+  'jar': 'jar', 'jars': 'jar',
+  'bottle': 'bottle', 'bottles': 'bottle',
+  'package': 'package', 'packages': 'package', 'pkg': 'package', 'packet': 'package', 'packets': 'package',
+  'box': 'box', 'boxes': 'box',
+  'bag': 'bag', 'bags': 'bag',
+  'stick': 'stick', 'sticks': 'stick',
+  'bunch': 'bunch', 'bunches': 'bunch',
+  'head': 'head', 'heads': 'head',
+  'sprig': 'sprig', 'sprigs': 'sprig',
+  'stalk': 'stalk', 'stalks': 'stalk',
+  'fillet': 'fillet', 'fillets': 'fillet',
+  'sheet': 'sheet', 'sheets': 'sheet',
+  'inch': 'inch', 'inches': 'inch',
+  'small': 'small', 'medium': 'medium', 'large': 'large',
+  'whole': 'whole', 'each': 'each'
+};
+
+// Units that describe a package's contents: "(14 oz)", "(400 g)"
+const measureUnits = new Set(['oz', 'fl oz', 'lb', 'g', 'kg', 'ml', 'l', 'cup', 'pint', 'quart']);
+
+// Units that name a container; the parenthetical before them is the container size
+const containerUnits = new Set(['can', 'jar', 'bottle', 'package', 'box', 'bag', 'stick']);
+
+const preparationWords = [
+  'chopped', 'minced', 'diced', 'sliced', 'grated', 'shredded', 'crushed', 'mashed',
+  'peeled', 'cubed', 'julienned', 'halved', 'quartered', 'trimmed', 'pitted', 'seeded',
+  'cored', 'zested', 'juiced', 'melted', 'softened', 'beaten', 'whisked', 'sifted',
+  'toasted', 'rinsed', 'drained', 'thawed', 'cooked', 'packed', 'torn', 'crumbled',
+  'ground', 'deveined', 'boned', 'skinned', 'cut', 'divided'
+];
+
+const preparationAdverbs = ['finely', 'roughly', 'coarsely', 'thinly', 'thickly', 'freshly', 'lightly', 'firmly', 'loosely', 'very'];
+
+// Trailing clauses that are serving notes rather than knife work
+const notePatterns = [
+  /^divided$/i,
+  /^for (garnish|serving|dusting|brushing|frying|greasing)/i,
+  /^(plus|or) more/i,
+  /^at room temperature$/i,
+  /^(about|approximately|roughly)\s/i,
+  /^such as\s/i,
+  /^if (needed|desired|using)/i
+];
+
+const quantityPattern = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?|\.\d+)`;
+const wordQuantityPattern = String.raw`(?:a\s+half|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|dozen|half|quarter)`;
+
+/**
+ * Parse a single free-text ingredient line such as
+ * "1 1/2 to 2 cups finely chopped onion, divided" or "2 (14 oz) cans diced tomatoes".
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const original = line.trim();
+  let text = normalizeLine(original);
+
+  const result: ParsedIngredientLine = {
+    original,
+    amount: 1,
+    unit: 'item',
+    name: '',
+    optional: false,
+    toTaste: false
+  };
+
+  // Markers can appear anywhere, so strip them before reading quantities
+  const markerResult = extractMarkers(text);
+  text = markerResult.text;
+  result.optional = markerResult.optional;
+  result.toTaste = markerResult.toTaste;
+
+  // "Zest of 1 lemon", "juice of 2 limes": the fruit is counted, the part is what's used
+  const partOf = text.match(/^(zest|juice|zest and juice)\s+of\s+(.+)$/i);
+  if (partOf) {
+    const fruit = parseIngredientLine(partOf[2]);
+    return {
+      ...fruit,
+      original,
+      name: `${fruit.name.replace(/s$/i, '')} ${partOf[1].toLowerCase()}`,
+      optional: result.optional || fruit.optional,
+      toTaste: result.toTaste || fruit.toTaste
+    };
+  }
+
+  // Quantity or range at the start of the line
+  const quantity = readQuantity(text);
+  let hasQuantity = false;
+  if (quantity) {
+    result.amount = quantity.amount;
+    if (quantity.amountMax !== undefined) {
+      result.amountMax = quantity.amountMax;
+    }
+    text = quantity.rest;
+    hasQuantity = true;
+  }
+
+  const notes: string[] = [];
+  const preparation: string[] = [];
+
+  // Parenthetical package size directly after the quantity: "2 (14 oz) cans".
+  // Anything else in that position ("1 (1-inch) piece") is a size note.
+  const packageMatch = text.match(/^\(\s*([^)]+?)\s*\)\s*/);
+  if (packageMatch) {
+    const size = parsePackageSize(packageMatch[1]);
+    if (size) {
+      result.packageSize = size;
+    } else {
+      notes.push(packageMatch[1]);
+    }
+    text = text.slice(packageMatch[0].length);
+  }
+
+  // Size qualifier with a package: "1 14-ounce can"
+  if (!result.packageSize) {
+    const inlineSize = text.match(new RegExp(`^(${quantityPattern})[\\s-]*(ounces?|oz|grams?|g|ml|pounds?|lbs?)\\.?\\s+(?=\\w)`, 'i'));
+    if (inlineSize) {
+      const afterSize = text.slice(inlineSize[0].length);
+      const unitAfter = readUnit(afterSize);
+      if (unitAfter && containerUnits.has(unitAfter.unit)) {
+        result.packageSize = {
+          amount: parseNumber(inlineSize[1]),
+          unit: unitAliases[inlineSize[2].toLowerCase()] || inlineSize[2].toLowerCase()
+        };
+        text = afterSize;
+      }
+    }
+  }
+
+  if (hasQuantity) {
+    const unit = readUnit(text);
+    if (unit) {
+      result.unit = unit.unit;
+      text = unit.rest;
+
+      // Package size after the container: "1 can (14 oz) tomatoes"
+      const sizeAfter = containerUnits.has(unit.unit) && !result.packageSize ? text.match(/^\(\s*([^)]+?)\s*\)\s*/) : null;
+      const size = sizeAfter ? parsePackageSize(sizeAfter[1]) : null;
+      if (sizeAfter && size) {
+        result.packageSize = size;
+        text = text.slice(sizeAfter[0].length);
+      }
+    } else if (result.packageSize) {
+      result.unit = 'package';
+    } else {
+      result.unit = 'item';
+    }
+  }
+
+  // "pinch of salt" without a leading number
+  if (!hasQuantity) {
+    const bareUnit = text.match(/^(pinch|dash|handful)\s+(?:of\s+)?/i);
+    if (bareUnit) {
+      result.unit = unitAliases[bareUnit[1].toLowerCase()];
+      text = text.slice(bareUnit[0].length);
+    } else if (result.toTaste) {
+      // "Salt, to taste" is costed and counted as a pinch
+      result.unit = 'pinch';
+    }
+  }
+
+  text = text.replace(/^of\s+/i, '').trim();
+
+  // Parenthetical remarks inside the name: "butter (about 1 stick)"
+  text = text.replace(/\(([^)]*)\)/g, (_, remark: string) => {
+    if (remark.trim()) notes.push(remark.trim());
+    return ' ';
+  }).replace(/\s+/g, ' ').replace(/\s+,/g, ',').trim();
+
+  // Trailing clauses after the first comma
+  const commaIndex = text.indexOf(',');
+  if (commaIndex >= 0) {
+    const clauses = text.slice(commaIndex + 1).split(',').map(clause => clause.trim()).filter(Boolean);
+    text = text.slice(0, commaIndex).trim();
+    for (const clause of clauses) {
+      if (notePatterns.some(pattern => pattern.test(clause))) {
+        notes.push(clause);
+      } else {
+        preparation.push(clause);
+      }
+    }
+  }
+
+  // "Fresh parsley for garnish" has no comma before its note
+  const trailingNote = text.match(/\s+(for (?:garnish|serving|dusting|brushing|frying|greasing).*)$/i);
+  if (trailingNote) {
+    notes.push(trailingNote[1]);
+    text = text.slice(0, trailingNote.index).trim();
+  }
+
+  // Leading preparation words: "finely chopped onion". Canned goods keep them in the
+  // name because "diced tomatoes" is what the shopper looks for on the shelf.
+  if (!containerUnits.has(result.unit)) {
+    const leading = readLeadingPreparation(text);
+    if (leading) {
+      preparation.unshift(leading.preparation);
+      text = leading.rest;
+    }
+  }
+
+  result.name = text.replace(/^(some|fresh\s+or\s+frozen)\s+/i, '').trim() || original;
+  if (preparation.length > 0) result.preparation = preparation.join(', ');
+  if (notes.length > 0) result.notes = notes.join('; ');
+
+  return result;
+}
+
+function normalizeLine(line: string): string {
+  let text = line
+    .replace(/^[-*•·]\s*/, '')
+    .replace(/^\d+\.\s+/, '')
+    .replace(/[–—]/g, '-')
+    .replace(/⁄/g, '/');
+
+  // "1½" -> "1 1/2", "½" -> "1/2"
+  text = text.replace(/(\d)?\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string | undefined, fraction: string) =>
+    whole ? `${whole} ${unicodeFractions[fraction]}` : unicodeFractions[fraction]
+  );
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function extractMarkers(text: string): { text: string; optional: boolean; toTaste: boolean } {
+  let optional = false;
+  let toTaste = false;
+
+  let cleaned = text.replace(/\(\s*optional\s*\)|,?\s*\boptional\b/gi, () => {
+    optional = true;
+    return '';
+  });
+
+  // "or more to taste" and "plus more to taste" say no more than "to taste" does
+  cleaned = cleaned.replace(/,?\s*\b(?:(?:or|plus)\s+more\s+)?(?:or\s+)?to taste\b/gi, () => {
+    toTaste = true;
+    return '';
+  });
+
+  cleaned = cleaned.replace(/,?\s*\bas needed\b/gi, () => {
+    toTaste = true;
+    return '';
+  });
+
+  return {
+    text: cleaned
+      .replace(/\s*,\s*$/, '')
+      .replace(/^[:\-\s]+/, '')
+      .replace(/\(\s*\)/g, '')
+      .replace(/\s+/g, ' ')
+      .trim(),
+    optional,
+    toTaste
+  };
+}
+
+function readQuantity(text: string): { amount: number; amountMax?: number; rest: string } | null {
+  const rangePattern = new RegExp(
+    `^(${quantityPattern}|${wordQuantityPattern})\\s*(?:-|to|or)\\s*(${quantityPattern}|${wordQuantityPattern})(?=\\s|$|[a-z(])\\s*`,
+    'i'
+  );
+  const rangeMatch = text.match(rangePattern);
+  if (rangeMatch) {
+    const low = parseNumber(rangeMatch[1]);
+    const high = parseNumber(rangeMatch[2]);
+    if (!isNaN(low) && !isNaN(high) && high > low) {
+      return { amount: low, amountMax: high, rest: text.slice(rangeMatch[0].length) };
+    }
+  }
+
+  const singlePattern = new RegExp(`^(${quantityPattern})(?=\\s|$|[a-z(-])\\s*-?\\s*`, 'i');
+  const singleMatch = text.match(singlePattern);
+  if (singleMatch) {
+    return { amount: parseNumber(singleMatch[1]), rest: text.slice(singleMatch[0].length) };
+  }
+
+  // Word quantities only count when followed by a unit or a noun: "a pinch", "two eggs"
+  const wordPattern = new RegExp(`^(${wordQuantityPattern})\\s+`, 'i');
+  const wordMatch = text.match(wordPattern);
+  if (wordMatch) {
+    const rest = text.slice(wordMatch[0].length);
+    const amount = parseNumber(wordMatch[1]);
+    // "half a cup", "a half cup"
+    const halfOf = rest.match(/^an?\s+/i);
+    if (amount === 0.5 && halfOf) {
+      return { amount, rest: rest.slice(halfOf[0].length) };
+    }
+    return { amount, rest };
+  }
+
+  return null;
+}
+
+function readUnit(text: string): { unit: string; rest: string } | null {
+  // Longest aliases first so "fluid ounces" wins over "ounces"
+  const aliases = Object.keys(unitAliases).sort((a, b) => b.length - a.length);
+  for (const alias of aliases) {
+    const caseSensitive = alias === 'T' || alias === 't';
+    const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    const pattern = new RegExp(`^${escaped}\\.?(?=\\s|$|,|\\))\\s*(?:of\\s+)?`, caseSensitive ? '' : 'i');
+    const match = text.match(pattern);
+    if (match) {
+      // A bare "c" or "t" is only a unit if something follows it
+      if (alias.length === 1 && match[0].trim().length === text.trim().length) continue;
+      return { unit: unitAliases[alias], rest: text.slice(match[0].length) };
+    }
+  }
+  return null;
+}
+
+function parsePackageSize(text: string): { amount: number; unit: string } | null {
+  const match = text.match(new RegExp(`^(${quantityPattern})[\\s-]*([a-z. ]+?)\\.?(?:\\s+(?:can|jar|package|bottle|box|bag))?$`, 'i'));
+  if (!match) return null;
+  const unit = unitAliases[match[2].trim().toLowerCase()];
+  if (!unit || !measureUnits.has(unit)) return null;
+  return { amount: parseNumber(match[1]), unit };
+}
+
+function readLeadingPreparation(text: string): { preparation: string; rest: string } | null {
+  const words = text.split(' ');
+  let index = 0;
+  let sawPreparation = false;
+
+  while (index < words.length - 1) {
+    const word = words[index].toLowerCase().replace(/,$/, '');
+    if (preparationAdverbs.includes(word) || word === 'and' || word === 'or') {
+      index++;
+      continue;
+    }
+    if (preparationWords.includes(word)) {
+      sawPreparation = true;
+      index++;
+      continue;
+    }
+    break;
+  }
+
+  // Don't swallow a trailing conjunction, and "ground beef"/"ground cinnamon" are names
+  while (index > 0 && ['and', 'or'].includes(words[index - 1].toLowerCase())) index--;
+  if (!sawPreparation || index === 0) return null;
+  if (index === 1 && words[0].toLowerCase() === 'ground') return null;
+
+  return {
+    preparation: words.slice(0, index).join(' ').replace(/,$/, ''),
+    rest: words.slice(index).join(' ')
+  };
+}
+
+function parseNumber(value: string): number {
+  const text = value.trim().toLowerCase();
+  if (text in numberWords) return numberWords[text];
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return parseInt(mixed[1]) + parseInt(mixed[2]) / parseInt(mixed[3]);
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return parseInt(fraction[1]) / parseInt(fraction[2]);
+  }
+
+  return parseFloat(text);
+}
+
+/**
+ * Normalize a free-text unit ("Tablespoons", "lbs.") to the canonical form used across the app.
+ */
+export function normalizeUnit(unit: string): string {
+  const trimmed = unit.trim().replace(/\.$/, '');
+  return unitAliases[trimmed] || unitAliases[trimmed.toLowerCase()] || trimmed.toLowerCase();
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { describeLeftover, planIngredientLeftovers, planPortionLeftover } from './leftovers';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('planIngredientLeftovers', () => {
+  it('records the rest of a package bought for the recipe', () => {
+    expect(planIngredientLeftovers([{ name: 'eggs', amount: 4, unit: '' }], ['eggs'], now)).toEqual([
+      { kind: 'ingredient', name: 'eggs', amount: 2, unit: 'each', useBy: '2026-10-24' }
+    ]);
+  });
+
+  it('matches bought items however the name was written', () => {
+    expect(planIngredientLeftovers([{ name: 'Eggs', amount: 4, unit: '' }], ['egg'], now)).toHaveLength(1);
+  });
+
+  it('skips what the pantry supplied, staples, and ingredients no product is', () => {
+    expect(planIngredientLeftovers(
+      [
+        { name: 'eggs', amount: 4, unit: '' },
+        { name: 'salt', amount: 1, unit: 'tsp' },
+        { name: 'chicken broth', amount: 2, unit: 'cup' },
+        { name: 'egg noodles', amount: 8, unit: 'oz' }
+      ],
+      ['salt', 'chicken broth', 'egg noodles'],
+      now
+    )).toEqual([]);
+  });
+});
+
+describe('planPortionLeftover', () => {
+  it('keeps the servings not eaten', () => {
+    expect(planPortionLeftover(' Chicken Curry ', 4, 1.5, now)).toEqual({
+      kind: 'portion',
+      name: 'Chicken Curry',
+      amount: 2.5,
+      unit: 'serving',
+      useBy: '2026-10-23'
+    });
+  });
+
+  it('returns null when everything was eaten', () => {
+    expect(planPortionLeftover('Chicken Curry', 4, 4, now)).toBeNull();
+  });
+});
+
+describe('describeLeftover', () => {
+  it.each([
+    [{ kind: 'portion' as const, name: 'Chicken Curry', amount: 1, unit: 'serving' }, '1 serving of Chicken Curry'],
+    [{ kind: 'portion' as const, name: 'Chicken Curry', amount: 2, unit: 'serving' }, '2 servings of Chicken Curry'],
+    [{ kind: 'ingredient' as const, name: 'eggs', amount: 2, unit: 'each' }, '2 eggs'],
+    [{ kind: 'ingredient' as const, name: 'heavy cream', amount: 0.75, unit: 'pint' }, '3/4 pint heavy cream']
+  ])('%o -> %s', (leftover, expected) => {
+    expect(describeLeftover(leftover)).toBe(expected);
+  });
+});
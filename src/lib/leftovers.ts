@@ -0,0 +1,88 @@
+// src/lib/leftovers.ts
+// Work out what's left after cooking: the rest of packages bought for a recipe, and uneaten servings
+
+import { Ingredient, Leftover, LeftoverKind } from '@/types/recipe';
+import { matchIngredientToProducts } from './productMatcher';
+import { normalizeIngredientName } from './shoppingList';
+import { formatKitchenAmount } from './recipeScaler';
+import { isPantryStaple } from './utils';
+
+// Fridge life once a package is opened or a dish is cooked
+export const LEFTOVER_KEEP_DAYS: Record<LeftoverKind, number> = {
+  ingredient: 5,
+  portion: 4
+};
+
+// Less than this share of a package left over isn't worth suggesting a meal for
+const MIN_LEFTOVER_SHARE = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type NewLeftover = Pick<Leftover, 'kind' | 'name' | 'amount' | 'unit' | 'useBy'>;
+
+/**
+ * What remains of the packages bought for a recipe. Only ingredients the pantry
+ * didn't supply count: pantry items already keep their own remaining quantity.
+ */
+export function planIngredientLeftovers(
+  ingredients: Ingredient[],
+  unmatchedIngredients: string[],
+  now: Date = new Date()
+): NewLeftover[] {
+  const bought = new Set(unmatchedIngredients.map(normalizeIngredientName));
+  const leftovers: NewLeftover[] = [];
+
+  for (const ingredient of ingredients) {
+    if (!ingredient?.name || ingredient.optional || !(ingredient.amount > 0)) continue;
+    if (!bought.has(normalizeIngredientName(ingredient.name))) continue;
+    if (isPantryStaple(ingredient.name)) continue;
+
+    const match = matchIngredientToProducts(ingredient);
+    if (!match || match.purchasedAmount <= 0) continue;
+    if (match.leftoverAmount / match.purchasedAmount < MIN_LEFTOVER_SHARE) continue;
+
+    leftovers.push({
+      kind: 'ingredient',
+      name: ingredient.name.trim(),
+      amount: match.leftoverAmount,
+      unit: match.unit,
+      useBy: useByDate('ingredient', now)
+    });
+  }
+
+  return leftovers;
+}
+
+/**
+ * Cooked servings still to eat, or null when everything was eaten.
+ */
+export function planPortionLeftover(
+  recipeTitle: string,
+  servings: number,
+  servingsEaten: number,
+  now: Date = new Date()
+): NewLeftover | null {
+  const remaining = Math.round((servings - servingsEaten) * 100) / 100;
+  if (!(remaining > 0)) return null;
+
+  return {
+    kind: 'portion',
+    name: recipeTitle.trim(),
+    amount: remaining,
+    unit: 'serving',
+    useBy: useByDate('portion', now)
+  };
+}
+
+// "2 servings of Chicken Curry", "3/4 pint heavy cream", "4 eggs"
+export function describeLeftover(leftover: Pick<Leftover, 'kind' | 'name' | 'amount' | 'unit'>): string {
+  if (leftover.kind === 'portion') {
+    return `${leftover.amount} ${leftover.amount === 1 ? 'serving' : 'servings'} of ${leftover.name}`;
+  }
+  const unit = ['each', 'item'].includes(leftover.unit) ? '' : `${leftover.unit} `;
+  return `${formatKitchenAmount(leftover.amount, leftover.unit).display} ${unit}${leftover.name}`;
+}
+
+function useByDate(kind: LeftoverKind, now: Date): string {
+  return new Date(now.getTime() + LEFTOVER_KEEP_DAYS[kind] * DAY_MS).toISOString().slice(0, 10);
+}
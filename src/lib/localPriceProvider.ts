@@ -0,0 +1,81 @@
+// src/lib/localPriceProvider.ts
+// Development price provider backed by the JSON price table in src/data
+
+import { GroceryStore, Ingredient, StoreItemPrice } from '@/types/recipe';
+import groceryPrices from '@/data/groceryPrices.json';
+import type { PriceProvider } from './priceProvider';
+import { estimateRealisticPrice } from './realisticEstimator';
+import { matchIngredientToProducts } from './productMatcher';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const stores: GroceryStore[] = groceryPrices.stores.map(({ priceMultiplier, ...store }) => store);
+const priceMultipliers = new Map(groceryPrices.stores.map(store => [store.id, store.priceMultiplier]));
+
+export const localPriceProvider: PriceProvider = {
+  id: 'local',
+  simulated: true,
+
+  async listStores() {
+    return stores;
+  },
+
+  async quoteItems(store, ingredients) {
+    const week = Math.floor(Date.now() / WEEK_MS);
+    return ingredients.map(ingredient => quoteItem(store, ingredient, week));
+  }
+};
+
+// Catalog packages when the ingredient maps to one, otherwise the same
+// baseline the recipe cards show, scaled for the store. Sales and stock come
+// from a hash of store, item and week rather than Math.random, so a refresh
+// shows the same prices and the specials change weekly.
+function quoteItem(store: GroceryStore, ingredient: Ingredient, week: number): StoreItemPrice {
+  const unit = ingredient.unit || '';
+  const packages = matchIngredientToProducts(ingredient);
+  const baseline = packages ? packages.price : estimateRealisticPrice(ingredient.name, ingredient.amount, unit);
+  const regularPrice = roundCents(Math.max(0.01, baseline * (priceMultipliers.get(store.id) || 1)));
+
+  const roll = hash(`${store.id}:${ingredient.name.toLowerCase().trim()}:${week}`);
+  const inStock = roll % 100 < store.availability;
+  const onSale = Math.floor(roll / 100) % 10 < 3;
+  const salePrice = onSale ? roundCents(regularPrice * 0.8) : undefined;
+
+  return {
+    ingredient,
+    storeId: store.id,
+    price: salePrice ?? regularPrice,
+    unit,
+    inStock,
+    ...(packages && { packages }),
+    ...(onSale && { salePrice, originalPrice: regularPrice, promotion: 'Weekly Special' }),
+    ...(!inStock && {
+      substitutes: [
+        {
+          name: `Organic ${ingredient.name}`,
+          price: roundCents(regularPrice * 1.4),
+          savings: -roundCents(regularPrice * 0.4)
+        },
+        {
+          name: `Store brand ${ingredient.name}`,
+          price: roundCents(regularPrice * 0.7),
+          savings: roundCents(regularPrice * 0.3)
+        }
+      ]
+    })
+  };
+}
+
+// FNV-1a, for a stable non-negative number per string
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { estimateMealCost, fitMealPlanToBudget, mealLimit, mealName } from './mealPlanCost';
+
+describe('estimateMealCost', () => {
+  it('prices the ingredients a description names, plus a base allowance', () => {
+    expect(estimateMealCost('breakfast', 'Budget oatmeal with banana (300 calories)')).toEqual({ cost: 1.2, pricedFrom: 'description' });
+  });
+
+  it('prices a description that names nothing priced as a typical meal for the slot', () => {
+    expect(estimateMealCost('snacks', 'Healing protein smoothie (200 calories)')).toEqual({ cost: 1.5, pricedFrom: 'typical' });
+    expect(estimateMealCost('dinner', 'Healing protein smoothie (200 calories)')).toEqual({ cost: 3.5, pricedFrom: 'typical' });
+  });
+
+  it('prices ingredient lines as written and skips to-taste ones', () => {
+    const withLines = estimateMealCost('breakfast', 'Oatmeal', ['1/2 cup rolled oats', 'salt to taste']);
+    expect(withLines.pricedFrom).toBe('ingredients');
+    expect(withLines.cost).toBeGreaterThan(0);
+  });
+});
+
+describe('mealName and mealLimit', () => {
+  it('reads string and object meals', () => {
+    expect(mealName('Lentil soup (430 calories)')).toBe('Lentil soup (430 calories)');
+    expect(mealName({ title: 'Chili' })).toBe('Chili');
+    expect(mealName(null)).toBe('');
+  });
+
+  it('gives snacks half a serving', () => {
+    expect(mealLimit('snacks', { max: 3 })).toBe(1.5);
+    expect(mealLimit('dinner', { max: 3 })).toBe(3);
+  });
+});
+
+describe('fitMealPlanToBudget', () => {
+  const budgetRange = { min: 1, max: 2 };
+
+  it('swaps an over-limit meal for the cheapest priced alternative, never a vague one', () => {
+    const { dailyMeals, breakdown } = fitMealPlanToBudget(
+      { day1: { breakfast: 'Budget oatmeal with banana', dinner: 'Healing salmon with cruciferous vegetables' } },
+      budgetRange,
+      { dinner: ['Plant-based healing chili', 'Bean chili with kidney beans and rice'] }
+    );
+
+    expect(dailyMeals.day1).toEqual({ breakfast: 'Budget oatmeal with banana', dinner: 'Bean chili with kidney beans and rice' });
+    expect(breakdown.days[0].meals[1]).toMatchObject({ meal: 'dinner', cost: 1.5, replaced: 'Healing salmon with cruciferous vegetables' });
+    expect(breakdown).toMatchObject({ replacedMeals: 1, overBudgetMeals: 0, weeklyTotal: 2.7 });
+  });
+
+  it('keeps a meal with no cheaper alternative and counts it as over budget', () => {
+    const { breakdown } = fitMealPlanToBudget(
+      { day1: { dinner: 'Healing salmon with cruciferous vegetables' } },
+      budgetRange,
+      { dinner: ['Healing protein smoothie'] }
+    );
+
+    expect(breakdown).toMatchObject({ replacedMeals: 0, overBudgetMeals: 1, withinBudget: false });
+  });
+});
@@ -0,0 +1,303 @@
+// src/lib/mealPlanCost.ts
+// Prices a week of planned meals and holds each meal, day and the week to a per-serving budget
+
+import groceryPrices from '@/data/groceryPrices.json';
+import { parseIngredientLine } from './ingredientParser';
+import { estimateRealisticPrice } from './realisticEstimator';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snacks'];
+export const MEALS_PER_DAY = 3; // snacks share the day's budget rather than getting a serving of their own
+export const MEALS_PER_WEEK = MEALS_PER_DAY * 7;
+
+export interface MealCost {
+  meal: MealSlot;
+  name: string;
+  cost: number;
+  limit: number;
+  pricedFrom: 'ingredients' | 'description' | 'typical'; // typical: the description named nothing with a price
+  replaced?: string; // the meal this one stands in for, which went over budget
+}
+
+export interface DayCost {
+  day: string;
+  meals: MealCost[];
+  total: number;
+  limit: number;
+  overBudget: boolean;
+}
+
+export interface DietPlanCostBreakdown {
+  budgetRange: { min: number; max: number };
+  perMealLimit: number;
+  perDayLimit: number;
+  perWeekLimit: number;
+  days: DayCost[];
+  weeklyTotal: number;
+  averagePerServing: number;
+  withinBudget: boolean;
+  replacedMeals: number;
+  overBudgetMeals: number; // still over after every cheaper swap was tried
+}
+
+type DailyMeals = Record<string, Partial<Record<MealSlot, unknown>>>;
+export type ShoppingListCategory = { category: string; items: string[] };
+// Ingredient lines per day and meal, e.g. { day1: { breakfast: ['1/2 cup rolled oats'] } }
+export type MealIngredients = Record<string, Partial<Record<MealSlot, string[]>>>;
+
+const SNACK_SHARE = 0.5; // of one serving's budget
+const MEAL_BASE_COST = 0.75; // oil, seasoning and the odds and ends a description doesn't name
+// A home-cooked serving, for descriptions like "Healing protein smoothie" that name nothing priced;
+// pricing those at the base cost alone would make them the cheapest swap for everything
+const TYPICAL_MEAL_COST: Record<MealSlot, number> = { breakfast: 2.25, lunch: 3, dinner: 3.5, snacks: 1.5 };
+
+const ingredientPrices: Record<string, { price: number; unit: string; serving: number }> = groceryPrices.ingredients;
+const pricedKeysLongestFirst = Object.keys(ingredientPrices).sort((a, b) => b.length - a.length);
+
+export function mealLimit(slot: MealSlot, budgetRange: { max: number }): number {
+  return roundCents(slot === 'snacks' ? budgetRange.max * SNACK_SHARE : budgetRange.max);
+}
+
+// Plans store meals as "Name (350 calories)" strings, or occasionally as objects
+export function mealName(meal: unknown): string {
+  if (typeof meal === 'string') return meal;
+  if (meal && typeof meal === 'object') {
+    const { name, title } = meal as { name?: unknown; title?: unknown };
+    if (typeof name === 'string') return name;
+    if (typeof title === 'string') return title;
+  }
+  return '';
+}
+
+/**
+ * One serving of a meal. Ingredient lines are priced as written; without
+ * them, every price-table ingredient the description names counts as one
+ * serving, plus an allowance for what it doesn't name. A description that
+ * names none is priced as a typical meal for its slot.
+ */
+export function estimateMealCost(
+  slot: MealSlot,
+  description: string,
+  ingredientLines?: string[]
+): { cost: number; pricedFrom: MealCost['pricedFrom'] } {
+  const lines = (Array.isArray(ingredientLines) ? ingredientLines : []).filter(line => typeof line === 'string' && line.trim());
+
+  if (lines.length > 0) {
+    const cost = lines.reduce((total, line) => {
+      const parsed = parseIngredientLine(line);
+      if (parsed.toTaste || !parsed.name) return total;
+      return total + estimateRealisticPrice(parsed.name, parsed.amount || 1, parsed.unit);
+    }, 0);
+    return { cost: roundCents(cost), pricedFrom: 'ingredients' };
+  }
+
+  const keys = namedPriceKeys(description);
+  if (keys.length === 0) {
+    return { cost: TYPICAL_MEAL_COST[slot], pricedFrom: 'typical' };
+  }
+
+  const cost = keys.reduce((total, key) => {
+    const { serving, unit } = ingredientPrices[key];
+    return total + estimateRealisticPrice(key, serving, unit);
+  }, MEAL_BASE_COST);
+  return { cost: roundCents(cost), pricedFrom: 'description' };
+}
+
+/**
+ * Prices every meal, swaps any meal over its own limit for the cheapest
+ * alternative that fits (one not already in the plan if possible), then
+ * trims days still over budget by swapping their priciest meals. Meals with
+ * no cheaper alternative stay and are counted in `overBudgetMeals`.
+ * Alternatives that could only be priced as a typical meal are never swapped
+ * in: nothing says they're cheaper.
+ */
+export function fitMealPlanToBudget(
+  dailyMeals: DailyMeals,
+  budgetRange: { min: number; max: number },
+  alternatives: Partial<Record<MealSlot, string[]>>,
+  mealIngredients?: MealIngredients
+): { dailyMeals: DailyMeals; breakdown: DietPlanCostBreakdown } {
+  const perDayLimit = roundCents(budgetRange.max * MEALS_PER_DAY);
+  const used = new Set(
+    Object.values(dailyMeals).flatMap(meals => MEAL_SLOTS.map(slot => mealName(meals?.[slot]).toLowerCase()))
+  );
+  const pricedAlternatives = new Map<MealSlot, Array<{ name: string; cost: number }>>(
+    MEAL_SLOTS.map(slot => [
+      slot,
+      (alternatives[slot] || [])
+        .map(name => ({ name, ...estimateMealCost(slot, name) }))
+        .filter(option => option.pricedFrom !== 'typical')
+        .map(({ name, cost }) => ({ name, cost }))
+        .sort((a, b) => a.cost - b.cost)
+    ])
+  );
+
+  const cheaperAlternative = (meal: MealCost, mustFit: boolean) => {
+    const cheaper = (pricedAlternatives.get(meal.meal) || [])
+      .filter(option => option.cost < meal.cost && (!mustFit || option.cost <= meal.limit));
+    return cheaper.find(option => !used.has(option.name.toLowerCase())) || cheaper[0] || null;
+  };
+
+  const swap = (meals: MealCost[], index: number, option: { name: string; cost: number }) => {
+    const original = meals[index];
+    used.add(option.name.toLowerCase());
+    meals[index] = {
+      meal: original.meal,
+      name: option.name,
+      cost: option.cost,
+      limit: original.limit,
+      pricedFrom: 'description',
+      replaced: original.replaced || original.name
+    };
+  };
+
+  const fittedMeals: DailyMeals = {};
+  const days: DayCost[] = [];
+
+  for (const [day, meals] of Object.entries(dailyMeals)) {
+    const costs: MealCost[] = MEAL_SLOTS
+      .filter(slot => meals?.[slot] !== undefined)
+      .map(slot => {
+        const name = mealName(meals[slot]);
+        return {
+          meal: slot,
+          name,
+          limit: mealLimit(slot, budgetRange),
+          ...estimateMealCost(slot, name, mealIngredients?.[day]?.[slot])
+        };
+      });
+
+    costs.forEach((meal, index) => {
+      if (meal.cost > meal.limit) {
+        const option = cheaperAlternative(meal, true);
+        if (option) swap(costs, index, option);
+      }
+    });
+
+    while (sumCosts(costs) > perDayLimit) {
+      const candidates = costs
+        .map((meal, index) => ({ index, option: cheaperAlternative(meal, false) }))
+        .filter((candidate): candidate is { index: number; option: { name: string; cost: number } } => candidate.option !== null)
+        .sort((a, b) => (costs[b.index].cost - b.option.cost) - (costs[a.index].cost - a.option.cost));
+      if (candidates.length === 0) break;
+      swap(costs, candidates[0].index, candidates[0].option);
+    }
+
+    const fitted: Partial<Record<MealSlot, unknown>> = { ...meals };
+    costs.forEach(meal => {
+      if (meal.replaced) fitted[meal.meal] = meal.name;
+    });
+    fittedMeals[day] = fitted;
+
+    const total = sumCosts(costs);
+    days.push({ day, meals: costs, total, limit: perDayLimit, overBudget: total > perDayLimit });
+  }
+
+  const weeklyTotal = roundCents(days.reduce((total, day) => total + day.total, 0));
+  const perWeekLimit = roundCents(budgetRange.max * MEALS_PER_WEEK);
+  const allMeals = days.flatMap(day => day.meals);
+  const overBudgetMeals = allMeals.filter(meal => meal.cost > meal.limit).length;
+
+  return {
+    dailyMeals: fittedMeals,
+    breakdown: {
+      budgetRange,
+      perMealLimit: roundCents(budgetRange.max),
+      perDayLimit,
+      perWeekLimit,
+      days,
+      weeklyTotal,
+      averagePerServing: days.length > 0 ? roundCents(weeklyTotal / (days.length * MEALS_PER_DAY)) : 0,
+      withinBudget: overBudgetMeals === 0 && days.every(day => !day.overBudget) && weeklyTotal <= perWeekLimit,
+      replacedMeals: allMeals.filter(meal => meal.replaced).length,
+      overBudgetMeals
+    }
+  };
+}
+
+/**
+ * The plan's shopping list after budget swaps: ingredients only the replaced
+ * meals needed come off, and ingredients the stand-in meals name go on under
+ * "Budget Swaps", so the list prices the same week as the breakdown.
+ */
+export function reconcileShoppingList(
+  shoppingList: ShoppingListCategory[],
+  breakdown: DietPlanCostBreakdown,
+  mealIngredients?: MealIngredients
+): ShoppingListCategory[] {
+  const kept = new Set<string>();
+  const dropped = new Set<string>();
+  const added = new Set<string>();
+
+  for (const { day, meals } of breakdown.days) {
+    for (const meal of meals) {
+      if (meal.replaced) {
+        mealIngredientNames(meal.replaced, mealIngredients?.[day]?.[meal.meal]).forEach(name => dropped.add(name));
+        namedPriceKeys(meal.name).forEach(name => {
+          kept.add(name);
+          added.add(name);
+        });
+      } else {
+        mealIngredientNames(meal.name, mealIngredients?.[day]?.[meal.meal]).forEach(name => kept.add(name));
+      }
+    }
+  }
+
+  const namesAny = (item: string, names: Set<string>) =>
+    Array.from(names).some(name => containsTerm(item.toLowerCase(), name));
+
+  const reconciled = (Array.isArray(shoppingList) ? shoppingList : [])
+    .map(category => ({
+      ...category,
+      items: (Array.isArray(category.items) ? category.items : [])
+        .filter(item => typeof item !== 'string' || !namesAny(item, dropped) || namesAny(item, kept))
+    }))
+    .filter(category => category.items.length > 0);
+
+  const listed = reconciled.flatMap(category => category.items).filter((item): item is string => typeof item === 'string');
+  const missing = Array.from(added).filter(name => !listed.some(item => containsTerm(item.toLowerCase(), name)));
+  if (missing.length > 0) {
+    reconciled.push({ category: 'Budget Swaps', items: missing.map(name => name.charAt(0).toUpperCase() + name.slice(1)) });
+  }
+  return reconciled;
+}
+
+// A meal's ingredients: its ingredient lines when it has them, otherwise the price-table ingredients its description names
+function mealIngredientNames(description: string, ingredientLines?: string[]): string[] {
+  const lines = (Array.isArray(ingredientLines) ? ingredientLines : []).filter(line => typeof line === 'string' && line.trim());
+  if (lines.length === 0) return namedPriceKeys(description);
+  return lines
+    .map(line => parseIngredientLine(line))
+    .filter(parsed => !parsed.toTaste && parsed.name)
+    .map(parsed => parsed.name.toLowerCase());
+}
+
+// Longest keys first, so "chicken breast" is taken before "chicken"
+function namedPriceKeys(description: string): string[] {
+  let remaining = ` ${description.toLowerCase().replace(/\(.*?\)/g, ' ')} `;
+  const keys: string[] = [];
+  for (const key of pricedKeysLongestFirst) {
+    if (containsTerm(remaining, key)) {
+      keys.push(key);
+      remaining = remaining.replace(termPattern(key), ' ');
+    }
+  }
+  return keys;
+}
+
+function containsTerm(text: string, term: string): boolean {
+  return termPattern(term).test(text);
+}
+
+function termPattern(term: string): RegExp {
+  return new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(e?s)?\\b`);
+}
+
+function sumCosts(meals: MealCost[]): number {
+  return roundCents(meals.reduce((total, meal) => total + meal.cost, 0));
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
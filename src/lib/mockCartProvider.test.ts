@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { recordCartExport } from './cartProvider';
+import { mockCartProvider } from './mockCartProvider';
+
+const retailer = { id: 'walmart', name: 'Walmart Grocery' };
+const garlic = { name: 'garlic', amount: 2, unit: 'clove' };
+const mincedGarlic = { name: 'minced garlic', amount: 1, unit: 'tsp' };
+const unknown = { name: 'dragon fruit powder', amount: 1, unit: 'tbsp' };
+
+describe('mockCartProvider.buildCart', () => {
+  it('keeps every list item on a line they share', async () => {
+    const cart = await mockCartProvider.buildCart(retailer, [garlic, mincedGarlic]);
+
+    expect(cart.lines).toHaveLength(1);
+    expect(cart.lines[0]).toMatchObject({ productId: 'walmart:garlic-head', ingredients: [garlic, mincedGarlic] });
+    expect(cart.payload).toEqual({ retailer: 'walmart', items: [{ product_id: 'walmart:garlic-head', quantity: cart.lines[0].quantity }] });
+  });
+
+  it('lists what it cannot match with a reason', async () => {
+    const cart = await mockCartProvider.buildCart(retailer, [unknown]);
+
+    expect(cart.lines).toEqual([]);
+    expect(cart.unmatched).toEqual([{ ingredient: unknown, reason: 'No Walmart Grocery product found for "dragon fruit powder"' }]);
+    expect(cart.estimatedTotal).toBe(0);
+  });
+});
+
+describe('recordCartExport', () => {
+  it('counts list items rather than cart lines', async () => {
+    const inserted: any[] = [];
+    const supabase = { from: () => ({ insert: async (row: any) => { inserted.push(row); return { error: null }; } }) };
+    const cart = await mockCartProvider.buildCart(retailer, [garlic, mincedGarlic, unknown]);
+
+    await recordCartExport(supabase as any, 'user-1', cart, 3);
+
+    expect(inserted[0]).toMatchObject({ item_count: 3, matched_count: 2, unmatched_items: [{ name: 'dragon fruit powder' }] });
+  });
+});
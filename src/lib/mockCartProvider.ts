@@ -0,0 +1,89 @@
+// src/lib/mockCartProvider.ts
+// Development cart provider: matches items against the local catalog and price table and links to retailer search
+
+import { CartLine, CartRetailer, CartUnmatchedItem } from '@/types/recipe';
+import type { CartProvider } from './cartProvider';
+import { estimateRealisticPrice, findPricedIngredient } from './realisticEstimator';
+import { matchIngredientToProducts } from './productMatcher';
+
+// No retailer hands out cart deep links without a partner agreement, so each
+// line links to the retailer's own search for the product instead
+const retailers: Array<CartRetailer & { searchUrl: (query: string) => string }> = [
+  { id: 'instacart', name: 'Instacart', searchUrl: query => `https://www.instacart.com/store/s?k=${query}` },
+  { id: 'doordash', name: 'DoorDash', searchUrl: query => `https://www.doordash.com/search/store/${query}/` },
+  { id: 'amazon_fresh', name: 'Amazon Fresh', searchUrl: query => `https://www.amazon.com/s?k=${query}&i=amazonfresh` },
+  { id: 'walmart', name: 'Walmart Grocery', searchUrl: query => `https://www.walmart.com/search?q=${query}` }
+];
+
+export const mockCartProvider: CartProvider = {
+  id: 'mock',
+
+  async listRetailers() {
+    return retailers.map(({ id, name }) => ({ id, name }));
+  },
+
+  async buildCart(retailer, ingredients) {
+    const searchUrl = retailers.find(candidate => candidate.id === retailer.id)?.searchUrl;
+    const lines: CartLine[] = [];
+    const unmatched: CartUnmatchedItem[] = [];
+
+    const addLine = (line: CartLine) => {
+      // Two list items for the same product ("garlic", "minced garlic") share a cart line
+      const existing = lines.find(candidate => candidate.productId === line.productId);
+      if (existing) {
+        existing.ingredients.push(...line.ingredients.filter(ingredient => !existing.ingredients.includes(ingredient)));
+        existing.quantity += line.quantity;
+        existing.price = roundCents((existing.price || 0) + (line.price || 0));
+      } else {
+        lines.push(line);
+      }
+    };
+
+    for (const ingredient of ingredients) {
+      // Catalog packages first, so the cart holds something that can actually be bought
+      const match = matchIngredientToProducts(ingredient);
+      if (match) {
+        match.packages.forEach(({ product, count }) => addLine({
+          ingredients: [ingredient],
+          productId: `${retailer.id}:${product.id}`,
+          productName: product.name,
+          quantity: count,
+          price: roundCents(product.price * count),
+          url: searchUrl?.(encodeURIComponent(product.match[0]))
+        }));
+        continue;
+      }
+
+      const product = findPricedIngredient(ingredient.name);
+      if (!product) {
+        unmatched.push({ ingredient, reason: `No ${retailer.name} product found for "${ingredient.name}"` });
+        continue;
+      }
+
+      addLine({
+        ingredients: [ingredient],
+        productId: `${retailer.id}:${product.replace(/\s+/g, '-')}`,
+        productName: product.replace(/\b\w/g, letter => letter.toUpperCase()),
+        quantity: 1,
+        price: roundCents(estimateRealisticPrice(ingredient.name, ingredient.amount || 1, ingredient.unit || '')),
+        url: searchUrl?.(encodeURIComponent(product))
+      });
+    }
+
+    return {
+      providerId: mockCartProvider.id,
+      retailer,
+      lines,
+      unmatched,
+      estimatedTotal: roundCents(lines.reduce((total, line) => total + (line.price || 0), 0)),
+      payload: {
+        retailer: retailer.id,
+        items: lines.map(line => ({ product_id: line.productId, quantity: line.quantity }))
+      }
+    };
+  }
+};
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
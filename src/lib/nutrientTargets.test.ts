@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { NutritionInfo } from '@/types/recipe';
+import { calculateNutrientTargets, recipeTargetFit, remainingTargets, TargetInputs } from './nutrientTargets';
+import { emptyProfile } from './nutrition';
+
+const adult: TargetInputs = { age: 40, sex: 'female', goal: 'maintenance', conditions: [] };
+const now = new Date('2026-10-19T12:00:00Z');
+
+function targetsFor(conditions: string[]) {
+  return calculateNutrientTargets({ ...adult, conditions }, now);
+}
+
+describe('calculateNutrientTargets', () => {
+  it('starts from the reference intakes', () => {
+    expect(targetsFor([]).nutrients).toMatchObject({
+      calories: { amount: 2000, limit: 'max' },
+      sodium: { amount: 2300, limit: 'max' },
+      iron: { amount: 18, limit: 'min' }
+    });
+  });
+
+  it.each([
+    'Postural Orthostatic Tachycardia Syndrome',
+    'POTS'
+  ])('raises sodium for %s', condition => {
+    const targets = targetsFor([condition]);
+
+    expect(targets.nutrients.sodium).toMatchObject({ amount: 3000, limit: 'min' });
+    expect(targets.fluidMl).toMatchObject({ amount: 2500, limit: 'min' });
+    expect(targets.notes).toEqual([]);
+  });
+
+  it.each([
+    'Coronary artery disease',
+    'Congestive heart failure',
+    'Cardiovascular disease'
+  ])('caps sodium for %s', condition => {
+    expect(targetsFor([condition]).nutrients.sodium).toMatchObject({ amount: 1500, limit: 'max' });
+  });
+
+  it('leaves heartburn at the usual sodium limit', () => {
+    expect(targetsFor(['Heartburn']).nutrients.sodium).toEqual({ amount: 2300, limit: 'max' });
+  });
+
+  it('keeps the cap and says so when two conditions disagree', () => {
+    const targets = targetsFor(['POTS', 'Hypertension']);
+
+    expect(targets.nutrients.sodium).toMatchObject({ amount: 1500, limit: 'max' });
+    expect(targets.notes).toEqual([
+      'POTS: extra sodium helps keep blood volume up conflicts with "High blood pressure: sodium capped at 1,500 mg"; keeping the cap until your doctor advises otherwise'
+    ]);
+  });
+});
+
+describe('recipeTargetFit', () => {
+  const targets = targetsFor(['Hypertension']);
+  const serving = { calories: 600, protein: 30, carbs: 60, fat: 20, fiber: 8, sodium: 700, sugar: 5, micronutrients: {} } as NutritionInfo;
+
+  it('says which cap a serving would pass given what was eaten', () => {
+    const fit = recipeTargetFit(serving, targets, { ...emptyProfile(), sodium: 1000 }, '2026-10-19');
+
+    expect(fit.exceeds).toEqual(['sodium']);
+    expect(fit.lines.find(line => line.key === 'sodium')).toMatchObject({ consumed: 1000, remaining: 500, status: 'exceeds' });
+  });
+
+  it('fits on a day with nothing logged', () => {
+    expect(recipeTargetFit(serving, targets, null, '2026-10-19').exceeds).toEqual([]);
+  });
+});
+
+describe('remainingTargets', () => {
+  it('goes negative once a cap has been passed', () => {
+    expect(remainingTargets(targetsFor(['Hypertension']), { ...emptyProfile(), sodium: 1800 })).toMatchObject({ sodium: -300 });
+  });
+});
@@ -0,0 +1,441 @@
+// src/lib/nutrientTargets.ts
+// Daily nutrient targets from a user's goal and health conditions, and how a recipe fits what's left of today's
+
+import {
+  BiologicalSex,
+  DailyValueKey,
+  NutrientProfile,
+  NutrientTarget,
+  NutrientTargets,
+  NutritionGoal,
+  NutritionInfo,
+  TargetFit,
+  TargetFitLine
+} from '@/types/recipe';
+import { createSupabaseServerClient } from './supabase';
+import { dailyValueAmounts, getReferenceIntakes } from './dailyValues';
+import { getFoodDataset, MICRONUTRIENT_KEYS } from './nutrition';
+import { fetchFoodLog, summarizeDay } from './foodLog';
+
+type SupabaseClient = ReturnType<typeof createSupabaseServerClient>;
+
+export const NUTRITION_GOALS: NutritionGoal[] = [
+  'maintenance', 'improvement', 'weight-loss', 'weight-gain', 'athletic', 'heart-healthy', 'anti-inflammatory'
+];
+
+// Below this a weight-loss deficit needs medical supervision
+const MIN_WEIGHT_LOSS_CALORIES: Record<BiologicalSex, number> = { female: 1200, male: 1500 };
+
+const WEIGHT_LOSS_DEFICIT = 500;
+const WEIGHT_GAIN_SURPLUS = 400;
+const ATHLETIC_SURPLUS = 300;
+
+export interface TargetInputs {
+  age?: number;
+  sex?: BiologicalSex;
+  goal: NutritionGoal;
+  conditions: string[];
+  severity?: Record<string, string>;
+}
+
+interface TargetRule {
+  pattern: RegExp;
+  apply: (calories: number, inputs: TargetInputs, condition: string) => Array<[DailyValueKey | 'fluidMl', NutrientTarget]>;
+  note?: (calories: number) => string;
+}
+
+// Share of the day's calories, in grams of a macro with this many kcal per gram
+const caloriesShare = (calories: number, share: number, kcalPerGram: number) => Math.round((calories * share) / kcalPerGram);
+
+/**
+ * Targets for health conditions, matched on words in the condition's name.
+ * Amounts follow the usual clinical starting points (AHA, ADA, KDIGO,
+ * Dysautonomia International); they are defaults to discuss with a doctor,
+ * not prescriptions.
+ */
+const CONDITION_RULES: TargetRule[] = [
+  {
+    pattern: /diabet/i,
+    apply: (calories) => [
+      ['carbs', { amount: caloriesShare(calories, 0.45, 4), limit: 'max', reason: 'Diabetes: carbohydrate budget of about 45% of calories' }]
+    ],
+    note: (calories) => `Diabetes: about ${Math.round(caloriesShare(calories, 0.45, 4) / 4)} g of carbohydrate per main meal leaves room for a snack`
+  },
+  {
+    pattern: /hypertension|blood pressure/i,
+    apply: () => [
+      ['sodium', { amount: 1500, limit: 'max', reason: 'High blood pressure: sodium capped at 1,500 mg' }],
+      ['potassium', { amount: 3500, limit: 'min', reason: 'High blood pressure: potassium helps offset sodium' }]
+    ]
+  },
+  {
+    pattern: /\bheart (disease|failure|attack)\b|\bcardiac\b|\bcoronary\b|\bcardiovascular\b/i, // not heartburn or tachycardia
+    apply: (calories) => [
+      ['sodium', { amount: 1500, limit: 'max', reason: 'Heart disease: sodium capped at 1,500 mg' }],
+      ['saturatedFat', { amount: caloriesShare(calories, 0.06, 9), limit: 'max', reason: 'Heart disease: saturated fat under 6% of calories' }]
+    ]
+  },
+  {
+    pattern: /cholesterol/i,
+    apply: (calories) => [
+      ['saturatedFat', { amount: caloriesShare(calories, 0.06, 9), limit: 'max', reason: 'High cholesterol: saturated fat under 6% of calories' }],
+      ['cholesterol', { amount: 200, limit: 'max', reason: 'High cholesterol: dietary cholesterol under 200 mg' }],
+      ['fiber', { amount: 30, limit: 'min', reason: 'High cholesterol: soluble fiber helps lower LDL' }]
+    ]
+  },
+  {
+    pattern: /kidney|renal|ckd/i,
+    apply: (calories, inputs, condition) => {
+      const { values } = getReferenceIntakes(inputs);
+      const targets: Array<[DailyValueKey, NutrientTarget]> = [
+        ['sodium', { amount: 2000, limit: 'max', reason: 'Kidney disease: sodium capped at 2,000 mg' }],
+        ['protein', { amount: values.protein, limit: 'max', reason: 'Kidney disease: protein kept to the RDA to spare the kidneys' }]
+      ];
+      if (inputs.severity?.[condition] === 'severe') {
+        targets.push(['potassium', { amount: 2000, limit: 'max', reason: 'Advanced kidney disease: potassium capped at 2,000 mg' }]);
+      }
+      return targets;
+    }
+  },
+  {
+    pattern: /\bpots\b|postural|orthostatic|dysautonomia/i,
+    apply: () => [
+      ['sodium', { amount: 3000, limit: 'min', reason: 'POTS: extra sodium helps keep blood volume up' }],
+      ['fluidMl', { amount: 2500, limit: 'min', reason: 'POTS: 2.5-3 L of fluid a day' }]
+    ]
+  },
+  {
+    pattern: /osteopor|osteopen/i,
+    apply: () => [
+      ['calcium', { amount: 1200, limit: 'min', reason: 'Osteoporosis: extra calcium for bone density' }],
+      ['vitaminD', { amount: 20, limit: 'min', reason: 'Osteoporosis: vitamin D to absorb calcium' }]
+    ]
+  },
+  {
+    pattern: /anemi|anaemi/i,
+    apply: (calories, inputs) => {
+      const { values } = getReferenceIntakes(inputs);
+      return [
+        ['iron', { amount: values.iron, limit: 'min', reason: 'Anemia: iron every day' }],
+        ['vitaminC', { amount: values.vitaminC, limit: 'min', reason: 'Anemia: vitamin C helps absorb plant iron' }],
+        ['vitaminB12', { amount: values.vitaminB12, limit: 'min', reason: 'Anemia: B12 for red blood cells' }]
+      ];
+    }
+  },
+  {
+    pattern: /thyroid|hashimoto|graves/i,
+    apply: (calories, inputs) => {
+      const { values } = getReferenceIntakes(inputs);
+      return [
+        ['iodine', { amount: values.iodine, limit: 'min', reason: 'Thyroid: steady iodine, without large excesses' }],
+        ['selenium', { amount: values.selenium, limit: 'min', reason: 'Thyroid: selenium supports thyroid hormone' }]
+      ];
+    }
+  },
+  {
+    pattern: /celiac|crohn/i,
+    apply: (calories, inputs) => {
+      const { values } = getReferenceIntakes(inputs);
+      return [
+        ['iron', { amount: values.iron, limit: 'min', reason: 'Malabsorption: iron is often low' }],
+        ['folate', { amount: values.folate, limit: 'min', reason: 'Malabsorption: folate is often low' }],
+        ['vitaminD', { amount: values.vitaminD, limit: 'min', reason: 'Malabsorption: vitamin D is often low' }]
+      ];
+    }
+  },
+  {
+    pattern: /gerd|reflux/i,
+    apply: (calories) => [
+      ['fat', { amount: caloriesShare(calories, 0.3, 9), limit: 'max', reason: 'GERD: lower-fat meals ease reflux' }]
+    ]
+  },
+  {
+    pattern: /liver|cirrho/i,
+    apply: () => [
+      ['sodium', { amount: 2000, limit: 'max', reason: 'Liver disease: sodium capped at 2,000 mg' }]
+    ]
+  }
+];
+
+/**
+ * Daily targets: the reference intakes for the user's age and sex, moved by
+ * their goal, then by each health condition. Where two conditions pull the
+ * same nutrient in opposite directions the cap is kept and a note explains why.
+ */
+export function calculateNutrientTargets(inputs: TargetInputs, now: Date = new Date()): NutrientTargets {
+  const { values } = getReferenceIntakes(inputs);
+  const nutrients: Partial<Record<DailyValueKey, NutrientTarget>> = {
+    calories: { amount: values.calories, limit: 'max' },
+    protein: { amount: values.protein, limit: 'min' },
+    fat: { amount: values.fat, limit: 'max' },
+    saturatedFat: { amount: values.saturatedFat, limit: 'max' },
+    sodium: { amount: values.sodium, limit: 'max' },
+    fiber: { amount: values.fiber, limit: 'min' }
+  };
+  for (const key of MICRONUTRIENT_KEYS) {
+    nutrients[key] = { amount: values[key], limit: 'min' };
+  }
+
+  const targets: NutrientTargets = {
+    goal: inputs.goal,
+    conditions: inputs.conditions,
+    nutrients,
+    notes: [],
+    computedAt: now.toISOString()
+  };
+
+  const calories = applyGoal(targets, inputs, values.calories, values.protein);
+
+  for (const condition of inputs.conditions) {
+    for (const rule of CONDITION_RULES) {
+      if (!rule.pattern.test(condition)) continue;
+      for (const [key, target] of rule.apply(calories, inputs, condition)) {
+        applyTarget(targets, key, target);
+      }
+      if (rule.note) targets.notes.push(rule.note(calories));
+    }
+  }
+
+  targets.notes = Array.from(new Set(targets.notes));
+  return targets;
+}
+
+/**
+ * How one serving fits today's targets given what's already logged. Caps say
+ * whether the serving still fits; minimums say whether it helps reach them.
+ */
+export function recipeTargetFit(
+  nutrition: NutritionInfo,
+  targets: NutrientTargets,
+  consumed: NutrientProfile | null,
+  date: string
+): TargetFit {
+  const { nutrients } = getFoodDataset();
+  const amounts = dailyValueAmounts(nutrition);
+  const lines: TargetFitLine[] = [];
+
+  for (const [key, target] of Object.entries(targets.nutrients)) {
+    const dailyValueKey = key as DailyValueKey;
+    const amount = amounts[dailyValueKey];
+    if (!target || amount === undefined) continue;
+
+    const eaten = consumed?.[dailyValueKey] || 0;
+    const status: TargetFitLine['status'] = target.limit === 'max'
+      ? (eaten + amount > target.amount ? 'exceeds' : 'fits')
+      : (eaten >= target.amount ? 'met' : 'helps');
+
+    lines.push({
+      key: dailyValueKey,
+      name: dailyValueKey === 'calories' ? 'Calories' : nutrients[dailyValueKey]?.name || key,
+      unit: nutrients[dailyValueKey]?.unit || '',
+      amount,
+      target,
+      consumed: eaten,
+      remaining: roundTo(target.amount - eaten, 1),
+      status
+    });
+  }
+
+  const exceeds = lines.filter(line => line.status === 'exceeds');
+  return {
+    date,
+    lines,
+    exceeds: exceeds.map(line => line.key),
+    message: describeTargetFit(lines, exceeds)
+  };
+}
+
+// What's left of each target after what's been eaten; negative once a cap has been passed
+export function remainingTargets(targets: NutrientTargets, consumed: NutrientProfile): Partial<Record<DailyValueKey, number>> {
+  const remaining: Partial<Record<DailyValueKey, number>> = {};
+  for (const [key, target] of Object.entries(targets.nutrients)) {
+    if (target) remaining[key as DailyValueKey] = roundTo(target.amount - (consumed[key as DailyValueKey] || 0), 1);
+  }
+  return remaining;
+}
+
+// Goal and conditions the targets are built from: the health profile, the active diet plan and any rare-condition analyses
+export async function loadTargetInputs(supabase: SupabaseClient, userId: string): Promise<TargetInputs> {
+  const [profileResult, planResult, rareResult] = await Promise.all([
+    supabase
+      .from('user_health_profiles')
+      .select('health_conditions, health_goal, severity_levels, age, sex')
+      .eq('user_id', userId)
+      .single(),
+    supabase
+      .from('diet_plans')
+      .select('goal_type, health_conditions, severity_levels')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    supabase
+      .from('rare_condition_analyses')
+      .select('condition_name')
+      .eq('user_id', userId)
+  ]);
+
+  for (const [label, result] of [['health profile', profileResult], ['diet plan', planResult]] as const) {
+    if (result.error && result.error.code !== 'PGRST116') {
+      console.error(`Get ${label} for nutrient targets error:`, result.error);
+    }
+  }
+  if (rareResult.error) {
+    console.error('Get rare conditions for nutrient targets error:', rareResult.error);
+  }
+
+  const profile = profileResult.data;
+  const plan = planResult.data;
+  const conditions = [
+    ...(Array.isArray(profile?.health_conditions) ? profile.health_conditions : []),
+    ...(Array.isArray(plan?.health_conditions) ? plan.health_conditions : []),
+    ...(rareResult.data || []).map((analysis: any) => analysis.condition_name)
+  ].filter((condition): condition is string => typeof condition === 'string' && condition.trim() !== '');
+
+  return {
+    age: profile?.age || undefined,
+    sex: profile?.sex === 'female' || profile?.sex === 'male' ? profile.sex : undefined,
+    goal: toNutritionGoal(plan?.goal_type || profile?.health_goal),
+    conditions: Array.from(new Set(conditions)),
+    severity: { ...(profile?.severity_levels || {}), ...(plan?.severity_levels || {}) }
+  };
+}
+
+// Recalculate and store a user's targets, e.g. after their health profile or diet plan changes
+export async function refreshNutrientTargets(supabase: SupabaseClient, userId: string): Promise<NutrientTargets> {
+  const targets = calculateNutrientTargets(await loadTargetInputs(supabase, userId));
+
+  const { error } = await supabase
+    .from('nutrient_targets')
+    .upsert({ user_id: userId, targets, updated_at: targets.computedAt }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Save nutrient targets error:', error);
+  }
+
+  return targets;
+}
+
+// Stored targets, calculated on first use
+export async function fetchNutrientTargets(supabase: SupabaseClient, userId: string): Promise<NutrientTargets> {
+  const { data, error } = await supabase
+    .from('nutrient_targets')
+    .select('targets')
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Get nutrient targets error:', error);
+  }
+
+  return data?.targets || refreshNutrientTargets(supabase, userId);
+}
+
+// A user's targets with what they've logged on `date`, for fitting recipes against
+export async function loadTargetBudget(
+  supabase: SupabaseClient,
+  userId: string,
+  date: string
+): Promise<{ targets: NutrientTargets; consumed: NutrientProfile }> {
+  const [targets, entries] = await Promise.all([
+    fetchNutrientTargets(supabase, userId),
+    fetchFoodLog(supabase, userId, { start: date, end: date })
+  ]);
+  return { targets, consumed: summarizeDay(date, entries).totals };
+}
+
+// Accepts a diet plan's goalType or a health profile's free-text goal ("Health Maintenance", "Weight loss")
+export function toNutritionGoal(value: unknown): NutritionGoal {
+  if (typeof value !== 'string') return 'maintenance';
+  const slug = value.toLowerCase().trim().replace(/[\s_]+/g, '-');
+  return NUTRITION_GOALS.find(goal => slug === goal || slug.includes(goal)) || 'maintenance';
+}
+
+function applyGoal(targets: NutrientTargets, inputs: TargetInputs, calories: number, protein: number): number {
+  const floor = inputs.sex ? MIN_WEIGHT_LOSS_CALORIES[inputs.sex] : MIN_WEIGHT_LOSS_CALORIES.male;
+
+  switch (inputs.goal) {
+    case 'weight-loss': {
+      const goalCalories = Math.max(calories - WEIGHT_LOSS_DEFICIT, floor);
+      applyTarget(targets, 'calories', { amount: goalCalories, limit: 'max', reason: `Weight loss: a ${calories - goalCalories} kcal daily deficit` });
+      applyTarget(targets, 'protein', { amount: Math.max(protein, caloriesShare(goalCalories, 0.25, 4)), limit: 'min', reason: 'Weight loss: more protein keeps you full and spares muscle' });
+      return goalCalories;
+    }
+    case 'weight-gain': {
+      const goalCalories = calories + WEIGHT_GAIN_SURPLUS;
+      applyTarget(targets, 'calories', { amount: goalCalories, limit: 'min', reason: `Weight gain: a ${WEIGHT_GAIN_SURPLUS} kcal daily surplus` });
+      applyTarget(targets, 'protein', { amount: Math.max(protein, caloriesShare(goalCalories, 0.2, 4)), limit: 'min', reason: 'Weight gain: protein to build muscle rather than fat' });
+      return goalCalories;
+    }
+    case 'athletic': {
+      const goalCalories = calories + ATHLETIC_SURPLUS;
+      applyTarget(targets, 'calories', { amount: goalCalories, limit: 'min', reason: 'Athletic performance: fuel for training' });
+      applyTarget(targets, 'protein', { amount: Math.max(protein, caloriesShare(goalCalories, 0.2, 4)), limit: 'min', reason: 'Athletic performance: protein for recovery' });
+      applyTarget(targets, 'carbs', { amount: caloriesShare(goalCalories, 0.5, 4), limit: 'min', reason: 'Athletic performance: carbohydrate to refill glycogen' });
+      return goalCalories;
+    }
+    case 'heart-healthy':
+      applyTarget(targets, 'sodium', { amount: 1500, limit: 'max', reason: 'Heart health: sodium capped at 1,500 mg' });
+      applyTarget(targets, 'saturatedFat', { amount: caloriesShare(calories, 0.06, 9), limit: 'max', reason: 'Heart health: saturated fat under 6% of calories' });
+      return calories;
+    case 'anti-inflammatory':
+      applyTarget(targets, 'fiber', { amount: 30, limit: 'min', reason: 'Anti-inflammatory: plenty of fiber from whole plant foods' });
+      return calories;
+    default:
+      return calories;
+  }
+}
+
+/**
+ * Set one target. A goal or condition always replaces the plain reference
+ * intake; between two of them the stricter one wins, and a minimum that
+ * clashes with a cap gives way to the cap with a note.
+ */
+function applyTarget(targets: NutrientTargets, key: DailyValueKey | 'fluidMl', next: NutrientTarget): void {
+  const current = key === 'fluidMl' ? targets.fluidMl : targets.nutrients[key];
+  let chosen = next;
+
+  if (current?.reason) {
+    if (current.limit === next.limit) {
+      const stricter = next.limit === 'max' ? next.amount < current.amount : next.amount > current.amount;
+      chosen = stricter ? next : current;
+    } else {
+      const [cap, minimum] = current.limit === 'max' ? [current, next] : [next, current];
+      targets.notes.push(`${minimum.reason} conflicts with "${cap.reason}"; keeping the cap until your doctor advises otherwise`);
+      chosen = cap;
+    }
+  }
+
+  if (key === 'fluidMl') {
+    targets.fluidMl = chosen;
+  } else {
+    targets.nutrients[key] = chosen;
+  }
+}
+
+function describeTargetFit(lines: TargetFitLine[], exceeds: TargetFitLine[]): string {
+  if (exceeds.length > 0) {
+    const [first] = exceeds;
+    const overBy = roundTo(first.consumed + first.amount - first.target.amount, 1);
+    const more = exceeds.length > 1 ? ` (+${exceeds.length - 1} more)` : '';
+    const name = first.key === 'calories' ? 'calorie' : first.name.toLowerCase();
+    return `Over today's ${name} limit by ${overBy} ${first.unit}${more}`;
+  }
+
+  const calories = lines.find(line => line.key === 'calories');
+  if (calories && calories.target.limit === 'max' && calories.remaining > 0) {
+    return `${Math.round((calories.amount / calories.remaining) * 100)}% of today's remaining ${Math.round(calories.remaining)} kcal`;
+  }
+
+  const helping = lines.filter(line => line.status === 'helps' && line.target.reason);
+  if (helping.length > 0) {
+    return `Helps toward today's ${helping.slice(0, 2).map(line => line.name.toLowerCase()).join(' and ')} target`;
+  }
+  return 'Fits today\'s targets';
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
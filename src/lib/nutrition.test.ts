@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import foodComposition from '@/data/foodComposition.json';
+import { analyzeRecipeNutrition, findFood, loadFoodDataset } from './nutrition';
+
+describe('findFood', () => {
+  afterEach(() => loadFoodDataset(foodComposition));
+
+  it.each([
+    ['buttermilk', 'buttermilk', 1],
+    ['almond butter', 'almond-butter', 1],
+    ['smooth cashew butter', 'cashew-butter', 0.85],
+    ['unsalted butter', 'butter', 1],
+    ['smoked salmon', 'salmon', 0.85],
+    ['brocoli', 'broccoli', 0.66]
+  ])('%s -> %s', (name, id, score) => {
+    expect(findFood(name)).toMatchObject({ food: { id }, score });
+  });
+
+  it('does not pass off a food that only shares a stem with a known one', () => {
+    const butter = foodComposition.foods.find(food => food.id === 'butter')!;
+    loadFoodDataset({ ...foodComposition, foods: [butter] });
+
+    expect(findFood('buttermilk')).toBeNull();
+  });
+});
+
+describe('analyzeRecipeNutrition', () => {
+  it('counts buttermilk as buttermilk, not butter', () => {
+    const analysis = analyzeRecipeNutrition([{ name: 'buttermilk', amount: 1, unit: 'cup' }], 1);
+
+    expect(analysis.total.calories).toBeLessThan(120);
+    expect(analysis.total.fat).toBeLessThan(5);
+    expect(analysis.coverage).toMatchObject({ matched: 1, unmatched: [], fuzzyMatches: [] });
+  });
+
+  it('gives a nut butter no cholesterol', () => {
+    const analysis = analyzeRecipeNutrition([{ name: 'almond butter', amount: 2, unit: 'tbsp' }], 1);
+
+    expect(analysis.ingredients[0]).toMatchObject({ foodId: 'almond-butter' });
+    expect(analysis.total.cholesterol).toBe(0);
+  });
+
+  it('leaves what it cannot match out of the totals and says so', () => {
+    const analysis = analyzeRecipeNutrition([
+      { name: 'eggs', amount: 2, unit: '' },
+      { name: 'dragon fruit powder', amount: 1, unit: 'tbsp' }
+    ], 2);
+
+    expect(analysis.coverage).toMatchObject({ matched: 1, total: 2, unmatched: ['dragon fruit powder'] });
+    expect(analysis.total.calories).toBe(analysis.ingredients[0].nutrients.calories);
+  });
+});
@@ -0,0 +1,267 @@
+// src/lib/nutrition.ts
+// Recipe nutrition from the bundled food-composition dataset, with a report of what couldn't be matched
+
+import {
+  FoodCompositionDataset,
+  FoodCompositionEntry,
+  GlycemicLoadAnalysis,
+  Ingredient,
+  IngredientNutrition,
+  MicronutrientKey,
+  Micronutrients,
+  NutrientKey,
+  NutrientProfile,
+  NutritionAnalysis,
+  NutritionInfo
+} from '@/types/recipe';
+import foodComposition from '@/data/foodComposition.json';
+import { normalizeIngredientName } from './shoppingList';
+import { toGrams } from './unitConversion';
+import { analyzeGlycemicLoad, getGlycemicIndex } from './glycemic';
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = [
+  'potassium', 'calcium', 'iron', 'magnesium', 'zinc', 'selenium', 'iodine',
+  'vitaminA', 'vitaminC', 'vitaminD', 'vitaminB12', 'folate'
+];
+
+export const NUTRIENT_KEYS: NutrientKey[] = [
+  'calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium',
+  'saturatedFat', 'cholesterol', ...MICRONUTRIENT_KEYS
+];
+
+// Nutrients reported in whole units; the rest keep one decimal place
+const WHOLE_NUMBER_NUTRIENTS = new Set<NutrientKey>([
+  'calories', 'sodium', 'cholesterol', 'potassium', 'calcium', 'magnesium', 'iodine', 'vitaminA', 'folate'
+]);
+
+const EXACT_SCORE = 1;
+const CONTAINS_SCORE = 0.85; // "smoked salmon" ends in "salmon" but is not quite it
+const FUZZY_SCORE_FACTOR = 0.8; // a typo-level match is never as trustworthy as a named one
+const FUZZY_THRESHOLD = 0.75; // below this a shared stem passes for a match ("buttermilk" for "butter")
+const APPROXIMATE_WEIGHT_FACTOR = 0.85;
+
+interface FoodMatch {
+  food: FoodCompositionEntry;
+  score: number;
+}
+
+let dataset: FoodCompositionDataset = foodComposition;
+let aliasIndex = buildAliasIndex(dataset.foods);
+
+/**
+ * Swap in a different food-composition dataset, e.g. a fuller FoodData Central
+ * export in the same shape as src/data/foodComposition.json.
+ */
+export function loadFoodDataset(data: FoodCompositionDataset): void {
+  dataset = data;
+  aliasIndex = buildAliasIndex(data.foods);
+}
+
+export function getFoodDataset(): FoodCompositionDataset {
+  return dataset;
+}
+
+/**
+ * The food an ingredient name refers to: an exact alias first, then the longest
+ * alias the name ends with as whole words, then the closest spelling. The alias
+ * has to be the name's last word, so "almond milk" isn't taken for almonds.
+ * Null when nothing is close enough to trust.
+ */
+export function findFood(ingredientName: string): FoodMatch | null {
+  const raw = ingredientName.toLowerCase().replace(/\([^)]*\)/g, ' ').split(',')[0].replace(/\s+/g, ' ').trim();
+  const normalized = normalizeIngredientName(ingredientName);
+  if (!raw && !normalized) return null;
+
+  const exact = aliasIndex.get(normalized) || aliasIndex.get(raw);
+  if (exact) return { food: exact, score: EXACT_SCORE };
+
+  let contained: FoodMatch | null = null;
+  let containedLength = 0;
+  let closest: FoodMatch | null = null;
+
+  for (const [alias, food] of Array.from(aliasIndex)) {
+    if (alias.length > containedLength && (endsWithTerm(raw, alias) || endsWithTerm(normalized, alias))) {
+      contained = { food, score: CONTAINS_SCORE };
+      containedLength = alias.length;
+    }
+
+    const score = roundTo(trigramSimilarity(normalized, alias) * FUZZY_SCORE_FACTOR, 2);
+    if (score >= FUZZY_THRESHOLD * FUZZY_SCORE_FACTOR && (!closest || score > closest.score)) {
+      closest = { food, score };
+    }
+  }
+
+  return contained || closest;
+}
+
+// Nutrient amounts in one gram of a food
+export function nutrientsPerGram(food: FoodCompositionEntry): NutrientProfile {
+  return scaleProfile(food.per100g, 0.01);
+}
+
+export function analyzeIngredientNutrition(ingredient: Ingredient): IngredientNutrition {
+  const conversion = ingredient.amount > 0
+    ? toGrams(ingredient.amount, ingredient.unit || '', ingredient.name, ingredient.packageSize)
+    : { amount: 0, approximate: false };
+  const match = findFood(ingredient.name);
+  const glycemicIndex = match ? getGlycemicIndex(match.food.id) : null;
+
+  return {
+    ingredient: ingredient.name,
+    ...(match && { foodId: match.food.id, foodName: match.food.name }),
+    matchScore: match ? match.score : 0,
+    grams: roundTo(conversion.amount, 1),
+    weightApproximate: conversion.approximate,
+    nutrients: match ? scaleProfile(nutrientsPerGram(match.food), conversion.amount) : emptyProfile(),
+    ...(glycemicIndex && { glycemicIndex: glycemicIndex.gi })
+  };
+}
+
+/**
+ * Total and per-serving nutrients for a list of ingredients. Unmatched
+ * ingredients count as zero and are listed in the coverage report rather than
+ * guessed at, so the confidence figure says how far to trust the totals.
+ */
+export function analyzeRecipeNutrition(ingredients: Ingredient[], servings: number): NutritionAnalysis {
+  const analyzed = ingredients
+    .filter(ingredient => ingredient?.name)
+    .map(analyzeIngredientNutrition);
+
+  const total = emptyProfile();
+  for (const entry of analyzed) {
+    for (const key of NUTRIENT_KEYS) {
+      total[key] += entry.nutrients[key];
+    }
+  }
+
+  const totalGrams = analyzed.reduce((sum, entry) => sum + entry.grams, 0);
+  const trustedGrams = analyzed.reduce((sum, entry) =>
+    sum + entry.grams * entry.matchScore * (entry.weightApproximate ? APPROXIMATE_WEIGHT_FACTOR : 1), 0
+  );
+  const matched = analyzed.filter(entry => entry.foodId);
+
+  return {
+    total: roundProfile(total),
+    perServing: roundProfile(scaleProfile(total, 1 / Math.max(servings, 1))),
+    ingredients: analyzed.map(entry => ({ ...entry, nutrients: roundProfile(entry.nutrients) })),
+    coverage: {
+      matched: matched.length,
+      total: analyzed.length,
+      unmatched: analyzed.filter(entry => !entry.foodId).map(entry => entry.ingredient),
+      fuzzyMatches: matched
+        .filter(entry => entry.matchScore < EXACT_SCORE)
+        .map(entry => ({ ingredient: entry.ingredient, food: entry.foodName as string })),
+      confidence: totalGrams > 0
+        ? Math.round((trustedGrams / totalGrams) * 100)
+        : analyzed.length > 0 ? Math.round((matched.length / analyzed.length) * 100) : 0
+    },
+    glycemic: analyzeGlycemicLoad(analyzed, servings)
+  };
+}
+
+/**
+ * Ingredients from a request body in the shape analyzeRecipeNutrition expects.
+ * Entries without a name are dropped; one given without an amount counts as one of it.
+ */
+export function toAnalyzableIngredients(raw: any[]): Ingredient[] {
+  return raw
+    .filter((ingredient: any) => ingredient && typeof ingredient.name === 'string' && ingredient.name.trim())
+    .map((ingredient: any) => ({
+      name: ingredient.name.trim(),
+      amount: Number(ingredient.amount) || 1,
+      unit: ingredient.unit || ''
+    }));
+}
+
+// The recipe card's nutrition block: macros in whole units, vitamins and minerals as the dataset rounds them
+export function toNutritionInfo(profile: NutrientProfile, glycemic?: GlycemicLoadAnalysis): NutritionInfo {
+  const rounded = roundProfile(profile);
+  const micronutrients: Micronutrients = {};
+  for (const key of MICRONUTRIENT_KEYS) {
+    micronutrients[key] = rounded[key];
+  }
+
+  return {
+    calories: Math.round(profile.calories),
+    protein: Math.round(profile.protein),
+    carbs: Math.round(profile.carbs),
+    fat: Math.round(profile.fat),
+    fiber: Math.round(profile.fiber),
+    sodium: Math.round(profile.sodium),
+    sugar: Math.round(profile.sugar),
+    saturatedFat: rounded.saturatedFat,
+    cholesterol: rounded.cholesterol,
+    micronutrients,
+    ...(glycemic && { glycemicLoad: glycemic.glycemicLoad, carbExchanges: glycemic.carbExchanges, glycemicCoverage: glycemic.coverage })
+  };
+}
+
+function buildAliasIndex(foods: FoodCompositionEntry[]): Map<string, FoodCompositionEntry> {
+  const index = new Map<string, FoodCompositionEntry>();
+  for (const food of foods) {
+    for (const alias of [food.name, ...food.aliases]) {
+      const key = alias.toLowerCase().trim();
+      if (!index.has(key)) index.set(key, food);
+      const normalized = normalizeIngredientName(alias);
+      if (normalized && !index.has(normalized)) index.set(normalized, food);
+    }
+  }
+  return index;
+}
+
+export function emptyProfile(): NutrientProfile {
+  return scaleProfile({} as NutrientProfile, 0);
+}
+
+// Also fills in nutrients a stored profile is missing, as zero
+export function scaleProfile(profile: NutrientProfile, factor: number): NutrientProfile {
+  const scaled = {} as NutrientProfile;
+  for (const key of NUTRIENT_KEYS) {
+    scaled[key] = (profile[key] || 0) * factor;
+  }
+  return scaled;
+}
+
+export function roundProfile(profile: NutrientProfile): NutrientProfile {
+  const rounded = {} as NutrientProfile;
+  for (const key of NUTRIENT_KEYS) {
+    rounded[key] = roundTo(profile[key], WHOLE_NUMBER_NUTRIENTS.has(key) ? 0 : 1);
+  }
+  return rounded;
+}
+
+// Whole-word match that also accepts a plural ("egg" in "eggs", "tomato" in "tomatoes")
+function endsWithTerm(name: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}(e?s)?$`).test(name);
+}
+
+// Dice coefficient over letter trigrams: 1 for identical names, tolerant of typos
+function trigramSimilarity(a: string, b: string): number {
+  const trigrams = (text: string) => {
+    const padded = `  ${text} `;
+    const grams: string[] = [];
+    for (let i = 0; i < padded.length - 2; i++) grams.push(padded.slice(i, i + 3));
+    return grams;
+  };
+
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const gram of left) {
+    const index = remaining.indexOf(gram);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
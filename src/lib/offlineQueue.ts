@@ -0,0 +1,144 @@
+// src/lib/offlineQueue.ts
+// IndexedDB-backed queue of shopping list edits waiting to reach the server
+
+import { ShoppingListItem, ShoppingListOperation } from '@/types/recipe';
+
+const DB_NAME = 'pantrypal-offline';
+const DB_VERSION = 1;
+const OPERATIONS_STORE = 'shoppingListOperations';
+const LISTS_STORE = 'shoppingLists';
+
+interface QueuedOperation {
+  opId: string;
+  userId: string;
+  operation: ShoppingListOperation;
+}
+
+// Used when IndexedDB isn't available (some private browsing modes): edits
+// survive going offline, but not a page reload
+const memoryOperations = new Map<string, QueuedOperation>();
+const memoryLists = new Map<string, ShoppingListItem[]>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let lastStamp = 0;
+
+/**
+ * An id and timestamp for a new operation. Timestamps never repeat, so the
+ * queue replays in the order edits were made even within one millisecond.
+ */
+export function newOperationStamp(): { opId: string; createdAt: string } {
+  const now = Math.max(Date.now(), lastStamp + 1);
+  lastStamp = now;
+  return { opId: `op-${now}-${Math.random().toString(36).slice(2, 8)}`, createdAt: new Date(now).toISOString() };
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+        const store = db.createObjectStore(OPERATIONS_STORE, { keyPath: 'opId' });
+        store.createIndex('userId', 'userId');
+      }
+      if (!db.objectStoreNames.contains(LISTS_STORE)) {
+        db.createObjectStore(LISTS_STORE, { keyPath: 'userId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('❌ Could not open offline storage:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function enqueueShoppingListOperation(userId: string, operation: ShoppingListOperation): Promise<void> {
+  const entry: QueuedOperation = { opId: operation.opId, userId, operation };
+  const db = await openDatabase();
+
+  if (!db) {
+    memoryOperations.set(entry.opId, entry);
+    return;
+  }
+
+  await runRequest(db.transaction(OPERATIONS_STORE, 'readwrite').objectStore(OPERATIONS_STORE).put(entry));
+}
+
+/**
+ * The user's queued operations, oldest first.
+ */
+export async function getQueuedShoppingListOperations(userId: string): Promise<ShoppingListOperation[]> {
+  const db = await openDatabase();
+
+  const entries: QueuedOperation[] = db
+    ? await runRequest(
+        db.transaction(OPERATIONS_STORE, 'readonly').objectStore(OPERATIONS_STORE).index('userId').getAll(userId)
+      )
+    : Array.from(memoryOperations.values()).filter(entry => entry.userId === userId);
+
+  return entries
+    .map(entry => entry.operation)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function removeQueuedShoppingListOperations(opIds: string[]): Promise<void> {
+  const db = await openDatabase();
+
+  if (!db) {
+    opIds.forEach(opId => memoryOperations.delete(opId));
+    return;
+  }
+
+  const transaction = db.transaction(OPERATIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(OPERATIONS_STORE);
+  opIds.forEach(opId => store.delete(opId));
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Keep the last list we got from the server so it can be shown without a connection.
+ */
+export async function cacheShoppingList(userId: string, items: ShoppingListItem[]): Promise<void> {
+  const db = await openDatabase();
+
+  if (!db) {
+    memoryLists.set(userId, items);
+    return;
+  }
+
+  await runRequest(db.transaction(LISTS_STORE, 'readwrite').objectStore(LISTS_STORE).put({ userId, items }));
+}
+
+export async function getCachedShoppingList(userId: string): Promise<ShoppingListItem[] | null> {
+  const db = await openDatabase();
+
+  if (!db) {
+    return memoryLists.get(userId) || null;
+  }
+
+  const entry = await runRequest(db.transaction(LISTS_STORE, 'readonly').objectStore(LISTS_STORE).get(userId));
+  return entry?.items || null;
+}
@@ -0,0 +1,304 @@
+// src/lib/pantry.ts
+// Pantry inventory helpers shared by the pantry routes and recipe search
+
+import { CookEvent, ExpiringIngredient, Leftover, PantryItem, PantryLocation } from '@/types/recipe';
+import { createSupabaseServerClient, DatabaseCookEvent, DatabaseLeftover, DatabasePantryItem } from './supabase';
+import { normalizeUnit } from './ingredientParser';
+import { undoDeadline } from './pantryDeduction';
+import type { NewLeftover } from './leftovers';
+
+export const PANTRY_LOCATIONS: PantryLocation[] = ['fridge', 'freezer', 'pantry'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_NOTES_LENGTH = 500;
+
+export function pantryItemFromRow(row: DatabasePantryItem): PantryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    quantity: Number(row.quantity),
+    unit: row.unit,
+    location: row.location,
+    ...(row.purchase_date && { purchaseDate: row.purchase_date }),
+    ...(row.expiry_date && { expiryDate: row.expiry_date }),
+    ...(row.notes && { notes: row.notes }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export function cookEventFromRow(row: DatabaseCookEvent): CookEvent {
+  return {
+    id: row.id,
+    ...(row.recipe_id && { recipeId: row.recipe_id }),
+    recipeTitle: row.recipe_title,
+    servings: row.servings,
+    deductions: row.deductions || [],
+    unmatchedIngredients: row.unmatched_ingredients || [],
+    cookedAt: row.cooked_at,
+    ...(row.undone_at && { undoneAt: row.undone_at }),
+    undoableUntil: undoDeadline(row.cooked_at)
+  };
+}
+
+export function leftoverFromRow(row: DatabaseLeftover): Leftover {
+  return {
+    id: row.id,
+    kind: row.kind,
+    name: row.name,
+    amount: Number(row.amount),
+    unit: row.unit,
+    ...(row.cook_event_id && { cookEventId: row.cook_event_id }),
+    ...(row.recipe_title && { recipeTitle: row.recipe_title }),
+    useBy: row.use_by,
+    createdAt: row.created_at,
+    ...(row.used_at && { usedAt: row.used_at })
+  };
+}
+
+/**
+ * Check a pantry item from a request body. With `partial`, only the fields
+ * present are checked (for updates). Returns an error message or null.
+ */
+export function validatePantryItemInput(input: any, partial = false): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Pantry item must be an object';
+  }
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'Pantry item name is required';
+    }
+  }
+
+  if (input.quantity !== undefined && (typeof input.quantity !== 'number' || !Number.isFinite(input.quantity) || input.quantity < 0)) {
+    return 'quantity must be a non-negative number';
+  }
+
+  if (input.unit !== undefined && input.unit !== null && typeof input.unit !== 'string') {
+    return 'unit must be a string';
+  }
+
+  if (input.notes !== undefined && input.notes !== null &&
+      (typeof input.notes !== 'string' || input.notes.length > MAX_NOTES_LENGTH)) {
+    return `notes must be text of at most ${MAX_NOTES_LENGTH} characters`;
+  }
+
+  if (input.location !== undefined && !PANTRY_LOCATIONS.includes(input.location)) {
+    return `location must be one of: ${PANTRY_LOCATIONS.join(', ')}`;
+  }
+
+  for (const field of ['purchaseDate', 'expiryDate']) {
+    const value = input[field];
+    if (value !== undefined && value !== null && !isCalendarDate(value)) {
+      return `${field} must be a date in YYYY-MM-DD format`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map a validated request body to database columns, keeping only the fields given.
+ */
+export function pantryItemToRow(input: any): Partial<DatabasePantryItem> {
+  const row: Partial<DatabasePantryItem> = {};
+
+  if (input.name !== undefined) row.name = input.name.trim();
+  if (input.quantity !== undefined) row.quantity = input.quantity;
+  if (input.unit !== undefined) row.unit = normalizeUnit(input.unit || 'item') || 'item';
+  if (input.location !== undefined) row.location = input.location;
+  if (input.purchaseDate !== undefined) row.purchase_date = input.purchaseDate || null;
+  if (input.expiryDate !== undefined) row.expiry_date = input.expiryDate || null;
+  if (input.notes !== undefined) row.notes = input.notes || null;
+
+  return row;
+}
+
+/**
+ * Names of everything in a user's pantry that still has some quantity left,
+ * soonest-expiring first, for seeding a recipe search.
+ */
+export async function fetchPantryIngredientNames(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  userId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('pantry_items')
+    .select('name, quantity, expiry_date')
+    .eq('user_id', userId)
+    .gt('quantity', 0)
+    .order('expiry_date', { ascending: true, nullsFirst: false });
+
+  if (error) {
+    console.error('Get pantry ingredients error:', error);
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return (data || [])
+    .map((item: { name: string }) => item.name.trim())
+    .filter((name: string) => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Pantry items that have an expiry date, in the shape the waste-reduction ranking expects.
+ */
+export async function fetchExpiringPantryItems(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  userId: string
+): Promise<ExpiringIngredient[]> {
+  const { data, error } = await supabase
+    .from('pantry_items')
+    .select('name, expiry_date')
+    .eq('user_id', userId)
+    .gt('quantity', 0)
+    .not('expiry_date', 'is', null);
+
+  if (error) {
+    console.error('Get expiring pantry items error:', error);
+    return [];
+  }
+
+  return (data || []).map((item: { name: string; expiry_date: string }) => ({
+    name: item.name,
+    useBy: item.expiry_date
+  }));
+}
+
+/**
+ * Everything the user tracks, including items that have run out, so a tracked
+ * zero can override the pantry-staple assumption.
+ */
+export async function fetchPantryItems(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  userId: string
+): Promise<PantryItem[]> {
+  const { data, error } = await supabase
+    .from('pantry_items')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Get pantry items error:', error);
+    return [];
+  }
+
+  return (data || []).map(pantryItemFromRow);
+}
+
+export interface QuantityChange {
+  pantryItemId: string;
+  change: number; // negative to take away
+}
+
+/**
+ * Add each change to the item's current quantity in one database statement, so a
+ * concurrent edit or cook event isn't overwritten. All or nothing: when a change
+ * fails, the ones already made are reversed and the error is thrown. Returns the
+ * new quantity of each item; items that no longer exist are left out.
+ */
+export async function adjustPantryQuantities(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  userId: string,
+  changes: QuantityChange[]
+): Promise<Map<string, number>> {
+  const quantities = new Map<string, number>();
+  const applied: QuantityChange[] = [];
+
+  for (const change of changes) {
+    const { data, error } = await supabase.rpc('adjust_pantry_quantity', {
+      p_item_id: change.pantryItemId,
+      p_user_id: userId,
+      p_change: change.change
+    });
+
+    if (error) {
+      for (const done of applied) {
+        const { error: reverseError } = await supabase.rpc('adjust_pantry_quantity', {
+          p_item_id: done.pantryItemId,
+          p_user_id: userId,
+          p_change: -done.change
+        });
+        if (reverseError) {
+          console.error('Reverse pantry quantity error:', reverseError);
+        }
+      }
+      throw error;
+    }
+
+    if (data !== null && data !== undefined) {
+      applied.push(change);
+      quantities.set(change.pantryItemId, Number(data));
+    }
+  }
+
+  return quantities;
+}
+
+/**
+ * Save what a cook event left behind. Throws when the insert fails, so the
+ * caller decides whether that fails the request.
+ */
+export async function recordLeftovers(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  userId: string,
+  cookEvent: Pick<CookEvent, 'id' | 'recipeTitle'>,
+  leftovers: NewLeftover[]
+): Promise<Leftover[]> {
+  if (leftovers.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('leftovers')
+    .insert(leftovers.map(leftover => ({
+      user_id: userId,
+      cook_event_id: cookEvent.id,
+      kind: leftover.kind,
+      name: leftover.name,
+      amount: leftover.amount,
+      unit: leftover.unit,
+      recipe_title: cookEvent.recipeTitle,
+      use_by: leftover.useBy
+    })))
+    .select();
+
+  if (error) throw error;
+
+  return (data || []).map(leftoverFromRow);
+}
+
+/**
+ * Leftovers not yet eaten or thrown out that are still good, soonest use-by first.
+ */
+export async function fetchOpenLeftovers(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  userId: string,
+  now: Date = new Date()
+): Promise<Leftover[]> {
+  const { data, error } = await supabase
+    .from('leftovers')
+    .select('*')
+    .eq('user_id', userId)
+    .is('used_at', null)
+    .gte('use_by', now.toISOString().slice(0, 10))
+    .order('use_by', { ascending: true });
+
+  if (error) {
+    console.error('Get leftovers error:', error);
+    return [];
+  }
+
+  return (data || []).map(leftoverFromRow);
+}
+
+// A real day, not just the shape of one: "2026-02-31" would otherwise be stored as March 3rd
+function isCalendarDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { PantryItem } from '@/types/recipe';
+import { canUndoCookEvent, findLowStockItems, planPantryDeductions } from './pantryDeduction';
+
+function item(id: string, name: string, quantity: number, unit: string, expiryDate?: string): PantryItem {
+  return { id, name, quantity, unit, location: 'pantry', ...(expiryDate && { expiryDate }) };
+}
+
+describe('planPantryDeductions', () => {
+  it('takes a more specific recipe ingredient from the general pantry item', () => {
+    const plan = planPantryDeductions(
+      [{ name: 'unsalted butter', amount: 2, unit: 'tbsp' }, { name: 'apples', amount: 2, unit: 'item' }],
+      [item('butter', 'Butter', 1, 'cup'), item('apple', 'apple', 5, 'item')]
+    );
+
+    expect(plan.unmatchedIngredients).toEqual([]);
+    expect(plan.deductions).toHaveLength(2);
+    expect(plan.deductions[0]).toMatchObject({ pantryItemId: 'butter', deducted: 0.125, remaining: 0.875 });
+    expect(plan.deductions[1]).toMatchObject({ pantryItemId: 'apple', deducted: 2, remaining: 3 });
+  });
+
+  it('does not take a flavoured or plant-based item for the plain ingredient', () => {
+    const plan = planPantryDeductions(
+      [{ name: 'salt', amount: 1, unit: 'tsp' }, { name: 'milk', amount: 1, unit: 'cup' }, { name: 'chicken', amount: 1, unit: 'lb' }],
+      [item('garlic-salt', 'garlic salt', 100, 'g'), item('coconut-milk', 'coconut milk', 2, 'cup'), item('broth', 'chicken broth', 4, 'cup')]
+    );
+
+    expect(plan.deductions).toEqual([]);
+    expect(plan.unmatchedIngredients).toEqual(['salt', 'milk', 'chicken']);
+  });
+
+  it('uses the item expiring soonest first and spills over to the next', () => {
+    const plan = planPantryDeductions(
+      [{ name: 'milk', amount: 3, unit: 'cup' }],
+      [item('later', 'milk', 4, 'cup', '2026-11-01'), item('sooner', 'milk', 2, 'cup', '2026-10-21')]
+    );
+
+    expect(plan.deductions).toEqual([
+      expect.objectContaining({ pantryItemId: 'sooner', deducted: 2, remaining: 0 }),
+      expect.objectContaining({ pantryItemId: 'later', deducted: 1, remaining: 3 })
+    ]);
+  });
+
+  it('skips optional ingredients', () => {
+    const plan = planPantryDeductions(
+      [{ name: 'parsley', amount: 1, unit: 'tbsp', optional: true }],
+      [item('parsley', 'parsley', 1, 'bunch')]
+    );
+    expect(plan).toEqual({ deductions: [], unmatchedIngredients: [] });
+  });
+});
+
+describe('findLowStockItems', () => {
+  it('flags depleted items and items too low to cook the recipe again', () => {
+    expect(findLowStockItems([
+      { pantryItemId: 'a', name: 'milk', unit: 'cup', previousQuantity: 2, deducted: 2, remaining: 0 },
+      { pantryItemId: 'b', name: 'flour', unit: 'cup', previousQuantity: 3, deducted: 2, remaining: 1 },
+      { pantryItemId: 'c', name: 'rice', unit: 'cup', previousQuantity: 10, deducted: 1, remaining: 9 }
+    ])).toEqual([
+      { pantryItemId: 'a', name: 'milk', remaining: 0, unit: 'cup', status: 'depleted', restockAmount: 2 },
+      { pantryItemId: 'b', name: 'flour', remaining: 1, unit: 'cup', status: 'low', restockAmount: 1 }
+    ]);
+  });
+});
+
+describe('canUndoCookEvent', () => {
+  it('allows an undo only inside the window and only once', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    expect(canUndoCookEvent({ undoableUntil: '2026-10-19T12:05:00Z' }, now)).toBe(true);
+    expect(canUndoCookEvent({ undoableUntil: '2026-10-19T11:59:00Z' }, now)).toBe(false);
+    expect(canUndoCookEvent({ undoableUntil: '2026-10-19T12:05:00Z', undoneAt: '2026-10-19T11:58:00Z' }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+// src/lib/pantryDeduction.ts
+// Work out what a cooked recipe takes out of the pantry, and what needs restocking
+
+import { CookEvent, Ingredient, LowStockItem, PantryDeduction, PantryItem } from '@/types/recipe';
+import { isKindOfFood } from './shoppingList';
+import { ConversionResult, convertQuantity } from './unitConversion';
+
+// How long after cooking the pantry deduction can still be undone
+export const UNDO_WINDOW_MINUTES = 10;
+
+const EPSILON = 0.0001;
+
+export interface DeductionPlan {
+  deductions: PantryDeduction[];
+  unmatchedIngredients: string[];
+}
+
+/**
+ * Match each recipe ingredient to pantry items and convert the recipe amount into
+ * the pantry item's unit. When several items match (two cartons of milk), the one
+ * expiring soonest is used first. Optional ingredients are assumed skipped.
+ */
+export function planPantryDeductions(ingredients: Ingredient[], pantryItems: PantryItem[]): DeductionPlan {
+  const remaining = new Map(pantryItems.map(item => [item.id, item.quantity]));
+  const deductions = new Map<string, PantryDeduction>();
+  const unmatchedIngredients: string[] = [];
+
+  const byExpiry = [...pantryItems].sort((a, b) =>
+    (a.expiryDate || '9999-12-31').localeCompare(b.expiryDate || '9999-12-31')
+  );
+
+  for (const ingredient of ingredients) {
+    if (!ingredient?.name || ingredient.optional || !(ingredient.amount > 0)) continue;
+
+    // Pantry "butter" covers "unsalted butter", but pantry "garlic salt" isn't the recipe's salt
+    const candidates = byExpiry.filter(item => isKindOfFood(ingredient.name, item.name));
+    let stillNeeded: number | null = null; // tracked in the first convertible item's unit
+    let neededUnit = '';
+    let matched = false;
+
+    for (const item of candidates) {
+      const available = remaining.get(item.id) || 0;
+      if (available <= EPSILON) continue;
+
+      const conversion: ConversionResult | null = stillNeeded === null
+        ? convertQuantity(ingredient.amount, ingredient.unit, item.unit, ingredient.name, ingredient.packageSize)
+        : convertQuantity(stillNeeded, neededUnit, item.unit, ingredient.name);
+      if (!conversion) continue;
+
+      matched = true;
+      const take = Math.min(available, conversion.amount);
+      remaining.set(item.id, available - take);
+
+      const existing = deductions.get(item.id);
+      deductions.set(item.id, {
+        pantryItemId: item.id,
+        name: item.name,
+        unit: item.unit,
+        previousQuantity: item.quantity,
+        deducted: roundQuantity((existing?.deducted || 0) + take),
+        remaining: roundQuantity(available - take),
+        ...((conversion.approximate || existing?.approximate) && { approximate: true })
+      });
+
+      stillNeeded = conversion.amount - take;
+      neededUnit = item.unit;
+      if (stillNeeded <= EPSILON) break;
+    }
+
+    if (!matched) {
+      unmatchedIngredients.push(ingredient.name);
+    }
+  }
+
+  return { deductions: Array.from(deductions.values()), unmatchedIngredients };
+}
+
+/**
+ * Items used up completely, or with too little left to cook the recipe again.
+ */
+export function findLowStockItems(deductions: PantryDeduction[]): LowStockItem[] {
+  return deductions
+    .filter(deduction => deduction.remaining < deduction.deducted - EPSILON || deduction.remaining <= EPSILON)
+    .map(deduction => {
+      const depleted = deduction.remaining <= EPSILON;
+      return {
+        pantryItemId: deduction.pantryItemId,
+        name: deduction.name,
+        remaining: depleted ? 0 : deduction.remaining,
+        unit: deduction.unit,
+        status: depleted ? 'depleted' as const : 'low' as const,
+        restockAmount: roundQuantity(depleted ? deduction.deducted : deduction.deducted - deduction.remaining)
+      };
+    });
+}
+
+export function undoDeadline(cookedAt: string): string {
+  return new Date(new Date(cookedAt).getTime() + UNDO_WINDOW_MINUTES * 60 * 1000).toISOString();
+}
+
+export function canUndoCookEvent(cookEvent: Pick<CookEvent, 'undoneAt' | 'undoableUntil'>, now: Date = new Date()): boolean {
+  return !cookEvent.undoneAt && now.getTime() <= new Date(cookEvent.undoableUntil).getTime();
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { PantryItem, ShoppingListItem } from '@/types/recipe';
+import { applyPantryToShoppingList, spreadOwnedAmount } from './pantryShopping';
+import { isPantryStaple } from './utils';
+
+function pantry(id: string, name: string, quantity: number, unit: string): PantryItem {
+  return { id, name, quantity, unit, location: 'fridge' };
+}
+
+function line(name: string, amount?: number, unit?: string): ShoppingListItem {
+  return { id: `item-${name}`, name, ...(amount !== undefined && { amount, unit }), checked: false, isAlreadyOwned: false };
+}
+
+describe('isPantryStaple', () => {
+  it.each([
+    ['salt', true],
+    ['Kosher salt', true],
+    ['freshly ground black pepper', true],
+    ['extra virgin olive oil', true],
+    ['all-purpose flour', true],
+    ['pepper', true],
+    ['garlic salt', false],
+    ['almond flour', false],
+    ['sesame oil', false],
+    ['red bell pepper', false],
+    ['salted butter', false]
+  ])('%s is a staple: %s', (name, expected) => {
+    expect(isPantryStaple(name)).toBe(expected);
+  });
+
+  it('lets the user override the defaults by name', () => {
+    expect(isPantryStaple('sugar', { assumeOwned: [], alwaysBuy: ['sugar'] })).toBe(false);
+    expect(isPantryStaple('sesame oil', { assumeOwned: ['sesame oil'], alwaysBuy: [] })).toBe(true);
+    expect(isPantryStaple('toasted sesame oil', { assumeOwned: ['sesame oil'], alwaysBuy: [] })).toBe(false);
+  });
+});
+
+describe('applyPantryToShoppingList', () => {
+  it('adds up every matching pantry item and lists what is still to buy', () => {
+    const [milk] = applyPantryToShoppingList(
+      [line('milk', 4, 'cup')],
+      [pantry('a', 'milk', 1, 'cup'), pantry('b', 'Milk', 16, 'tbsp')]
+    );
+    expect(milk).toMatchObject({ isAlreadyOwned: false, ownedAmount: 2, amountToBuy: 2 });
+  });
+
+  it('lets a tracked empty item override the staple assumption', () => {
+    const [flour, sugar] = applyPantryToShoppingList(
+      [line('flour', 2, 'cup'), line('sugar', 1, 'cup')],
+      [pantry('a', 'flour', 0, 'cup')]
+    );
+    expect(flour.isAlreadyOwned).toBe(false);
+    expect(sugar).toMatchObject({ isAlreadyOwned: true, isPantryStaple: true });
+  });
+});
+
+describe('spreadOwnedAmount', () => {
+  it('shares the owned total between matching items in their current proportions', () => {
+    const spread = spreadOwnedAmount(
+      [pantry('a', 'milk', 1, 'cup'), pantry('b', 'milk', 48, 'tbsp')],
+      2,
+      'cup',
+      'milk'
+    );
+    expect(spread.map(({ pantryItem, quantity }) => [pantryItem.id, quantity])).toEqual([['a', 0.5], ['b', 24]]);
+  });
+
+  it('puts the amount on the first item when all have run out', () => {
+    const spread = spreadOwnedAmount([pantry('a', 'milk', 0, 'l'), pantry('b', 'milk', 0, 'cup')], 2, 'cup', 'milk');
+    expect(spread[0].pantryItem.id).toBe('a');
+    expect(spread[0].quantity).toBeCloseTo(0.473, 3);
+    expect(spread[1]).toMatchObject({ quantity: 0 });
+  });
+
+  it('returns nothing when no item converts to the line unit', () => {
+    expect(spreadOwnedAmount([pantry('a', 'milk', 1, 'cup')], 2, 'bottle', 'milk')).toEqual([]);
+  });
+});
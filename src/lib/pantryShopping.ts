@@ -0,0 +1,135 @@
+// src/lib/pantryShopping.ts
+// Compare a shopping list against what the user already owns
+
+import { PantryItem, PantryStapleOverrides, ShoppingListItem } from '@/types/recipe';
+import { normalizeIngredientName, roundForShopping } from './shoppingList';
+import { convertQuantity } from './unitConversion';
+import { isPantryStaple } from './utils';
+
+const EPSILON = 0.0001;
+
+export const EMPTY_STAPLE_OVERRIDES: PantryStapleOverrides = { assumeOwned: [], alwaysBuy: [] };
+
+/**
+ * Read staple overrides from `user_data.preferences`, dropping anything malformed.
+ */
+export function stapleOverridesFromPreferences(preferences: any): PantryStapleOverrides {
+  const raw = preferences?.stapleOverrides;
+  const clean = (list: unknown): string[] => Array.isArray(list)
+    ? Array.from(new Set(list.filter((name): name is string => typeof name === 'string' && !!name.trim()).map(name => name.trim().toLowerCase())))
+    : [];
+
+  return { assumeOwned: clean(raw?.assumeOwned), alwaysBuy: clean(raw?.alwaysBuy) };
+}
+
+/**
+ * Mark each open line as owned, partly owned (with the amount still to buy) or
+ * needed. A pantry record for the item beats the staple assumption: if the user
+ * tracks their flour and it's run out, flour goes on the list.
+ */
+export function applyPantryToShoppingList(
+  items: ShoppingListItem[],
+  pantryItems: PantryItem[],
+  stapleOverrides: PantryStapleOverrides = EMPTY_STAPLE_OVERRIDES
+): ShoppingListItem[] {
+  const pantryByKey = new Map<string, PantryItem[]>();
+  for (const pantryItem of pantryItems) {
+    const key = normalizeIngredientName(pantryItem.name);
+    pantryByKey.set(key, [...(pantryByKey.get(key) || []), pantryItem]);
+  }
+
+  return items.map(item => {
+    if (item.checked) return item;
+
+    // Start from a clean slate: the pantry may have changed since the last check
+    const base: ShoppingListItem = { ...item, isAlreadyOwned: false };
+    delete base.ownedAmount;
+    delete base.amountToBuy;
+    delete base.isPantryStaple;
+
+    const matches = pantryByKey.get(normalizeIngredientName(item.name));
+
+    if (matches && matches.length > 0) {
+      if (!(item.amount && item.amount > 0) || !item.unit) {
+        return { ...base, isAlreadyOwned: matches.some(match => match.quantity > EPSILON) };
+      }
+
+      const owned = ownedAmountIn(matches, item.unit, item.name);
+      if (owned === null) {
+        return base;
+      }
+      if (owned >= item.amount - EPSILON) {
+        return { ...base, isAlreadyOwned: true, ownedAmount: roundQuantity(owned) };
+      }
+      if (owned > EPSILON) {
+        return {
+          ...base,
+          ownedAmount: roundQuantity(owned),
+          amountToBuy: roundForShopping(item.amount - owned, item.unit)
+        };
+      }
+      return base;
+    }
+
+    if (isPantryStaple(item.name, stapleOverrides)) {
+      return { ...base, isAlreadyOwned: true, isPantryStaple: true };
+    }
+
+    return base;
+  });
+}
+
+/**
+ * New quantities for the pantry items matching a list line when the user says they
+ * have `quantity` of it in `unit`. The owned amount is the total across those items,
+ * so it's shared between them in their current proportions (or put on the first
+ * when all have run out). Empty when none convert to the line's unit.
+ */
+export function spreadOwnedAmount(
+  matches: PantryItem[],
+  quantity: number,
+  unit: string,
+  name: string
+): Array<{ pantryItem: PantryItem; quantity: number }> {
+  const convertible = matches
+    .map(pantryItem => ({ pantryItem, conversion: convertQuantity(pantryItem.quantity, pantryItem.unit, unit, name) }))
+    .filter(({ conversion }) => conversion && !conversion.approximate);
+  if (convertible.length === 0) return [];
+
+  const currentTotal = convertible.reduce((sum, { conversion }) => sum + conversion!.amount, 0);
+  if (currentTotal > EPSILON) {
+    const ratio = quantity / currentTotal;
+    return convertible.map(({ pantryItem }) => ({ pantryItem, quantity: roundPantryQuantity(pantryItem.quantity * ratio) }));
+  }
+
+  const [first, ...rest] = convertible.map(({ pantryItem }) => pantryItem);
+  const firstQuantity = convertQuantity(quantity, unit, first.unit, name);
+  if (!firstQuantity) return [];
+  return [
+    { pantryItem: first, quantity: roundPantryQuantity(firstQuantity.amount) },
+    ...rest.map(pantryItem => ({ pantryItem, quantity: 0 }))
+  ];
+}
+
+// Total of the matching pantry items in the list line's unit, or null when none convert
+function ownedAmountIn(matches: PantryItem[], unit: string, name: string): number | null {
+  let total = 0;
+  let converted = false;
+
+  for (const match of matches) {
+    const conversion = convertQuantity(match.quantity, match.unit, unit, name);
+    if (!conversion || conversion.approximate) continue;
+    total += conversion.amount;
+    converted = true;
+  }
+
+  return converted ? total : null;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundPantryQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { PriceObservation } from '@/types/recipe';
+import { findPriceAlerts, summarizePriceTrend, validatePriceReport } from './priceHistory';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+function seen(storeId: string, observedOn: string, unitPrice: number, extra: Partial<PriceObservation> = {}): PriceObservation {
+  return {
+    id: `${storeId}-${observedOn}`,
+    ingredientKey: 'rice',
+    ingredientName: 'rice',
+    storeId,
+    unit: 'lb',
+    unitPrice,
+    source: 'provider',
+    observedOn,
+    ...extra
+  };
+}
+
+// The same store on several days, oldest first
+function history(storeId: string, prices: Array<[string, number]>): PriceObservation[] {
+  return prices.map(([day, price]) => seen(storeId, day, price));
+}
+
+describe('summarizePriceTrend', () => {
+  it('does not read the gap between stores in one comparison as a deal', () => {
+    const trend = summarizePriceTrend([
+      seen('aldi', '2026-10-19', 1),
+      seen('kroger', '2026-10-19', 1.37),
+      seen('target', '2026-10-19', 1.4),
+      seen('whole_foods', '2026-10-19', 1.9),
+      seen('walmart', '2026-10-19', 1.2)
+    ], { now });
+
+    expect(trend).toMatchObject({ currentStoreId: 'aldi', currentPrice: 1, typicalPrice: 1, isGoodDeal: false });
+  });
+
+  it('does not call a store that is always cheapest a deal', () => {
+    const days = ['2026-09-01', '2026-09-15', '2026-10-01', '2026-10-18'];
+    const trend = summarizePriceTrend([
+      ...history('aldi', days.map(day => [day, 1])),
+      ...history('kroger', days.map(day => [day, 1.5]))
+    ], { now });
+
+    expect(trend).toMatchObject({ currentStoreId: 'aldi', isGoodDeal: false, direction: 'steady' });
+  });
+
+  it('flags a store well below its own usual price once it has enough days of history', () => {
+    const trend = summarizePriceTrend([
+      ...history('kroger', [['2026-09-01', 2], ['2026-09-15', 2], ['2026-10-01', 2.1], ['2026-10-10', 2]]),
+      seen('kroger', '2026-10-18', 1.6, { promotion: 'Sale' }),
+      ...history('aldi', [['2026-09-01', 1.5], ['2026-10-18', 1.5]])
+    ], { now, storeName: id => id.toUpperCase() });
+
+    expect(trend).toMatchObject({
+      currentStoreId: 'kroger',
+      currentPrice: 1.6,
+      typicalPrice: 2,
+      lowestPrice: 1.6,
+      isGoodDeal: true,
+      dealReason: '$1.60/lb at KROGER, 20% below its usual $2.00/lb, the lowest there in 90 days (Sale)'
+    });
+  });
+
+  it('needs the store seen on several days, not several times on one day', () => {
+    const trend = summarizePriceTrend([
+      ...history('kroger', [['2026-09-01', 2], ['2026-09-01', 2], ['2026-09-01', 2]]),
+      seen('kroger', '2026-10-18', 1.5)
+    ], { now });
+
+    expect(trend!.isGoodDeal).toBe(false);
+  });
+
+  it('takes the trend from each store against itself', () => {
+    const trend = summarizePriceTrend([
+      ...history('aldi', [['2026-09-01', 1], ['2026-10-15', 1.2]]),
+      ...history('whole_foods', [['2026-09-01', 3], ['2026-10-15', 3.6]])
+    ], { now });
+
+    expect(trend).toMatchObject({ direction: 'rising', changePercent: 20 });
+  });
+
+  it('compares prices in the unit most observations use and skips ones that do not convert', () => {
+    const trend = summarizePriceTrend([
+      seen('aldi', '2026-10-18', 2.2, { unit: 'kg' }),
+      seen('kroger', '2026-10-18', 1.2),
+      seen('target', '2026-10-18', 1.3),
+      seen('walmart', '2026-10-18', 0.5, { unit: 'bag' })
+    ], { now });
+
+    expect(trend).toMatchObject({ unit: 'lb', currentStoreId: 'aldi', observationCount: 3 });
+    expect(trend!.currentPrice).toBeCloseTo(0.998, 3);
+  });
+
+  it('returns null without observations', () => {
+    expect(summarizePriceTrend([], { now })).toBeNull();
+  });
+});
+
+describe('findPriceAlerts', () => {
+  it('alerts only on deals for ingredients bought often', () => {
+    const deal = summarizePriceTrend([
+      ...history('kroger', [['2026-09-01', 2], ['2026-09-15', 2], ['2026-10-01', 2], ['2026-10-18', 1.5]])
+    ], { now })!;
+    const purchases = new Map([['rice', { name: 'Rice', count: 3 }]]);
+
+    expect(findPriceAlerts([deal], purchases)).toMatchObject([
+      { ingredientName: 'Rice', storeId: 'kroger', percentBelow: 25, message: 'Rice is 25% below its usual price at kroger' }
+    ]);
+    expect(findPriceAlerts([deal], new Map([['rice', { name: 'Rice', count: 1 }]]))).toEqual([]);
+  });
+});
+
+describe('validatePriceReport', () => {
+  it.each([
+    [{ name: 'rice', storeId: 'kroger', price: 3, amount: 2, unit: 'lb' }, null],
+    [{ name: ' ', storeId: 'kroger', price: 3, amount: 2 }, 'Ingredient name is required'],
+    [{ name: 'rice', storeId: 'kroger', price: 0, amount: 2 }, 'price must be a positive number'],
+    [{ name: 'rice', storeId: 'kroger', price: 3, amount: 2, regularPrice: 2 }, 'regularPrice must be a number no lower than price']
+  ])('%o -> %s', (input, expected) => {
+    expect(validatePriceReport(input)).toBe(expected);
+  });
+});
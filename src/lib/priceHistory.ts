@@ -0,0 +1,468 @@
+// src/lib/priceHistory.ts
+// Store prices recorded over time, with trends, deal signals and alerts built from them
+
+import { PriceAlert, PriceData, PriceObservation, PriceTrend, Recipe } from '@/types/recipe';
+import { createSupabaseServerClient, DatabasePriceObservation } from './supabase';
+import { normalizeIngredientName } from './shoppingList';
+import { normalizeUnit } from './ingredientParser';
+import { convertQuantity } from './unitConversion';
+import { estimateRealisticPrice } from './realisticEstimator';
+import { formatPrice } from './utils';
+
+type SupabaseClient = ReturnType<typeof createSupabaseServerClient>;
+
+interface ObservedPrice {
+  observation: PriceObservation;
+  observedOn: string;
+  price: number; // in the unit the observations are compared in
+}
+
+export const PRICE_HISTORY_DAYS = 90;
+
+const CURRENT_DAYS = 7; // what "the price right now" looks back over
+const RECENT_DAYS = 14; // recent half of the trend comparison
+const TREND_THRESHOLD_PERCENT = 5;
+const GOOD_DEAL_DISCOUNT = 0.1;
+const MIN_DAYS_FOR_DEAL = 4; // days a store's price has been seen on before it can be called a deal
+const FREQUENT_PURCHASE_COUNT = 2;
+
+// Matches the table's unique constraint, so a store's price is kept once per day
+export const OBSERVATION_CONFLICT_COLUMNS = 'ingredient_key,store_id,unit,observed_on,reported_by';
+
+export function priceObservationFromRow(row: DatabasePriceObservation): PriceObservation {
+  return {
+    id: row.id,
+    ingredientKey: row.ingredient_key,
+    ingredientName: row.ingredient_name,
+    storeId: row.store_id,
+    unit: row.unit,
+    unitPrice: Number(row.unit_price),
+    ...(row.regular_unit_price !== null && { regularUnitPrice: Number(row.regular_unit_price) }),
+    ...(row.promotion && { promotion: row.promotion }),
+    source: row.reported_by ? 'user' : 'provider',
+    observedOn: row.observed_on
+  };
+}
+
+/**
+ * Rows for the in-stock prices in a store comparison, one per ingredient and store.
+ * Only prices for whole catalog packages are kept: their unit price is the
+ * store's own, whereas a price for the exact amount asked for would divide by
+ * whatever amount the caller sent.
+ */
+export function observationRowsFromQuotes(
+  comparisons: PriceData[],
+  observedOn = toDateString(new Date())
+): Partial<DatabasePriceObservation>[] {
+  const rows = new Map<string, Partial<DatabasePriceObservation>>();
+
+  for (const { store, items } of comparisons) {
+    for (const item of items) {
+      if (!item.inStock || !item.packages || !(item.price > 0)) continue;
+
+      // Per unit of what was bought, not of what the recipe needed
+      const ingredientKey = normalizeIngredientName(item.ingredient.name);
+      const unit = normalizeUnit(item.packages.unit);
+      const amount = item.packages.purchasedAmount;
+      const rowKey = `${ingredientKey}|${store.id}|${unit}`;
+      if (rows.has(rowKey) || !(amount > 0)) continue;
+
+      rows.set(rowKey, {
+        ingredient_key: ingredientKey,
+        ingredient_name: item.ingredient.name,
+        store_id: store.id,
+        unit,
+        unit_price: roundUnitPrice(item.price / amount),
+        regular_unit_price: item.originalPrice ? roundUnitPrice(item.originalPrice / amount) : null,
+        promotion: item.promotion || null,
+        reported_by: null,
+        observed_on: observedOn
+      });
+    }
+  }
+
+  return Array.from(rows.values());
+}
+
+/**
+ * Save provider quotes. The first quote of the day for an ingredient at a
+ * store is kept; later identical requests don't add rows.
+ */
+export async function recordQuotedPrices(supabase: SupabaseClient, comparisons: PriceData[]): Promise<void> {
+  const rows = observationRowsFromQuotes(comparisons);
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('price_observations')
+    .upsert(rows, { onConflict: OBSERVATION_CONFLICT_COLUMNS, ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Record price observations error:', error);
+  }
+}
+
+/**
+ * Check a price the user paid. Returns an error message or null.
+ */
+export function validatePriceReport(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Price report must be an object';
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Ingredient name is required';
+  }
+  if (typeof input.storeId !== 'string' || !input.storeId.trim() || input.storeId.length > 60) {
+    return 'storeId is required';
+  }
+  if (typeof input.price !== 'number' || !Number.isFinite(input.price) || input.price <= 0) {
+    return 'price must be a positive number';
+  }
+  if (typeof input.amount !== 'number' || !Number.isFinite(input.amount) || input.amount <= 0) {
+    return 'amount must be a positive number';
+  }
+  if (input.unit !== undefined && typeof input.unit !== 'string') {
+    return 'unit must be a string';
+  }
+  if (input.regularPrice !== undefined &&
+      (typeof input.regularPrice !== 'number' || !Number.isFinite(input.regularPrice) || input.regularPrice < input.price)) {
+    return 'regularPrice must be a number no lower than price';
+  }
+  return null;
+}
+
+export function priceReportToRow(input: any, userId: string): Partial<DatabasePriceObservation> {
+  return {
+    ingredient_key: normalizeIngredientName(input.name),
+    ingredient_name: input.name.trim(),
+    store_id: input.storeId.trim(),
+    unit: normalizeUnit(input.unit || ''),
+    unit_price: roundUnitPrice(input.price / input.amount),
+    regular_unit_price: input.regularPrice !== undefined ? roundUnitPrice(input.regularPrice / input.amount) : null,
+    promotion: typeof input.promotion === 'string' && input.promotion.trim() ? input.promotion.trim() : null,
+    reported_by: userId,
+    observed_on: toDateString(new Date())
+  };
+}
+
+/**
+ * Recorded prices for the ingredients: provider quotes, plus the prices
+ * `userId` reported themselves. Other users' reports are never mixed in, so no
+ * one can move someone else's trends or recipe costs.
+ */
+export async function fetchPriceObservations(
+  supabase: SupabaseClient,
+  ingredientKeys: string[],
+  userId: string | null,
+  days = PRICE_HISTORY_DAYS
+): Promise<PriceObservation[]> {
+  if (ingredientKeys.length === 0) return [];
+
+  const query = supabase
+    .from('price_observations')
+    .select('*')
+    .in('ingredient_key', ingredientKeys)
+    .gte('observed_on', toDateString(daysAgo(new Date(), days)));
+  const { data, error } = await (userId
+    ? query.or(`reported_by.is.null,reported_by.eq.${userId}`)
+    : query.is('reported_by', null)
+  ).order('observed_on', { ascending: true });
+
+  if (error) {
+    console.error('Get price observations error:', error);
+    return [];
+  }
+
+  return (data || []).map(priceObservationFromRow);
+}
+
+/**
+ * Trend and deal signal for one ingredient's observations.
+ *
+ * Prices are compared in the unit most observations use; any that can't be
+ * converted to it are left out. Each store is measured against its own
+ * history, so one store being cheaper than another is never read as a deal:
+ * a store's price is a deal when this week's price is well under its median
+ * over the window and it has been seen on at least MIN_DAYS_FOR_DEAL days.
+ * The trend is reported for the store with the biggest deal, or otherwise the
+ * cheapest store this week.
+ */
+export function summarizePriceTrend(
+  observations: PriceObservation[],
+  options: { now?: Date; storeName?: (storeId: string) => string } = {}
+): PriceTrend | null {
+  const priced = pricesInCommonUnit(observations);
+  if (!priced) return null;
+
+  const now = options.now || new Date();
+  const storeName = options.storeName || ((storeId: string) => storeId);
+  const { unit, prices } = priced;
+  const currentSince = toDateString(daysAgo(now, CURRENT_DAYS));
+  const recentSince = toDateString(daysAgo(now, RECENT_DAYS));
+
+  const stores = Array.from(dailyPricesByStore(prices).values()).map(days => {
+    const dayPrices = days.map(day => day.price);
+    const typicalPrice = median(dayPrices);
+    const latest = days[days.length - 1];
+    const recent = days.filter(day => day.observedOn >= recentSince).map(day => day.price);
+    const earlier = days.filter(day => day.observedOn < recentSince).map(day => day.price);
+    return {
+      latest,
+      typicalPrice,
+      lowestPrice: Math.min(...dayPrices),
+      highestPrice: Math.max(...dayPrices),
+      changePercent: recent.length > 0 && earlier.length > 0
+        ? (median(recent) - median(earlier)) / median(earlier) * 100
+        : null,
+      isGoodDeal: days.length >= MIN_DAYS_FOR_DEAL && latest.observedOn >= currentSince &&
+        latest.price <= typicalPrice * (1 - GOOD_DEAL_DISCOUNT)
+    };
+  });
+
+  // Stores seen this week, or on the latest day seen if nothing is that fresh
+  const latestDay = stores.reduce((latest, store) => store.latest.observedOn > latest ? store.latest.observedOn : latest, '');
+  const currentStores = stores.filter(store => store.latest.observedOn >= currentSince);
+  const candidates = currentStores.length > 0 ? currentStores : stores.filter(store => store.latest.observedOn === latestDay);
+  const deals = candidates.filter(store => store.isGoodDeal);
+  const chosen = deals.length > 0
+    ? deals.reduce((best, store) => store.latest.price / store.typicalPrice < best.latest.price / best.typicalPrice ? store : best)
+    : candidates.reduce((best, store) => store.latest.price < best.latest.price ? store : best);
+
+  // The typical store's change, so one store's sale doesn't move the trend
+  const changes = stores.map(store => store.changePercent).filter((change): change is number => change !== null);
+  const changePercent = changes.length > 0 ? Math.round(median(changes)) : null;
+  const direction = changePercent === null || Math.abs(changePercent) < TREND_THRESHOLD_PERCENT
+    ? 'steady'
+    : changePercent > 0 ? 'rising' : 'falling';
+
+  const current = chosen.latest;
+  const typicalPrice = roundUnitPrice(chosen.typicalPrice);
+  const percentBelow = Math.round((1 - current.price / chosen.typicalPrice) * 100);
+
+  return {
+    ingredientKey: observations[0].ingredientKey,
+    unit,
+    currentPrice: roundUnitPrice(current.price),
+    currentStoreId: current.observation.storeId,
+    typicalPrice,
+    lowestPrice: roundUnitPrice(chosen.lowestPrice),
+    highestPrice: roundUnitPrice(chosen.highestPrice),
+    direction,
+    changePercent,
+    isGoodDeal: chosen.isGoodDeal,
+    ...(chosen.isGoodDeal && {
+      dealReason: `${formatUnitPrice(current.price, unit)} at ${storeName(current.observation.storeId)}, ` +
+        `${percentBelow}% below its usual ${formatUnitPrice(typicalPrice, unit)}` +
+        (current.price <= chosen.lowestPrice ? `, the lowest there in ${PRICE_HISTORY_DAYS} days` : '') +
+        (current.observation.promotion ? ` (${current.observation.promotion})` : '')
+    }),
+    observationCount: prices.length,
+    windowDays: PRICE_HISTORY_DAYS
+  };
+}
+
+/**
+ * How often the user bought each ingredient lately: once per cooked recipe
+ * that used it from the pantry, and once per day they reported paying for it.
+ */
+export async function fetchPurchaseCounts(
+  supabase: SupabaseClient,
+  userId: string,
+  days = PRICE_HISTORY_DAYS
+): Promise<Map<string, { name: string; count: number }>> {
+  const since = daysAgo(new Date(), days);
+  const counts = new Map<string, { name: string; count: number; days: Set<string> }>();
+  const count = (name: string, day: string) => {
+    const key = normalizeIngredientName(name);
+    const entry = counts.get(key) || { name, count: 0, days: new Set<string>() };
+    if (!entry.days.has(day)) {
+      entry.days.add(day);
+      entry.count += 1;
+    }
+    counts.set(key, entry);
+  };
+
+  const { data: cookEvents, error: cookError } = await supabase
+    .from('cook_events')
+    .select('deductions, cooked_at')
+    .eq('user_id', userId)
+    .is('undone_at', null)
+    .gte('cooked_at', since.toISOString());
+
+  if (cookError) {
+    console.error('Get cook events for purchase counts error:', cookError);
+  }
+
+  for (const event of cookEvents || []) {
+    for (const deduction of Array.isArray(event.deductions) ? event.deductions : []) {
+      if (typeof deduction?.name === 'string') count(deduction.name, event.cooked_at);
+    }
+  }
+
+  const { data: reports, error: reportError } = await supabase
+    .from('price_observations')
+    .select('ingredient_name, observed_on')
+    .eq('reported_by', userId)
+    .gte('observed_on', toDateString(since));
+
+  if (reportError) {
+    console.error('Get price reports for purchase counts error:', reportError);
+  }
+
+  for (const report of reports || []) {
+    count(report.ingredient_name, report.observed_on);
+  }
+
+  return new Map(Array.from(counts.entries()).map(([key, { name, count }]) => [key, { name, count }]));
+}
+
+/**
+ * Alerts for ingredients bought at least FREQUENT_PURCHASE_COUNT times that
+ * are a good deal right now, biggest discount first.
+ */
+export function findPriceAlerts(
+  trends: PriceTrend[],
+  purchaseCounts: Map<string, { name: string; count: number }>,
+  storeName: (storeId: string) => string = storeId => storeId
+): PriceAlert[] {
+  return trends
+    .filter(trend => trend.isGoodDeal && (purchaseCounts.get(trend.ingredientKey)?.count || 0) >= FREQUENT_PURCHASE_COUNT)
+    .map(trend => {
+      const purchases = purchaseCounts.get(trend.ingredientKey)!;
+      const percentBelow = Math.round((1 - trend.currentPrice / trend.typicalPrice) * 100);
+      return {
+        ingredientKey: trend.ingredientKey,
+        ingredientName: purchases.name,
+        storeId: trend.currentStoreId,
+        unit: trend.unit,
+        price: trend.currentPrice,
+        typicalPrice: trend.typicalPrice,
+        percentBelow,
+        timesBought: purchases.count,
+        message: `${purchases.name} is ${percentBelow}% below its usual price at ${storeName(trend.currentStoreId)}`
+      };
+    })
+    .sort((a, b) => b.percentBelow - a.percentBelow);
+}
+
+/**
+ * Typical unit prices for the given ingredient names, keyed by normalized name:
+ * the median of every store's prices over the window.
+ */
+export async function fetchTypicalPrices(
+  supabase: SupabaseClient,
+  ingredientNames: string[],
+  userId: string | null
+): Promise<Map<string, { unit: string; unitPrice: number }>> {
+  const keys = Array.from(new Set(ingredientNames.map(normalizeIngredientName)));
+  const observations = await fetchPriceObservations(supabase, keys, userId);
+  const typical = new Map<string, { unit: string; unitPrice: number }>();
+
+  for (const [key, group] of groupByIngredient(observations)) {
+    const priced = pricesInCommonUnit(group);
+    if (priced) {
+      typical.set(key, { unit: priced.unit, unitPrice: roundUnitPrice(median(priced.prices.map(entry => entry.price))) });
+    }
+  }
+
+  return typical;
+}
+
+/**
+ * Re-price recipe ingredients from recorded typical prices, where there are any.
+ */
+export function applyTypicalPrices(
+  recipes: Recipe[],
+  typicalPrices: Map<string, { unit: string; unitPrice: number }>
+): Recipe[] {
+  if (typicalPrices.size === 0) return recipes;
+
+  return recipes.map(recipe => {
+    let repriced = false;
+    const ingredients = recipe.ingredients.map(ingredient => {
+      const typical = typicalPrices.get(normalizeIngredientName(ingredient.name));
+      if (!typical) return ingredient;
+      repriced = true;
+      return { ...ingredient, estimatedPrice: estimateRealisticPrice(ingredient.name, ingredient.amount, ingredient.unit, typical) };
+    });
+
+    if (!repriced) return recipe;
+
+    const totalCost = ingredients.reduce((sum, ingredient) => sum + (ingredient.estimatedPrice || 0), 0);
+    return {
+      ...recipe,
+      ingredients,
+      costPerServing: Math.round((totalCost / (recipe.servings || 1)) * 100) / 100,
+      estimatedCost: Math.round(totalCost * 100) / 100
+    };
+  });
+}
+
+export function groupByIngredient(observations: PriceObservation[]): Map<string, PriceObservation[]> {
+  const groups = new Map<string, PriceObservation[]>();
+  for (const observation of observations) {
+    groups.set(observation.ingredientKey, [...(groups.get(observation.ingredientKey) || []), observation]);
+  }
+  return groups;
+}
+
+// Observations priced in the unit most of them use, oldest first; null if none convert
+function pricesInCommonUnit(observations: PriceObservation[]): { unit: string; prices: ObservedPrice[] } | null {
+  if (observations.length === 0) return null;
+
+  const unit = mostCommon(observations.map(observation => observation.unit));
+  const prices = observations
+    .map(observation => ({ observation, observedOn: observation.observedOn, price: priceInUnit(observation, unit) }))
+    .filter((entry): entry is ObservedPrice => entry.price !== null)
+    .sort((a, b) => a.observedOn.localeCompare(b.observedOn));
+
+  return prices.length > 0 ? { unit, prices } : null;
+}
+
+// Each store's cheapest price per day, oldest first, so a provider quote and the
+// user's own report on the same day count as one day of history
+function dailyPricesByStore(prices: ObservedPrice[]): Map<string, ObservedPrice[]> {
+  const stores = new Map<string, Map<string, ObservedPrice>>();
+  for (const entry of prices) {
+    const days = stores.get(entry.observation.storeId) || new Map<string, ObservedPrice>();
+    const seen = days.get(entry.observedOn);
+    if (!seen || entry.price < seen.price) days.set(entry.observedOn, entry);
+    stores.set(entry.observation.storeId, days);
+  }
+  return new Map(Array.from(stores.entries()).map(([storeId, days]) => [storeId, Array.from(days.values())]));
+}
+
+// One observation's price for a single `unit`, or null if the units don't convert
+// exactly; a guessed weight per bag or item would make up a price
+function priceInUnit(observation: PriceObservation, unit: string): number | null {
+  if (observation.unit === unit) return observation.unitPrice;
+  const converted = convertQuantity(1, unit, observation.unit, observation.ingredientKey);
+  return converted && !converted.approximate ? observation.unitPrice * converted.amount : null;
+}
+
+function formatUnitPrice(price: number, unit: string): string {
+  return `${formatPrice(price)}/${unit || 'each'}`;
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function roundUnitPrice(price: number): number {
+  return Math.round(price * 10000) / 10000;
+}
+
+function daysAgo(date: Date, days: number): Date {
+  return new Date(date.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { GroceryStore } from '@/types/recipe';
+import { comparePrices, PriceProvider } from './priceProvider';
+
+const store = { id: 'corner', name: 'Corner Shop', deliveryFee: 4.99, deliveryTime: '1 hour' } as GroceryStore;
+
+const provider: PriceProvider = {
+  id: 'fake',
+  async listStores() {
+    return [store];
+  },
+  async quoteItems(quotedStore, ingredients) {
+    return ingredients.map(ingredient => ({
+      ingredient,
+      storeId: quotedStore.id,
+      price: ingredient.name === 'milk' ? 3 : 2,
+      unit: ingredient.unit,
+      inStock: ingredient.name !== 'saffron',
+      ...(ingredient.name === 'milk' && { salePrice: 3, originalPrice: 4 }),
+      ...(ingredient.name === 'saffron' && { salePrice: 2, originalPrice: 10 })
+    }));
+  }
+};
+
+describe('comparePrices', () => {
+  it('leaves out-of-stock items out of the total and savings, and counts them', async () => {
+    const [data] = await comparePrices([
+      { name: 'milk', amount: 1, unit: 'l' },
+      { name: 'bread', amount: 1, unit: 'item' },
+      { name: 'saffron', amount: 1, unit: 'g' }
+    ], { provider });
+
+    expect(data.items).toHaveLength(3);
+    expect(data).toMatchObject({ totalCost: 9.99, totalSavings: 1, unavailableItems: 1, estimatedDeliveryTime: '1 hour' });
+  });
+});
@@ -0,0 +1,107 @@
+// src/lib/priceProvider.ts
+// Grocery price sources behind one interface, and store comparisons built from them
+
+import { GroceryStore, Ingredient, PriceData, StoreItemPrice } from '@/types/recipe';
+import { localPriceProvider } from './localPriceProvider';
+
+/**
+ * A source of store prices. The local provider reads a JSON price table;
+ * retailer adapters implement the same two calls against their own APIs.
+ * quoteItems returns one price per ingredient, in the order given.
+ * A simulated provider's quotes aren't real shelf prices, so they are never
+ * saved to the price history.
+ */
+export interface PriceProvider {
+  id: string;
+  simulated?: boolean;
+  listStores(): Promise<GroceryStore[]>;
+  quoteItems(store: GroceryStore, ingredients: Ingredient[]): Promise<StoreItemPrice[]>;
+}
+
+const providers: Record<string, PriceProvider> = {
+  [localPriceProvider.id]: localPriceProvider
+};
+
+export function registerPriceProvider(provider: PriceProvider): void {
+  providers[provider.id] = provider;
+}
+
+/**
+ * The provider named by PRICE_PROVIDER, falling back to the local price table.
+ */
+export function getPriceProvider(id: string | undefined = process.env.PRICE_PROVIDER): PriceProvider {
+  if (id && !providers[id]) {
+    console.warn(`⚠️ Unknown price provider "${id}", using local prices`);
+  }
+  return (id && providers[id]) || localPriceProvider;
+}
+
+/**
+ * Store names by id, for messages about prices the provider quoted.
+ */
+export async function getStoreNameLookup(provider: PriceProvider = getPriceProvider()): Promise<(storeId: string) => string> {
+  const names = new Map((await provider.listStores()).map(store => [store.id, store.name]));
+  return storeId => names.get(storeId) || storeId;
+}
+
+/**
+ * Price the ingredients at every store the provider knows (or just `storeIds`),
+ * with totals including delivery. Out-of-stock items can't be bought there, so
+ * they're counted in `unavailableItems` rather than the total.
+ */
+export async function comparePrices(
+  ingredients: Ingredient[],
+  options: { storeIds?: string[]; provider?: PriceProvider } = {}
+): Promise<PriceData[]> {
+  const provider = options.provider || getPriceProvider();
+  const stores = (await provider.listStores())
+    .filter(store => !options.storeIds || options.storeIds.includes(store.id));
+
+  return Promise.all(stores.map(async store => {
+    const items = await provider.quoteItems(store, ingredients);
+    const inStock = items.filter(item => item.inStock);
+    const itemsCost = inStock.reduce((sum, item) => sum + item.price, 0);
+    const totalSavings = inStock.reduce((sum, item) =>
+      sum + (item.originalPrice ? item.originalPrice - item.price : 0), 0
+    );
+
+    return {
+      store,
+      items,
+      totalCost: roundCents(itemsCost + store.deliveryFee),
+      totalSavings: roundCents(totalSavings),
+      unavailableItems: items.length - inStock.length,
+      estimatedDeliveryTime: store.deliveryTime
+    };
+  }));
+}
+
+/**
+ * Check the ingredient list of a price request. Returns an error message or null.
+ */
+export function validatePriceRequestIngredients(ingredients: any): string | null {
+  if (!Array.isArray(ingredients) || ingredients.length === 0) {
+    return 'ingredients must be a non-empty array';
+  }
+  if (ingredients.length > 100) {
+    return 'At most 100 ingredients can be priced at once';
+  }
+
+  for (const [index, ingredient] of ingredients.entries()) {
+    if (!ingredient || typeof ingredient.name !== 'string' || !ingredient.name.trim()) {
+      return `Ingredient at index ${index} needs a name`;
+    }
+    if (typeof ingredient.amount !== 'number' || !Number.isFinite(ingredient.amount) || ingredient.amount < 0) {
+      return `Ingredient at index ${index} needs a non-negative amount`;
+    }
+    if (ingredient.unit !== undefined && typeof ingredient.unit !== 'string') {
+      return `Ingredient at index ${index} has an invalid unit`;
+    }
+  }
+
+  return null;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { findCandidateProducts, matchIngredientToProducts } from './productMatcher';
+
+const ids = (name: string) => findCandidateProducts(name).map(product => product.id);
+
+describe('findCandidateProducts', () => {
+  it.each([
+    ['chicken broth', []],
+    ['egg noodles', []],
+    ['milk chocolate chips', []],
+    ['rice vinegar', []],
+    ['coconut milk', []],
+    ['sesame oil', []],
+    ['boneless skinless chicken breasts', ['chicken-breast-1lb', 'chicken-breast-3lb']],
+    ['chicken thighs', ['chicken-thighs-2lb']],
+    ['egg yolks', ['eggs-6', 'eggs-12', 'eggs-18']],
+    ['shredded mozzarella cheese', ['mozzarella-shredded-8oz', 'mozzarella-shredded-16oz']],
+    ['cherry tomatoes', ['tomato-each']],
+    ['diced tomatoes', ['tomatoes-canned-14oz']],
+    ['brown rice', ['brown-rice-2lb']],
+    ['jasmine rice', ['rice-2lb']],
+    ['peanut butter', ['peanut-butter-16oz']],
+    ['garlic cloves', ['garlic-head']]
+  ])('%s -> %o', (name, expected) => {
+    expect(ids(name)).toEqual(expected);
+  });
+});
+
+describe('matchIngredientToProducts', () => {
+  it('picks the packages with the least left over', () => {
+    const match = matchIngredientToProducts({ name: 'eggs', amount: 18, unit: '' });
+    expect(match).toMatchObject({ leftoverAmount: 0, purchasedAmount: 18 });
+    expect(match!.packages.map(({ product, count }) => [product.id, count])).toEqual([['eggs-18', 1]]);
+  });
+
+  it('returns null for an ingredient no product is', () => {
+    expect(matchIngredientToProducts({ name: 'chicken broth', amount: 2, unit: 'cup' })).toBeNull();
+  });
+});
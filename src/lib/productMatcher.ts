@@ -0,0 +1,146 @@
+// src/lib/productMatcher.ts
+// Maps free-text ingredients to catalog packages that cover the amount with the least left over
+
+import { CatalogProduct, Ingredient, ProductMatch } from '@/types/recipe';
+import productCatalog from '@/data/productCatalog.json';
+import { isKindOfFood } from './shoppingList';
+import { convertQuantity } from './unitConversion';
+
+const MAX_PACKAGES_PER_PRODUCT = 12; // past this the largest package is just repeated
+
+const catalog: CatalogProduct[] = productCatalog.products;
+
+interface SizedProduct {
+  product: CatalogProduct;
+  amount: number; // package contents in the match unit
+}
+
+/**
+ * Catalog products sold as this ingredient. A match term has to appear in the
+ * name and be what the ingredient is, not just a word in it: "chicken broth"
+ * isn't chicken and "egg noodles" aren't eggs. Only the most specific match
+ * counts, so "brown rice" finds brown rice rather than every rice.
+ */
+export function findCandidateProducts(ingredientName: string, products: CatalogProduct[] = catalog): CatalogProduct[] {
+  const name = ingredientName.toLowerCase().trim();
+  let bestLength = 0;
+  let candidates: CatalogProduct[] = [];
+
+  for (const product of products) {
+    if (product.exclude?.some(term => name.includes(term))) continue;
+
+    const length = Math.max(0, ...product.match
+      .filter(term => containsTerm(name, term) && isKindOfFood(name, term))
+      .map(term => term.length));
+
+    if (length > bestLength) {
+      bestLength = length;
+      candidates = [product];
+    } else if (length > 0 && length === bestLength) {
+      candidates.push(product);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * The packages to buy for an ingredient: the combination with the least left
+ * over, then the cheapest, then the fewest packages. Returns null when no
+ * product matches or the amount can't be converted to package sizes.
+ */
+export function matchIngredientToProducts(ingredient: Ingredient, products: CatalogProduct[] = catalog): ProductMatch | null {
+  const candidates = findCandidateProducts(ingredient.name, products);
+  if (candidates.length === 0) return null;
+
+  const unit = candidates[0].size.unit;
+  let approximate = false;
+
+  const sized: SizedProduct[] = [];
+  for (const product of candidates) {
+    const contents = convertQuantity(product.size.amount, product.size.unit, unit, ingredient.name);
+    if (!contents || !(contents.amount > 0)) continue;
+    approximate = approximate || contents.approximate;
+    sized.push({ product, amount: contents.amount });
+  }
+
+  const needed = ingredient.amount > 0
+    ? convertQuantity(ingredient.amount, ingredient.unit || 'each', unit, ingredient.name, ingredient.packageSize)
+    : { amount: 0, approximate: false };
+  if (!needed || sized.length === 0) return null;
+  approximate = approximate || needed.approximate;
+
+  const packages = choosePackages(sized, needed.amount);
+  const purchasedAmount = packages.reduce((total, { product, count }) =>
+    total + count * (sized.find(entry => entry.product === product)?.amount || 0), 0
+  );
+
+  return {
+    packages,
+    unit,
+    neededAmount: roundAmount(needed.amount),
+    purchasedAmount: roundAmount(purchasedAmount),
+    leftoverAmount: roundAmount(Math.max(0, purchasedAmount - needed.amount)),
+    price: roundCents(packages.reduce((total, { product, count }) => total + product.price * count, 0)),
+    approximate
+  };
+}
+
+function choosePackages(sized: SizedProduct[], needed: number): ProductMatch['packages'] {
+  // Nothing measurable needed ("salt to taste"): the cheapest single package
+  if (!(needed > 0)) {
+    const cheapest = sized.reduce((best, entry) => entry.product.price < best.product.price ? entry : best);
+    return [{ product: cheapest.product, count: 1 }];
+  }
+
+  const bySize = [...sized].sort((a, b) => b.amount - a.amount);
+  let best = null as { counts: number[]; leftover: number; price: number; packages: number } | null;
+
+  const search = (index: number, counts: number[], covered: number) => {
+    if (covered >= needed - 1e-9 || index === bySize.length) {
+      if (covered < needed - 1e-9) return;
+      const leftover = roundAmount(covered - needed);
+      const price = roundCents(counts.reduce((total, count, i) => total + count * bySize[i].product.price, 0));
+      const packages = counts.reduce((total, count) => total + count, 0);
+      if (!best ||
+          leftover < best.leftover ||
+          (leftover === best.leftover && price < best.price) ||
+          (leftover === best.leftover && price === best.price && packages < best.packages)) {
+        best = { counts: [...counts], leftover, price, packages };
+      }
+      return;
+    }
+
+    const { amount } = bySize[index];
+    const maxCount = Math.min(MAX_PACKAGES_PER_PRODUCT, Math.ceil((needed - covered) / amount));
+    for (let count = maxCount; count >= 0; count--) {
+      counts.push(count);
+      search(index + 1, counts, covered + count * amount);
+      counts.pop();
+    }
+  };
+  search(0, [], 0);
+
+  if (!best) {
+    const largest = bySize[0];
+    return [{ product: largest.product, count: Math.ceil(needed / largest.amount) }];
+  }
+
+  return best.counts
+    .map((count, i) => ({ product: bySize[i].product, count }))
+    .filter(({ count }) => count > 0);
+}
+
+// Whole-word match that also accepts a plural ("egg" in "eggs", "tomato" in "tomatoes")
+function containsTerm(name: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}(e?s)?\\b`).test(name);
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
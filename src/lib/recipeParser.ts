@@ -2,6 +2,7 @@
 
 import { Recipe, Ingredient, NutritionInfo } from '@/types/recipe';
 import { estimateRealisticPrice, estimateRealisticNutrition } from './realisticEstimator';
+import { parseIngredientLine } from './ingredientParser';
 
 export interface ParsedRecipeData {
   title: string;
@@ -398,7 +399,10 @@ function isIngredientLine(line: string): boolean {
     /\d+\s*(cup|tbsp|tsp|lb|oz|gram|kg|piece|clove|slice|can|bottle)/i,
     /^(a|an|one|two|three|four|five)\s+(cup|tbsp|tsp|lb|oz|piece|clove)/i,
     /^\d+\/\d+\s*(cup|tbsp|tsp)/i,
-    /^(½|¼|¾|⅓|⅔|⅛|⅜|⅝|⅞)\s*(cup|tbsp|tsp)/i
+    /^(½|¼|¾|⅓|⅔|⅛|⅜|⅝|⅞)\s*(cup|tbsp|tsp)/i,
+    /^\d+\s+\d+\/\d+\s/,   // "1 1/2 cups"
+    /^\d+\s*\(\d/,           // "2 (14 oz) cans"
+    /^\d+\s*(-|to)\s*\d+\s/i // "2-3 cloves", "1 to 2 cups"
   ];
   
   return ingredientPatterns.some(pattern => pattern.test(trimmed));
@@ -450,12 +454,19 @@ function cleanInstructionLine(line: string, stepNumber: number): string | null {
 
 function convertToRecipeObject(data: ParsedRecipeData, index: number): Recipe {
   // Parse ingredients into structured format with realistic pricing
-  const ingredients: Ingredient[] = data.ingredients.map((ingredientText, i) => {
-    const parsed = parseIngredientText(ingredientText);
+  const ingredients: Ingredient[] = data.ingredients.map((ingredientText) => {
+    const parsed = parseIngredientLine(ingredientText);
     return {
       name: parsed.name,
       amount: parsed.amount,
       unit: parsed.unit,
+      originalText: parsed.original,
+      ...(parsed.amountMax !== undefined && { amountMax: parsed.amountMax }),
+      ...(parsed.packageSize && { packageSize: parsed.packageSize }),
+      ...(parsed.preparation && { preparation: parsed.preparation }),
+      ...(parsed.notes && { notes: parsed.notes }),
+      ...(parsed.optional && { optional: true }),
+      ...(parsed.toTaste && { toTaste: true }),
       // Only add estimatedPrice if the function exists and returns a valid price
       ...(typeof estimateRealisticPrice === 'function' && {
         estimatedPrice: estimateRealisticPrice(parsed.name, parsed.amount, parsed.unit) || 0
@@ -512,94 +523,6 @@ function convertToRecipeObject(data: ParsedRecipeData, index: number): Recipe {
   return recipe;
 }
 
-function parseIngredientText(text: string): { name: string; amount: number; unit: string } {
-  // Enhanced ingredient parsing with better unit recognition
-  const patterns = [
-    // "2 cups flour" or "1.5 tbsp olive oil"
-    /^(\d+(?:\.\d+)?(?:\/\d+)?)\s+(cups?|tbsp|tsp|tablespoons?|teaspoons?|pounds?|lbs?|ounces?|oz|grams?|g|kilograms?|kg|pieces?|cloves?|slices?|cans?|bottles?)\s+(.+)/i,
-    // "2 medium onions" or "3 large eggs"
-    /^(\d+(?:\.\d+)?)\s+(small|medium|large|whole|each)\s+(.+)/i,
-    // "1/2 of an onion" or "a pinch of salt"
-    /^(a\s+pinch|pinch|a\s+dash|dash|a\s+handful|handful|\d+\/\d+)\s+(?:of\s+)?(.+)/i,
-    // "½ cup flour" - Unicode fractions
-    /^(½|¼|¾|⅓|⅔|⅛|⅜|⅝|⅞)\s*(cup|tbsp|tsp|lb|oz)s?\s+(.+)/i
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      let [, amountStr, unit, name] = match;
-      
-      // Handle fractions and special amounts
-      let amount = 1;
-      if (amountStr.includes('/')) {
-        const [num, denom] = amountStr.split('/');
-        amount = parseInt(num) / parseInt(denom);
-      } else if (amountStr.includes('pinch') || amountStr.includes('dash')) {
-        amount = 0.125; // 1/8 tsp
-        unit = 'tsp';
-      } else if (amountStr.includes('handful')) {
-        amount = 0.5;
-        unit = 'cup';
-      } else if (amountStr === '½') {
-        amount = 0.5;
-      } else if (amountStr === '¼') {
-        amount = 0.25;
-      } else if (amountStr === '¾') {
-        amount = 0.75;
-      } else if (amountStr === '⅓') {
-        amount = 0.33;
-      } else if (amountStr === '⅔') {
-        amount = 0.67;
-      } else if (amountStr === '⅛') {
-        amount = 0.125;
-      } else if (amountStr === '⅜') {
-        amount = 0.375;
-      } else if (amountStr === '⅝') {
-        amount = 0.625;
-      } else if (amountStr === '⅞') {
-        amount = 0.875;
-      } else {
-        amount = parseFloat(amountStr) || 1;
-      }
-      
-      // Normalize units
-      unit = normalizeUnit(unit);
-      name = name.trim().replace(/^(of\s+)?/, '');
-      
-      return { amount, unit, name };
-    }
-  }
-  
-  // Fallback for unparseable ingredients
-  return {
-    amount: 1,
-    unit: 'item',
-    name: text.replace(/^(a|an|some)\s+/i, '').trim()
-  };
-}
-
-function normalizeUnit(unit: string): string {
-  const unitMap: Record<string, string> = {
-    'cups': 'cup', 'cup': 'cup',
-    'tablespoons': 'tbsp', 'tablespoon': 'tbsp', 'tbsp': 'tbsp',
-    'teaspoons': 'tsp', 'teaspoon': 'tsp', 'tsp': 'tsp',
-    'pounds': 'lb', 'pound': 'lb', 'lbs': 'lb', 'lb': 'lb',
-    'ounces': 'oz', 'ounce': 'oz', 'oz': 'oz',
-    'grams': 'g', 'gram': 'g', 'g': 'g',
-    'kilograms': 'kg', 'kilogram': 'kg', 'kg': 'kg',
-    'pieces': 'piece', 'piece': 'piece',
-    'cloves': 'clove', 'clove': 'clove',
-    'slices': 'slice', 'slice': 'slice',
-    'cans': 'can', 'can': 'can',
-    'bottles': 'bottle', 'bottle': 'bottle',
-    'small': 'small', 'medium': 'medium', 'large': 'large',
-    'whole': 'whole', 'each': 'each'
-  };
-  
-  return unitMap[unit.toLowerCase()] || unit.toLowerCase();
-}
-
 function generateRecipeImage(title: string, cuisine?: string): string {
   const titleLower = title.toLowerCase();
   
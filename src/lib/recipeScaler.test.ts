@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient, Recipe } from '@/types/recipe';
+import { formatKitchenAmount, scaleRecipe } from './recipeScaler';
+
+function recipe(ingredients: Ingredient[], servings = 4): Recipe {
+  return {
+    id: 'test',
+    title: 'Test recipe',
+    ingredients,
+    instructions: [],
+    cookingTime: 30,
+    servings,
+    difficulty: 'Easy',
+    cuisine: 'Italian',
+    dietary: [],
+    nutrition: { calories: 400, protein: 20, carbs: 40, fat: 15, sodium: 600 }
+  };
+}
+
+function scaleOne(ingredient: Ingredient, targetServings: number, servings = 4) {
+  return scaleRecipe(recipe([ingredient], servings), { targetServings }).ingredients[0];
+}
+
+describe('formatKitchenAmount', () => {
+  it.each([
+    [0.05, 'cup', '1/8'],
+    [1.125, 'cup', '1 1/8'],
+    [0.33, 'cup', '1/3'],
+    [2.4, 'tbsp', '2 1/2'],
+    [0.1, 'tsp', '1/8'],
+    [1.4, 'item', '1 1/2'],
+    [4.4, 'item', '4'],
+    [1234, 'g', '1230']
+  ])('rounds %s %s to %s', (amount, unit, display) => {
+    expect(formatKitchenAmount(amount, unit).display).toBe(display);
+  });
+});
+
+describe('scaleRecipe', () => {
+  it('moves an amount up the spoon-to-cup ladder when it lands just short of a cup measure', () => {
+    expect(scaleOne({ name: 'olive oil', amount: 3, unit: 'tbsp' }, 4, 3)).toMatchObject({ unit: 'cup', displayAmount: '1/4' });
+    expect(scaleOne({ name: 'milk', amount: 1 / 4, unit: 'cup' }, 8)).toMatchObject({ unit: 'cup', displayAmount: '1/2' });
+    expect(scaleOne({ name: 'milk', amount: 1 / 3, unit: 'cup' }, 6)).toMatchObject({ unit: 'cup', displayAmount: '1/2' });
+  });
+
+  it('moves a small cup amount down to tablespoons', () => {
+    expect(scaleOne({ name: 'milk', amount: 1 / 4, unit: 'cup' }, 2)).toMatchObject({ unit: 'tbsp', displayAmount: '2' });
+  });
+
+  it('prints counts without a unit', () => {
+    expect(scaleOne({ name: 'eggs', amount: 1, unit: 'item' }, 6)).toMatchObject({
+      unit: 'item',
+      displayUnit: '',
+      displayAmount: '1 1/2'
+    });
+    expect(scaleOne({ name: 'garlic', amount: 2, unit: 'clove' }, 8).displayUnit).toBe('clove');
+  });
+
+  it('scales seasonings more gently than the rest of the recipe', () => {
+    const scaled = scaleRecipe(recipe([
+      { name: 'flour', amount: 2, unit: 'cup' },
+      { name: 'salt', amount: 1, unit: 'tsp' }
+    ]), { targetServings: 16 });
+
+    expect(scaled.ingredients[0].scaleFactor).toBe(4);
+    expect(scaled.ingredients[1].scaleFactor).toBeLessThan(4);
+    expect(scaled.scalingNotes[0]).toMatch(/Seasonings/);
+  });
+
+  it('lowers sodium per serving when the salt was scaled gently', () => {
+    const scaled = scaleRecipe(recipe([
+      { name: 'flour', amount: 2, unit: 'cup' },
+      { name: 'salt', amount: 1, unit: 'tsp' }
+    ]), { targetServings: 16 });
+
+    expect(scaled.nutrition.sodium).toBeLessThan(600);
+    expect(scaled.nutrition.calories).toBeCloseTo(400, -1);
+  });
+});
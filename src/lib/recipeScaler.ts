@@ -0,0 +1,426 @@
+// src/lib/recipeScaler.ts
+// Rescale a recipe by servings or by a key ingredient, with kitchen-friendly rounding
+
+import { Ingredient, NutritionInfo, Recipe } from '@/types/recipe';
+import { estimateRealisticNutrition } from './realisticEstimator';
+import { normalizeUnit } from './ingredientParser';
+import { convertQuantity, getUnitKind, MeasurementSystem, toPreferredUnit } from './unitConversion';
+
+export interface ScaleOptions {
+  targetServings?: number;
+  // Scale so the recipe uses exactly this much of one ingredient, e.g. "I have 3 lb of chicken"
+  targetIngredient?: {
+    name: string;
+    amount: number;
+    unit?: string;
+  };
+  // Re-express volumes and weights in this system; by default each ingredient keeps its own
+  measurementSystem?: MeasurementSystem;
+}
+
+export interface ScaledIngredient extends Ingredient {
+  displayAmount: string;
+  displayUnit: string; // unit to print beside displayAmount; empty for plain counts ("2 eggs")
+  originalAmount: number;
+  originalUnit: string;
+  scaleFactor: number; // factor actually applied to this ingredient
+  scalingNote?: string;
+}
+
+export interface ScaledRecipe extends Recipe {
+  ingredients: ScaledIngredient[];
+  originalServings: number;
+  scaleFactor: number;
+  scalingNotes: string[];
+}
+
+export class RecipeScalingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeScalingError';
+  }
+}
+
+const MAX_SCALE_FACTOR = 20;
+
+// Seasonings taste stronger in big batches, so they grow more slowly than the recipe
+const seasoningPattern = /\b(salt|pepper|chil[il]|cayenne|paprika|cumin|coriander|turmeric|curry|cinnamon|nutmeg|allspice|oregano|thyme|rosemary|sage|spice|seasoning|extract|flakes|garam masala|hot sauce)\b/;
+const freshProducePattern = /\b(bell|sweet|jalape[nñ]o|poblano|serrano|fresh)\b/;
+const seasoningUnits = new Set(['tsp', 'tbsp', 'pinch', 'dash']);
+const SEASONING_EXPONENT = 0.75;
+
+// Leaveners lift a bigger batch more efficiently
+const leavenerPattern = /\b(baking powder|baking soda|bicarbonate|yeast|cream of tartar)\b/;
+const LEAVENER_EXPONENT = 0.85;
+
+const kitchenFractions: Array<[number, string]> = [
+  [0, ''],
+  [1 / 8, '1/8'],
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [1 / 2, '1/2'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+  [1, '']
+];
+
+const halfFractions = kitchenFractions.filter(([value]) => value === 0 || value === 1 / 2 || value === 1);
+// Measuring spoons: 1/8 to 1 tsp, and tablespoons in halves
+const teaspoonFractions = kitchenFractions.filter(([value]) => value !== 1 / 3 && value !== 2 / 3);
+
+const containerUnits = new Set(['can', 'jar', 'bottle', 'package', 'box', 'bag', 'stick']);
+// Counts that read better without a unit: "2 eggs", not "2 item eggs"
+const unitlessCounts = new Set(['item', 'each']);
+
+// Scaled amounts land a little off the unit boundaries (3 tbsp x 4/3 is 11.97 tsp),
+// so an amount within this share of the next unit up moves to it
+const LADDER_TOLERANCE = 0.03;
+
+/**
+ * A recipe keeps its own units; an amount only moves along its ladder when it
+ * outgrows or falls below the unit (48 tsp is 1 cup, 0.1 cup is 1 1/2 tbsp).
+ * Each step is [unit, smallest amount that uses it, counted in the ladder's first unit].
+ * Cups never become quarts: kitchens measure big volumes in cups.
+ */
+const unitLadders: Array<Array<[string, number]>> = [
+  [['tsp', 0], ['tbsp', 3], ['cup', 12]],
+  [['ml', 0], ['l', 1000]],
+  [['g', 0], ['kg', 1000]],
+  [['oz', 0], ['lb', 16]]
+];
+
+// Units each measurement system reads; spoons are used everywhere
+const systemUnits: Record<MeasurementSystem, Set<string>> = {
+  metric: new Set(['tsp', 'tbsp', 'ml', 'l', 'g', 'kg', 'mg']),
+  us: new Set(['tsp', 'tbsp', 'cup', 'fl oz', 'pint', 'quart', 'gallon', 'oz', 'lb']),
+  imperial: new Set(['tsp', 'tbsp', 'imp fl oz', 'imp pint', 'imp gallon', 'oz', 'lb'])
+};
+
+// Liquids stay volumes in metric; dry goods (flour, sugar, rice) are weighed
+const liquidPattern = /\b(water|milk|oil|juice|broth|stock|cream|vinegar|sauce|wine|syrup|honey|buttermilk|yogurt|coffee|tea)\b/;
+
+/**
+ * Rescale a recipe to a number of servings or to a fixed amount of one ingredient.
+ * Pure and client-safe, so components can call it directly; the scale API route wraps it.
+ */
+export function scaleRecipe(recipe: Recipe, options: ScaleOptions): ScaledRecipe {
+  const originalServings = recipe.servings > 0 ? recipe.servings : 1;
+  const ingredients = Array.isArray(recipe.ingredients)
+    ? recipe.ingredients.filter((ingredient) => ingredient && ingredient.name)
+    : [];
+
+  const factor = resolveScaleFactor(ingredients, originalServings, options);
+  const servings = options.targetServings && !options.targetIngredient
+    ? options.targetServings
+    : Math.max(1, Math.round(originalServings * factor));
+
+  const scalingNotes: string[] = [];
+  const scaledIngredients = ingredients.map((ingredient) =>
+    scaleIngredient(ingredient, factor, options.measurementSystem)
+  );
+
+  if (scaledIngredients.some((ingredient) => ingredient.scalingNote && ingredient.scaleFactor < factor)) {
+    scalingNotes.push('Seasonings and leaveners were scaled less than the rest of the recipe. Taste before adding more.');
+  }
+  scalingNotes.push(...suggestPanSizes(recipe.instructions, factor));
+
+  const scaledCost = scaledIngredients.reduce((sum, ingredient) => sum + (ingredient.estimatedPrice || 0), 0);
+  const estimatedCost = recipe.estimatedCost !== undefined
+    ? Math.round(recipe.estimatedCost * factor * 100) / 100
+    : scaledCost > 0 ? Math.round(scaledCost * 100) / 100 : undefined;
+
+  return {
+    ...recipe,
+    servings,
+    ingredients: scaledIngredients,
+    cookingTime: scaleCookingTime(recipe.cookingTime, factor),
+    nutrition: scaleNutrition(recipe.nutrition, ingredients, originalServings, scaledIngredients, servings),
+    estimatedCost,
+    costPerServing: estimatedCost !== undefined
+      ? Math.round((estimatedCost / servings) * 100) / 100
+      : recipe.costPerServing,
+    originalServings,
+    scaleFactor: factor,
+    scalingNotes
+  };
+}
+
+/**
+ * Round an amount to something you can measure with ordinary kitchen tools and
+ * return it with a display string, e.g. 0.33 cup -> { amount: 0.333, display: '1/3' }.
+ */
+export function formatKitchenAmount(amount: number, unit: string): { amount: number; display: string } {
+  const normalized = normalizeUnit(unit);
+  const kind = getUnitKind(normalized);
+
+  if (normalized === 'cup') return roundToFraction(amount, kitchenFractions);
+  if (normalized === 'tbsp') return roundToFraction(amount, halfFractions);
+  if (normalized === 'tsp') return roundToFraction(amount, teaspoonFractions);
+  if (kind === 'volume' || normalized === 'oz' || normalized === 'lb') {
+    if (['ml', 'l'].includes(normalized)) return roundMetric(amount, normalized);
+    return roundToFraction(amount, kitchenFractions);
+  }
+  if (kind === 'mass') return roundMetric(amount, normalized);
+
+  if (kind === 'count') {
+    // Nobody buys a third of an egg
+    return amount < 3 || containerUnits.has(normalized)
+      ? roundToFraction(amount, halfFractions)
+      : { amount: Math.round(amount), display: String(Math.round(amount)) };
+  }
+
+  const rounded = Math.round(amount * 100) / 100;
+  return { amount: rounded, display: String(rounded) };
+}
+
+function resolveScaleFactor(ingredients: Ingredient[], servings: number, options: ScaleOptions): number {
+  let factor: number;
+
+  if (options.targetIngredient) {
+    const target = options.targetIngredient;
+    const ingredient = findIngredient(ingredients, target.name);
+    if (!ingredient || !ingredient.amount) {
+      throw new RecipeScalingError(`Recipe has no measurable "${target.name}" to scale by`);
+    }
+
+    const converted = target.unit
+      ? convertQuantity(target.amount, target.unit, ingredient.unit, ingredient.name, ingredient.packageSize)
+      : null;
+    if (target.unit && !converted) {
+      throw new RecipeScalingError(`Cannot convert ${target.unit} to ${ingredient.unit} for ${ingredient.name}`);
+    }
+
+    factor = (converted ? converted.amount : target.amount) / ingredient.amount;
+  } else if (options.targetServings) {
+    factor = options.targetServings / servings;
+  } else {
+    throw new RecipeScalingError('Provide targetServings or targetIngredient');
+  }
+
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new RecipeScalingError('Scale target must be a positive amount');
+  }
+  if (factor > MAX_SCALE_FACTOR || factor < 1 / MAX_SCALE_FACTOR) {
+    throw new RecipeScalingError(`Recipes can only be scaled up to ${MAX_SCALE_FACTOR}x in either direction`);
+  }
+  return factor;
+}
+
+function findIngredient(ingredients: Ingredient[], name: string): Ingredient | undefined {
+  const wanted = name.toLowerCase().trim();
+  return ingredients.find((ingredient) => ingredient.name.toLowerCase() === wanted)
+    || ingredients.find((ingredient) => ingredient.name.toLowerCase().includes(wanted))
+    || ingredients.find((ingredient) => wanted.includes(ingredient.name.toLowerCase()));
+}
+
+function scaleIngredient(ingredient: Ingredient, factor: number, system?: MeasurementSystem): ScaledIngredient {
+  const { factor: ingredientFactor, note } = effectiveFactor(ingredient, factor);
+  const originalAmount = typeof ingredient.amount === 'number' ? ingredient.amount : 0;
+
+  let amount = originalAmount * ingredientFactor;
+  let amountMax = ingredient.amountMax !== undefined ? ingredient.amountMax * ingredientFactor : undefined;
+  let unit = normalizeUnit(ingredient.unit || '');
+
+  // 16 tbsp reads better as 1 cup, and 1500 g as 1.5 kg; then re-express only the
+  // units the requested system doesn't use (cups in a metric kitchen)
+  let target = fitUnitLadder(amount, unit);
+  const kind = getUnitKind(target.unit);
+  if (system && target.amount > 0 && (kind === 'volume' || kind === 'mass') && !systemUnits[system].has(target.unit)) {
+    const preferred = toPreferredUnit(target.amount, target.unit, system, ingredient.name, {
+      preferMass: system === 'metric' && !liquidPattern.test(ingredient.name.toLowerCase())
+    });
+    target = fitUnitLadder(preferred.amount, preferred.unit);
+  }
+
+  if (target.unit !== unit) {
+    if (amountMax !== undefined) {
+      amountMax = amountMax * (target.amount / amount);
+    }
+    amount = target.amount;
+    unit = target.unit;
+  }
+
+  const rounded = formatKitchenAmount(amount, unit);
+  const roundedMax = amountMax !== undefined ? formatKitchenAmount(amountMax, unit) : undefined;
+
+  return {
+    ...ingredient,
+    amount: rounded.amount,
+    ...(roundedMax && { amountMax: roundedMax.amount }),
+    unit,
+    displayUnit: unitlessCounts.has(unit) ? '' : unit,
+    displayAmount: roundedMax && roundedMax.amount > rounded.amount
+      ? `${rounded.display}-${roundedMax.display}`
+      : rounded.display,
+    ...(ingredient.estimatedPrice !== undefined && {
+      estimatedPrice: Math.round(ingredient.estimatedPrice * ingredientFactor * 100) / 100
+    }),
+    originalAmount,
+    originalUnit: ingredient.unit,
+    scaleFactor: ingredientFactor,
+    ...(note && { scalingNote: note })
+  };
+}
+
+function fitUnitLadder(amount: number, unit: string): { amount: number; unit: string } {
+  const ladder = unitLadders.find((steps) => steps.some(([stepUnit]) => stepUnit === unit));
+  if (!ladder || amount <= 0) return { amount, unit };
+
+  const base = convertQuantity(amount, unit, ladder[0][0]);
+  if (!base) return { amount, unit };
+
+  let target = ladder[0][0];
+  for (const [stepUnit, minimum] of ladder) {
+    if (base.amount >= minimum * (1 - LADDER_TOLERANCE)) target = stepUnit;
+  }
+  if (target === unit) return { amount, unit };
+
+  const converted = convertQuantity(amount, unit, target);
+  return converted ? { amount: converted.amount, unit: target } : { amount, unit };
+}
+
+function effectiveFactor(ingredient: Ingredient, factor: number): { factor: number; note?: string } {
+  if (ingredient.toTaste) {
+    return { factor, note: 'Adjust to taste' };
+  }
+  // Scaling down stays linear: under-seasoning is easy to fix at the table
+  if (factor <= 1) return { factor };
+
+  const name = ingredient.name.toLowerCase();
+  const unit = normalizeUnit(ingredient.unit || '');
+
+  if (leavenerPattern.test(name)) {
+    return { factor: Math.pow(factor, LEAVENER_EXPONENT), note: 'Leavener scaled down slightly for the larger batch' };
+  }
+  if (seasoningUnits.has(unit) && seasoningPattern.test(name) && !freshProducePattern.test(name)) {
+    return { factor: Math.pow(factor, SEASONING_EXPONENT), note: 'Seasoning scaled gently; taste and add more if needed' };
+  }
+  return { factor };
+}
+
+function roundToFraction(value: number, fractions: Array<[number, string]>): { amount: number; display: string } {
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+
+  let [fraction, label] = fractions[0];
+  for (const candidate of fractions) {
+    if (Math.abs(candidate[0] - remainder) < Math.abs(fraction - remainder)) {
+      [fraction, label] = candidate;
+    }
+  }
+  if (fraction === 1) {
+    whole += 1;
+    fraction = 0;
+    label = '';
+  }
+
+  // Never round a real amount away to nothing
+  if (whole === 0 && fraction === 0 && value > 0) {
+    [fraction, label] = fractions[1];
+  }
+
+  const display = whole > 0 && label ? `${whole} ${label}` : whole > 0 ? String(whole) : label;
+  return { amount: whole + fraction, display };
+}
+
+function roundMetric(amount: number, unit: string): { amount: number; display: string } {
+  let rounded: number;
+  if (unit === 'kg' || unit === 'l') {
+    rounded = Math.round(amount * 20) / 20;
+  } else if (amount >= 100) {
+    rounded = Math.round(amount / 10) * 10;
+  } else if (amount >= 20) {
+    rounded = Math.round(amount / 5) * 5;
+  } else {
+    rounded = Math.max(1, Math.round(amount));
+  }
+  return { amount: rounded, display: String(rounded) };
+}
+
+// Heating time barely depends on quantity; prep and browning in batches do
+function scaleCookingTime(cookingTime: number, factor: number): number {
+  if (!cookingTime) return cookingTime;
+  const multiplier = Math.max(0.6, 1 + 0.2 * Math.log2(factor));
+  return Math.max(5, Math.round(cookingTime * multiplier));
+}
+
+/**
+ * Per-serving nutrition stays the same for a linear scale; it only moves where
+ * ingredients were scaled non-linearly or rounded. Apply that relative change
+ * (measured with the estimator) to the recipe's own nutrition figures.
+ */
+function scaleNutrition(
+  nutrition: NutritionInfo,
+  original: Ingredient[],
+  originalServings: number,
+  scaled: Ingredient[],
+  servings: number
+): NutritionInfo {
+  if (!nutrition) return nutrition;
+
+  // Totals (servings = 1) keep the estimator's integer rounding from skewing the ratio
+  const before = estimateRealisticNutrition(original, 1);
+  const after = estimateRealisticNutrition(scaled, 1);
+
+  const adjust = (value: number | undefined, key: Exclude<keyof NutritionInfo, 'micronutrients'>): number | undefined => {
+    if (value === undefined) return undefined;
+    const beforeValue = before[key] ?? 0;
+    const afterValue = after[key] ?? 0;
+    if (!beforeValue) return value;
+    const ratio = (afterValue / servings) / (beforeValue / originalServings);
+    return Math.round(value * ratio);
+  };
+
+  const result: NutritionInfo = {
+    ...nutrition,
+    calories: adjust(nutrition.calories, 'calories') ?? nutrition.calories,
+    protein: adjust(nutrition.protein, 'protein') ?? nutrition.protein,
+    carbs: adjust(nutrition.carbs, 'carbs') ?? nutrition.carbs,
+    fat: adjust(nutrition.fat, 'fat') ?? nutrition.fat
+  };
+  if (nutrition.fiber !== undefined) {
+    result.fiber = adjust(nutrition.fiber, 'fiber');
+  }
+  // Salt is the seasoning that scales gently, so sodium moves the most
+  if (nutrition.sodium !== undefined) {
+    result.sodium = adjust(nutrition.sodium, 'sodium');
+  }
+
+  return result;
+}
+
+// Pans don't scale with the recipe; suggest an equivalent area instead
+function suggestPanSizes(instructions: string[] | undefined, factor: number): string[] {
+  if (!Array.isArray(instructions) || factor === 1) return [];
+
+  let text = instructions.join(' ');
+  const suggestions = new Set<string>();
+  const pans = Math.round(factor);
+  const isWholeMultiple = pans >= 2 && Math.abs(factor - pans) < 0.15;
+  const side = (length: number) => Math.max(4, Math.round(length * Math.sqrt(factor)));
+
+  const rectangular = /(\d+(?:\.\d+)?)\s*(?:x|×|by)\s*(\d+(?:\.\d+)?)[\s-]*(?:inch|in\b|")/gi;
+  for (const match of Array.from(text.matchAll(rectangular))) {
+    const width = parseFloat(match[1]);
+    const length = parseFloat(match[2]);
+    suggestions.add(isWholeMultiple
+      ? `Use ${pans} ${width}x${length}-inch pans instead of one.`
+      : `Use a pan about ${side(width)}x${side(length)} inches instead of ${width}x${length}-inch.`);
+  }
+
+  // Drop the 9x13 matches so their "13-inch" isn't read again as a round pan
+  text = text.replace(rectangular, '');
+  const round = /(\d+(?:\.\d+)?)[\s-]*(?:inch|in\b|")\s+(?:round\s+|square\s+|springform\s+|cake\s+)*(pan|skillet|dish|tin|pot)/gi;
+  for (const match of Array.from(text.matchAll(round))) {
+    const size = parseFloat(match[1]);
+    const vessel = match[2].toLowerCase();
+    suggestions.add(isWholeMultiple
+      ? `Use ${pans} ${size}-inch ${vessel}s instead of one.`
+      : `Use a ${side(size)}-inch ${vessel} instead of ${size}-inch.`);
+  }
+
+  if (suggestions.size > 0) {
+    suggestions.add('A different pan changes baking time, so start checking for doneness early.');
+  }
+  return Array.from(suggestions);
+}
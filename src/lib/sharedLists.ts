@@ -0,0 +1,230 @@
+// src/lib/sharedLists.ts
+// Shared household shopping lists: row mapping, permissions and item-level updates
+
+import { SharedList, SharedListItem, SharedListMember, SharedListRole } from '@/types/recipe';
+import {
+  createSupabaseServerClient,
+  DatabaseSharedList,
+  DatabaseSharedListItem
+} from './supabase';
+import { aisleForItem, isStoreAisle } from './storeAisles';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+const SHARED_LIST_ROLES: SharedListRole[] = ['owner', 'editor', 'viewer'];
+
+export function isSharedListRole(value: unknown): value is SharedListRole {
+  return typeof value === 'string' && (SHARED_LIST_ROLES as string[]).includes(value);
+}
+
+export function canEditSharedList(role: SharedListRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export function sharedListFromRow(row: DatabaseSharedList, role: SharedListRole): SharedList {
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    role,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Map an item row, naming whoever checked it off when they're a member.
+ */
+export function sharedListItemFromRow(row: DatabaseSharedListItem, members: SharedListMember[] = []): SharedListItem {
+  const checker = row.checked_by ? members.find(member => member.userId === row.checked_by) : undefined;
+
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.amount !== null && row.amount !== undefined && { amount: Number(row.amount) }),
+    ...(row.unit && { unit: row.unit }),
+    ...(Array.isArray(row.sources) && row.sources.length > 0 && { sources: row.sources }),
+    checked: !!row.checked,
+    ...(row.estimated_price !== null && row.estimated_price !== undefined && { estimatedPrice: Number(row.estimated_price) }),
+    isAlreadyOwned: false,
+    category: isStoreAisle(row.category) ? row.category : aisleForItem({ name: row.name }),
+    ...(row.checked_by && { checkedBy: row.checked_by }),
+    ...(checker && { checkedByName: checker.name }),
+    ...(row.checked_at && { checkedAt: row.checked_at }),
+    ...(row.added_by && { addedBy: row.added_by }),
+    version: row.version,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * The user's role on a list, or null when they aren't a member.
+ */
+export async function getSharedListRole(
+  supabase: SupabaseServerClient,
+  listId: string,
+  userId: string
+): Promise<SharedListRole | null> {
+  const { data, error } = await supabase
+    .from('shared_list_members')
+    .select('role')
+    .eq('list_id', listId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) {
+    if (error && error.code !== 'PGRST116') {
+      console.error('Get shared list role error:', error);
+    }
+    return null;
+  }
+
+  return isSharedListRole(data.role) ? data.role : null;
+}
+
+export async function fetchSharedListMembers(
+  supabase: SupabaseServerClient,
+  listId: string
+): Promise<SharedListMember[]> {
+  const { data, error } = await supabase
+    .from('shared_list_members')
+    .select(`
+      user_id,
+      role,
+      created_at,
+      users (
+        name,
+        email
+      )
+    `)
+    .eq('list_id', listId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get shared list members error:', error);
+    return [];
+  }
+
+  return (data || []).map((row: any) => {
+    const user = Array.isArray(row.users) ? row.users[0] : row.users;
+    return {
+      userId: row.user_id,
+      name: user?.name || 'Unknown',
+      email: user?.email || '',
+      role: row.role,
+      joinedAt: row.created_at
+    };
+  });
+}
+
+/**
+ * Bump the list's updated_at so polling clients know to fetch it again.
+ */
+export async function touchSharedList(supabase: SupabaseServerClient, listId: string): Promise<string> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('shared_lists')
+    .update({ updated_at: now })
+    .eq('id', listId);
+
+  if (error) {
+    console.error('Touch shared list error:', error);
+  }
+
+  return now;
+}
+
+/**
+ * Check a shared list item from a request body. With `partial`, only the
+ * fields present are checked (for updates). Returns an error message or null.
+ */
+export function validateSharedListItemInput(input: any, partial = false): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Item must be an object';
+  }
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'Item name is required';
+    }
+  }
+
+  if (input.amount !== undefined && input.amount !== null && (typeof input.amount !== 'number' || input.amount < 0)) {
+    return 'amount must be a non-negative number';
+  }
+
+  if (input.unit !== undefined && input.unit !== null && typeof input.unit !== 'string') {
+    return 'unit must be a string';
+  }
+
+  if (input.checked !== undefined && typeof input.checked !== 'boolean') {
+    return 'checked must be a boolean';
+  }
+
+  if (input.version !== undefined && !Number.isInteger(input.version)) {
+    return 'version must be an integer';
+  }
+
+  // Detail edits are checked against the version they were made from; without one they'd overwrite blind
+  if (partial && input.version === undefined &&
+      (input.name !== undefined || input.amount !== undefined || input.unit !== undefined)) {
+    return 'version is required to edit name, amount or unit';
+  }
+
+  return null;
+}
+
+/**
+ * Columns for a new item row from a validated request body or personal list item.
+ */
+export function sharedListItemToRow(input: any, listId: string, userId: string): Partial<DatabaseSharedListItem> {
+  const name = input.name.trim();
+
+  return {
+    list_id: listId,
+    name,
+    amount: typeof input.amount === 'number' ? input.amount : null,
+    unit: input.unit || null,
+    category: isStoreAisle(input.category) ? input.category : aisleForItem({ name }),
+    sources: Array.isArray(input.sources) ? input.sources : [],
+    estimated_price: typeof input.estimatedPrice === 'number' ? input.estimatedPrice : null,
+    checked: false,
+    added_by: userId
+  };
+}
+
+/**
+ * The columns to change for an item edit, or null when nothing would change.
+ *
+ * Checking and unchecking are "set" operations rather than toggles, so two
+ * people checking items at the same time never undo each other. Name, amount
+ * and unit edits must be made against the current version; `'conflict'` means
+ * someone else changed the item first.
+ */
+export function buildSharedListItemUpdate(
+  current: DatabaseSharedListItem,
+  input: any,
+  userId: string,
+  now: string
+): Partial<DatabaseSharedListItem> | null | 'conflict' {
+  const update: Partial<DatabaseSharedListItem> = {};
+
+  const editsDetails = input.name !== undefined || input.amount !== undefined || input.unit !== undefined;
+  if (editsDetails && input.version !== current.version) {
+    return 'conflict';
+  }
+
+  if (input.name !== undefined && input.name.trim() !== current.name) update.name = input.name.trim();
+  if (input.amount !== undefined && input.amount !== current.amount) update.amount = input.amount;
+  if (input.unit !== undefined && (input.unit || null) !== current.unit) update.unit = input.unit || null;
+
+  if (input.checked !== undefined && input.checked !== current.checked) {
+    update.checked = input.checked;
+    update.checked_by = input.checked ? userId : null;
+    update.checked_at = input.checked ? now : null;
+  }
+
+  if (Object.keys(update).length === 0) return null;
+
+  return { ...update, version: current.version + 1, updated_at: now };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ShoppingListItem } from '@/types/recipe';
+import { aggregateShoppingList, isKindOfFood, mergeIntoShoppingList, normalizeIngredientName } from './shoppingList';
+
+describe('normalizeIngredientName', () => {
+  it.each([
+    ['Yellow Onions, diced', 'onion'],
+    ['garlic cloves', 'garlic'],
+    ['cherry tomatoes', 'cherry tomato'],
+    ['apples', 'apple'],
+    ['fresh basil leaves', 'basil leaf'],
+    ['kosher salt', 'salt'],
+    ['molasses', 'molasses'],
+    ['radishes', 'radish'],
+    ['Swiss chard', 'swiss chard']
+  ])('normalizes %s to %s', (name, expected) => {
+    expect(normalizeIngredientName(name)).toBe(expected);
+  });
+});
+
+describe('isKindOfFood', () => {
+  it.each([
+    ['cherry tomatoes', 'tomato', true],
+    ['unsalted butter', 'butter', true],
+    ['sea salt', 'salt', true],
+    ['chicken broth', 'chicken', false],
+    ['salt', 'garlic salt', false],
+    ['milk', 'coconut milk', false],
+    ['eggplant', 'egg', false]
+  ])('%s is a kind of %s: %s', (name, food, expected) => {
+    expect(isKindOfFood(name, food)).toBe(expected);
+  });
+});
+
+describe('aggregateShoppingList', () => {
+  it('adds up the same item across recipes, converting units', () => {
+    const list = aggregateShoppingList([
+      { recipeId: 'soup', recipeTitle: 'Soup', ingredients: [{ name: 'onions', amount: 2, unit: 'item' }, { name: 'milk', amount: 1, unit: 'cup' }] },
+      { recipeId: 'stew', recipeTitle: 'Stew', ingredients: [{ name: 'onion', amount: 1, unit: 'item' }, { name: 'milk', amount: 8, unit: 'tbsp' }] }
+    ]);
+
+    expect(list).toHaveLength(2);
+    expect(list.find(item => item.id === 'item-onion-item')).toMatchObject({ name: 'onion', amount: 3, unit: 'item' });
+    expect(list.find(item => item.id === 'item-milk-cup')).toMatchObject({ name: 'milk', amount: 1.5, unit: 'cup' });
+    expect(list[0].sources).toHaveLength(2);
+    expect(list[0].recipeId).toBeUndefined();
+  });
+
+  it('keeps the recipe on a line only one recipe needs', () => {
+    const [item] = aggregateShoppingList([
+      { recipeId: 'soup', recipeTitle: 'Soup', ingredients: ['2 cups chicken broth'] }
+    ]);
+    expect(item).toMatchObject({ name: 'chicken broth', amount: 2, unit: 'cup', recipeId: 'soup', recipeTitle: 'Soup', checked: false });
+  });
+});
+
+describe('mergeIntoShoppingList', () => {
+  const onion: ShoppingListItem = {
+    id: 'item-onion-item',
+    name: 'onion',
+    amount: 5,
+    unit: 'item',
+    recipeId: 'soup',
+    sources: [{ recipeId: 'soup', name: 'onion', amount: 3, unit: 'item' }],
+    checked: false,
+    isAlreadyOwned: false,
+    category: 'produce',
+    version: 3,
+    lastOpId: 'op-7'
+  };
+
+  it('adds to the amount the user set and keeps the version and last operation', () => {
+    const [item] = mergeIntoShoppingList([onion], [
+      { recipeId: 'stew', ingredients: [{ name: 'onions', amount: 2, unit: 'item' }] }
+    ]);
+
+    expect(item).toMatchObject({ id: 'item-onion-item', name: 'onion', amount: 7, unit: 'item', version: 3, lastOpId: 'op-7' });
+    expect(item.sources).toHaveLength(2);
+    expect(item.recipeId).toBeUndefined();
+  });
+
+  it('leaves a renamed line alone rather than rebuilding it from its sources', () => {
+    const renamed = { ...onion, name: 'red onion' };
+    const list = mergeIntoShoppingList([renamed], [
+      { recipeId: 'stew', ingredients: [{ name: 'onion', amount: 1, unit: 'item' }] }
+    ]);
+
+    expect(list[0]).toEqual(renamed);
+    expect(list[1]).toMatchObject({ name: 'onion', amount: 1, unit: 'item' });
+    expect(list[1].id).not.toBe(renamed.id);
+  });
+
+  it('starts a new line instead of adding to one already in the cart', () => {
+    const checked = { ...onion, checked: true };
+    const list = mergeIntoShoppingList([checked], [
+      { recipeId: 'stew', ingredients: [{ name: 'onion', amount: 1, unit: 'item' }] }
+    ]);
+
+    expect(list.map(item => [item.name, item.amount, item.checked])).toEqual([
+      ['onion', 1, false],
+      ['onion', 5, true]
+    ]);
+    expect(list[0].id).toBe('item-onion-2');
+  });
+});
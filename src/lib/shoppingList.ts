@@ -0,0 +1,335 @@
+// src/lib/shoppingList.ts
+// Merge recipe ingredients into one shopping list line per purchasable item
+
+import { Ingredient, ShoppingListItem, ShoppingListSource } from '@/types/recipe';
+import { normalizeUnit, parseIngredientLine } from './ingredientParser';
+import { convertQuantity, getUnitKind } from './unitConversion';
+import { aisleForItem, classifyIngredient, isStoreAisle } from './storeAisles';
+
+export interface RecipeIngredients {
+  recipeId: string;
+  recipeTitle?: string;
+  ingredients: Array<Ingredient | string>;
+}
+
+// Words that describe the ingredient but don't change what you buy
+const descriptorWords = new Set([
+  'fresh', 'freshly', 'large', 'small', 'medium', 'extra-large', 'jumbo', 'ripe',
+  'organic', 'boneless', 'skinless', 'chopped', 'minced', 'diced', 'sliced', 'grated',
+  'shredded', 'crushed', 'peeled', 'cubed', 'finely', 'roughly', 'thinly'
+]);
+
+// Different names for the same thing on the shelf, keyed by the singular cleaned name
+const nameAliases: Record<string, string> = {
+  'yellow onion': 'onion',
+  'white onion': 'onion',
+  'brown onion': 'onion',
+  'spanish onion': 'onion',
+  'garlic clove': 'garlic',
+  'clove garlic': 'garlic',
+  'clove of garlic': 'garlic',
+  'scallion': 'green onion',
+  'spring onion': 'green onion',
+  'all-purpose flour': 'flour',
+  'all purpose flour': 'flour',
+  'plain flour': 'flour',
+  'granulated sugar': 'sugar',
+  'white sugar': 'sugar',
+  'kosher salt': 'salt',
+  'sea salt': 'salt',
+  'table salt': 'salt',
+  'extra virgin olive oil': 'olive oil',
+  'extra-virgin olive oil': 'olive oil',
+  'cilantro leaf': 'cilantro',
+  'coriander leaf': 'cilantro'
+};
+
+const irregularPlurals: Record<string, string> = {
+  'leaves': 'leaf',
+  'halves': 'half',
+  'loaves': 'loaf',
+  'knives': 'knife'
+};
+
+// Already singular, though they end in s
+const invariantWords = new Set(['molasses', 'grits', 'swiss', 'brussels', 'series']);
+
+// Count units first, so "2 onions" + "1 cup chopped onion" is bought as onions
+const unitKindOrder: Record<string, number> = { count: 0, mass: 1, volume: 2 };
+
+/**
+ * The key two ingredient names share when they're the same purchase:
+ * "2 Yellow Onions, diced" and "onion" both become "onion".
+ */
+export function normalizeIngredientName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(',')[0]
+    .split(/\s+/)
+    .filter(word => word && !descriptorWords.has(word))
+    .join(' ')
+    .trim();
+
+  if (!cleaned) return name.toLowerCase().trim();
+
+  const words = cleaned.split(' ');
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  const singular = words.join(' ');
+
+  return nameAliases[singular] || singular;
+}
+
+/**
+ * Whether an ingredient is a kind of the given food: the food's normalized name
+ * is the last words of the ingredient's, so "cherry tomatoes" is a tomato and
+ * "kosher salt" is salt, but "chicken broth" isn't chicken.
+ */
+export function isKindOfFood(ingredientName: string, foodName: string): boolean {
+  const name = normalizeIngredientName(ingredientName);
+  const food = normalizeIngredientName(foodName);
+  return !!name && !!food && (name === food || name.endsWith(` ${food}`));
+}
+
+/**
+ * Add recipes to an existing list. Each new ingredient is added into the open line
+ * for the same item, keeping that line's name, amount and unit as the user last
+ * edited them (and its version, so other devices see the change). Checked-off lines
+ * are left alone: they're already in the cart.
+ */
+export function mergeIntoShoppingList(currentList: ShoppingListItem[], additions: RecipeIngredients[]): ShoppingListItem[] {
+  const sources: ShoppingListSource[] = [];
+  for (const recipe of additions) {
+    for (const ingredient of recipe.ingredients || []) {
+      const source = sourceFromIngredient(ingredient, recipe);
+      if (source) sources.push(source);
+    }
+  }
+
+  const openItems = currentList.filter(item => !item.checked);
+  const checkedItems = currentList.filter(item => item.checked);
+  const usedIds = new Set(currentList.map(item => item.id));
+  const newItems: ShoppingListItem[] = [];
+
+  for (const line of aggregateSources(sources)) {
+    let merged = false;
+    for (let index = 0; index < openItems.length && !merged; index++) {
+      const item = mergeLineIntoItem(openItems[index], line);
+      if (item) {
+        openItems[index] = item;
+        merged = true;
+      }
+    }
+    if (!merged) newItems.push(lineToItem(line, usedIds));
+  }
+
+  return [...openItems, ...newItems, ...checkedItems];
+}
+
+/**
+ * A fresh aggregated list for a set of recipes.
+ */
+export function aggregateShoppingList(recipes: RecipeIngredients[]): ShoppingListItem[] {
+  return mergeIntoShoppingList([], recipes);
+}
+
+/**
+ * Give every line a store aisle, e.g. for lists saved wholesale by the client.
+ */
+export function categorizeShoppingList(items: ShoppingListItem[]): ShoppingListItem[] {
+  return items.map(item => isStoreAisle(item.category) ? item : { ...item, category: aisleForItem(item) });
+}
+
+interface AggregatedLine {
+  key: string;
+  unit: string;
+  amount: number;
+  approximate: boolean;
+  sources: ShoppingListSource[];
+}
+
+function aggregateSources(sources: ShoppingListSource[]): AggregatedLine[] {
+  const byKey = new Map<string, ShoppingListSource[]>();
+  for (const source of sources) {
+    const key = normalizeIngredientName(source.name);
+    byKey.set(key, [...(byKey.get(key) || []), source]);
+  }
+
+  const lines: AggregatedLine[] = [];
+
+  byKey.forEach((group, key) => {
+    const quantified = group
+      .filter(source => source.amount > 0 && source.unit)
+      .sort((a, b) => unitRank(a.unit) - unitRank(b.unit));
+    const unquantified = group.filter(source => !(source.amount > 0 && source.unit));
+    const keyLines: AggregatedLine[] = [];
+
+    for (const source of quantified) {
+      let merged = false;
+
+      for (const line of keyLines) {
+        const conversion = convertQuantity(source.amount, source.unit, line.unit, key);
+        if (!conversion || conversion.approximate) continue;
+
+        line.amount += conversion.amount;
+        line.approximate = line.approximate || conversion.basis !== 'exact';
+        line.sources.push(source);
+        merged = true;
+        break;
+      }
+
+      if (!merged) {
+        keyLines.push({
+          key,
+          unit: normalizeUnit(source.unit),
+          amount: source.amount,
+          approximate: false,
+          sources: [source]
+        });
+      }
+    }
+
+    // "Salt, to taste" rides along with a measured salt line when there is one
+    for (const source of unquantified) {
+      if (keyLines.length > 0) {
+        keyLines[0].sources.push(source);
+      } else {
+        keyLines.push({ key, unit: '', amount: 0, approximate: false, sources: [source] });
+      }
+    }
+
+    lines.push(...keyLines);
+  });
+
+  return lines;
+}
+
+function lineToItem(line: AggregatedLine, usedIds: Set<string>): ShoppingListItem {
+  const recipeIds = Array.from(new Set(line.sources.map(source => source.recipeId)));
+  const prices = line.sources.filter(source => typeof source.estimatedPrice === 'number');
+  const singleRecipe = recipeIds.length === 1 ? line.sources[0] : null;
+
+  let id = `item-${slugify(line.key)}${line.unit ? `-${slugify(line.unit)}` : ''}`;
+  for (let suffix = 2; usedIds.has(id); suffix++) {
+    id = `item-${slugify(line.key)}-${suffix}`;
+  }
+  usedIds.add(id);
+
+  return {
+    id,
+    name: displayName(line),
+    ...(line.amount > 0 && { amount: roundForShopping(line.amount, line.unit), unit: line.unit }),
+    ...(singleRecipe && singleRecipe.recipeId !== 'custom' && {
+      recipeId: singleRecipe.recipeId,
+      ...(singleRecipe.recipeTitle && { recipeTitle: singleRecipe.recipeTitle })
+    }),
+    sources: line.sources,
+    ...(line.approximate && { approximate: true }),
+    checked: false,
+    ...(prices.length > 0 && {
+      estimatedPrice: Math.round(prices.reduce((sum, source) => sum + (source.estimatedPrice || 0), 0) * 100) / 100
+    }),
+    isAlreadyOwned: false,
+    category: classifyIngredient(line.sources[0].name)
+  };
+}
+
+// The item with the line's ingredients added, or null when they're different
+// items or their units don't convert
+function mergeLineIntoItem(item: ShoppingListItem, line: AggregatedLine): ShoppingListItem | null {
+  if (normalizeIngredientName(item.name) !== line.key) return null;
+
+  let amount = item.amount;
+  let unit = item.unit;
+  let approximate = item.approximate || false;
+
+  if (line.amount > 0) {
+    if (item.amount && item.amount > 0 && item.unit) {
+      const conversion = convertQuantity(line.amount, line.unit, item.unit, line.key);
+      if (!conversion || conversion.approximate) return null;
+      amount = roundForShopping(item.amount + conversion.amount, item.unit);
+      approximate = approximate || line.approximate || conversion.basis !== 'exact';
+    } else {
+      // A line added by hand without a quantity takes the recipe's
+      amount = roundForShopping(line.amount, line.unit);
+      unit = line.unit;
+      approximate = line.approximate;
+    }
+  }
+
+  const sources = [...sourcesOf(item), ...line.sources];
+  const recipeIds = new Set(sources.map(source => source.recipeId));
+  const prices = line.sources.filter(source => typeof source.estimatedPrice === 'number');
+  const { recipeId: _recipeId, recipeTitle: _recipeTitle, ...rest } = item;
+
+  return {
+    ...(recipeIds.size === 1 ? item : rest),
+    ...(amount !== undefined && { amount, unit }),
+    sources,
+    ...(approximate && { approximate: true }),
+    ...(prices.length > 0 && {
+      estimatedPrice: Math.round(((item.estimatedPrice || 0) + prices.reduce((sum, source) => sum + (source.estimatedPrice || 0), 0)) * 100) / 100
+    })
+  };
+}
+
+// Keep the recipe's wording when everyone agrees on it, otherwise use the shared key
+function displayName(line: AggregatedLine): string {
+  const names = Array.from(new Set(line.sources.map(source => source.name.trim())));
+  return names.length === 1 ? names[0] : line.key;
+}
+
+function sourcesOf(item: ShoppingListItem): ShoppingListSource[] {
+  if (Array.isArray(item.sources) && item.sources.length > 0) return item.sources;
+
+  // Lines saved before aggregation, or added by hand
+  return [{
+    recipeId: item.recipeId || 'custom',
+    ...(item.recipeTitle && { recipeTitle: item.recipeTitle }),
+    name: item.name,
+    amount: item.amount || 0,
+    unit: item.unit || '',
+    ...(typeof item.estimatedPrice === 'number' && { estimatedPrice: item.estimatedPrice })
+  }];
+}
+
+function sourceFromIngredient(ingredient: Ingredient | string, recipe: RecipeIngredients): ShoppingListSource | null {
+  const parsed = typeof ingredient === 'string' ? parseIngredientLine(ingredient) : ingredient;
+  if (!parsed?.name) return null;
+
+  return {
+    recipeId: String(recipe.recipeId),
+    ...(recipe.recipeTitle && { recipeTitle: recipe.recipeTitle }),
+    name: parsed.name,
+    amount: parsed.toTaste ? 0 : Number(parsed.amount) || 0,
+    unit: parsed.unit ? normalizeUnit(parsed.unit) : '',
+    ...(typeof (parsed as Ingredient).estimatedPrice === 'number' && {
+      estimatedPrice: (parsed as Ingredient).estimatedPrice
+    })
+  };
+}
+
+export function singularize(word: string): string {
+  if (irregularPlurals[word]) return irregularPlurals[word];
+  if (invariantWords.has(word) || word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ch|sh|ss|x)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+// Nobody buys half an onion
+export function roundForShopping(amount: number, unit: string): number {
+  if (getUnitKind(unit) === 'count') return Math.ceil(amount - 0.001);
+  return Math.round(amount * 100) / 100;
+}
+
+function unitRank(unit: string): number {
+  const kind = getUnitKind(normalizeUnit(unit));
+  return kind ? unitKindOrder[kind] : 3;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ShoppingListItem } from '@/types/recipe';
+import { isExportFormat, renderShoppingListExport } from './shoppingListExport';
+
+const date = new Date(2026, 9, 19);
+
+const items: ShoppingListItem[] = [
+  {
+    id: 'onion',
+    name: 'onion',
+    amount: 3,
+    unit: 'item',
+    sources: [
+      { recipeId: 'soup', recipeTitle: 'Soup', name: 'onion', amount: 2, unit: 'item' },
+      { recipeId: 'stew', recipeTitle: 'Stew', name: 'onion', amount: 1, unit: 'item' }
+    ],
+    estimatedPrice: 1.5,
+    checked: false,
+    isAlreadyOwned: false,
+    category: 'produce'
+  },
+  {
+    id: 'milk',
+    name: 'milk',
+    amount: 4,
+    unit: 'cup',
+    ownedAmount: 1,
+    amountToBuy: 3,
+    approximate: true,
+    estimatedPrice: 2,
+    checked: false,
+    isAlreadyOwned: false,
+    category: 'dairy-eggs'
+  },
+  { id: 'salt', name: 'salt', checked: false, isAlreadyOwned: true, isPantryStaple: true, estimatedPrice: 0.5, category: 'spices-condiments' },
+  { id: 'bread', name: '=HYPERLINK("x")', checked: true, isAlreadyOwned: false, estimatedPrice: 3, category: 'bakery' }
+];
+
+describe('isExportFormat', () => {
+  it('accepts only the supported formats', () => {
+    expect(isExportFormat('csv')).toBe(true);
+    expect(isExportFormat('pdf')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+});
+
+describe('renderShoppingListExport', () => {
+  it('groups plain text by aisle, shows what is left to buy and totals unchecked prices', () => {
+    const { body, contentType, fileExtension } = renderShoppingListExport(items, 'text', { date });
+
+    expect(contentType).toBe('text/plain; charset=utf-8');
+    expect(fileExtension).toBe('txt');
+    expect(body.split('\n')[0]).toBe('Shopping list (Oct 19, 2026)');
+    expect(body).toContain('PRODUCE\n• 3 onion ($1.50)');
+    expect(body).toContain('• ~3 cup milk (have 1 cup, $2.00)');
+    expect(body).toContain('• salt (pantry staple)');
+    expect(body).toContain('Estimated total: $3.50');
+  });
+
+  it('leaves checked items out when asked', () => {
+    const { body } = renderShoppingListExport(items, 'text', { date, uncheckedOnly: true });
+    expect(body).not.toContain('HYPERLINK');
+    expect(body).not.toContain('BAKERY');
+  });
+
+  it('escapes CSV fields and defuses formulas', () => {
+    const { body } = renderShoppingListExport(items, 'csv', { date });
+    const rows = body.trimEnd().split('\r\n');
+
+    expect(rows[0]).toBe('Category,Item,Quantity,Unit,Estimated Price,Checked,Already Owned,Recipes');
+    expect(rows).toContain('Produce,onion,3,item,1.50,no,no,Soup; Stew');
+    expect(rows).toContain('Dairy & Eggs,milk,3,cup,2.00,no,partly,');
+    expect(rows).toContain('Bakery,"\'=HYPERLINK(""x"")",,,3.00,yes,no,');
+  });
+
+  it('renders Markdown checkboxes with recipes', () => {
+    const { body } = renderShoppingListExport(items, 'markdown', { date, title: 'Week *1*' });
+    expect(body.startsWith('# Week \\*1\\*\n')).toBe(true);
+    expect(body).toContain('- [ ] 3 **onion** ($1.50) · _Soup, Stew_');
+    expect(body).toContain('- [x] **=HYPERLINK("x")** ($3.00)');
+  });
+
+  it('escapes HTML', () => {
+    const { body } = renderShoppingListExport(
+      [{ id: 'x', name: '<script>', checked: false, isAlreadyOwned: false }],
+      'html',
+      { date }
+    );
+    expect(body).toContain('&lt;script&gt;');
+    expect(body).not.toContain('<script>');
+  });
+});
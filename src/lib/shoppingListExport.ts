@@ -0,0 +1,238 @@
+// src/lib/shoppingListExport.ts
+// Render a shopping list as plain text, CSV, Markdown or printable HTML
+
+import { ShoppingListItem, StoreLayout } from '@/types/recipe';
+import { groupByAisle } from './storeAisles';
+
+export type ShoppingListExportFormat = 'text' | 'csv' | 'markdown' | 'html';
+
+export const EXPORT_FORMATS: ShoppingListExportFormat[] = ['text', 'csv', 'markdown', 'html'];
+
+export interface ShoppingListExportOptions {
+  uncheckedOnly?: boolean;
+  title?: string;
+  layout?: Pick<StoreLayout, 'aisleOrder'> | null;
+  date?: Date;
+}
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  fileExtension: string;
+}
+
+interface ExportLine {
+  item: ShoppingListItem;
+  quantity: string;
+  price?: number; // left out for items already at home
+  recipes: string[];
+}
+
+interface ExportSection {
+  label: string;
+  lines: ExportLine[];
+}
+
+export function isExportFormat(value: unknown): value is ShoppingListExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function renderShoppingListExport(
+  items: ShoppingListItem[],
+  format: ShoppingListExportFormat,
+  options: ShoppingListExportOptions = {}
+): RenderedExport {
+  const title = options.title || 'Shopping list';
+  const date = (options.date || new Date()).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  const sections = buildSections(items, options);
+  const total = sections
+    .flatMap(section => section.lines)
+    .filter(line => !line.item.checked)
+    .reduce((sum, line) => sum + (line.price || 0), 0);
+
+  switch (format) {
+    case 'csv':
+      return { body: renderCsv(sections), contentType: 'text/csv; charset=utf-8', fileExtension: 'csv' };
+    case 'markdown':
+      return { body: renderMarkdown(sections, title, date, total), contentType: 'text/markdown; charset=utf-8', fileExtension: 'md' };
+    case 'html':
+      return { body: renderHtml(sections, title, date, total), contentType: 'text/html; charset=utf-8', fileExtension: 'html' };
+    default:
+      return { body: renderText(sections, title, date, total), contentType: 'text/plain; charset=utf-8', fileExtension: 'txt' };
+  }
+}
+
+function buildSections(items: ShoppingListItem[], options: ShoppingListExportOptions): ExportSection[] {
+  const included = options.uncheckedOnly ? items.filter(item => !item.checked) : items;
+
+  return groupByAisle(included, options.layout).map(({ label, items: aisleItems }) => ({
+    label,
+    lines: aisleItems.map(item => ({
+      item,
+      quantity: formatQuantity(item),
+      ...(!item.isAlreadyOwned && typeof item.estimatedPrice === 'number' && { price: item.estimatedPrice }),
+      recipes: Array.from(new Set((item.sources || [])
+        .map(source => source.recipeTitle)
+        .concat(item.recipeTitle)
+        .filter((recipeTitle): recipeTitle is string => !!recipeTitle)))
+    }))
+  }));
+}
+
+// What to buy: the remainder for partly owned items, with "~" for converted totals
+function formatQuantity(item: ShoppingListItem): string {
+  const amount = typeof item.amountToBuy === 'number' ? item.amountToBuy : item.amount;
+  if (!amount) return '';
+  return `${item.approximate ? '~' : ''}${amount}${displayUnit(item.unit)}`;
+}
+
+// "2 onions" reads better as "2" than "2 item"
+function displayUnit(unit?: string): string {
+  return unit && !/^items?$/.test(unit) ? ` ${unit}` : '';
+}
+
+// "(have it)" or "(have 1 cup)" for anything the pantry already covers
+function ownedNote(item: ShoppingListItem): string {
+  if (item.isAlreadyOwned) return item.isPantryStaple ? 'pantry staple' : 'have it';
+  if (typeof item.ownedAmount === 'number') return `have ${item.ownedAmount}${displayUnit(item.unit)}`;
+  return '';
+}
+
+function formatPrice(price: number): string {
+  return `$${price.toFixed(2)}`;
+}
+
+function renderText(sections: ExportSection[], title: string, date: string, total: number): string {
+  const lines = [`${title} (${date})`];
+
+  for (const section of sections) {
+    lines.push('', section.label.toUpperCase());
+    for (const line of section.lines) {
+      const notes = [ownedNote(line.item), line.price !== undefined ? formatPrice(line.price) : ''].filter(Boolean);
+      lines.push(`${line.item.checked ? '✓' : '•'} ${[line.quantity, line.item.name].filter(Boolean).join(' ')}${notes.length ? ` (${notes.join(', ')})` : ''}`);
+    }
+  }
+
+  if (total > 0) lines.push('', `Estimated total: ${formatPrice(total)}`);
+  return lines.join('\n') + '\n';
+}
+
+function renderMarkdown(sections: ExportSection[], title: string, date: string, total: number): string {
+  const lines = [`# ${escapeMarkdown(title)}`, '', `_${date}_`];
+
+  for (const section of sections) {
+    lines.push('', `## ${section.label}`, '');
+    for (const line of section.lines) {
+      const notes = [ownedNote(line.item), line.price !== undefined ? formatPrice(line.price) : ''].filter(Boolean);
+      lines.push(
+        `- [${line.item.checked ? 'x' : ' '}] ${line.quantity ? `${line.quantity} ` : ''}**${escapeMarkdown(line.item.name)}**` +
+        (notes.length ? ` (${notes.join(', ')})` : '') +
+        (line.recipes.length ? ` · _${line.recipes.map(escapeMarkdown).join(', ')}_` : '')
+      );
+    }
+  }
+
+  if (total > 0) lines.push('', `**Estimated total:** ${formatPrice(total)}`);
+  return lines.join('\n') + '\n';
+}
+
+function renderCsv(sections: ExportSection[]): string {
+  const rows = [['Category', 'Item', 'Quantity', 'Unit', 'Estimated Price', 'Checked', 'Already Owned', 'Recipes']];
+
+  for (const section of sections) {
+    for (const { item, price, recipes } of section.lines) {
+      const amount = typeof item.amountToBuy === 'number' ? item.amountToBuy : item.amount;
+      rows.push([
+        section.label,
+        item.name,
+        amount ? String(amount) : '',
+        item.unit || '',
+        price !== undefined ? price.toFixed(2) : '',
+        item.checked ? 'yes' : 'no',
+        item.isAlreadyOwned ? 'yes' : typeof item.ownedAmount === 'number' ? 'partly' : 'no',
+        recipes.join('; ')
+      ]);
+    }
+  }
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function renderHtml(sections: ExportSection[], title: string, date: string, total: number): string {
+  const sectionHtml = sections.map(section => `
+    <section>
+      <h2>${escapeHtml(section.label)}</h2>
+      <ul>
+${section.lines.map(line => {
+  const note = ownedNote(line.item);
+  const classes = [line.item.checked && 'checked', line.item.isAlreadyOwned && 'owned'].filter(Boolean).join(' ');
+  return `        <li${classes ? ` class="${classes}"` : ''}>
+          <span class="box">${line.item.checked ? '&#10003;' : ''}</span>
+          <span class="name">${line.quantity ? `<span class="qty">${escapeHtml(line.quantity)}</span> ` : ''}${escapeHtml(line.item.name)}${note ? ` <span class="note">(${escapeHtml(note)})</span>` : ''}</span>
+          <span class="price">${line.price !== undefined ? formatPrice(line.price) : ''}</span>
+        </li>`;
+}).join('\n')}
+      </ul>
+    </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+    header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #10b981; margin-bottom: 1rem; }
+    h1 { font-size: 1.5rem; margin: 0 0 0.5rem; }
+    h2 { font-size: 1rem; text-transform: uppercase; letter-spacing: 0.05em; color: #047857; margin: 1.25rem 0 0.5rem; }
+    section { break-inside: avoid; }
+    ul { list-style: none; margin: 0; padding: 0; }
+    li { display: flex; align-items: center; gap: 0.75rem; padding: 0.35rem 0; border-bottom: 1px solid #e5e7eb; }
+    .box { width: 1rem; height: 1rem; border: 1.5px solid #6b7280; border-radius: 3px; display: inline-flex; align-items: center; justify-content: center; font-size: 0.75rem; flex-shrink: 0; }
+    .name { flex: 1; }
+    .qty { font-weight: 600; }
+    .note, .date { color: #6b7280; font-size: 0.875rem; }
+    .price { color: #374151; font-variant-numeric: tabular-nums; }
+    .checked .name { text-decoration: line-through; color: #9ca3af; }
+    .owned .name { color: #6b7280; }
+    .total { text-align: right; font-weight: 600; margin-top: 1rem; }
+    .print { margin-top: 1.5rem; padding: 0.5rem 1rem; background: #10b981; color: white; border: none; border-radius: 0.5rem; font-size: 1rem; cursor: pointer; }
+    @media print {
+      body { margin: 0; max-width: none; font-size: 11pt; }
+      .print { display: none; }
+      li { padding: 0.2rem 0; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    <span class="date">${escapeHtml(date)}</span>
+  </header>
+${sectionHtml || '  <p>Nothing to buy.</p>'}
+${total > 0 ? `  <p class="total">Estimated total: ${formatPrice(total)}</p>` : ''}
+  <button class="print" onclick="window.print()">Print or save as PDF</button>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#|])/g, '\\$1');
+}
+
+// Quote fields that need it, and defuse values a spreadsheet would run as a formula
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { ShoppingListItem, ShoppingListOperation } from '@/types/recipe';
+import { applyShoppingListOperations, ensureItemVersions, replaceShoppingList, stampItemVersions } from './shoppingListSync';
+
+function item(id: string, name: string, version = 1, extra: Partial<ShoppingListItem> = {}): ShoppingListItem {
+  return { id, name, checked: false, isAlreadyOwned: false, version, ...extra };
+}
+
+const createdAt = '2026-10-19T10:00:00.000Z';
+
+describe('ensureItemVersions', () => {
+  it('starts unversioned items at 1', () => {
+    expect(ensureItemVersions([item('a', 'milk', 4), { ...item('b', 'eggs'), version: undefined }]).map(i => i.version)).toEqual([4, 1]);
+  });
+});
+
+describe('stampItemVersions', () => {
+  it('bumps only items whose content changed, ignoring pantry-derived fields', () => {
+    const previous = [item('a', 'milk', 2), item('b', 'eggs', 5)];
+    const next = [
+      { ...previous[0], isAlreadyOwned: true, ownedAmount: 1 },
+      { ...previous[1], amount: 12 },
+      item('c', 'bread', 9)
+    ];
+    expect(stampItemVersions(previous, next).map(i => i.version)).toEqual([2, 6, 1]);
+  });
+});
+
+describe('applyShoppingListOperations', () => {
+  it('applies current edits and skips a replayed operation', () => {
+    const operations: ShoppingListOperation[] = [
+      { opId: 'op-1', type: 'update', itemId: 'a', changes: { amount: 2, unit: 'l' }, baseVersion: 1, createdAt }
+    ];
+    const first = applyShoppingListOperations([item('a', 'milk')], operations);
+    expect(first.items[0]).toMatchObject({ amount: 2, unit: 'l', version: 2, lastOpId: 'op-1' });
+
+    const replay = applyShoppingListOperations(first.items, operations);
+    expect(replay.results).toEqual([{ opId: 'op-1', status: 'skipped', message: 'Already applied' }]);
+    expect(replay.items[0].version).toBe(2);
+  });
+
+  it('still checks off a stale item but keeps the other device\'s rename', () => {
+    const server = [item('a', 'oat milk', 3)];
+    const { items, results } = applyShoppingListOperations(server, [
+      { opId: 'op-1', type: 'update', itemId: 'a', changes: { checked: true }, baseVersion: 1, createdAt },
+      { opId: 'op-2', type: 'update', itemId: 'a', changes: { name: 'milk' }, baseVersion: 2, createdAt }
+    ]);
+
+    expect(items[0]).toMatchObject({ name: 'oat milk', checked: true, version: 4 });
+    expect(results.map(result => result.status)).toEqual(['applied', 'conflict']);
+  });
+
+  it('carries the client forward through its own earlier edits', () => {
+    const { items, results } = applyShoppingListOperations([item('a', 'milk')], [
+      { opId: 'op-1', type: 'update', itemId: 'a', changes: { amount: 1 }, baseVersion: 1, createdAt },
+      { opId: 'op-2', type: 'update', itemId: 'a', changes: { name: 'whole milk' }, baseVersion: 2, createdAt }
+    ]);
+
+    expect(items[0]).toMatchObject({ name: 'whole milk', amount: 1, version: 3 });
+    expect(results.map(result => result.status)).toEqual(['applied', 'applied']);
+  });
+
+  it('keeps an item another device changed instead of removing it, and skips duplicate adds', () => {
+    const { items, results } = applyShoppingListOperations([item('a', 'milk', 2)], [
+      { opId: 'op-1', type: 'remove', itemId: 'a', baseVersion: 1, createdAt },
+      { opId: 'op-2', type: 'add', item: item('a', 'milk'), createdAt },
+      { opId: 'op-3', type: 'remove', itemId: 'gone', baseVersion: 1, createdAt }
+    ]);
+
+    expect(items).toHaveLength(1);
+    expect(results.map(result => result.status)).toEqual(['conflict', 'skipped', 'skipped']);
+  });
+});
+
+describe('replaceShoppingList', () => {
+  it('takes the client copy unless another device changed the item since', () => {
+    const current = [item('a', 'oat milk', 3), item('b', 'eggs', 1), item('c', 'bread', 1)];
+    const { items, conflicts } = replaceShoppingList(current, [
+      item('a', 'milk', 2),
+      item('b', 'eggs', 1, { checked: true }),
+      item('d', 'butter')
+    ]);
+
+    expect(items.map(i => [i.id, i.name, i.checked])).toEqual([
+      ['a', 'oat milk', false],
+      ['b', 'eggs', true],
+      ['d', 'butter', false]
+    ]);
+    expect(conflicts).toEqual(['"oat milk" was changed on another device, so it was kept']);
+  });
+});
@@ -0,0 +1,158 @@
+// src/lib/shoppingListSync.ts
+// Item-level shopping list operations, replayed on the server with per-item version stamps
+
+import {
+  ShoppingListItem,
+  ShoppingListOperation,
+  ShoppingListOperationResult
+} from '@/types/recipe';
+
+// Fields that only say how the list relates to the pantry; they're recomputed on every read
+const derivedFields: Array<keyof ShoppingListItem> = ['isAlreadyOwned', 'ownedAmount', 'amountToBuy', 'isPantryStaple'];
+
+/**
+ * Give every item a version, for lists saved before items were versioned.
+ */
+export function ensureItemVersions(items: ShoppingListItem[]): ShoppingListItem[] {
+  return items.map(item => Number.isInteger(item.version) && item.version! > 0 ? item : { ...item, version: 1 });
+}
+
+/**
+ * Version a list the server is about to save against the copy it replaces:
+ * unchanged items keep their version, changed items go up by one and new items start at 1.
+ */
+export function stampItemVersions(previous: ShoppingListItem[], next: ShoppingListItem[]): ShoppingListItem[] {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+
+  return next.map(item => {
+    const before = previousById.get(item.id);
+    if (!before) return { ...item, version: 1 };
+
+    const beforeVersion = before.version || 1;
+    return { ...item, version: sameContent(before, item) ? beforeVersion : beforeVersion + 1 };
+  });
+}
+
+/**
+ * Apply queued operations in order.
+ *
+ * An operation made against an older version than the server's doesn't simply
+ * overwrite it. Checking an item off still applies: whoever is standing in the
+ * store knows what's in their cart. Name, amount and unit edits keep the
+ * server's copy and are reported as conflicts, and so does removing an item
+ * someone else has since changed. Replaying an operation that was already
+ * applied (the response was lost on a bad connection) is a no-op.
+ */
+export function applyShoppingListOperations(
+  items: ShoppingListItem[],
+  operations: ShoppingListOperation[]
+): { items: ShoppingListItem[]; results: ShoppingListOperationResult[] } {
+  let list = ensureItemVersions(items);
+  const results: ShoppingListOperationResult[] = [];
+
+  // A client's own earlier operation bumps the version its later ones were made against
+  const rebased = new Map<string, { from: number; to: number }>();
+  const baseVersionOf = (itemId: string, baseVersion: number) => {
+    const mapping = rebased.get(itemId);
+    return mapping && mapping.from === baseVersion ? mapping.to : baseVersion;
+  };
+
+  for (const operation of operations) {
+    const existing = operation.type === 'add'
+      ? list.find(item => item.id === operation.item.id)
+      : list.find(item => item.id === operation.itemId);
+
+    if (operation.type === 'add') {
+      if (existing) {
+        results.push({ opId: operation.opId, status: 'skipped', message: 'Already on the list' });
+        continue;
+      }
+      list = [...list, { ...operation.item, version: 1, lastOpId: operation.opId }];
+      results.push({ opId: operation.opId, status: 'applied' });
+      continue;
+    }
+
+    if (operation.type === 'remove') {
+      if (!existing) {
+        results.push({ opId: operation.opId, status: 'skipped', message: 'Already removed' });
+      } else if ((existing.version || 1) > baseVersionOf(existing.id, operation.baseVersion)) {
+        results.push({ opId: operation.opId, status: 'conflict', message: `"${existing.name}" was changed on another device, so it was kept` });
+      } else {
+        list = list.filter(item => item.id !== operation.itemId);
+        results.push({ opId: operation.opId, status: 'applied' });
+      }
+      continue;
+    }
+
+    if (!existing) {
+      results.push({ opId: operation.opId, status: 'conflict', message: 'Item was removed on another device' });
+      continue;
+    }
+
+    if (existing.lastOpId === operation.opId) {
+      results.push({ opId: operation.opId, status: 'skipped', message: 'Already applied' });
+      continue;
+    }
+
+    const isCurrent = (existing.version || 1) === baseVersionOf(existing.id, operation.baseVersion);
+    const { checked, ...details } = operation.changes;
+    const changes: Partial<ShoppingListItem> = checked !== undefined ? { checked } : {};
+    const droppedFields = isCurrent ? [] : Object.keys(details);
+
+    if (isCurrent) Object.assign(changes, details);
+
+    const updated = { ...existing, ...changes };
+    if (!sameContent(existing, updated)) {
+      const version = (existing.version || 1) + 1;
+      list = list.map(item => item.id === existing.id ? { ...updated, version, lastOpId: operation.opId } : item);
+      // Only an operation that was current carries the client forward; after a stale one the
+      // client's next edit is still based on a copy that's missing the other device's change
+      if (isCurrent) {
+        rebased.set(existing.id, { from: operation.baseVersion + 1, to: version });
+      }
+    }
+
+    results.push(droppedFields.length > 0
+      ? { opId: operation.opId, status: 'conflict', message: `Kept the other device's ${droppedFields.join(', ')} for "${existing.name}"` }
+      : { opId: operation.opId, status: 'applied' });
+  }
+
+  return { items: list, results };
+}
+
+/**
+ * Replace the list with a client's full copy. An item the client holds at an older
+ * version than the server's was changed on another device since the client read it,
+ * so the server's copy is kept and reported; anything the client left out is removed.
+ */
+export function replaceShoppingList(
+  current: ShoppingListItem[],
+  incoming: ShoppingListItem[]
+): { items: ShoppingListItem[]; conflicts: string[] } {
+  const currentById = new Map(ensureItemVersions(current).map(item => [item.id, item]));
+  const conflicts: string[] = [];
+
+  const items = incoming.map(item => {
+    const server = currentById.get(item.id);
+    if (server && (server.version || 1) > (item.version || 1) && !sameContent(server, item)) {
+      conflicts.push(`"${server.name}" was changed on another device, so it was kept`);
+      return server;
+    }
+    return item;
+  });
+
+  return { items, conflicts };
+}
+
+function sameContent(a: ShoppingListItem, b: ShoppingListItem): boolean {
+  return JSON.stringify(comparable(a)) === JSON.stringify(comparable(b));
+}
+
+function comparable(item: ShoppingListItem): Record<string, unknown> {
+  const copy: Record<string, unknown> = { ...item };
+  for (const field of [...derivedFields, 'version', 'lastOpId']) delete copy[field];
+  return Object.keys(copy).sort().reduce<Record<string, unknown>>((sorted, key) => {
+    sorted[key] = copy[key];
+    return sorted;
+  }, {});
+}
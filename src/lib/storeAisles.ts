@@ -0,0 +1,146 @@
+// src/lib/storeAisles.ts
+// Ingredient-to-aisle classification and store-layout ordering for shopping lists
+
+import { ShoppingListItem, StoreAisle, StoreLayout } from '@/types/recipe';
+
+// A typical supermarket route: fresh food around the edges, frozen near the tills
+export const DEFAULT_AISLE_ORDER: StoreAisle[] = [
+  'produce',
+  'bakery',
+  'meat-seafood',
+  'dairy-eggs',
+  'pantry',
+  'spices-condiments',
+  'snacks',
+  'beverages',
+  'frozen',
+  'household',
+  'other'
+];
+
+export const AISLE_LABELS: Record<StoreAisle, string> = {
+  'produce': 'Produce',
+  'bakery': 'Bakery',
+  'meat-seafood': 'Meat & Seafood',
+  'dairy-eggs': 'Dairy & Eggs',
+  'pantry': 'Pantry & Dry Goods',
+  'spices-condiments': 'Spices & Condiments',
+  'snacks': 'Snacks',
+  'beverages': 'Beverages',
+  'frozen': 'Frozen',
+  'household': 'Household',
+  'other': 'Other'
+};
+
+// The longest keyword found in a name wins, so "peanut butter" beats "butter"
+// and "red pepper flakes" beats "red pepper"
+const aisleKeywords: Record<Exclude<StoreAisle, 'other'>, string[]> = {
+  'produce': [
+    'apple', 'banana', 'orange', 'lemon', 'lime', 'berry', 'berries', 'grape', 'avocado', 'tomato',
+    'onion', 'garlic', 'shallot', 'scallion', 'leek', 'potato', 'carrot', 'celery', 'lettuce',
+    'spinach', 'kale', 'arugula', 'cabbage', 'broccoli', 'cauliflower', 'zucchini', 'squash',
+    'butternut', 'cucumber', 'bell pepper', 'green pepper', 'red pepper', 'jalapeno', 'jalapeño',
+    'chili pepper', 'mushroom', 'ginger', 'basil', 'cilantro', 'parsley', 'mint', 'dill', 'chive',
+    'corn on the cob', 'green bean', 'asparagus', 'eggplant', 'radish', 'beet', 'mango', 'pineapple',
+    'peach', 'pear', 'melon', 'kiwi', 'cherry', 'cherries', 'sprout', 'tofu', 'herbs'
+  ],
+  'bakery': [
+    'bread', 'baguette', 'bun', 'roll', 'tortilla', 'pita', 'naan', 'croissant', 'bagel',
+    'english muffin', 'sourdough', 'ciabatta', 'brioche'
+  ],
+  'meat-seafood': [
+    'chicken', 'beef', 'pork', 'lamb', 'turkey', 'bacon', 'sausage', 'ham', 'steak', 'veal',
+    'fish', 'salmon', 'tuna', 'shrimp', 'prawn', 'cod', 'tilapia', 'halibut', 'crab', 'lobster',
+    'scallop', 'mussel', 'clam', 'chorizo', 'prosciutto', 'pancetta'
+  ],
+  'dairy-eggs': [
+    'milk', 'butter', 'buttermilk', 'cheese', 'parmesan', 'mozzarella', 'cheddar', 'feta',
+    'ricotta', 'yogurt', 'yoghurt', 'cream', 'sour cream', 'half-and-half', 'egg', 'ghee',
+    'almond milk', 'oat milk', 'soy milk'
+  ],
+  'pantry': [
+    'rice', 'pasta', 'spaghetti', 'penne', 'macaroni', 'noodle', 'flour', 'sugar', 'oats',
+    'rolled oats', 'quinoa', 'lentil', 'chickpea', 'black bean', 'kidney bean', 'pinto bean',
+    'cannellini', 'broth', 'stock', 'chicken broth', 'chicken stock', 'beef broth', 'beef stock',
+    'vegetable broth', 'vegetable stock', 'tomato paste', 'tomato sauce', 'canned', 'coconut milk',
+    'peanut butter', 'almond butter', 'honey', 'maple syrup', 'cereal', 'breadcrumb',
+    'bread crumbs', 'panko', 'baking powder', 'baking soda', 'yeast', 'cornstarch', 'chocolate',
+    'cocoa', 'almond', 'walnut', 'pecan', 'cashew', 'peanut', 'raisin', 'cream of', 'couscous'
+  ],
+  'spices-condiments': [
+    'salt', 'pepper', 'black pepper', 'peppercorn', 'red pepper flakes', 'cumin', 'paprika',
+    'oregano', 'thyme', 'rosemary', 'cinnamon', 'nutmeg', 'turmeric', 'chili powder', 'curry',
+    'bay leaf', 'bay leaves', 'spice', 'seasoning', 'garlic powder', 'onion powder', 'ground ginger',
+    'vanilla', 'oil', 'vinegar', 'soy sauce', 'ketchup', 'mustard', 'mayonnaise', 'mayo',
+    'hot sauce', 'sriracha', 'worcestershire', 'salsa', 'dressing', 'sauce', 'fish sauce', 'tahini'
+  ],
+  'snacks': ['chips', 'crackers', 'cookie', 'popcorn', 'pretzel', 'granola bar'],
+  'beverages': ['coffee', 'tea', 'juice', 'orange juice', 'apple juice', 'wine', 'beer', 'soda', 'sparkling water'],
+  'frozen': ['ice cream', 'frozen'],
+  'household': ['paper towel', 'foil', 'plastic wrap', 'dish soap', 'trash bag', 'detergent', 'napkin', 'parchment']
+};
+
+const keywordIndex: Array<{ keyword: string; aisle: StoreAisle; pattern: RegExp }> = Object.entries(aisleKeywords)
+  .flatMap(([aisle, keywords]) => keywords.map(keyword => ({
+    keyword,
+    aisle: aisle as StoreAisle,
+    pattern: new RegExp(`(^|[^a-z])${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`)
+  })))
+  .sort((a, b) => b.keyword.length - a.keyword.length);
+
+export function isStoreAisle(value: unknown): value is StoreAisle {
+  return typeof value === 'string' && (DEFAULT_AISLE_ORDER as string[]).includes(value);
+}
+
+/**
+ * Which aisle an ingredient is usually shelved in. How it's sold can override
+ * what it is: "frozen peas" are in frozen, "canned tomatoes" in pantry, "dried basil" in spices.
+ */
+export function classifyIngredient(name: string): StoreAisle {
+  const text = name.toLowerCase().replace(/\([^)]*\)/g, ' ').trim();
+  if (!text) return 'other';
+
+  if (/(^|\s)frozen\s/.test(text)) return 'frozen';
+  if (/(^|\s)(canned|tinned)\s|\bcan of\b/.test(text)) return 'pantry';
+  if (/(^|\s)dried\s/.test(text)) {
+    const match = keywordIndex.find(entry => entry.pattern.test(text));
+    return match && match.aisle === 'produce' ? 'spices-condiments' : match?.aisle || 'pantry';
+  }
+
+  const match = keywordIndex.find(entry => entry.pattern.test(text));
+  return match ? match.aisle : 'other';
+}
+
+/**
+ * The aisle for a shopping list line, reclassifying lines saved with a free-text category.
+ */
+export function aisleForItem(item: Pick<ShoppingListItem, 'name' | 'category'>): StoreAisle {
+  return isStoreAisle(item.category) ? item.category : classifyIngredient(item.name);
+}
+
+/**
+ * A layout's aisle order with any aisles it doesn't mention appended in default order.
+ */
+export function resolveAisleOrder(layout?: Pick<StoreLayout, 'aisleOrder'> | null): StoreAisle[] {
+  const order = (layout?.aisleOrder || []).filter(isStoreAisle);
+  return [...order, ...DEFAULT_AISLE_ORDER.filter(aisle => !order.includes(aisle))];
+}
+
+/**
+ * Group shopping list lines by aisle in the order you'd walk the store.
+ * Empty aisles are left out.
+ */
+export function groupByAisle<T extends Pick<ShoppingListItem, 'name' | 'category'>>(
+  items: T[],
+  layout?: Pick<StoreLayout, 'aisleOrder'> | null
+): Array<{ aisle: StoreAisle; label: string; items: T[] }> {
+  const groups = new Map<StoreAisle, T[]>();
+  for (const item of items) {
+    const aisle = aisleForItem(item);
+    groups.set(aisle, [...(groups.get(aisle) || []), item]);
+  }
+
+  return resolveAisleOrder(layout)
+    .filter(aisle => groups.has(aisle))
+    .map(aisle => ({ aisle, label: AISLE_LABELS[aisle], items: groups.get(aisle)! }));
+}
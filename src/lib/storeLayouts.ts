@@ -0,0 +1,68 @@
+// src/lib/storeLayouts.ts
+// Store layout helpers shared by the store layout routes
+
+import { StoreLayout } from '@/types/recipe';
+import { DatabaseStoreLayout } from './supabase';
+import { DEFAULT_AISLE_ORDER, isStoreAisle } from './storeAisles';
+
+export function storeLayoutFromRow(row: DatabaseStoreLayout): StoreLayout {
+  return {
+    id: row.id,
+    name: row.name,
+    aisleOrder: (Array.isArray(row.aisle_order) ? row.aisle_order : []).filter(isStoreAisle),
+    isDefault: !!row.is_default,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Check a store layout from a request body. With `partial`, only the fields
+ * present are checked (for updates). Returns an error message or null.
+ */
+export function validateStoreLayoutInput(input: any, partial = false): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Store layout must be an object';
+  }
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'Store layout name is required';
+    }
+    if (input.name.trim().length > 60) {
+      return 'Store layout name must be 60 characters or fewer';
+    }
+  }
+
+  if (!partial || input.aisleOrder !== undefined) {
+    if (!Array.isArray(input.aisleOrder) || input.aisleOrder.length === 0) {
+      return 'aisleOrder must be a non-empty array';
+    }
+    const invalid = input.aisleOrder.find((aisle: unknown) => !isStoreAisle(aisle));
+    if (invalid !== undefined) {
+      return `Unknown aisle "${invalid}". Use one of: ${DEFAULT_AISLE_ORDER.join(', ')}`;
+    }
+    if (new Set(input.aisleOrder).size !== input.aisleOrder.length) {
+      return 'aisleOrder must not list an aisle twice';
+    }
+  }
+
+  if (input.isDefault !== undefined && typeof input.isDefault !== 'boolean') {
+    return 'isDefault must be a boolean';
+  }
+
+  return null;
+}
+
+/**
+ * Map a validated request body to database columns, keeping only the fields given.
+ */
+export function storeLayoutToRow(input: any): Partial<DatabaseStoreLayout> {
+  const row: Partial<DatabaseStoreLayout> = {};
+
+  if (input.name !== undefined) row.name = input.name.trim();
+  if (input.aisleOrder !== undefined) row.aisle_order = input.aisleOrder;
+  if (input.isDefault !== undefined) row.is_default = input.isDefault;
+
+  return row;
+}
@@ -0,0 +1,49 @@
+// src/lib/substitutions.ts
+// Ingredient swaps shared by the substitutions endpoint and the budget suggestions
+
+export const substitutionDatabase: Record<string, string[]> = {
+  'butter': ['margarine', 'coconut oil', 'olive oil', 'vegetable oil', 'applesauce (for baking)'],
+  'milk': ['almond milk', 'soy milk', 'oat milk', 'coconut milk', 'rice milk'],
+  'eggs': ['flax eggs (1 tbsp ground flax + 3 tbsp water)', 'applesauce (1/4 cup)', 'mashed banana (1/4 cup)', 'aquafaba (3 tbsp)'],
+  'flour': ['almond flour', 'coconut flour', 'oat flour', 'rice flour', 'gluten-free flour blend'],
+  'sugar': ['honey (reduce liquid)', 'maple syrup (reduce liquid)', 'stevia', 'agave nectar', 'date paste'],
+  'cheese': ['nutritional yeast', 'cashew cream', 'vegan cheese', 'tahini (for nutty flavor)'],
+  'chicken': ['tofu', 'tempeh', 'mushrooms (portobello)', 'jackfruit', 'cauliflower'],
+  'beef': ['lentils', 'black beans', 'mushrooms', 'beyond meat', 'walnut crumbles'],
+  'cream': ['coconut cream', 'cashew cream', 'greek yogurt', 'silken tofu blended'],
+  'sour cream': ['greek yogurt', 'cashew cream', 'coconut cream', 'cottage cheese blended'],
+  'heavy cream': ['coconut cream', 'cashew cream + water', 'silken tofu + non-dairy milk'],
+  'yogurt': ['coconut yogurt', 'cashew yogurt', 'almond yogurt', 'applesauce (in baking)'],
+  'parmesan': ['nutritional yeast', 'cashew parmesan', 'pecorino romano', 'aged cheddar'],
+  'breadcrumbs': ['crushed crackers', 'ground oats', 'almond flour', 'crushed nuts'],
+  'vanilla extract': ['almond extract (use less)', 'vanilla bean paste', 'maple syrup', 'rum extract'],
+  'lemon juice': ['lime juice', 'vinegar', 'white wine', 'citric acid solution'],
+  'garlic': ['garlic powder (1 clove = 1/8 tsp)', 'shallots', 'onion powder', 'asafoetida (tiny amount)'],
+  'onion': ['shallots', 'scallions', 'leeks', 'onion powder', 'celery'],
+  'tomatoes': ['tomato paste + water', 'tomato sauce', 'red bell peppers', 'sun-dried tomatoes'],
+  'wine': ['grape juice + vinegar', 'broth', 'apple cider vinegar', 'lemon juice + water'],
+  'honey': ['maple syrup', 'agave nectar', 'brown rice syrup', 'date syrup'],
+  'baking powder': ['baking soda + cream of tartar (1:2 ratio)', 'self-rising flour'],
+  'baking soda': ['baking powder (use 3x amount)', 'potash', 'self-rising flour'],
+  'cornstarch': ['arrowroot powder', 'potato starch', 'tapioca starch', 'flour (use 2x amount)'],
+  'mayonnaise': ['greek yogurt', 'avocado', 'hummus', 'tahini', 'mashed silken tofu'],
+  'ketchup': ['tomato sauce + vinegar + sugar', 'tomato paste + honey + vinegar'],
+  'worcestershire sauce': ['soy sauce + vinegar + brown sugar', 'fish sauce + molasses', 'tamari + balsamic vinegar']
+};
+
+// Exact key first, then the first key either name contains
+export function findSubstitutions(ingredient: string): string[] {
+  const name = ingredient.toLowerCase().trim();
+
+  if (substitutionDatabase[name]) {
+    return substitutionDatabase[name];
+  }
+
+  for (const [key, subs] of Object.entries(substitutionDatabase)) {
+    if (name.includes(key) || key.includes(name)) {
+      return subs;
+    }
+  }
+
+  return [];
+}
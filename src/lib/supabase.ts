@@ -42,4 +42,138 @@ export interface DatabaseUserData {
   updated_at: string;
 }
 
+export interface DatabasePantryItem {
+  id: string;
+  user_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  location: 'fridge' | 'freezer' | 'pantry';
+  purchase_date: string | null;
+  expiry_date: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseCookEvent {
+  id: string;
+  user_id: string;
+  recipe_id: string | null;
+  recipe_title: string;
+  servings: number;
+  deductions: any[];
+  unmatched_ingredients: string[];
+  cooked_at: string;
+  undone_at: string | null;
+}
+
+export interface DatabaseLeftover {
+  id: string;
+  user_id: string;
+  cook_event_id: string | null;
+  kind: 'ingredient' | 'portion';
+  name: string;
+  amount: number;
+  unit: string;
+  recipe_title: string | null;
+  use_by: string;
+  created_at: string;
+  used_at: string | null;
+}
+
+export interface DatabaseFoodLogEntry {
+  id: string;
+  user_id: string;
+  eaten_on: string;
+  meal_slot: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  description: string;
+  recipe_id: string | null;
+  portions: number;
+  nutrients: Record<string, number>;
+  confidence: number;
+  unmatched: string[] | null;
+  glycemic_load: number | null;
+  created_at: string;
+}
+
+export interface DatabaseStoreLayout {
+  id: string;
+  user_id: string;
+  name: string;
+  aisle_order: string[];
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseSharedList {
+  id: string;
+  owner_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseSharedListMember {
+  id: string;
+  list_id: string;
+  user_id: string;
+  role: 'owner' | 'editor' | 'viewer';
+  created_at: string;
+}
+
+export interface DatabaseSharedListItem {
+  id: string;
+  list_id: string;
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  category: string | null;
+  sources: any[];
+  estimated_price: number | null;
+  checked: boolean;
+  checked_by: string | null;
+  checked_at: string | null;
+  added_by: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabasePriceObservation {
+  id: string;
+  ingredient_key: string;
+  ingredient_name: string;
+  store_id: string;
+  unit: string;
+  unit_price: number;
+  regular_unit_price: number | null;
+  promotion: string | null;
+  reported_by: string | null;
+  observed_on: string;
+  created_at: string;
+}
+
+export interface DatabaseGrocerySpend {
+  id: string;
+  user_id: string;
+  amount: number;
+  spent_on: string;
+  store_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface DatabaseCartExport {
+  id: string;
+  user_id: string;
+  provider_id: string;
+  retailer_id: string;
+  item_count: number;
+  matched_count: number;
+  unmatched_items: Array<{ name: string; amount: number; unit: string; reason: string }>;
+  created_at: string;
+}
+
 export default supabase;
\ No newline at end of file
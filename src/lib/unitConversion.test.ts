@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { convertQuantity, toGrams, toMilliliters } from './unitConversion';
+
+describe('toGrams', () => {
+  it('weighs a volume by the food the name ends with, not a modifier', () => {
+    expect(toGrams(1, 'cup', 'chicken broth')).toMatchObject({ basis: 'density' });
+    expect(toGrams(1, 'cup', 'chicken broth').amount).toBeCloseTo(236.6, 1);
+    expect(toGrams(1, 'cup', 'chicken stock').amount).toBeCloseTo(236.6, 1);
+    expect(toGrams(1, 'cup', 'cream cheese').amount).toBeCloseTo(231.9, 1);
+  });
+
+  it('matches plurals and skips preparation after a comma', () => {
+    expect(toGrams(2, 'cup', 'onions, chopped').amount).toBeCloseTo(321.8, 1);
+    expect(toGrams(2, 'large', 'eggs')).toMatchObject({ amount: 100, basis: 'piece-weight' });
+  });
+
+  it('does not read "egg" into "eggplant"', () => {
+    expect(toGrams(1, 'each', 'eggplant').basis).toBe('estimate');
+  });
+
+  it('falls back to water, flagged as an estimate, for an unknown food', () => {
+    const grams = toGrams(1, 'cup', 'mystery sauce');
+    expect(grams).toMatchObject({ basis: 'estimate', approximate: true });
+    expect(grams.amount).toBeCloseTo(236.6, 1);
+  });
+
+  it('converts a can through its stated contents', () => {
+    expect(toGrams(2, 'can', 'tomatoes', { amount: 14, unit: 'oz' }).amount).toBeCloseTo(793.8, 1);
+  });
+});
+
+describe('toMilliliters', () => {
+  it('returns null for a count with nothing to weigh it by', () => {
+    expect(toMilliliters(3, 'item', 'mystery')).toBeNull();
+  });
+});
+
+describe('convertQuantity', () => {
+  it('converts flour between cups and grams through its density', () => {
+    const converted = convertQuantity(1, 'cup', 'g', 'all-purpose flour');
+    expect(converted?.amount).toBeCloseTo(125.4, 1);
+  });
+});
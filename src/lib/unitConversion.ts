@@ -0,0 +1,479 @@
+// src/lib/unitConversion.ts
+// Volume, mass and count conversions with per-ingredient densities and piece weights
+
+import { normalizeUnit } from './ingredientParser';
+
+export type UnitKind = 'volume' | 'mass' | 'count';
+export type MeasurementSystem = 'metric' | 'us' | 'imperial';
+
+// How a conversion was made. Only 'estimate' means we had nothing specific to go on.
+export type ConversionBasis = 'exact' | 'density' | 'piece-weight' | 'estimate';
+
+export interface ConversionResult {
+  amount: number;
+  unit: string;
+  basis: ConversionBasis;
+  approximate: boolean;
+  note?: string;
+}
+
+export interface PackageSize {
+  amount: number;
+  unit: string;
+}
+
+// Volume units in millilitres, mass units in grams
+const unitDefinitions: Record<string, { kind: UnitKind; toBase: number }> = {
+  'ml': { kind: 'volume', toBase: 1 },
+  'l': { kind: 'volume', toBase: 1000 },
+  'pinch': { kind: 'volume', toBase: 0.31 }, // 1/16 tsp
+  'dash': { kind: 'volume', toBase: 0.62 }, // 1/8 tsp
+  'tsp': { kind: 'volume', toBase: 4.929 },
+  'tbsp': { kind: 'volume', toBase: 14.787 },
+  'fl oz': { kind: 'volume', toBase: 29.574 },
+  'cup': { kind: 'volume', toBase: 236.588 },
+  'pint': { kind: 'volume', toBase: 473.176 },
+  'quart': { kind: 'volume', toBase: 946.353 },
+  'gallon': { kind: 'volume', toBase: 3785.41 },
+  'imp fl oz': { kind: 'volume', toBase: 28.413 },
+  'imp pint': { kind: 'volume', toBase: 568.261 },
+  'imp quart': { kind: 'volume', toBase: 1136.52 },
+  'imp gallon': { kind: 'volume', toBase: 4546.09 },
+
+  'mg': { kind: 'mass', toBase: 0.001 },
+  'g': { kind: 'mass', toBase: 1 },
+  'kg': { kind: 'mass', toBase: 1000 },
+  'oz': { kind: 'mass', toBase: 28.3495 },
+  'lb': { kind: 'mass', toBase: 453.592 }
+};
+
+// Count-like units. The gram weights here are generic fallbacks, used only when the
+// ingredient has no piece weight of its own.
+const countUnitWeights: Record<string, number> = {
+  'item': 50,
+  'each': 50,
+  'piece': 50,
+  'whole': 150,
+  'small': 100,
+  'medium': 150,
+  'large': 200,
+  'clove': 3,
+  'slice': 25,
+  'stick': 113,
+  'can': 400,
+  'jar': 350,
+  'bottle': 250,
+  'package': 300,
+  'box': 450,
+  'bag': 450,
+  'bunch': 100,
+  'head': 500,
+  'sprig': 1,
+  'stalk': 40,
+  'fillet': 150,
+  'sheet': 10,
+  'handful': 30,
+  'inch': 5
+};
+
+// Units that all mean "one of the thing" when the ingredient gives no size-specific weight
+const genericCountUnits = new Set(['item', 'each', 'piece', 'whole', 'medium']);
+
+// Container units whose contents can be read from a package size like "(14 oz)"
+const containerUnits = new Set(['can', 'jar', 'bottle', 'package', 'box', 'bag']);
+
+// Grams per millilitre
+const ingredientDensities: Record<string, number> = {
+  'water': 1.0,
+  'broth': 1.0,
+  'stock': 1.0,
+  'milk': 1.03,
+  'buttermilk': 1.03,
+  'cream': 1.0,
+  'heavy cream': 0.99,
+  'sour cream': 1.02,
+  'yogurt': 1.03,
+  'greek yogurt': 1.1,
+  'butter': 0.96,
+  'oil': 0.92,
+  'olive oil': 0.92,
+  'honey': 1.42,
+  'maple syrup': 1.32,
+  'molasses': 1.4,
+  'soy sauce': 1.2,
+  'vinegar': 1.01,
+  'lemon juice': 1.03,
+  'lime juice': 1.03,
+  'wine': 0.99,
+  'coconut milk': 0.97,
+  'peanut butter': 1.08,
+  'almond butter': 1.06,
+  'tomato sauce': 1.03,
+  'tomato paste': 1.1,
+
+  'flour': 0.53,
+  'all-purpose flour': 0.53,
+  'whole wheat flour': 0.51,
+  'almond flour': 0.41,
+  'sugar': 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.51,
+  'salt': 1.22,
+  'kosher salt': 0.69,
+  'baking powder': 0.81,
+  'baking soda': 0.93,
+  'cornstarch': 0.54,
+  'cocoa': 0.42,
+  'oats': 0.38,
+  'rice': 0.78,
+  'quinoa': 0.72,
+  'lentils': 0.81,
+  'pasta': 0.59,
+  'breadcrumbs': 0.46,
+
+  'cheese': 0.46,
+  'cream cheese': 0.98,
+  'cottage cheese': 0.95,
+  'ricotta': 1.04,
+  'ricotta cheese': 1.04,
+  'parmesan': 0.42,
+  'mozzarella': 0.47,
+  'cheddar': 0.47,
+  'spinach': 0.13,
+  'lettuce': 0.2,
+  'kale': 0.28,
+  'broccoli': 0.38,
+  'cauliflower': 0.45,
+  'onion': 0.68,
+  'carrot': 0.54,
+  'celery': 0.51,
+  'bell pepper': 0.63,
+  'tomato': 0.76,
+  'mushroom': 0.3,
+  'corn': 0.69,
+  'peas': 0.61,
+  'black beans': 0.73,
+  'kidney beans': 0.75,
+  'chickpeas': 0.7,
+  'beans': 0.73,
+  'berries': 0.6,
+  'blueberries': 0.63,
+  'almonds': 0.6,
+  'walnuts': 0.5,
+  'nuts': 0.55,
+  'chocolate chips': 0.72,
+  'raisins': 0.61,
+  'basil': 0.1,
+  'parsley': 0.25,
+  'cilantro': 0.17,
+  'garlic': 0.58,
+  'ginger': 0.41,
+  'cinnamon': 0.53,
+  'cumin': 0.42,
+  'paprika': 0.46,
+  'garlic powder': 0.63,
+  'onion powder': 0.49,
+  'pepper': 0.49,
+  'oregano': 0.21,
+  'thyme': 0.29,
+  'chicken': 0.59,
+  'beef': 0.95
+};
+
+// Grams per piece, keyed by unit; 'each' is the default size
+const ingredientPieceWeights: Record<string, Record<string, number>> = {
+  'egg': { 'each': 50, 'small': 38, 'medium': 44, 'large': 50, 'whole': 50 },
+  'onion': { 'each': 110, 'small': 70, 'medium': 110, 'large': 150 },
+  'shallot': { 'each': 25 },
+  'garlic': { 'clove': 3, 'head': 40, 'each': 3 },
+  'potato': { 'each': 150, 'small': 100, 'medium': 150, 'large': 200 },
+  'sweet potato': { 'each': 130, 'small': 60, 'medium': 130, 'large': 180 },
+  'tomato': { 'each': 123, 'small': 90, 'medium': 123, 'large': 180 },
+  'carrot': { 'each': 61, 'small': 50, 'medium': 61, 'large': 72 },
+  'celery': { 'stalk': 40, 'each': 40 },
+  'bell pepper': { 'each': 120, 'small': 75, 'medium': 120, 'large': 165 },
+  'zucchini': { 'each': 196, 'small': 120, 'medium': 196, 'large': 320 },
+  'cucumber': { 'each': 300 },
+  'avocado': { 'each': 150 },
+  'lemon': { 'each': 85, 'whole': 85 },
+  'lime': { 'each': 67, 'whole': 67 },
+  'apple': { 'each': 182, 'small': 150, 'medium': 182, 'large': 223 },
+  'banana': { 'each': 118, 'small': 101, 'medium': 118, 'large': 136 },
+  'orange': { 'each': 131 },
+  'chicken breast': { 'each': 174, 'piece': 174 },
+  'chicken thigh': { 'each': 116, 'piece': 116 },
+  'salmon': { 'fillet': 170, 'each': 170 },
+  'fish': { 'fillet': 150, 'each': 150 },
+  'butter': { 'stick': 113 },
+  'bread': { 'slice': 28 },
+  'bacon': { 'slice': 12, 'strip': 12 },
+  'cheese': { 'slice': 21 },
+  'tortilla': { 'each': 45 },
+  'ginger': { 'inch': 5 },
+  'lettuce': { 'head': 360 },
+  'cabbage': { 'head': 900 },
+  'cauliflower': { 'head': 575 },
+  'broccoli': { 'head': 600 },
+  'parsley': { 'bunch': 60, 'sprig': 1 },
+  'cilantro': { 'bunch': 50, 'sprig': 1 },
+  'spinach': { 'bunch': 340 },
+  'thyme': { 'sprig': 0.5 },
+  'rosemary': { 'sprig': 1 }
+};
+
+/**
+ * Kind of a unit after normalization, or null for something we don't recognise.
+ */
+export function getUnitKind(unit: string): UnitKind | null {
+  const normalized = normalizeUnit(unit);
+  if (unitDefinitions[normalized]) return unitDefinitions[normalized].kind;
+  if (normalized in countUnitWeights) return 'count';
+  return null;
+}
+
+/**
+ * Convert an amount of an ingredient to grams.
+ * Never fails: unknown units fall back to a rough per-unit weight flagged as an estimate.
+ */
+export function toGrams(
+  amount: number,
+  unit: string,
+  ingredientName = '',
+  packageSize?: PackageSize
+): ConversionResult {
+  const normalized = normalizeUnit(unit);
+  const definition = unitDefinitions[normalized];
+
+  if (definition?.kind === 'mass') {
+    return result(amount * definition.toBase, 'g', 'exact');
+  }
+
+  if (definition?.kind === 'volume') {
+    const density = findDensity(ingredientName);
+    const millilitres = amount * definition.toBase;
+    if (density !== null) {
+      return result(millilitres * density, 'g', 'density');
+    }
+    return result(millilitres, 'g', 'estimate', `No density for "${ingredientName}", assumed water`);
+  }
+
+  // A can/jar with a stated size converts through its contents
+  if (packageSize && containerUnits.has(normalized)) {
+    const contents = toGrams(packageSize.amount, packageSize.unit, ingredientName);
+    return result(amount * contents.amount, 'g', contents.basis, contents.note);
+  }
+
+  const pieceWeight = findPieceWeight(ingredientName, normalized);
+  if (pieceWeight !== null) {
+    return result(amount * pieceWeight, 'g', 'piece-weight');
+  }
+
+  const fallback = countUnitWeights[normalized] ?? 50;
+  return result(
+    amount * fallback,
+    'g',
+    'estimate',
+    `No ${normalized} weight for "${ingredientName || 'ingredient'}", assumed ${fallback} g`
+  );
+}
+
+/**
+ * Convert an amount to millilitres, using density for mass units.
+ * Returns null for count units without a weight, since there is nothing to go on.
+ */
+export function toMilliliters(amount: number, unit: string, ingredientName = ''): ConversionResult | null {
+  const normalized = normalizeUnit(unit);
+  const definition = unitDefinitions[normalized];
+
+  if (definition?.kind === 'volume') {
+    return result(amount * definition.toBase, 'ml', 'exact');
+  }
+
+  const grams = toGrams(amount, normalized, ingredientName);
+  if (definition?.kind !== 'mass' && grams.basis === 'estimate') return null;
+
+  const density = findDensity(ingredientName);
+  if (density !== null) {
+    return result(grams.amount / density, 'ml', grams.basis === 'exact' ? 'density' : grams.basis);
+  }
+  return result(grams.amount, 'ml', 'estimate', `No density for "${ingredientName}", assumed water`);
+}
+
+/**
+ * Convert between any two units, crossing volume/mass/count using the ingredient's
+ * density and piece weights. Returns null when the units are unknown.
+ */
+export function convertQuantity(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredientName = '',
+  packageSize?: PackageSize
+): ConversionResult | null {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+
+  if (from === to) return result(amount, to, 'exact');
+
+  const fromKind = getUnitKind(from);
+  const toKind = getUnitKind(to);
+  if (!fromKind || !toKind) return null;
+
+  // Same kind: straight ratio
+  if (fromKind === toKind && fromKind !== 'count') {
+    return result(amount * unitDefinitions[from].toBase / unitDefinitions[to].toBase, to, 'exact');
+  }
+
+  // "2 each" and "2 medium" are the same two onions unless we know the sizes differ
+  if (fromKind === 'count' && toKind === 'count' && genericCountUnits.has(from) && genericCountUnits.has(to)) {
+    return result(amount, to, 'exact');
+  }
+
+  // Everything else goes through grams
+  const grams = toGrams(amount, from, ingredientName, packageSize);
+
+  if (toKind === 'mass') {
+    return result(grams.amount / unitDefinitions[to].toBase, to, grams.basis, grams.note);
+  }
+
+  if (toKind === 'volume') {
+    const density = findDensity(ingredientName);
+    const basis = weakestBasis(grams.basis, density !== null ? 'density' : 'estimate');
+    const millilitres = grams.amount / (density ?? 1);
+    return result(millilitres / unitDefinitions[to].toBase, to, basis, grams.note);
+  }
+
+  const unitGrams = toGrams(1, to, ingredientName, packageSize);
+  if (unitGrams.amount <= 0) return null;
+  return result(grams.amount / unitGrams.amount, to, weakestBasis(grams.basis, unitGrams.basis), grams.note || unitGrams.note);
+}
+
+/**
+ * Whether two units can be summed for an ingredient without guessing.
+ */
+export function areUnitsCompatible(unitA: string, unitB: string, ingredientName = ''): boolean {
+  const conversion = convertQuantity(1, unitA, unitB, ingredientName);
+  return conversion !== null && !conversion.approximate;
+}
+
+/**
+ * Express an amount in the most readable unit of a measurement system.
+ * Count units are left alone; volumes stay volumes unless preferMass is set
+ * (metric recipes usually weigh dry goods).
+ */
+export function toPreferredUnit(
+  amount: number,
+  unit: string,
+  system: MeasurementSystem,
+  ingredientName = '',
+  options: { preferMass?: boolean } = {}
+): ConversionResult {
+  const normalized = normalizeUnit(unit);
+  const kind = getUnitKind(normalized);
+
+  if (kind === null || kind === 'count') {
+    return result(amount, normalized, 'exact');
+  }
+
+  let base = kind === 'mass'
+    ? result(amount * unitDefinitions[normalized].toBase, 'g', 'exact')
+    : result(amount * unitDefinitions[normalized].toBase, 'ml', 'exact');
+
+  if (kind === 'volume' && options.preferMass && findDensity(ingredientName) !== null) {
+    base = toGrams(amount, normalized, ingredientName);
+  }
+
+  const target = base.unit === 'g'
+    ? pickMassUnit(base.amount, system)
+    : pickVolumeUnit(base.amount, system);
+
+  return result(
+    base.amount / unitDefinitions[target].toBase,
+    target,
+    base.basis,
+    base.note
+  );
+}
+
+function pickMassUnit(grams: number, system: MeasurementSystem): string {
+  if (system === 'metric') {
+    return grams >= 1000 ? 'kg' : 'g';
+  }
+  return grams >= 453.592 ? 'lb' : 'oz';
+}
+
+function pickVolumeUnit(millilitres: number, system: MeasurementSystem): string {
+  if (system === 'metric') {
+    return millilitres >= 1000 ? 'l' : 'ml';
+  }
+  if (millilitres < unitDefinitions['tbsp'].toBase) return 'tsp';
+  if (system === 'us') {
+    if (millilitres < unitDefinitions['cup'].toBase / 4) return 'tbsp';
+    if (millilitres < unitDefinitions['quart'].toBase) return 'cup';
+    if (millilitres < unitDefinitions['gallon'].toBase) return 'quart';
+    return 'gallon';
+  }
+  if (millilitres < unitDefinitions['imp fl oz'].toBase * 2) return 'tbsp';
+  if (millilitres < unitDefinitions['imp pint'].toBase) return 'imp fl oz';
+  if (millilitres < unitDefinitions['imp gallon'].toBase) return 'imp pint';
+  return 'imp gallon';
+}
+
+function findDensity(ingredientName: string): number | null {
+  const key = findIngredientKey(ingredientName, Object.keys(ingredientDensities));
+  return key ? ingredientDensities[key] : null;
+}
+
+function findPieceWeight(ingredientName: string, unit: string): number | null {
+  const key = findIngredientKey(ingredientName, Object.keys(ingredientPieceWeights));
+  if (!key) return null;
+  const weights = ingredientPieceWeights[key];
+  if (weights[unit] !== undefined) return weights[unit];
+  // A plain "2 onions" uses the default size
+  if (genericCountUnits.has(unit) && weights['each'] !== undefined) return weights['each'];
+  return null;
+}
+
+// Longest table key the name ends with as whole words, trying the singular form too. The end of
+// the name is the food itself: "chicken broth" is broth and "cream cheese" isn't plain cheese.
+function findIngredientKey(ingredientName: string, keys: string[]): string | null {
+  const name = ingredientName.toLowerCase().replace(/\([^)]*\)/g, ' ').split(',')[0].replace(/\s+/g, ' ').trim();
+  if (!name) return null;
+  const singular = name.replace(/(oes|ies|es|s)\b/g, (ending) =>
+    ending === 'ies' ? 'y' : ending === 'oes' ? 'o' : ending === 'es' ? 'e' : ''
+  );
+
+  let bestKey: string | null = null;
+  for (const key of keys) {
+    if ((endsWithWord(name, key) || endsWithWord(singular, key)) && (!bestKey || key.length > bestKey.length)) {
+      bestKey = key;
+    }
+  }
+  return bestKey;
+}
+
+function endsWithWord(name: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}$`).test(name);
+}
+
+const basisRank: Record<ConversionBasis, number> = {
+  'exact': 0,
+  'density': 1,
+  'piece-weight': 2,
+  'estimate': 3
+};
+
+function weakestBasis(a: ConversionBasis, b: ConversionBasis): ConversionBasis {
+  return basisRank[a] >= basisRank[b] ? a : b;
+}
+
+function result(amount: number, unit: string, basis: ConversionBasis, note?: string): ConversionResult {
+  return {
+    amount,
+    unit,
+    basis,
+    approximate: basis === 'estimate',
+    ...(note && { note })
+  };
+}
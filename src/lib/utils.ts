@@ -1,6 +1,9 @@
 // src/lib/utils.ts
 // Utility functions for the recipe app with rating formatting
 
+import { PantryStapleOverrides, ShoppingListItem } from '@/types/recipe';
+import { aggregateShoppingList, normalizeIngredientName } from './shoppingList';
+
 export function formatCookingTime(minutes: number): string {
   if (minutes < 60) {
     return `${minutes} min`;
@@ -44,35 +47,35 @@ export function getDifficultyColor(difficulty: string): string {
   }
 }
 
-export function generateShoppingList(recipes: any[]): any[] {
-  // Simplified shopping list generation
-  const allIngredients: any[] = [];
-  
-  recipes.forEach(recipe => {
-    if (recipe.ingredients) {
-      recipe.ingredients.forEach((ingredient: any) => {
-        allIngredients.push({
-          ...ingredient,
-          recipeId: recipe.id,
-          recipeTitle: recipe.title
-        });
-      });
-    }
-  });
-  
-  return allIngredients;
+export function generateShoppingList(recipes: any[]): ShoppingListItem[] {
+  return aggregateShoppingList(
+    recipes
+      .filter(recipe => Array.isArray(recipe?.ingredients))
+      .map(recipe => ({
+        recipeId: String(recipe.id),
+        recipeTitle: recipe.title,
+        ingredients: recipe.ingredients
+      }))
+  );
 }
 
-export function isPantryStaple(ingredient: string): boolean {
-  const pantryStaples = [
-    'salt', 'pepper', 'oil', 'olive oil', 'vegetable oil',
-    'flour', 'sugar', 'baking powder', 'baking soda',
-    'vanilla extract', 'garlic powder', 'onion powder'
-  ];
-  
-  return pantryStaples.some(staple => 
-    ingredient.toLowerCase().includes(staple.toLowerCase())
-  );
+// Staples match the whole name once it's normalized ("Kosher salt" is salt, "extra virgin olive oil" is
+// olive oil), so "garlic salt", "almond flour" and "sesame oil" are bought; a bare "pepper" in a recipe
+// means ground black pepper
+const pantryStaples = new Set([
+  'salt', 'pepper', 'salt and pepper', 'black pepper', 'ground black pepper', 'white pepper', 'ground pepper',
+  'black peppercorn', 'peppercorn', 'oil', 'olive oil', 'vegetable oil', 'canola oil', 'cooking oil',
+  'flour', 'sugar', 'baking powder', 'baking soda', 'vanilla extract', 'garlic powder', 'onion powder'
+]);
+
+export function isPantryStaple(ingredient: string, overrides?: PantryStapleOverrides): boolean {
+  const name = normalizeIngredientName(ingredient.replace(/\s+/g, ' '));
+  const matches = (staple: string) => !!staple.trim() && normalizeIngredientName(staple) === name;
+
+  if (overrides?.alwaysBuy.some(matches)) return false;
+  if (overrides?.assumeOwned.some(matches)) return true;
+
+  return pantryStaples.has(name);
 }
 
 export function estimateGroceryCost(ingredients: any[]): number {
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { daysUntilExpiry, getAtRiskIngredients, scoreWasteReduction, toExpiringIngredients } from './wasteReduction';
+
+const now = new Date(2026, 9, 19, 15, 30);
+
+describe('daysUntilExpiry', () => {
+  it('counts whole days from the local date', () => {
+    expect(daysUntilExpiry('2026-10-19', now)).toBe(0);
+    expect(daysUntilExpiry('2026-10-22', now)).toBe(3);
+    expect(daysUntilExpiry('2026-10-17', now)).toBe(-2);
+    expect(daysUntilExpiry('not a date', now)).toBeNull();
+    expect(daysUntilExpiry(undefined, now)).toBeNull();
+  });
+});
+
+describe('toExpiringIngredients', () => {
+  it('drops entries without a name or a YYYY-MM-DD date', () => {
+    expect(toExpiringIngredients([
+      { name: ' spinach ', useBy: '2026-10-20' },
+      { name: '', useBy: '2026-10-20' },
+      { name: 'milk', useBy: 'tomorrow' },
+      null
+    ])).toEqual([{ name: 'spinach', useBy: '2026-10-20' }]);
+    expect(toExpiringIngredients('spinach')).toEqual([]);
+  });
+});
+
+describe('getAtRiskIngredients', () => {
+  it('keeps items inside the window, most urgent first, and leaves out expired ones', () => {
+    const atRisk = getAtRiskIngredients([
+      { name: 'yogurt', useBy: '2026-10-23' },
+      { name: 'spinach', useBy: '2026-10-19' },
+      { name: 'milk', useBy: '2026-10-18' },
+      { name: 'cheese', useBy: '2026-11-30' },
+      { name: 'Spinach', useBy: '2026-10-21' }
+    ], 5, now);
+
+    expect(atRisk).toEqual([
+      { name: 'spinach', useBy: '2026-10-19', daysLeft: 0 },
+      { name: 'yogurt', useBy: '2026-10-23', daysLeft: 4 }
+    ]);
+  });
+});
+
+describe('scoreWasteReduction', () => {
+  const atRisk = [
+    { name: 'apples', useBy: '2026-10-19', daysLeft: 0 },
+    { name: 'chicken broth', useBy: '2026-10-22', daysLeft: 3 }
+  ];
+
+  it('matches plurals and more specific recipe ingredients', () => {
+    const info = scoreWasteReduction({ ingredients: [{ name: 'green apple', amount: 2, unit: 'item' }] }, atRisk);
+    expect(info).toEqual({ atRiskItemsUsed: ['apples'], atRiskItemsTotal: 2, score: 80 });
+  });
+
+  it('does not count an expiring item as used by a recipe that only shares a modifier', () => {
+    const info = scoreWasteReduction({ ingredients: [{ name: 'chicken', amount: 1, unit: 'lb' }] }, atRisk);
+    expect(info.atRiskItemsUsed).toEqual([]);
+    expect(info.score).toBe(0);
+  });
+
+  it('reads plain-string ingredients', () => {
+    const info = scoreWasteReduction({ ingredients: ['low-sodium chicken broth' as any] }, atRisk);
+    expect(info.atRiskItemsUsed).toEqual(['chicken broth']);
+  });
+});
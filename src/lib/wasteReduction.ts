@@ -0,0 +1,119 @@
+// src/lib/wasteReduction.ts
+// Rank recipes by how many soon-to-expire ingredients they use up
+
+import { ExpiringIngredient, Recipe, WasteReductionInfo } from '@/types/recipe';
+import { isKindOfFood } from './shoppingList';
+
+export interface AtRiskIngredient {
+  name: string;
+  useBy: string;
+  daysLeft: number;
+}
+
+// Items expiring within this many days count as at risk
+export const AT_RISK_WINDOW_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days until a YYYY-MM-DD date (negative once it has passed), or null without a valid date.
+ */
+export function daysUntilExpiry(expiryDate: string | undefined, now: Date = new Date()): number | null {
+  if (!expiryDate) return null;
+  const expiry = new Date(`${expiryDate}T00:00:00`);
+  if (isNaN(expiry.getTime())) return null;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((expiry.getTime() - today.getTime()) / DAY_MS);
+}
+
+/**
+ * Expiring items from a request body: entries without a name or a real
+ * YYYY-MM-DD use-by date are dropped rather than failing the search.
+ */
+export function toExpiringIngredients(raw: unknown): ExpiringIngredient[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((item: any) =>
+      item && typeof item.name === 'string' && item.name.trim() &&
+      typeof item.useBy === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.useBy) && daysUntilExpiry(item.useBy) !== null
+    )
+    .map((item: any) => ({ name: item.name.trim(), useBy: item.useBy }));
+}
+
+/**
+ * Items that expire within the window, most urgent first. Already-expired items
+ * are left out: we shouldn't be suggesting recipes that cook them.
+ */
+export function getAtRiskIngredients(
+  items: ExpiringIngredient[],
+  withinDays: number = AT_RISK_WINDOW_DAYS,
+  now: Date = new Date()
+): AtRiskIngredient[] {
+  const byName = new Map<string, AtRiskIngredient>();
+
+  for (const item of items) {
+    const daysLeft = daysUntilExpiry(item.useBy, now);
+    if (daysLeft === null || daysLeft < 0 || daysLeft > withinDays) continue;
+
+    const key = item.name.toLowerCase().trim();
+    const existing = byName.get(key);
+    if (!existing || daysLeft < existing.daysLeft) {
+      byName.set(key, { name: item.name.trim(), useBy: item.useBy, daysLeft });
+    }
+  }
+
+  return Array.from(byName.values()).sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/**
+ * Which at-risk items a recipe uses, and a 0-100 score weighted towards the
+ * items closest to spoiling (something expiring today counts most).
+ */
+export function scoreWasteReduction(recipe: Pick<Recipe, 'ingredients'>, atRisk: AtRiskIngredient[]): WasteReductionInfo {
+  const recipeNames = (Array.isArray(recipe.ingredients) ? recipe.ingredients : [])
+    .map((ingredient: any) => (typeof ingredient === 'string' ? ingredient : ingredient?.name) || '')
+    .filter(Boolean);
+
+  let usedWeight = 0;
+  let totalWeight = 0;
+  const atRiskItemsUsed: string[] = [];
+
+  for (const item of atRisk) {
+    const weight = 1 / (1 + item.daysLeft);
+    totalWeight += weight;
+
+    // Expiring tomatoes go into a recipe's cherry tomatoes, but expiring chicken
+    // broth isn't used up by a recipe that calls for chicken
+    if (recipeNames.some(recipeName => isKindOfFood(recipeName, item.name))) {
+      usedWeight += weight;
+      atRiskItemsUsed.push(item.name);
+    }
+  }
+
+  return {
+    atRiskItemsUsed,
+    atRiskItemsTotal: atRisk.length,
+    score: totalWeight > 0 ? Math.round((usedWeight / totalWeight) * 100) : 0
+  };
+}
+
+/**
+ * Attach waste-reduction info to each recipe and sort the best "use it up" recipes first.
+ * The sort is stable, so recipes that tie keep their original (e.g. rating) order.
+ */
+export function rankRecipesByWasteReduction<T extends Pick<Recipe, 'ingredients'>>(
+  recipes: T[],
+  atRisk: AtRiskIngredient[]
+): Array<T & { wasteReduction: WasteReductionInfo }> {
+  return recipes
+    .map(recipe => ({ ...recipe, wasteReduction: scoreWasteReduction(recipe, atRisk) }))
+    .sort((a, b) => b.wasteReduction.score - a.wasteReduction.score);
+}
+
+/**
+ * "Uses 3 of your 4 expiring items", or null when the recipe uses none.
+ */
+export function describeWasteReduction(info: WasteReductionInfo | undefined): string | null {
+  if (!info || info.atRiskItemsUsed.length === 0) return null;
+  return `Uses ${info.atRiskItemsUsed.length} of your ${info.atRiskItemsTotal} expiring item${info.atRiskItemsTotal === 1 ? '' : 's'}`;
+}
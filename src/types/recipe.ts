@@ -3,8 +3,17 @@
 export interface Ingredient {
   name: string;
   amount: number;
+  amountMax?: number; // upper bound for ranges like "2-3 cloves"
   unit: string;
+  packageSize?: {
+    amount: number;
+    unit: string;
+  };
+  preparation?: string;
+  notes?: string;
   optional?: boolean;
+  toTaste?: boolean;
+  originalText?: string;
   estimatedPrice?: number;
 }
 
@@ -16,10 +25,138 @@ export interface NutritionInfo {
   fiber?: number;
   sodium?: number;
   sugar?: number;
+  saturatedFat?: number;
+  cholesterol?: number;
+  micronutrients?: Micronutrients;
+  glycemicLoad?: number; // per serving
+  carbExchanges?: number;
+  glycemicCoverage?: number; // 0-100, how much of the recipe the glycemic load could rate
 }
 
 export interface Nutrition extends NutritionInfo {}
 
+// Vitamins and minerals, in the units listed in foodComposition.json
+export type MicronutrientKey =
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'magnesium'
+  | 'zinc'
+  | 'selenium'
+  | 'iodine'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'vitaminB12'
+  | 'folate';
+
+export type Micronutrients = Partial<Record<MicronutrientKey, number>>;
+
+// Nutrients in the food-composition dataset; units are listed in foodComposition.json
+export type NutrientKey =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'fiber'
+  | 'sugar'
+  | 'sodium'
+  | 'saturatedFat'
+  | 'cholesterol'
+  | MicronutrientKey;
+
+export type NutrientProfile = Record<NutrientKey, number>;
+
+// Nutrients with a daily reference intake; sugar has none (only added sugars do)
+export type DailyValueKey = Exclude<NutrientKey, 'sugar'>;
+
+export type BiologicalSex = 'female' | 'male';
+
+// The parts of a health profile that reference intakes depend on
+export interface ReferenceIntakeProfile {
+  age?: number;
+  sex?: BiologicalSex;
+}
+
+export interface ReferenceIntakes {
+  basis: 'label' | 'personal'; // FDA label values, or DRIs for the profile's age and sex
+  values: Record<DailyValueKey, number>;
+}
+
+export interface DailyValueEntry {
+  key: DailyValueKey;
+  name: string;
+  unit: string;
+  amount: number;
+  reference: number;
+  percent: number;
+}
+
+export interface FoodCompositionEntry {
+  id: string;
+  name: string;
+  category: string;
+  aliases: string[]; // ingredient names that mean this food
+  per100g: NutrientProfile;
+}
+
+export interface FoodCompositionDataset {
+  source: string;
+  nutrients: Record<NutrientKey, { name: string; unit: string }>;
+  foods: FoodCompositionEntry[];
+}
+
+// What one recipe ingredient contributes, and how sure we are of it
+export interface IngredientNutrition {
+  ingredient: string;
+  foodId?: string; // absent when nothing in the dataset matched
+  foodName?: string;
+  matchScore: number; // 0-1: 1 for an exact name, lower for fuzzy matches
+  grams: number;
+  weightApproximate: boolean; // grams came from a density or rough per-unit weight
+  nutrients: NutrientProfile;
+  glycemicIndex?: number; // absent for unmatched foods and those without a GI value
+}
+
+export interface NutritionCoverage {
+  matched: number;
+  total: number;
+  unmatched: string[]; // counted as zero in the totals
+  fuzzyMatches: Array<{ ingredient: string; food: string }>; // matched by a trailing alias or a close spelling, not by name
+  confidence: number; // 0-100, weighted by each ingredient's share of the recipe's weight
+}
+
+export interface NutritionAnalysis {
+  total: NutrientProfile;
+  perServing: NutrientProfile;
+  ingredients: IngredientNutrition[];
+  coverage: NutritionCoverage;
+  glycemic: GlycemicLoadAnalysis;
+}
+
+export interface GlycemicIndexEntry {
+  gi: number; // glucose = 100
+  estimated?: boolean; // too little carbohydrate to test; the usual value for its food group
+}
+
+export interface GlycemicIndexDataset {
+  source: string;
+  foods: Record<string, GlycemicIndexEntry>; // keyed by food-composition id
+}
+
+export type GlycemicLoadLevel = 'low' | 'medium' | 'high';
+
+// Glycemic load and diabetic carbohydrate exchanges for one serving
+export interface GlycemicLoadAnalysis {
+  glycemicLoad: number;
+  level: GlycemicLoadLevel;
+  glycemicIndex: number | null; // carbohydrate-weighted GI of the rated ingredients
+  availableCarbs: number; // g, carbohydrate less fiber
+  carbExchanges: number; // 15 g of available carbohydrate each, to the nearest half
+  coverage: number; // 0-100, share of the available carbohydrate that has a GI value, less the weight share of unmatched ingredients
+  unrated: string[]; // unmatched ingredients, and those with carbohydrate but no GI value, left out of the load
+}
+
 export type CuisineType = 
   | 'Italian' 
   | 'Mexican' 
@@ -66,6 +203,9 @@ export interface Recipe {
   createdAt?: Date;
   author?: string;
   tags?: string[];
+  wasteReduction?: WasteReductionInfo;
+  budgetImpact?: BudgetImpact;
+  targetFit?: TargetFit;
 }
 
 export interface SearchFilters {
@@ -88,6 +228,471 @@ export interface UserPreferences {
   };
   householdSize: number;
   cookingSkillLevel: 'Beginner' | 'Intermediate' | 'Advanced';
+  weeklyBudget?: number; // overrides the weekly budget worked out from budgetRange
+}
+
+export type PantryLocation = 'fridge' | 'freezer' | 'pantry';
+
+// An ingredient the user has with an optional use-by date (YYYY-MM-DD)
+export interface ExpiringIngredient {
+  name: string;
+  useBy: string;
+}
+
+export interface WasteReductionInfo {
+  atRiskItemsUsed: string[];
+  atRiskItemsTotal: number;
+  score: number; // 0-100, weighted towards items closest to expiring
+}
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  location: PantryLocation;
+  purchaseDate?: string; // YYYY-MM-DD
+  expiryDate?: string; // YYYY-MM-DD
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// One pantry item's share of a cooked recipe
+export interface PantryDeduction {
+  pantryItemId: string;
+  name: string;
+  unit: string;
+  previousQuantity: number;
+  deducted: number;
+  remaining: number;
+  approximate?: boolean; // unit conversion relied on an estimate
+}
+
+export interface LowStockItem {
+  pantryItemId: string;
+  name: string;
+  remaining: number;
+  unit: string;
+  status: 'low' | 'depleted';
+  restockAmount: number; // enough to cook the same recipe again
+}
+
+export interface CookEvent {
+  id: string;
+  recipeId?: string;
+  recipeTitle: string;
+  servings: number;
+  deductions: PantryDeduction[];
+  unmatchedIngredients: string[];
+  cookedAt: string;
+  undoneAt?: string;
+  undoableUntil: string;
+}
+
+// 'ingredient' is what's left in a package bought for a recipe; 'portion' is cooked servings nobody ate
+export type LeftoverKind = 'ingredient' | 'portion';
+
+export interface Leftover {
+  id: string;
+  kind: LeftoverKind;
+  name: string;
+  amount: number;
+  unit: string; // 'serving' for portions
+  cookEventId?: string;
+  recipeTitle?: string;
+  useBy: string; // YYYY-MM-DD
+  createdAt: string;
+  usedAt?: string;
+}
+
+// Same values as a diet plan's goalType
+export type NutritionGoal =
+  | 'maintenance'
+  | 'improvement'
+  | 'weight-loss'
+  | 'weight-gain'
+  | 'athletic'
+  | 'heart-healthy'
+  | 'anti-inflammatory';
+
+export interface NutrientTarget {
+  amount: number;
+  limit: 'min' | 'max'; // reach at least this much, or stay under it
+  reason?: string; // set when a goal or health condition moved it off the reference intake
+}
+
+// A user's daily targets, derived from their health profile and diet plan goal
+export interface NutrientTargets {
+  goal: NutritionGoal;
+  conditions: string[];
+  nutrients: Partial<Record<DailyValueKey, NutrientTarget>>;
+  fluidMl?: NutrientTarget; // drinks aren't in the food log, so this is guidance only
+  notes: string[]; // conflicting guidance and other caveats
+  computedAt: string;
+}
+
+export interface TargetFitLine {
+  key: DailyValueKey;
+  name: string;
+  unit: string;
+  amount: number; // in one serving
+  target: NutrientTarget;
+  consumed: number; // already logged today
+  remaining: number; // negative once a cap has been passed
+  status: 'fits' | 'exceeds' | 'helps' | 'met';
+}
+
+// How one serving of a recipe fits what's left of today's targets
+export interface TargetFit {
+  date: string; // YYYY-MM-DD
+  lines: TargetFitLine[];
+  exceeds: DailyValueKey[];
+  message: string;
+}
+
+// Unlike a diet plan's days, the log has a single snack slot
+export type FoodLogMealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// Something a user ate, with its nutrients worked out when it was logged
+export interface FoodLogEntry {
+  id: string;
+  eatenOn: string; // YYYY-MM-DD
+  mealSlot: FoodLogMealSlot;
+  description: string; // the recipe's title, or the foods as typed
+  recipeId?: string;
+  portions: number; // servings of the recipe; 1 for free-text foods
+  nutrients: NutrientProfile; // for the portions eaten
+  confidence: number; // 0-100, from the nutrition coverage report
+  unmatched: string[]; // ingredients counted as zero
+  glycemicLoad?: number; // for the portions eaten; absent on entries logged before it was tracked
+  createdAt?: string;
+}
+
+// The glycemic load of everything logged in one meal slot on one day
+export interface MealGlycemicLoad {
+  date: string; // YYYY-MM-DD
+  mealSlot: FoodLogMealSlot;
+  descriptions: string[];
+  glycemicLoad: number;
+  level: GlycemicLoadLevel;
+  carbExchanges: number;
+  unmatched: string[]; // foods with no nutrition data, so missing from the load
+}
+
+export interface DailyIntakeSummary {
+  date: string; // YYYY-MM-DD
+  entryCount: number;
+  totals: NutrientProfile;
+  byMealSlot: Record<FoodLogMealSlot, NutrientProfile>;
+  dailyValues: DailyValueEntry[];
+  confidence: number; // calorie-weighted across the day's entries
+  unmatched: string[];
+}
+
+export interface WeeklyIntakeSummary {
+  start: string; // Monday, YYYY-MM-DD
+  end: string;
+  days: DailyIntakeSummary[]; // all seven, including days with nothing logged
+  daysLogged: number;
+  averageDaily: NutrientProfile; // over the days with something logged
+  dailyValues: DailyValueEntry[]; // of the average day
+}
+
+// How much of a merged shopping list line one recipe asked for, in its own unit
+export interface ShoppingListSource {
+  recipeId: string;
+  recipeTitle?: string;
+  name: string;
+  amount: number;
+  unit: string;
+  estimatedPrice?: number;
+}
+
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  amount?: number;
+  unit?: string;
+  recipeId?: string;
+  recipeTitle?: string;
+  sources?: ShoppingListSource[];
+  approximate?: boolean; // total converted between units via density or piece weights
+  checked: boolean;
+  estimatedPrice?: number;
+  isAlreadyOwned: boolean;
+  ownedAmount?: number; // how much of `amount` the pantry already covers, in `unit`
+  amountToBuy?: number; // what's left to buy when only part is owned
+  isPantryStaple?: boolean; // assumed owned because it's a staple, not from pantry records
+  category?: string; // a StoreAisle id; older lists may hold free-text labels
+  version?: number; // goes up each time the server saves a change to this item
+  lastOpId?: string; // the last queued operation applied, so a replay is recognised
+}
+
+// An edit made on the client, queued until it reaches the server.
+// baseVersion is the item version the edit was made against.
+export type ShoppingListOperation =
+  | { opId: string; type: 'add'; item: ShoppingListItem; createdAt: string }
+  | {
+      opId: string;
+      type: 'update';
+      itemId: string;
+      changes: Partial<Pick<ShoppingListItem, 'checked' | 'name' | 'amount' | 'unit'>>;
+      baseVersion: number;
+      createdAt: string;
+    }
+  | { opId: string; type: 'remove'; itemId: string; baseVersion: number; createdAt: string };
+
+export interface ShoppingListOperationResult {
+  opId: string;
+  status: 'applied' | 'skipped' | 'conflict';
+  message?: string;
+}
+
+// Per-account corrections to the built-in pantry staples list
+export interface PantryStapleOverrides {
+  assumeOwned: string[]; // always have these, even though they aren't default staples
+  alwaysBuy: string[]; // default staples this user doesn't keep
+}
+
+export type StoreAisle =
+  | 'produce'
+  | 'bakery'
+  | 'meat-seafood'
+  | 'dairy-eggs'
+  | 'pantry'
+  | 'spices-condiments'
+  | 'snacks'
+  | 'beverages'
+  | 'frozen'
+  | 'household'
+  | 'other';
+
+// A store's walking route; aisles missing from aisleOrder go last in the default order
+export interface StoreLayout {
+  id: string;
+  name: string;
+  aisleOrder: StoreAisle[];
+  isDefault: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type SharedListRole = 'owner' | 'editor' | 'viewer';
+
+// A shopping list several accounts shop from; `role` is the current user's
+export interface SharedList {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: SharedListRole;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SharedListMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: SharedListRole;
+  joinedAt?: string;
+}
+
+// A shared list item; `version` goes up on every change so stale edits can be refused
+export interface SharedListItem extends ShoppingListItem {
+  checkedBy?: string; // user id
+  checkedByName?: string;
+  checkedAt?: string;
+  addedBy?: string;
+  version: number;
+  updatedAt?: string;
+}
+
+export interface GroceryStore {
+  id: string;
+  name: string;
+  logo: string;
+  rating: number;
+  deliveryTime: string;
+  deliveryFee: number;
+  minimumOrder: number;
+  distance: number; // miles, 0 for services that shop several stores
+  availability: number; // percentage of items usually in stock
+}
+
+// A purchasable package in the product catalog
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  match: string[]; // ingredient names it is sold as
+  exclude?: string[]; // names that contain a match term but mean something else ("peanut butter")
+  size: { amount: number; unit: string };
+  price: number; // baseline shelf price, before store pricing
+}
+
+// The packages that cover an ingredient, and what is left once the recipe is made
+export interface ProductMatch {
+  packages: Array<{ product: CatalogProduct; count: number }>;
+  unit: string; // the amounts below are all in this unit
+  neededAmount: number;
+  purchasedAmount: number;
+  leftoverAmount: number;
+  price: number; // baseline, before store pricing
+  approximate: boolean; // the needed amount was converted through an estimated weight or density
+}
+
+// One ingredient's price at one store
+export interface StoreItemPrice {
+  ingredient: Ingredient;
+  storeId: string;
+  price: number; // what the shopper pays, after any sale
+  unit: string;
+  inStock: boolean;
+  salePrice?: number;
+  originalPrice?: number;
+  promotion?: string;
+  packages?: ProductMatch; // set when the price is for catalog packages rather than the exact amount
+  substitutes?: Array<{
+    name: string;
+    price: number;
+    savings: number;
+  }>;
+}
+
+export interface PriceData {
+  store: GroceryStore;
+  items: StoreItemPrice[];
+  totalCost: number; // in-stock items plus delivery
+  totalSavings: number;
+  unavailableItems: number; // out of stock here, so missing from totalCost
+  estimatedDeliveryTime: string;
+}
+
+// A retailer whose cart a shopping list can be handed off to
+export interface CartRetailer {
+  id: string;
+  name: string;
+}
+
+// A shopping list item matched to a product in the retailer's catalog
+export interface CartLine {
+  ingredients: Ingredient[]; // every list item the line buys for, e.g. "garlic" and "minced garlic"
+  productId: string;
+  productName: string;
+  quantity: number; // packages to add
+  price?: number;
+  url?: string; // the product at the retailer, when there's no cart deep link
+}
+
+export interface CartUnmatchedItem {
+  ingredient: Ingredient;
+  reason: string;
+}
+
+export interface CartExport {
+  providerId: string;
+  retailer: CartRetailer;
+  lines: CartLine[];
+  unmatched: CartUnmatchedItem[];
+  estimatedTotal: number;
+  checkoutUrl?: string; // opens the filled cart, for retailers that accept one in a link
+  payload: unknown; // the retailer's add-to-cart request, for providers that send it server-side
+}
+
+// A price seen at a store on one day, per single `unit`
+export interface PriceObservation {
+  id: string;
+  ingredientKey: string; // normalizeIngredientName of the ingredient
+  ingredientName: string;
+  storeId: string;
+  unit: string;
+  unitPrice: number;
+  regularUnitPrice?: number; // set when unitPrice is a sale price
+  promotion?: string;
+  source: 'provider' | 'user';
+  observedOn: string; // YYYY-MM-DD
+}
+
+export interface PriceTrend {
+  ingredientKey: string;
+  unit: string;
+  currentPrice: number; // the store's latest price this week: its biggest deal, else the cheapest store
+  currentStoreId: string;
+  typicalPrice: number; // that store's median over the window; lowest and highest are that store's too
+  lowestPrice: number;
+  highestPrice: number;
+  direction: 'rising' | 'falling' | 'steady';
+  changePercent: number | null; // median across stores of each one's recent against earlier median; null without earlier data
+  isGoodDeal: boolean;
+  dealReason?: string;
+  observationCount: number;
+  windowDays: number;
+}
+
+// A frequently bought ingredient that is cheaper than usual right now
+export interface PriceAlert {
+  ingredientKey: string;
+  ingredientName: string;
+  storeId: string;
+  unit: string;
+  price: number;
+  typicalPrice: number;
+  percentBelow: number;
+  timesBought: number;
+  message: string;
+}
+
+// Money actually spent on one shopping trip
+export interface GrocerySpend {
+  id: string;
+  amount: number;
+  spentOn: string; // YYYY-MM-DD
+  storeId?: string;
+  note?: string;
+  createdAt?: string;
+}
+
+// A cheaper ingredient from the substitution database and what the swap saves
+export interface BudgetSubstitution {
+  ingredientName: string;
+  substitute: string;
+  currentPrice: number;
+  substitutePrice: number;
+  saving: number;
+}
+
+export interface WeeklyBudgetSummary {
+  weekStart: string; // Monday, YYYY-MM-DD
+  weekEnd: string; // Sunday
+  budget: number;
+  budgetSource: 'weekly' | 'per-serving'; // set directly, or budgetRange.max for every serving of every meal
+  plannedMealsCost: number; // active diet plan items not already on the shopping list
+  shoppingListCost: number; // unchecked items still to buy
+  actualSpend: number;
+  projectedTotal: number; // spent so far plus everything still to buy
+  remaining: number; // negative when over
+  status: 'under' | 'near' | 'over';
+  warnings: string[];
+  substitutions: BudgetSubstitution[];
+  spendEntries: GrocerySpend[];
+}
+
+// What cooking one more recipe would do to this week's budget
+export interface BudgetImpact {
+  recipeCost: number;
+  projectedTotal: number;
+  budget: number;
+  overBy: number; // 0 when it still fits
+  message: string;
+}
+
+export interface DietPlanBudgetCheck {
+  estimatedWeeklyCost: number;
+  costPerServing: number;
+  budgetRange: { min: number; max: number };
+  withinBudget: boolean;
+  warnings: string[];
+  substitutions: BudgetSubstitution[];
 }
 
 export interface SearchResult {
@@ -106,6 +106,169 @@ CREATE TABLE IF NOT EXISTS shopping_list_items (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create pantry_items table
+CREATE TABLE IF NOT EXISTS pantry_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    quantity NUMERIC DEFAULT 1 CHECK (quantity >= 0),
+    unit TEXT DEFAULT 'item',
+    location TEXT NOT NULL DEFAULT 'pantry' CHECK (location IN ('fridge', 'freezer', 'pantry')),
+    purchase_date DATE,
+    expiry_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create cook_events table (pantry deductions made when a recipe is cooked)
+CREATE TABLE IF NOT EXISTS cook_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    recipe_id TEXT,
+    recipe_title TEXT NOT NULL,
+    servings INTEGER DEFAULT 1,
+    deductions JSONB DEFAULT '[]'::jsonb,
+    unmatched_ingredients JSONB DEFAULT '[]'::jsonb,
+    cooked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    undone_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create store_layouts table (a store's walking route as an ordered list of aisles)
+CREATE TABLE IF NOT EXISTS store_layouts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    aisle_order JSONB DEFAULT '[]'::jsonb,
+    is_default BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create shared_lists table (a shopping list a household shops from together)
+CREATE TABLE IF NOT EXISTS shared_lists (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    owner_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create shared_list_members table (who can see and edit a shared list)
+CREATE TABLE IF NOT EXISTS shared_list_members (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    list_id UUID REFERENCES shared_lists(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(list_id, user_id)
+);
+
+-- Create shared_list_items table (one row per item so members can edit items independently)
+CREATE TABLE IF NOT EXISTS shared_list_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    list_id UUID REFERENCES shared_lists(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    amount NUMERIC,
+    unit TEXT,
+    category TEXT,
+    sources JSONB DEFAULT '[]'::jsonb,
+    estimated_price NUMERIC,
+    checked BOOLEAN DEFAULT false,
+    checked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    checked_at TIMESTAMP WITH TIME ZONE,
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create price_observations table (one row per ingredient, store and day; reported_by is null for provider quotes)
+CREATE TABLE IF NOT EXISTS price_observations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    ingredient_key TEXT NOT NULL,
+    ingredient_name TEXT NOT NULL,
+    store_id TEXT NOT NULL,
+    unit TEXT NOT NULL DEFAULT '',
+    unit_price NUMERIC NOT NULL,
+    regular_unit_price NUMERIC,
+    promotion TEXT,
+    reported_by UUID REFERENCES users(id) ON DELETE CASCADE,
+    observed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (ingredient_key, store_id, unit, observed_on, reported_by)
+);
+
+-- Create grocery_spend table (what a user actually paid on a shopping trip)
+CREATE TABLE IF NOT EXISTS grocery_spend (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    spent_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    store_id TEXT,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create cart_exports table (shopping lists handed off to a retailer cart, with the items no product matched)
+CREATE TABLE IF NOT EXISTS cart_exports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    provider_id TEXT NOT NULL,
+    retailer_id TEXT NOT NULL,
+    item_count INTEGER NOT NULL DEFAULT 0,
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    unmatched_items JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create leftovers table (what was left after cooking: opened packages and uneaten servings)
+CREATE TABLE IF NOT EXISTS leftovers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    cook_event_id UUID REFERENCES cook_events(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('ingredient', 'portion')),
+    name TEXT NOT NULL,
+    amount DECIMAL(10,3) NOT NULL,
+    unit TEXT NOT NULL,
+    recipe_title TEXT,
+    use_by DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create food_log_entries table (what a user ate, per meal slot, with nutrients worked out when it was logged)
+CREATE TABLE IF NOT EXISTS food_log_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    eaten_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    meal_slot TEXT NOT NULL CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+    description TEXT NOT NULL,
+    recipe_id TEXT,
+    portions DECIMAL(6,2) NOT NULL DEFAULT 1 CHECK (portions > 0),
+    nutrients JSONB NOT NULL,
+    confidence INTEGER NOT NULL DEFAULT 0,
+    unmatched TEXT[] DEFAULT '{}',
+    glycemic_load DECIMAL(6,1),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create nutrient_targets table (daily targets worked out from a user's goal and health conditions)
+CREATE TABLE IF NOT EXISTS nutrient_targets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    targets JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Age and sex on the health profile set the reference intakes used for % Daily Value
+-- (user_health_profiles is created by the health features' own setup, so only add the columns here)
+ALTER TABLE IF EXISTS user_health_profiles ADD COLUMN IF NOT EXISTS age INTEGER CHECK (age > 0 AND age < 130);
+ALTER TABLE IF EXISTS user_health_profiles ADD COLUMN IF NOT EXISTS sex TEXT CHECK (sex IN ('female', 'male'));
+
+-- Glycemic load per food log entry, for databases created before it was tracked
+ALTER TABLE IF EXISTS food_log_entries ADD COLUMN IF NOT EXISTS glycemic_load DECIMAL(6,1);
+
 -- Create indexes
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_user_data_user_id ON user_data(user_id);
@@ -116,6 +279,34 @@ CREATE INDEX IF NOT EXISTS idx_diet_plans_active ON diet_plans(is_active);
 CREATE INDEX IF NOT EXISTS idx_meal_plan_days_diet_plan_id ON meal_plan_days(diet_plan_id);
 CREATE INDEX IF NOT EXISTS idx_shopping_categories_diet_plan_id ON shopping_list_categories(diet_plan_id);
 CREATE INDEX IF NOT EXISTS idx_shopping_items_category_id ON shopping_list_items(category_id);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_expiry_date ON pantry_items(expiry_date);
+CREATE INDEX IF NOT EXISTS idx_cook_events_user_id ON cook_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_store_layouts_user_id ON store_layouts(user_id);
+CREATE INDEX IF NOT EXISTS idx_shared_lists_owner_id ON shared_lists(owner_id);
+CREATE INDEX IF NOT EXISTS idx_shared_list_members_list_id ON shared_list_members(list_id);
+CREATE INDEX IF NOT EXISTS idx_shared_list_members_user_id ON shared_list_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_shared_list_items_list_id ON shared_list_items(list_id);
+CREATE INDEX IF NOT EXISTS idx_price_observations_ingredient ON price_observations(ingredient_key, observed_on);
+CREATE INDEX IF NOT EXISTS idx_price_observations_reported_by ON price_observations(reported_by);
+CREATE INDEX IF NOT EXISTS idx_grocery_spend_user_spent_on ON grocery_spend(user_id, spent_on);
+CREATE INDEX IF NOT EXISTS idx_cart_exports_user_created ON cart_exports(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_leftovers_user_use_by ON leftovers(user_id, use_by);
+CREATE INDEX IF NOT EXISTS idx_leftovers_cook_event ON leftovers(cook_event_id);
+CREATE INDEX IF NOT EXISTS idx_food_log_entries_user_eaten_on ON food_log_entries(user_id, eaten_on);
+
+-- Add to a pantry item's quantity (negative to take away) in one statement, so
+-- concurrent cook events and undos don't overwrite each other. Never goes below
+-- zero; returns the new quantity, or NULL when the item no longer exists.
+CREATE OR REPLACE FUNCTION adjust_pantry_quantity(p_item_id UUID, p_user_id UUID, p_change NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+AS $$
+    UPDATE pantry_items
+    SET quantity = GREATEST(0, quantity + p_change), updated_at = NOW()
+    WHERE id = p_item_id AND user_id = p_user_id
+    RETURNING quantity;
+$$;
 
 -- Enable Row Level Security (RLS) on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -127,6 +318,18 @@ ALTER TABLE diet_plans ENABLE ROW LEVEL SECURITY;
 ALTER TABLE meal_plan_days ENABLE ROW LEVEL SECURITY;
 ALTER TABLE shopping_list_categories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE shopping_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_layouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shared_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shared_list_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shared_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_observations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE grocery_spend ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cart_exports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leftovers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE food_log_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nutrient_targets ENABLE ROW LEVEL SECURITY;
 
 -- Note: RLS policies are intentionally permissive for this application
 -- since we're using custom JWT authentication instead of Supabase Auth